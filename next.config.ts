@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Configuration placeholder - no redirects currently needed
+  // Tesseract spawns its OCR worker from its own files; load it from node_modules
+  serverExternalPackages: ["tesseract.js"],
 };
 
 export default nextConfig;
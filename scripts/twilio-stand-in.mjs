@@ -0,0 +1,138 @@
+/**
+ * Local Twilio Stand-in
+ *
+ * Minimal imitation of the Twilio Messages API for development and manual
+ * testing of the SMS queue without sending real texts. Point the app at it:
+ *
+ *   TWILIO_API_URL=http://localhost:4010
+ *   TWILIO_WEBHOOK_BASE_URL=http://localhost:3000
+ *
+ * and run `npm run twilio:stand-in` with the same TWILIO_ACCOUNT_SID and
+ * TWILIO_AUTH_TOKEN as the app.
+ *
+ * Features:
+ * - Accepts Messages.json sends and returns a queued message with a SID
+ * - Posts signed sent / delivered status callbacks to StatusCallback
+ * - Failure numbers: ...0500 answers 503 (retried by the queue), ...0400
+ *   answers 400 with error 21211, ...0600 is accepted then undelivered
+ * - GET /messages lists everything received
+ * - POST /inbound (From, Body) simulates a customer reply, posted signed
+ *   to the app's inbound webhook
+ *
+ * The SMS queue tests (tests/smsQueue.test.mjs, `npm test`) run against it.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { createServer } from 'http';
+
+const port = Number(process.env.TWILIO_STAND_IN_PORT || 4010);
+const accountSid = process.env.TWILIO_ACCOUNT_SID || 'ACstandin';
+const appUrl = process.env.TWILIO_WEBHOOK_BASE_URL || 'http://localhost:3000';
+const authToken = process.env.TWILIO_AUTH_TOKEN || 'stand-in-token';
+const messages = [];
+
+function sign(url, params) {
+  const payload = Object.keys(params).sort().reduce((data, key) => data + key + params[key], url);
+  return createHmac('sha1', authToken).update(payload).digest('base64');
+}
+
+async function postWebhook(url, params) {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Twilio-Signature': sign(url, params)
+      },
+      body: new URLSearchParams(params)
+    });
+    console.log(`Webhook ${url} (${params.MessageStatus || params.Body}): HTTP ${response.status}`);
+    return response;
+  } catch (error) {
+    console.error(`Webhook to ${url} failed:`, error.message);
+    return null;
+  }
+}
+
+function json(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/messages') {
+    return json(res, 200, { messages });
+  }
+
+  if (req.method === 'POST' && req.url === '/inbound') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const { From, Body } = Object.fromEntries(new URLSearchParams(body));
+      const params = {
+        MessageSid: `SM${randomBytes(16).toString('hex')}`,
+        AccountSid: accountSid,
+        From: From || '',
+        To: process.env.TWILIO_PHONE_NUMBER || '',
+        Body: Body || ''
+      };
+      const response = await postWebhook(`${appUrl}/api/integrations/twilio/inbound`, params);
+      res.writeHead(response?.status || 502, { 'Content-Type': 'text/xml' });
+      res.end(response ? await response.text() : '');
+    });
+    return;
+  }
+
+  const match = req.url?.match(/^\/2010-04-01\/Accounts\/([^/]+)\/Messages\.json$/);
+  if (req.method !== 'POST' || !match) {
+    return json(res, 404, { code: 20404, message: 'Not found' });
+  }
+
+  const expectedAuth = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`;
+  if (match[1] !== accountSid || req.headers.authorization !== expectedAuth) {
+    return json(res, 401, { code: 20003, message: 'Authenticate' });
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const params = Object.fromEntries(new URLSearchParams(body));
+    const to = params.To || '';
+
+    if (to.endsWith('0500')) {
+      return json(res, 503, { code: 20503, message: 'Service unavailable' });
+    }
+    if (!/^\+\d{10,15}$/.test(to) || to.endsWith('0400')) {
+      return json(res, 400, { code: 21211, message: `The 'To' number ${to} is not a valid phone number.` });
+    }
+
+    const message = {
+      sid: `SM${randomBytes(16).toString('hex')}`,
+      to,
+      from: params.From,
+      body: params.Body,
+      status: 'queued',
+      date_created: new Date().toUTCString()
+    };
+    messages.push(message);
+    console.log(`Message ${message.sid} to ${to}: ${params.Body}`);
+    json(res, 201, message);
+
+    if (params.StatusCallback) {
+      const base = { MessageSid: message.sid, AccountSid: accountSid, To: to, From: params.From || '' };
+      const finalStatus = to.endsWith('0600')
+        ? { ...base, MessageStatus: 'undelivered', ErrorCode: '30003' }
+        : { ...base, MessageStatus: 'delivered' };
+
+      setTimeout(() => postWebhook(params.StatusCallback, { ...base, MessageStatus: 'sent' }), 500);
+      setTimeout(() => {
+        message.status = finalStatus.MessageStatus;
+        postWebhook(params.StatusCallback, finalStatus);
+      }, 1500);
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Twilio stand-in listening on http://localhost:${port} (account ${accountSid})`);
+});
@@ -6,20 +6,40 @@
  * 
  * Features:
  * - Separate from main lead flow to prevent blocking conversions
- * - Email notifications to sales team
- * - Lead information integration
+ * - Preferences saved as a requested appointment for the CRM calendar
+ * - Email notifications to sales team, from the
+ *   appointment_preferences_notification template
+ * - Preferences tied to the exact splash lead via its form session
  * - Error handling with graceful degradation
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { createClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
+import { parseLeadReference, resolveSessionLead } from '@/lib/leadSession';
+import { isPreferredTime, saveAppointmentRequest } from '@/lib/appointments';
+import { renderMessageTemplate } from '@/lib/messageTemplates';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
 
 const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 export async function POST(request: NextRequest) {
   try {
-    const { preferredDate, preferredTime, source } = await request.json();
+    const { preferredDate, preferredTime, source, leadId, sessionId } = await request.json();
+    const leadReference = parseLeadReference(leadId, sessionId);
+
+    if (!leadReference) {
+      return NextResponse.json(
+        { error: 'A valid leadId and sessionId are required' },
+        { status: 400 }
+      );
+    }
 
     // Validate required fields
     if (!preferredDate && !preferredTime) {
@@ -29,10 +49,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    try {
-      // Get the most recent lead information
-      const leadInfo = await getRecentLeadInfo();
+    if (preferredDate && (typeof preferredDate !== 'string' || !DATE_PATTERN.test(preferredDate) || Number.isNaN(Date.parse(preferredDate)))) {
+      return NextResponse.json(
+        { error: 'preferredDate must be a YYYY-MM-DD date' },
+        { status: 400 }
+      );
+    }
+
+    if (preferredTime && !isPreferredTime(preferredTime)) {
+      return NextResponse.json(
+        { error: 'Invalid preferredTime' },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the lead before notifying anyone; never fall back to a guessed lead
+    const leadInfo = await resolveSessionLead(supabase, leadReference);
+    if (!leadInfo) {
+      return NextResponse.json(
+        { error: 'No lead found for this session' },
+        { status: 404 }
+      );
+    }
+
+    const appointment = await saveAppointmentRequest(supabase, {
+      leadId: leadInfo.id,
+      leadSource: 'splash',
+      customerName: `${leadInfo.first_name || ''} ${leadInfo.last_name || ''}`.trim() || 'Unknown',
+      customerPhone: (leadInfo.phone as string) || null,
+      customerEmail: (leadInfo.email as string) || null,
+      address: [leadInfo.street_address, leadInfo.city, [leadInfo.state, leadInfo.zip_code].filter(Boolean).join(' ')]
+        .filter(Boolean)
+        .join(', ') || null,
+      preferredDate: preferredDate || null,
+      preferredTime: preferredTime || null,
+      source: source || 'unknown'
+    });
 
+    try {
       // Send appointment notification email
       await sendAppointmentNotification({
         preferredDate,
@@ -41,17 +95,10 @@ export async function POST(request: NextRequest) {
         leadInfo
       });
 
-      // Store appointment preferences in database (optional - for tracking)
-      await storeAppointmentPreference({
-        preferredDate,
-        preferredTime,
-        source,
-        leadInfo
-      });
-
       return NextResponse.json({
         success: true,
-        message: 'Appointment preferences confirmed successfully'
+        message: 'Appointment preferences confirmed successfully',
+        appointmentId: appointment.id
       });
 
     } catch (emailError) {
@@ -61,7 +108,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Appointment preferences received',
-        note: 'Email notification may be delayed'
+        note: 'Email notification may be delayed',
+        appointmentId: appointment.id
       });
     }
 
@@ -74,63 +122,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Get the most recent lead information from splash form
- */
-async function getRecentLeadInfo() {
-  try {
-    const { data, error } = await supabase
-      .from('splash_leads')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .limit(1);
-
-    if (error) {
-      console.error('Error fetching lead info:', error);
-      return null;
-    }
-
-    return data?.[0] || null;
-  } catch (error) {
-    console.error('Error in getRecentLeadInfo:', error);
-    return null;
-  }
-}
-
-/**
- * Store appointment preference for tracking (optional)
- */
-async function storeAppointmentPreference(data: {
-  preferredDate?: string;
-  preferredTime?: string;
-  source?: string;
-  leadInfo?: Record<string, unknown>;
-}) {
-  try {
-    // Store in a simple format - you could create a dedicated table for this
-    const preferenceRecord = {
-      lead_id: data.leadInfo?.id || null,
-      preferred_date: data.preferredDate || null,
-      preferred_time: data.preferredTime || null,
-      source: data.source || 'unknown',
-      created_at: new Date().toISOString(),
-      lead_phone: data.leadInfo?.phone || null,
-      lead_email: data.leadInfo?.email || null,
-      lead_name: `${data.leadInfo?.first_name || ''} ${data.leadInfo?.last_name || ''}`.trim() || null
-    };
-
-    // You could store this in the contact_submissions table with a special type
-    // or create a dedicated appointment_preferences table
-    console.log('Appointment preference to store:', preferenceRecord);
-    
-    // For now, just log it - you can implement database storage later if needed
-    
-  } catch (error) {
-    console.error('Error storing appointment preference:', error);
-    // Don't fail the main function for this
-  }
-}
-
 /**
  * Send appointment notification email to sales team
  */
@@ -163,11 +154,21 @@ async function sendAppointmentNotification(data: {
       ? (timeMap[data.preferredTime] || data.preferredTime)
       : 'Not specified';
 
-    const emailHtml = `
-      <div style="font-family: Arial, sans-serif; padding: 20px; background-color: #f8f9fa;">
-        <h2 style="color: #333; border-bottom: 3px solid #007bff; padding-bottom: 10px;">📅 New Appointment Preference Confirmation</h2>
-        
-        ${data.leadInfo ? `
+    const isQualified = data.leadInfo?.homeowner_status === 'yes' &&
+      data.leadInfo?.credit_score === '650+' &&
+      data.leadInfo?.shading === 'none';
+
+    const email = await renderMessageTemplate(supabase, 'appointment_preferences_notification', {
+      FullName: data.leadInfo ? `${data.leadInfo.first_name || ''} ${data.leadInfo.last_name || ''}`.trim() : null,
+      LeadId: data.leadInfo?.id ? String(data.leadInfo.id) : 'N/A',
+      PreferredDate: formattedDate,
+      PreferredTime: formattedTime,
+      Source: data.source,
+      Timestamp: new Date().toLocaleString(),
+      NextSteps: isQualified
+        ? 'This qualified lead has confirmed their appointment preferences. Contact them within 24 hours to schedule their consultation using their preferred timing.'
+        : 'Review the lead qualification status and appointment preferences. Follow up as appropriate based on qualification criteria.',
+      LeadDetails: data.leadInfo ? `
           <div style="background-color: #fff; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #28a745;">
             <h3 style="color: #28a745; margin-top: 0; margin-bottom: 15px;">👤 Lead Information</h3>
             <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px;">
@@ -191,14 +192,8 @@ async function sendAppointmentNotification(data: {
                 <p><strong>💳 Credit Score:</strong> ${data.leadInfo.credit_score}</p>
                 <p><strong>🌳 Shading:</strong> ${data.leadInfo.shading === 'none' ? '✅ No Heavy Shading' : '⚠️ Heavy Shading'}</p>
               </div>
-              <p><strong>📋 Status:</strong> <span style="color: ${
-                (data.leadInfo.homeowner_status === 'yes' && 
-                 data.leadInfo.credit_score === '650+' && 
-                 data.leadInfo.shading === 'none') ? '#28a745' : '#dc3545'
-              }; font-weight: bold;">
-                ${(data.leadInfo.homeowner_status === 'yes' && 
-                  data.leadInfo.credit_score === '650+' && 
-                  data.leadInfo.shading === 'none') ? '✅ QUALIFIED' : '❌ DISQUALIFIED'}
+              <p><strong>📋 Status:</strong> <span style="color: ${isQualified ? '#28a745' : '#dc3545'}; font-weight: bold;">
+                ${isQualified ? '✅ QUALIFIED' : '❌ DISQUALIFIED'}
               </span></p>
               <p><strong>📅 Form Completed:</strong> ${new Date(data.leadInfo.created_at as string).toLocaleString()}</p>
             </div>
@@ -207,49 +202,12 @@ async function sendAppointmentNotification(data: {
           <div style="background-color: #fff3cd; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ffc107;">
             <p style="margin: 0; color: #856404;"><strong>⚠️ Lead Information:</strong> No recent form submission found. This may be a direct appointment confirmation.</p>
           </div>
-        `}
-        
-        <div style="background-color: #fff; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #007bff;">
-          <h3 style="color: #007bff; margin-top: 0; margin-bottom: 15px;">📅 Appointment Preferences</h3>
-          <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px;">
-            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 15px;">
-              <div>
-                <div style="background-color: #e3f2fd; padding: 15px; border-radius: 8px; text-align: center;">
-                  <h4 style="margin: 0 0 10px 0; color: #1976d2;">📅 Preferred Date</h4>
-                  <p style="margin: 0; font-size: 16px; font-weight: bold; color: #333;">${formattedDate}</p>
-                </div>
-              </div>
-              <div>
-                <div style="background-color: #e8f5e8; padding: 15px; border-radius: 8px; text-align: center;">
-                  <h4 style="margin: 0 0 10px 0; color: #388e3c;">🕐 Preferred Time</h4>
-                  <p style="margin: 0; font-size: 16px; font-weight: bold; color: #333;">${formattedTime}</p>
-                </div>
-              </div>
-            </div>
-          </div>
-          <p><strong>📍 Source:</strong> ${data.source}</p>
-          <p><strong>⏰ Confirmed At:</strong> ${new Date().toLocaleString()}</p>
-        </div>
+        `
+    }, 'email');
 
-        <div style="background-color: #e7f3ff; padding: 20px; border-radius: 8px; border-left: 4px solid #007bff;">
-          <p style="margin: 0; color: #004085;"><strong>🚀 Action Required:</strong> 
-            ${(data.leadInfo?.homeowner_status === 'yes' && 
-              data.leadInfo?.credit_score === '650+' && 
-              data.leadInfo?.shading === 'none') ? 
-              'This qualified lead has confirmed their appointment preferences. Contact them within 24 hours to schedule their consultation using their preferred timing.' :
-              'Review the lead qualification status and appointment preferences. Follow up as appropriate based on qualification criteria.'
-            }
-          </p>
-        </div>
-        
-        <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
-        
-        <p style="color: #999; font-size: 12px; text-align: center; margin-top: 30px;">
-          Sent from your Quantum Solar website • Appointment Confirmation System<br>
-          Lead ID: ${data.leadInfo?.id || 'N/A'} • Confirmed: ${new Date().toISOString()}
-        </p>
-      </div>
-    `;
+    if (!email) {
+      throw new Error('Email template appointment_preferences_notification is missing or inactive');
+    }
 
     await resend.emails.send({
       from: 'Quantum Solar <info@quantumsolar.us>',
@@ -259,8 +217,8 @@ async function sendAppointmentNotification(data: {
         // 'doug@leadrnnr.com', // Commented out for testing
         // 'bryan@leadrnnr.com' // Commented out for testing
       ],
-      subject: 'New Appointment Preferences Confirmed - Ameren Illinois Campaign',
-      html: emailHtml
+      subject: email.subject ?? '',
+      html: email.body
     });
 
     console.log('Appointment notification email sent successfully');
@@ -0,0 +1,40 @@
+/**
+ * Appointment Reminders Job
+ *
+ * Called hourly by Vercel Cron (see vercel.json). Texts customers the
+ * appointment_reminder template for confirmed appointments starting within
+ * the next 24 hours (see src/lib/appointments.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Each appointment is reminded at most once
+ * - Failed sends are retried on the next run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { sendDueAppointmentReminders } from '@/lib/appointments';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const summary = await sendDueAppointmentReminders(supabase);
+    console.log(`Appointment reminders: ${summary.sent} sent, ${summary.failed} failed, ${summary.optedOut} opted out of ${summary.due} due`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in appointment reminders job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * CRM Appointments API Route
+ *
+ * Solar consultation scheduling (see src/lib/appointments.ts).
+ *
+ * Features:
+ * - Calendar listing by date range and rep, plus unscheduled requests
+ * - Create an appointment for a lead
+ * - Reschedule, assign to a sales rep, cancel, and set status
+ *   (requested / confirmed / completed / no-show)
+ * - Per-rep conflict detection: double-booking returns 409 with the conflicts
+ * - Confirmation SMS when an appointment is confirmed or a confirmed one moves
+ * - Role-based access control
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchLeadById } from '@/lib/leads';
+import { formatLeadAddress } from '@/lib/leadConversion';
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  OPEN_APPOINTMENT_STATUSES,
+  createAppointment,
+  fetchAppointment,
+  fetchAppointmentReps,
+  fetchAppointments,
+  fetchUnscheduledRequests,
+  findAppointmentConflicts,
+  getAppointmentEnd,
+  isAppointmentStatus,
+  sendAppointmentConfirmation,
+  updateAppointment,
+  type Appointment
+} from '@/lib/appointments';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Statuses reps set directly; cancelling goes through the cancel action
+const SETTABLE_STATUSES = ['requested', 'confirmed', 'completed', 'no_show'];
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 8 * 60;
+
+interface SlotResult {
+  start: string;
+  end: string;
+}
+
+/**
+ * Validate a requested start time and duration into an ISO slot
+ */
+function parseSlot(scheduledStart: unknown, durationMinutes: unknown): SlotResult | string {
+  if (typeof scheduledStart !== 'string' || Number.isNaN(Date.parse(scheduledStart))) {
+    return 'scheduledStart must be an ISO date-time';
+  }
+
+  const duration = durationMinutes === undefined || durationMinutes === null
+    ? DEFAULT_APPOINTMENT_MINUTES
+    : Number(durationMinutes);
+
+  if (!Number.isInteger(duration) || duration < MIN_DURATION_MINUTES || duration > MAX_DURATION_MINUTES) {
+    return `durationMinutes must be a whole number between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`;
+  }
+
+  const start = new Date(scheduledStart);
+  return { start: start.toISOString(), end: getAppointmentEnd(start, duration).toISOString() };
+}
+
+function conflictResponse(conflicts: Appointment[]) {
+  return NextResponse.json(
+    {
+      error: 'The rep already has an appointment at this time',
+      conflicts: conflicts.map(conflict => ({
+        id: conflict.id,
+        customer_name: conflict.customer_name,
+        scheduled_start: conflict.scheduled_start,
+        scheduled_end: conflict.scheduled_end,
+        status: conflict.status
+      }))
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Check the rep is assignable and free for the slot.
+ * Returns an error response, or null when the slot can be booked.
+ */
+async function checkRepSlot(assignedTo: string | null, slot: SlotResult | null, excludeId?: string) {
+  if (!assignedTo) return null;
+
+  const reps = await fetchAppointmentReps(supabase);
+  if (!reps.some(rep => rep.id === assignedTo)) {
+    return NextResponse.json({ error: 'assignedTo must be an active sales rep' }, { status: 400 });
+  }
+
+  if (!slot) return null;
+
+  const conflicts = await findAppointmentConflicts(supabase, { assignedTo, ...slot, excludeId });
+  return conflicts.length > 0 ? conflictResponse(conflicts) : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      if (!UUID_PATTERN.test(id)) {
+        return NextResponse.json({ error: 'Invalid appointment ID' }, { status: 400 });
+      }
+      const appointment = await fetchAppointment(supabase, id);
+      if (!appointment) {
+        return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+      }
+      return NextResponse.json(appointment);
+    }
+
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const assignedTo = searchParams.get('assignedTo');
+    const leadId = searchParams.get('leadId');
+    const status = searchParams.get('status') || undefined;
+
+    if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+      return NextResponse.json({ error: 'from and to must be ISO dates' }, { status: 400 });
+    }
+    if ((assignedTo && !UUID_PATTERN.test(assignedTo)) || (leadId && !UUID_PATTERN.test(leadId))) {
+      return NextResponse.json({ error: 'assignedTo and leadId must be UUIDs' }, { status: 400 });
+    }
+    if (status && !isAppointmentStatus(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const [appointments, requests, reps] = await Promise.all([
+      fetchAppointments(supabase, {
+        from: from || undefined,
+        to: to || undefined,
+        assignedTo: assignedTo || undefined,
+        leadId: leadId || undefined,
+        status: isAppointmentStatus(status) ? status : undefined
+      }),
+      fetchUnscheduledRequests(supabase),
+      fetchAppointmentReps(supabase)
+    ]);
+
+    return NextResponse.json({ appointments, requests, reps });
+  } catch (error) {
+    console.error('Error in CRM appointments API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { leadId, scheduledStart, durationMinutes, assignedTo, notes, confirm } = await request.json();
+
+    if (!leadId || typeof leadId !== 'string' || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+    if (assignedTo !== undefined && assignedTo !== null && (typeof assignedTo !== 'string' || !UUID_PATTERN.test(assignedTo))) {
+      return NextResponse.json({ error: 'assignedTo must be a CRM user ID' }, { status: 400 });
+    }
+
+    const slot = parseSlot(scheduledStart, durationMinutes);
+    if (typeof slot === 'string') {
+      return NextResponse.json({ error: slot }, { status: 400 });
+    }
+
+    const lead = await fetchLeadById(supabase, leadId);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    const rejected = await checkRepSlot(assignedTo || null, slot);
+    if (rejected) return rejected;
+
+    const appointment = await createAppointment(supabase, {
+      leadId: lead.id,
+      leadSource: lead.source,
+      customerName: lead.name,
+      customerPhone: lead.phone || null,
+      customerEmail: lead.email || null,
+      address: formatLeadAddress(lead),
+      scheduledStart: slot.start,
+      scheduledEnd: slot.end,
+      assignedTo: assignedTo || null,
+      status: confirm === true ? 'confirmed' : 'requested',
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      createdBy: access.user.clerkUserId
+    });
+
+    if (!appointment) {
+      // Lost a race with another booking for the same rep
+      return conflictResponse(await findAppointmentConflicts(supabase, { assignedTo, ...slot }));
+    }
+
+    const confirmationSent = appointment.status === 'confirmed'
+      ? await sendAppointmentConfirmation(supabase, appointment, access.user)
+      : false;
+
+    return NextResponse.json({ success: true, appointment, confirmationSent }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM appointments POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { id, action, scheduledStart, durationMinutes, assignedTo, status, reason } = await request.json();
+
+    if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid appointment ID is required' }, { status: 400 });
+    }
+
+    const appointment = await fetchAppointment(supabase, id);
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    const isOpen = OPEN_APPOINTMENT_STATUSES.includes(appointment.status);
+    const currentSlot = appointment.scheduled_start && appointment.scheduled_end
+      ? { start: appointment.scheduled_start, end: appointment.scheduled_end }
+      : null;
+    let changes: Record<string, unknown>;
+    let conflictSlot: { assignedTo: string | null; slot: SlotResult | null };
+    let confirm = false;
+
+    if (action === 'reschedule') {
+      if (!isOpen) {
+        return NextResponse.json({ error: `Cannot reschedule a ${appointment.status} appointment` }, { status: 400 });
+      }
+      const slot = parseSlot(scheduledStart, durationMinutes);
+      if (typeof slot === 'string') {
+        return NextResponse.json({ error: slot }, { status: 400 });
+      }
+
+      changes = {
+        scheduled_start: slot.start,
+        scheduled_end: slot.end,
+        confirmation_sent_at: null,
+        reminder_sent_at: null
+      };
+      conflictSlot = { assignedTo: appointment.assigned_to, slot };
+      // A confirmed appointment that moves gets a fresh confirmation
+      confirm = appointment.status === 'confirmed';
+    } else if (action === 'assign') {
+      if (!isOpen) {
+        return NextResponse.json({ error: `Cannot reassign a ${appointment.status} appointment` }, { status: 400 });
+      }
+      if (assignedTo !== null && (typeof assignedTo !== 'string' || !UUID_PATTERN.test(assignedTo))) {
+        return NextResponse.json({ error: 'assignedTo must be a CRM user ID or null' }, { status: 400 });
+      }
+
+      changes = { assigned_to: assignedTo };
+      conflictSlot = { assignedTo, slot: currentSlot };
+    } else if (action === 'set_status') {
+      if (typeof status !== 'string' || !SETTABLE_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: `Invalid status. Must be one of: ${SETTABLE_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (status !== 'requested' && !appointment.scheduled_start) {
+        return NextResponse.json({ error: 'Schedule the appointment before changing its status' }, { status: 400 });
+      }
+
+      changes = { status };
+      // Re-opening a closed appointment puts it back on the rep's calendar
+      conflictSlot = { assignedTo: isOpen ? null : appointment.assigned_to, slot: currentSlot };
+      confirm = status === 'confirmed' && appointment.status !== 'confirmed';
+    } else if (action === 'cancel') {
+      if (appointment.status === 'cancelled') {
+        return NextResponse.json({ success: true, appointment });
+      }
+
+      changes = {
+        status: 'cancelled',
+        cancel_reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null
+      };
+      conflictSlot = { assignedTo: null, slot: null };
+    } else {
+      return NextResponse.json(
+        { error: 'action must be one of: reschedule, assign, set_status, cancel' },
+        { status: 400 }
+      );
+    }
+
+    const rejected = await checkRepSlot(conflictSlot.assignedTo, conflictSlot.slot, appointment.id);
+    if (rejected) return rejected;
+
+    const updated = await updateAppointment(supabase, appointment.id, changes, access.user.clerkUserId);
+    if (!updated) {
+      // Lost a race with another booking; report what the rep now has
+      const rep = 'assigned_to' in changes ? changes.assigned_to as string | null : appointment.assigned_to;
+      const slot = conflictSlot.slot || currentSlot;
+      return conflictResponse(rep && slot
+        ? await findAppointmentConflicts(supabase, { assignedTo: rep, ...slot, excludeId: appointment.id })
+        : []);
+    }
+
+    const confirmationSent = confirm
+      ? await sendAppointmentConfirmation(supabase, updated, access.user)
+      : false;
+
+    return NextResponse.json({ success: true, appointment: updated, confirmationSent });
+  } catch (error) {
+    console.error('Error in CRM appointments PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * CRM Bill Download API Route
+ *
+ * Streams an uploaded electric bill to signed-in CRM users from whichever
+ * backend holds it (see src/lib/billUploads.ts). Bills are never served
+ * from a public URL.
+ *
+ * Features:
+ * - Role-based access control
+ * - Checksum verified before the file is served
+ * - Inline display for PDFs and images, ?download=1 to save
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchBillUpload, readBillFile } from '@/lib/billUploads';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid bill upload ID is required' }, { status: 400 });
+    }
+
+    const bill = await fetchBillUpload(supabase, id);
+    if (!bill) {
+      return NextResponse.json({ error: 'Bill upload not found' }, { status: 404 });
+    }
+
+    if (!bill.object_key && !bill.google_drive_id) {
+      return NextResponse.json(
+        { error: 'The file for this upload was not stored' },
+        { status: 404 }
+      );
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBillFile(supabase, bill);
+    } catch (readError) {
+      console.error(`Error reading bill file ${id}:`, readError);
+      return NextResponse.json({ error: 'Failed to read bill file' }, { status: 502 });
+    }
+
+    const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    const fileName = bill.original_name.replace(/[^\w.\- ]/g, '_');
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': bill.file_type,
+        'Content-Length': String(body.length),
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  } catch (error) {
+    console.error('Error in CRM bill download API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
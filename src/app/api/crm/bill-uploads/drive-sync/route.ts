@@ -0,0 +1,40 @@
+/**
+ * Bill Drive Sync Job
+ *
+ * Called hourly by Vercel Cron (see vercel.json). Copies bill uploads left
+ * in google_failed state from primary storage to Google Drive (see
+ * src/lib/billUploads.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Each upload is retried up to MAX_DRIVE_SYNC_ATTEMPTS times
+ * - The last error is kept on the upload for follow-up
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { retryFailedDriveSyncs } from '@/lib/billUploads';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const summary = await retryFailedDriveSyncs(supabase);
+    console.log(`Bill Drive sync: ${summary.synced} synced, ${summary.failed} failed of ${summary.due} due`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in bill Drive sync job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * CRM Bill Uploads API Route
+ *
+ * Electric bills a lead uploaded, with the values extracted from them
+ * (see src/lib/billUploads.ts).
+ *
+ * Features:
+ * - List a lead's bills with parsed account, usage and charge values
+ * - Review and correct extracted values, marking the bill parsed
+ * - Role-based access control
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchBillUploadsForLead, saveReviewedBill } from '@/lib/billUploads';
+import { BILL_FIELD_LABELS, type BillField, type ParsedBill } from '@/lib/billParser';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const TEXT_FIELDS: BillField[] = ['utility', 'account_number', 'service_address'];
+const DATE_FIELDS: BillField[] = ['billing_period_start', 'billing_period_end'];
+const NUMBER_FIELDS: BillField[] = ['kwh_used', 'total_charges', 'supply_rate', 'delivery_charges'];
+
+/**
+ * Validate reviewed values; null clears a value, omitted fields are untouched
+ */
+function parseReviewedValues(input: Record<string, unknown>): { values: Partial<ParsedBill>; errors: string[] } {
+  const values: Record<string, string | number | null> = {};
+  const errors: string[] = [];
+
+  for (const [field, value] of Object.entries(input)) {
+    const key = field as BillField;
+
+    if (value === null || value === '') {
+      if (key in BILL_FIELD_LABELS) values[key] = null;
+      continue;
+    }
+
+    if (TEXT_FIELDS.includes(key)) {
+      if (typeof value !== 'string') errors.push(`${field} must be text`);
+      else values[key] = value.trim();
+    } else if (DATE_FIELDS.includes(key)) {
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push(`${field} must be a YYYY-MM-DD date`);
+      } else {
+        values[key] = value;
+      }
+    } else if (NUMBER_FIELDS.includes(key)) {
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount < 0) errors.push(`${field} must be a non-negative number`);
+      else values[key] = amount;
+    } else {
+      errors.push(`Unknown field: ${field}`);
+    }
+  }
+
+  const start = values.billing_period_start;
+  const end = values.billing_period_end;
+  if (typeof start === 'string' && typeof end === 'string' && start >= end) {
+    errors.push('billing_period_start must be before billing_period_end');
+  }
+
+  return { values: values as Partial<ParsedBill>, errors };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const leadId = searchParams.get('leadId');
+
+    if (!leadId || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    const bills = await fetchBillUploadsForLead(supabase, leadId);
+
+    return NextResponse.json({ bills });
+  } catch (error) {
+    console.error('Error in CRM bill uploads API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { id, values } = await request.json();
+
+    if (!id || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid bill upload ID is required' }, { status: 400 });
+    }
+
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return NextResponse.json({ error: 'values must be an object of bill fields' }, { status: 400 });
+    }
+
+    const { values: reviewed, errors } = parseReviewedValues(values);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid bill values', details: errors }, { status: 400 });
+    }
+
+    const bill = await saveReviewedBill(supabase, id, reviewed, access.user.clerkUserId);
+    if (!bill) {
+      return NextResponse.json({ error: 'Bill upload not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, bill });
+  } catch (error) {
+    console.error('Error in CRM bill uploads PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@
  * Integrates with job application submissions and provides candidate tracking.
  * 
  * Features:
- * - Fetch all job candidates
+ * - Paginated, filterable, sortable and searchable candidate list (see src/lib/crmList.ts)
+ * - Fetch a single candidate by ID
  * - Update candidate status
  * - Role-based access control
  * - Integration with job applications
@@ -13,101 +14,85 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { auth } from '@clerk/nextjs/server';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { parseListParams, applyListQuery, buildListPage, type ListConfig } from '@/lib/crmList';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
 );
 
+const CANDIDATE_STATUSES = ['applied', 'screening', 'interview', 'offer', 'hired', 'rejected'];
+
+const CANDIDATE_COLUMNS = 'id, name, email, phone, position, status, created_at, city, state, job_id';
+
+const CANDIDATE_LIST_CONFIG: ListConfig = {
+  sortColumns: {
+    created_at: 'created_at',
+    name: 'name',
+    status: 'status'
+  },
+  defaultSort: 'created_at',
+  filterColumns: {
+    status: 'status',
+    source: 'job_id'
+  },
+  searchColumns: ['name', 'email', 'phone', 'address', 'city', 'zip_code'],
+  phoneDigitsColumn: 'phone_digits',
+  dateColumn: 'created_at'
+};
+
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('candidates:read');
+    if ('response' in access) return access.response;
 
     const { searchParams } = new URL(request.url);
     const candidateId = searchParams.get('id');
 
-    // Check if job_applications table exists, otherwise return empty array
-    try {
-      const { data: jobApplications, error } = await supabase
-        .from('job_applications')
-        .select('*')
-        .order('created_at', { ascending: false });
+    // If specific candidate ID is requested, fetch only that candidate
+    if (candidateId) {
+      if (!/^\d+$/.test(candidateId)) {
+        return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
+      }
+
+      const { data: candidate, error } = await supabase
+        .from('crm_candidates')
+        .select(CANDIDATE_COLUMNS)
+        .eq('id', candidateId)
+        .maybeSingle();
 
       if (error) {
-        console.error('Error fetching job applications:', error);
-        // Return empty array if table doesn't exist
-        return NextResponse.json([]);
+        console.error('Error fetching candidate:', error);
+        return NextResponse.json({ error: 'Failed to fetch candidate' }, { status: 500 });
       }
-
-      // Transform job applications into candidate format
-      const candidates = (jobApplications || []).map(app => ({
-        id: app.id,
-        name: `${app.first_name || ''} ${app.last_name || ''}`.trim() || 'Unknown',
-        email: app.email || '',
-        phone: app.phone || '',
-        position: app.position || 'Unknown',
-        status: 'applied' as const, // Default status for new applications
-        created_at: app.created_at
-      }));
-
-      // If specific candidate ID is requested, find and return that candidate
-      if (candidateId) {
-        const specificCandidate = candidates.find(candidate => candidate.id === candidateId);
-        if (!specificCandidate) {
-          return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
-        }
-        return NextResponse.json(specificCandidate);
+      if (!candidate) {
+        return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
       }
+      return NextResponse.json(candidate);
+    }
 
-      return NextResponse.json(candidates);
-    } catch {
-      // If table doesn't exist, return mock data for demonstration
-      const mockCandidates = [
-        {
-          id: '1',
-          name: 'Robert Martinez',
-          email: 'robert.martinez@email.com',
-          phone: '(555) 123-4567',
-          position: 'Solar Installer',
-          status: 'interview',
-          created_at: '2025-08-15T10:00:00Z'
-        },
-        {
-          id: '2',
-          name: 'Jennifer Davis',
-          email: 'jennifer.davis@email.com',
-          phone: '(555) 987-6543',
-          position: 'Licensed Electrician',
-          status: 'screening',
-          created_at: '2025-08-18T14:30:00Z'
-        },
-        {
-          id: '3',
-          name: 'Michael Chen',
-          email: 'michael.chen@email.com',
-          phone: '(555) 456-7890',
-          position: 'Solar Installer',
-          status: 'offer',
-          created_at: '2025-08-20T09:15:00Z'
-        }
-      ];
-
-      // If specific candidate ID is requested, find and return that candidate from mock data
-      if (candidateId) {
-        const specificCandidate = mockCandidates.find(candidate => candidate.id === candidateId);
-        if (!specificCandidate) {
-          return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
-        }
-        return NextResponse.json(specificCandidate);
-      }
+    const parsed = parseListParams(searchParams, CANDIDATE_LIST_CONFIG);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const query = supabase
+      .from('crm_candidates')
+      .select(CANDIDATE_COLUMNS, parsed.params.cursor ? undefined : { count: 'exact' });
+
+    const { data: candidates, error, count } = await applyListQuery(query, parsed.params, CANDIDATE_LIST_CONFIG);
 
-      return NextResponse.json(mockCandidates);
+    if (error) {
+      console.error('Error fetching job applications:', error);
+      // Return empty page if the job applications tables don't exist yet
+      if (error.code === 'PGRST205') {
+        return NextResponse.json(buildListPage([], parsed.params, CANDIDATE_LIST_CONFIG, 0));
+      }
+      return NextResponse.json({ error: 'Failed to fetch candidates' }, { status: 500 });
     }
+
+    return NextResponse.json(buildListPage(candidates || [], parsed.params, CANDIDATE_LIST_CONFIG, count ?? null));
   } catch (error) {
     console.error('Error in CRM candidates API:', error);
     return NextResponse.json(
@@ -119,11 +104,8 @@ export async function GET(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('candidates:write');
+    if ('response' in access) return access.response;
 
     const { id, status } = await request.json();
 
@@ -134,14 +116,21 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Store candidate status updates in a separate table
+    if (!CANDIDATE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${CANDIDATE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Store candidate status updates in a separate table (joined back in by crm_candidates)
     const { error } = await supabase
       .from('candidate_status')
       .upsert({
         candidate_id: id,
         status,
         updated_at: new Date().toISOString(),
-        updated_by: userId
+        updated_by: access.user.clerkUserId
       });
 
     if (error) {
@@ -0,0 +1,95 @@
+/**
+ * CRM Convert Lead API Route
+ *
+ * Converts a lead into a project (see src/lib/leadConversion.ts).
+ *
+ * Features:
+ * - Project pre-filled from the lead's contact details, address and bill
+ * - System size, production and value estimated from the monthly bill
+ * - projects.lead_id links the project back to the source lead
+ * - Lead marked closed and stage 1 history opened
+ * - Idempotent: converting the same lead again returns the existing project
+ * - Role-based access control
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchLeadById } from '@/lib/leads';
+import { convertLeadToProject, fetchProjectForLead, formatLeadAddress } from '@/lib/leadConversion';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Project already converted from a lead, if any
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const leadId = searchParams.get('leadId');
+
+    if (!leadId || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    const project = await fetchProjectForLead(supabase, leadId);
+
+    return NextResponse.json({ project: project ? { id: project.id } : null });
+  } catch (error) {
+    console.error('Error in CRM convert lead GET API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
+
+    const { leadId } = await request.json();
+
+    if (!leadId || typeof leadId !== 'string' || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    const lead = await fetchLeadById(supabase, leadId);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    const address = formatLeadAddress(lead);
+    if (!address) {
+      // An earlier conversion may exist even if the address was since cleared
+      const existing = await fetchProjectForLead(supabase, leadId);
+      if (existing) {
+        return NextResponse.json({ success: true, created: false, project: existing });
+      }
+      return NextResponse.json(
+        { error: 'Lead has no street address; a project requires an address' },
+        { status: 422 }
+      );
+    }
+
+    const { project, created } = await convertLeadToProject(supabase, lead, address, access.user);
+
+    return NextResponse.json(
+      { success: true, created, project },
+      { status: created ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error('Error in CRM convert lead API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as XLSX from 'xlsx';
 import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { rateLimit } from '@/lib/rateLimit';
+import { fetchPipeline, getStage, getStageCount, type Pipeline } from '@/lib/pipelines';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
 );
 
-// Helper function to determine project stage based on completion status
-function determineProjectStage(row: Record<string, unknown>): number {
-  if (row['Install Completed Date']) return 12; // PTO Approval - Complete
+// Helper function to determine project stage based on completion status.
+// Imports use the default (residential) pipeline; completed installs go to its final stage.
+function determineProjectStage(row: Record<string, unknown>, pipeline: Pipeline): number {
+  if (row['Install Completed Date']) return getStageCount(pipeline); // PTO Approval - Complete
   if (row['Installation Scheduled Date']) return 6; // Installation Scheduling
   if (row['Permit Approved Date']) return 4; // Permit Approval
   if (row['Site Survey Scheduled Date']) return 2; // Site Survey & Engineering
@@ -77,9 +81,12 @@ export async function POST(request: NextRequest) {
   console.log('🔥 IMPORT API STARTED:', new Date().toISOString());
   
   try {
-    // Check if user is authenticated (in real implementation)
-    // For now, we'll process the request
-    console.log('🔐 Authentication check passed (development mode)');
+    const access = await requireCrmAccess('projects:import');
+    if ('response' in access) return access.response;
+    console.log('🔐 Authentication check passed:', access.user.role);
+
+    const limited = rateLimit(`import-projects:${access.user.id}`, { limit: 10, windowMs: 60 * 60 * 1000 });
+    if (limited) return limited;
 
     console.log('📥 Parsing form data...');
     const formData = await request.formData();
@@ -122,6 +129,12 @@ export async function POST(request: NextRequest) {
     // Log sample of first row for debugging
     console.log('📋 Sample data (first row):', Object.keys(jsonData[0] as Record<string, unknown>));
     
+    const pipeline = await fetchPipeline(supabase);
+    if (!pipeline || getStageCount(pipeline) === 0) {
+      console.error('❌ No default pipeline configured');
+      return NextResponse.json({ error: 'No default pipeline configured' }, { status: 500 });
+    }
+
     console.log(`🚀 Processing ${jsonData.length} rows from Excel file`);
 
     const importResults = {
@@ -169,7 +182,8 @@ export async function POST(request: NextRequest) {
           project_value: parseNumber(row['Contract Value']),
           contract_signed_date: parseExcelDate(row['Created Date']),
           actual_completion_date: parseExcelDate(row['Install Completed Date']),
-          current_stage: determineProjectStage(row),
+          pipeline_id: pipeline.id,
+          current_stage: Math.min(determineProjectStage(row, pipeline), getStageCount(pipeline)),
           overall_status: determineProjectStatus(row),
           notes: `Imported from GoodPWR Data - Original ID: ${cleanData(row['GoodPWR Project Identification Number'])}`
         };
@@ -193,7 +207,7 @@ export async function POST(request: NextRequest) {
           .from('project_stage_history')
           .insert({
             project_id: project.id,
-            stage_id: project.current_stage,
+            stage_id: getStage(pipeline, project.current_stage)?.id ?? null,
             notes: 'Imported from GoodPWR data',
             completed_by: 'data_import',
             completed_at: project.overall_status === 'complete' ? new Date().toISOString() : null
@@ -257,6 +271,9 @@ export async function POST(request: NextRequest) {
 // Helper endpoint to get import status
 export async function GET() {
   try {
+    const access = await requireCrmAccess('projects:import');
+    if ('response' in access) return access.response;
+
     const { data: projectCount, error } = await supabase
       .from('projects')
       .select('id', { count: 'exact', head: true });
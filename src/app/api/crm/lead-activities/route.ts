@@ -0,0 +1,136 @@
+/**
+ * CRM Lead Activities API Route
+ *
+ * Activity timeline for a lead (see src/lib/leadActivities.ts).
+ * SMS and emails are recorded by /api/integrations/twilio and /api/send;
+ * this route lists the timeline and lets reps add notes and log calls.
+ *
+ * Features:
+ * - Chronological timeline with the user who acted and when
+ * - Add notes and log calls with outcome and duration
+ * - Flags calls to a lead another rep called or texted within the last hour
+ * - Role-based access control
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchLeadById } from '@/lib/leads';
+import {
+  CALL_OUTCOMES,
+  fetchLeadActivities,
+  findRecentContact,
+  isCallOutcome,
+  recordLeadActivity
+} from '@/lib/leadActivities';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_BODY_LENGTH = 5000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const leadId = searchParams.get('leadId');
+
+    if (!leadId || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    const activities = await fetchLeadActivities(supabase, leadId);
+
+    return NextResponse.json({
+      activities,
+      recentContact: findRecentContact(activities)
+    });
+  } catch (error) {
+    console.error('Error in CRM lead activities API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { leadId, type, body, callOutcome, callDurationSeconds, confirmRecentContact } = await request.json();
+
+    if (!leadId || typeof leadId !== 'string' || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    if (type !== 'note' && type !== 'call') {
+      return NextResponse.json(
+        { error: 'Invalid type. Notes and calls can be added here; SMS and email are recorded when sent' },
+        { status: 400 }
+      );
+    }
+
+    if (type === 'note' && (!body || typeof body !== 'string' || !body.trim())) {
+      return NextResponse.json({ error: 'Note text is required' }, { status: 400 });
+    }
+
+    if (body && (typeof body !== 'string' || body.length > MAX_BODY_LENGTH)) {
+      return NextResponse.json({ error: `Text must be at most ${MAX_BODY_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (type === 'call' && !isCallOutcome(callOutcome)) {
+      return NextResponse.json(
+        { error: `Invalid call outcome. Must be one of: ${CALL_OUTCOMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const lead = await fetchLeadById(supabase, leadId);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    // Another rep already reached out in the last hour; the caller must confirm
+    if (type === 'call' && !confirmRecentContact) {
+      const recentContact = findRecentContact(await fetchLeadActivities(supabase, leadId, 20));
+      if (recentContact && recentContact.actor_id !== access.user.clerkUserId) {
+        return NextResponse.json(
+          {
+            error: 'Lead was contacted recently',
+            details: `${recentContact.actor_name || 'Another user'} contacted this lead at ${recentContact.created_at}`,
+            recentContact
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const duration = Number(callDurationSeconds);
+
+    const activity = await recordLeadActivity(supabase, {
+      leadId,
+      leadSource: lead.source,
+      type,
+      body: typeof body === 'string' ? body.trim() || null : null,
+      callOutcome: type === 'call' ? callOutcome : null,
+      callDurationSeconds: type === 'call' && Number.isFinite(duration) && duration >= 0 ? Math.round(duration) : null,
+      recipient: type === 'call' ? lead.phone || null : null,
+      actor: access.user
+    });
+
+    return NextResponse.json({ success: true, activity }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM lead activities POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * CRM Lead Assignment API Route
+ *
+ * Lead routing and ownership (see src/lib/leadAssignment.ts).
+ *
+ * Features:
+ * - Routing settings and every rep who can own leads, with their
+ *   availability, weight, caps, territory and today's load
+ * - Assign a lead to a rep, unassign it, or route it with the configured
+ *   strategy; the new owner is alerted by text and email
+ * - Change the strategy, turn automatic routing on / off and edit a rep's
+ *   routing (admins only); reps can mark themselves available or away
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { hasPermission } from '@/lib/crmAccess';
+import { fetchLeadById } from '@/lib/leads';
+import {
+  ROUTING_STRATEGIES,
+  assignLead,
+  fetchRoutingReps,
+  fetchRoutingSettings,
+  isRoutingStrategy,
+  routeLead,
+  updateRepRouting,
+  updateRoutingSettings,
+  validateRepRouting,
+  type RepRouting
+} from '@/lib/leadAssignment';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Editable rep routing fields
+const REP_FIELDS = [
+  'is_available', 'weight', 'daily_cap', 'open_lead_cap', 'zip_codes', 'utilities', 'phone', 'notify_sms', 'notify_email'
+] as const;
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const [settings, reps] = await Promise.all([
+      fetchRoutingSettings(supabase),
+      fetchRoutingReps(supabase)
+    ]);
+
+    return NextResponse.json({ settings, reps });
+  } catch (error) {
+    console.error('Error in CRM lead assignment API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { leadId, ownerId, auto } = await request.json();
+
+    if (typeof leadId !== 'string' || !UUID_PATTERN.test(leadId)) {
+      return NextResponse.json({ error: 'A valid leadId is required' }, { status: 400 });
+    }
+
+    const lead = await fetchLeadById(supabase, leadId);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    if (auto === true) {
+      if (lead.owner_id) {
+        return NextResponse.json({ error: 'Lead already has an owner' }, { status: 409 });
+      }
+
+      const settings = await fetchRoutingSettings(supabase);
+      const assignment = await routeLead(supabase, leadId, settings.strategy, access.user);
+      if (!assignment) {
+        const current = await fetchLeadById(supabase, leadId);
+        return NextResponse.json(
+          {
+            error: current?.owner_id
+              ? 'Lead already has an owner'
+              : lead.qualification.status === 'disqualified' ? 'Disqualified leads are not routed' : 'No rep can take this lead right now'
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({ assignment, lead: await fetchLeadById(supabase, leadId) });
+    }
+
+    if (ownerId !== null && typeof ownerId !== 'string') {
+      return NextResponse.json({ error: 'ownerId (or null to unassign) or auto is required' }, { status: 400 });
+    }
+
+    if (ownerId === lead.owner_id) {
+      return NextResponse.json({ error: 'Lead already has this owner' }, { status: 409 });
+    }
+
+    const reps = await fetchRoutingReps(supabase);
+    const owner = ownerId === null ? null : reps.find(rep => rep.clerk_user_id === ownerId);
+    if (owner === undefined) {
+      return NextResponse.json({ error: 'ownerId must be an active CRM user who can own leads' }, { status: 400 });
+    }
+
+    const assignment = await assignLead(supabase, lead, owner, { method: 'manual', actor: access.user, reps });
+
+    return NextResponse.json({ assignment, lead: await fetchLeadById(supabase, leadId) });
+  } catch (error) {
+    console.error('Error in CRM lead assignment POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update routing settings ({ strategy, is_active }) or, with repId, a rep's
+ * routing. Reps without settings access may only change their own
+ * availability.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const body = await request.json();
+    const canConfigure = hasPermission(access.user.role, 'settings');
+
+    if (body.repId === undefined) {
+      if (!canConfigure) {
+        return NextResponse.json({ error: 'Forbidden', details: 'Missing permission: settings' }, { status: 403 });
+      }
+
+      if (body.strategy !== undefined && !isRoutingStrategy(body.strategy)) {
+        return NextResponse.json(
+          { error: `Invalid strategy. Must be one of: ${ROUTING_STRATEGIES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (body.is_active !== undefined && typeof body.is_active !== 'boolean') {
+        return NextResponse.json({ error: 'is_active must be true or false' }, { status: 400 });
+      }
+      if (body.strategy === undefined && body.is_active === undefined) {
+        return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+      }
+
+      const settings = await updateRoutingSettings(supabase, {
+        strategy: body.strategy,
+        is_active: body.is_active
+      }, access.user);
+
+      return NextResponse.json({ settings });
+    }
+
+    if (typeof body.repId !== 'string' || !UUID_PATTERN.test(body.repId)) {
+      return NextResponse.json({ error: 'A valid repId is required' }, { status: 400 });
+    }
+
+    const update: Partial<RepRouting> = {};
+    for (const field of REP_FIELDS) {
+      if (body[field] !== undefined) {
+        (update as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const ownAvailability = body.repId === access.user.id && Object.keys(update).every(field => field === 'is_available');
+    if (!canConfigure && !ownAvailability) {
+      return NextResponse.json({ error: 'Forbidden', details: 'Missing permission: settings' }, { status: 403 });
+    }
+
+    const validationError = validateRepRouting(update);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const reps = await fetchRoutingReps(supabase);
+    const current = reps.find(rep => rep.id === body.repId);
+    if (!current) {
+      return NextResponse.json({ error: 'Rep not found' }, { status: 404 });
+    }
+
+    // A rep's first edit creates their row; keep their current (possibly
+    // default) availability rather than the table default
+    if (update.is_available === undefined) update.is_available = current.is_available;
+
+    if (update.zip_codes) update.zip_codes = update.zip_codes.map(zip => zip.trim());
+    if (update.utilities) update.utilities = update.utilities.map(name => name.trim());
+    if (update.phone !== undefined) update.phone = update.phone?.trim() || null;
+
+    await updateRepRouting(supabase, body.repId, update, access.user);
+
+    const rep = (await fetchRoutingReps(supabase)).find(candidate => candidate.id === body.repId);
+
+    return NextResponse.json({ rep });
+  } catch (error) {
+    console.error('Error in CRM lead assignment PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
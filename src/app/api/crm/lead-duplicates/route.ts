@@ -0,0 +1,129 @@
+/**
+ * CRM Lead Duplicates API Route
+ *
+ * The "Possible duplicates" queue (see src/lib/leadDuplicates.ts). Pairs
+ * are flagged in the database as leads are written.
+ *
+ * Features:
+ * - ?status= pairs (open by default) with both records side by side
+ * - Dismiss a pair as not a duplicate
+ * - Merge a pair into the kept lead with field values picked from either
+ *   record, moving the other record's activity history over, and rescore
+ *   the kept lead
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  MERGE_FIELDS,
+  dismissLeadDuplicate,
+  fetchLeadDuplicate,
+  fetchLeadDuplicates,
+  isDuplicateStatus,
+  isMergeableRecord,
+  mergeLeadDuplicate,
+  type MergeField
+} from '@/lib/leadDuplicates';
+import { recalculateLeadScore } from '@/lib/leadScoring';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const status = new URL(request.url).searchParams.get('status') || 'open';
+    if (!isDuplicateStatus(status)) {
+      return NextResponse.json({ error: 'status must be open, merged or dismissed' }, { status: 400 });
+    }
+
+    const duplicates = await fetchLeadDuplicates(supabase, status);
+
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error('Error in CRM lead duplicates API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
+
+    const { id, action, keepId, fields } = await request.json();
+
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid duplicate ID is required' }, { status: 400 });
+    }
+
+    if (action === 'dismiss') {
+      const dismissed = await dismissLeadDuplicate(supabase, id, access.user);
+      if (!dismissed) {
+        return NextResponse.json({ error: 'Duplicate not found or already resolved' }, { status: 409 });
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'merge') {
+      return NextResponse.json({ error: 'action must be dismiss or merge' }, { status: 400 });
+    }
+
+    const duplicate = await fetchLeadDuplicate(supabase, id);
+    if (!duplicate) {
+      return NextResponse.json({ error: 'Duplicate not found' }, { status: 404 });
+    }
+
+    const keep = [duplicate.lead, duplicate.match].find(record => record.id === keepId);
+    if (!keep || !isMergeableRecord(keep)) {
+      return NextResponse.json(
+        { error: 'keepId must be the splash or contact lead of this pair' },
+        { status: 400 }
+      );
+    }
+
+    // Only picked values of the known fields are passed on
+    const picked: Partial<Record<MergeField, string | null>> = {};
+    if (fields && typeof fields === 'object') {
+      for (const field of MERGE_FIELDS) {
+        const value = (fields as Record<string, unknown>)[field];
+        if (typeof value === 'string' || value === null) {
+          picked[field] = value;
+        }
+      }
+    }
+
+    const result = await mergeLeadDuplicate(supabase, {
+      duplicateId: id,
+      keep: { id: keep.id, source: keep.source },
+      fields: picked
+    }, access.user);
+
+    if (!result.merged) {
+      return NextResponse.json({ error: `Cannot merge: ${result.reason}` }, { status: 409 });
+    }
+
+    if (keep.source === 'splash') {
+      after(() => recalculateLeadScore(supabase, result.leadId)
+        .catch(error => console.error('Error scoring merged lead:', error)));
+    }
+
+    return NextResponse.json({ success: true, leadId: result.leadId });
+  } catch (error) {
+    console.error('Error in CRM lead duplicates PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
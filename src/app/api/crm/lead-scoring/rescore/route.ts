@@ -0,0 +1,42 @@
+/**
+ * Lead Scoring Job
+ *
+ * Called every 5 minutes by Vercel Cron (see vercel.json). Rescores the
+ * splash leads flagged stale after the scoring factors changed (see
+ * src/lib/leadScoring.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Leads are scored in batches with one write per batch, up to a limit per
+ *   run; the rest are picked up by the next run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { rescoreStaleLeads } from '@/lib/leadScoring';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const scored = await rescoreStaleLeads(supabase);
+    if (scored > 0) {
+      console.log(`Lead scoring: rescored ${scored} leads`);
+    }
+
+    return NextResponse.json({ success: true, scored });
+  } catch (error) {
+    console.error('Error in lead scoring job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * CRM Lead Scoring API Route
+ *
+ * Factors of the lead scoring engine (see src/lib/leadScoring.ts).
+ *
+ * Features:
+ * - List the scoring factors with their weights and rules
+ * - Edit a factor's weight, rules or active flag (admins only); every
+ *   splash lead is flagged for the lead scoring job to rescore
+ * - Flag every splash lead for rescoring on demand (admins only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  MAX_FACTOR_WEIGHT,
+  fetchScoringFactors,
+  isLeadScoringFactor,
+  markLeadScoresStale,
+  updateScoringFactor,
+  validateScoringRules,
+  type ScoringRules
+} from '@/lib/leadScoring';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const factors = await fetchScoringFactors(supabase);
+
+    return NextResponse.json({ factors });
+  } catch (error) {
+    console.error('Error in CRM lead scoring API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const { factor, weight, rules, is_active } = await request.json();
+
+    if (!isLeadScoringFactor(factor)) {
+      return NextResponse.json({ error: 'Unknown scoring factor' }, { status: 400 });
+    }
+
+    const update: { weight?: number; rules?: ScoringRules; is_active?: boolean } = {};
+
+    if (weight !== undefined) {
+      if (!Number.isInteger(weight) || weight < 0 || weight > MAX_FACTOR_WEIGHT) {
+        return NextResponse.json(
+          { error: `weight must be a whole number between 0 and ${MAX_FACTOR_WEIGHT}` },
+          { status: 400 }
+        );
+      }
+      update.weight = weight;
+    }
+
+    if (rules !== undefined) {
+      const rulesError = validateScoringRules(factor, rules);
+      if (rulesError) {
+        return NextResponse.json({ error: rulesError }, { status: 400 });
+      }
+      update.rules = rules as ScoringRules;
+    }
+
+    if (is_active !== undefined) {
+      if (typeof is_active !== 'boolean') {
+        return NextResponse.json({ error: 'is_active must be true or false' }, { status: 400 });
+      }
+      update.is_active = is_active;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const updated = await updateScoringFactor(supabase, factor, update, access.user);
+    if (!updated) {
+      return NextResponse.json({ error: 'Scoring factor not found' }, { status: 404 });
+    }
+
+    const queued = await markLeadScoresStale(supabase);
+
+    return NextResponse.json({ factor: updated, queued });
+  } catch (error) {
+    console.error('Error in CRM lead scoring PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const queued = await markLeadScoresStale(supabase);
+
+    return NextResponse.json({ success: true, queued });
+  } catch (error) {
+    console.error('Error in CRM lead scoring POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
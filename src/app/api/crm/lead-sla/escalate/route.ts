@@ -0,0 +1,40 @@
+/**
+ * Lead SLA Escalation Job
+ *
+ * Called every 5 minutes by Vercel Cron (see vercel.json). Re-alerts the
+ * owner of each new lead that is past its speed-to-lead SLA without a first
+ * touch, then the managers (see src/lib/leadSla.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Each lead is escalated at most once per level
+ * - Escalations no one was alerted for are retried on the next run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { runSlaEscalations } from '@/lib/leadSla';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const summary = await runSlaEscalations(supabase);
+    console.log(`Lead SLA escalations: ${summary.ownerAlerts} owner and ${summary.managerAlerts} manager alerts, ${summary.failed} failed, for ${summary.breached} breached leads`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in lead SLA escalation job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * CRM Lead SLA API Route
+ *
+ * Speed-to-lead policies and response times (see src/lib/leadSla.ts).
+ *
+ * Features:
+ * - Policies in the order they are matched, leads at risk of or past their
+ *   first touch SLA and each rep's average response time
+ * - Create, edit, turn on / off and delete policies (admins only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  createSlaPolicy,
+  deleteSlaPolicy,
+  fetchSlaPolicies,
+  fetchSlaReport,
+  updateSlaPolicy,
+  validateSlaPolicy,
+  type NewSlaPolicy
+} from '@/lib/leadSla';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Editable policy fields
+const POLICY_FIELDS = [
+  'name', 'source', 'target_minutes', 'business_hours_only', 'business_start', 'business_end',
+  'business_days', 'manager_escalation_minutes', 'sort_order', 'is_active'
+] as const;
+
+function pickPolicyFields(body: Record<string, unknown>): Partial<NewSlaPolicy> {
+  const policy: Partial<NewSlaPolicy> = {};
+  for (const field of POLICY_FIELDS) {
+    if (body[field] !== undefined) {
+      (policy as Record<string, unknown>)[field] = body[field];
+    }
+  }
+  if (typeof policy.name === 'string') policy.name = policy.name.trim();
+  return policy;
+}
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const [policies, report] = await Promise.all([
+      fetchSlaPolicies(supabase),
+      fetchSlaReport(supabase)
+    ]);
+
+    return NextResponse.json({ policies, report });
+  } catch (error) {
+    console.error('Error in CRM lead SLA API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const body = await request.json();
+    const validationError = validateSlaPolicy(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const policy = await createSlaPolicy(supabase, {
+      ...pickPolicyFields(body),
+      name: body.name.trim(),
+      target_minutes: body.target_minutes
+    }, access.user);
+
+    return NextResponse.json({ policy }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM lead SLA POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const body = await request.json();
+
+    if (typeof body.id !== 'string' || !UUID_PATTERN.test(body.id)) {
+      return NextResponse.json({ error: 'A valid policy ID is required' }, { status: 400 });
+    }
+
+    const update = pickPolicyFields(body);
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const validationError = validateSlaPolicy(body, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const policy = await updateSlaPolicy(supabase, body.id, update, access.user);
+    if (!policy) {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error in CRM lead SLA PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid policy ID is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteSlaPolicy(supabase, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Policy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in CRM lead SLA DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
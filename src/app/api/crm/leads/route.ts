@@ -2,96 +2,73 @@
  * CRM Leads API Route
  * 
  * Provides CRUD operations for lead management in the CRM system.
- * Integrates with existing splash leads and contact submissions.
+ * Integrates with existing splash leads and contact submissions through
+ * the unified lead model in src/lib/leads.ts.
  * 
  * Features:
- * - Fetch all leads from multiple sources
- * - Update lead status
+ * - Paginated, filterable, sortable and searchable lead list (see src/lib/crmList.ts);
+ *   assignedTo=me lists the signed-in user's leads
+ * - Leads from multiple sources with CRM status joined in
+ * - Fetch a single lead by ID
+ * - Update lead status and owner (status changes go on the activity timeline;
+ *   owner changes are assignments, see src/lib/leadAssignment.ts)
  * - Role-based access control
  * - Real-time data from Supabase
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { auth } from '@clerk/nextjs/server';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchLeadPage, fetchLeadById, updateLeadStatus, isLeadStatus, LEAD_STATUSES, LEAD_SOURCES, LEAD_LIST_CONFIG } from '@/lib/leads';
+import { parseListParams } from '@/lib/crmList';
+import { recordLeadActivity } from '@/lib/leadActivities';
+import { assignLead, fetchRoutingReps } from '@/lib/leadAssignment';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
 );
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
 
     const { searchParams } = new URL(request.url);
     const leadId = searchParams.get('id');
 
-    // Fetch splash leads
-    const { data: splashLeads, error: splashError } = await supabase
-      .from('splash_leads')
-      .select('*')
-      .order('created_at', { ascending: false });
+    // If specific lead ID is requested, fetch only that lead
+    if (leadId) {
+      if (!UUID_PATTERN.test(leadId)) {
+        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+      }
 
-    if (splashError) {
-      console.error('Error fetching splash leads:', splashError);
+      const lead = await fetchLeadById(supabase, leadId);
+      if (!lead) {
+        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+      }
+      return NextResponse.json(lead);
     }
 
-    // Fetch contact submissions
-    const { data: contactSubmissions, error: contactError } = await supabase
-      .from('contact_submissions')
-      .select('*')
-      .order('created_at', { ascending: false });
+    const parsed = parseListParams(searchParams, LEAD_LIST_CONFIG);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
 
-    if (contactError) {
-      console.error('Error fetching contact submissions:', contactError);
+    const { status, source, assignedTo } = parsed.params.filters;
+    if ((status && !isLeadStatus(status)) || (source && !(LEAD_SOURCES as readonly string[]).includes(source))) {
+      return NextResponse.json({ error: 'Invalid status or source filter' }, { status: 400 });
     }
 
-    // Combine and normalize data
-    const leads = [
-      // Splash leads
-      ...(splashLeads || []).map(lead => ({
-        id: lead.id,
-        name: `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || 'Unknown',
-        email: lead.email || '',
-        phone: lead.phone || '',
-        status: 'new' as const,
-        created_at: lead.created_at,
-        electric_bill: lead.electric_bill || null,
-        location: `${lead.city || ''}, ${lead.state || ''}`.trim() || lead.address || 'Unknown',
-        source: 'splash'
-      })),
-      // Contact submissions
-      ...(contactSubmissions || []).map(submission => ({
-        id: submission.id,
-        name: submission.name || 'Unknown',
-        email: submission.email || '',
-        phone: submission.phone || '',
-        status: 'new' as const,
-        created_at: submission.created_at,
-        electric_bill: null,
-        location: 'Contact Form',
-        source: 'contact'
-      }))
-    ];
-
-    // Sort by creation date (newest first)
-    leads.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-    // If specific lead ID is requested, find and return that lead
-    if (leadId) {
-      const specificLead = leads.find(lead => lead.id === leadId);
-      if (!specificLead) {
-        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
-      }
-      return NextResponse.json(specificLead);
+    if (assignedTo === 'me') {
+      parsed.params.filters.assignedTo = access.user.clerkUserId;
     }
 
-    return NextResponse.json(leads);
+    const page = await fetchLeadPage(supabase, parsed.params);
+
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error in CRM leads API:', error);
     return NextResponse.json(
@@ -103,34 +80,50 @@ export async function GET(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('leads:write');
+    if ('response' in access) return access.response;
 
-    const { id, status, source } = await request.json();
+    const { id, status, ownerId } = await request.json();
 
-    if (!id || !status || !source) {
+    if (!id || !status) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    // Store the status in a separate leads_status table
-    // since the original tables might not have a status column
-    const { error } = await supabase
-      .from('leads_status')
-      .upsert({
-        lead_id: id,
-        source,
+    if (!isLeadStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${LEAD_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existingLead = UUID_PATTERN.test(id) ? await fetchLeadById(supabase, id) : null;
+    if (!existingLead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    // Owner changes are logged and alerted like any other assignment
+    if (ownerId !== undefined && ownerId !== existingLead.owner_id) {
+      const reps = await fetchRoutingReps(supabase);
+      const owner = ownerId === null ? null : reps.find(rep => rep.clerk_user_id === ownerId);
+      if (owner === undefined) {
+        return NextResponse.json({ error: 'ownerId must be an active CRM user who can own leads' }, { status: 400 });
+      }
+
+      await assignLead(supabase, existingLead, owner, { method: 'manual', actor: access.user, reps });
+    }
+
+    // CRM state lives in leads_status and is joined back in by the crm_leads view
+    try {
+      await updateLeadStatus(supabase, {
+        id,
+        source: existingLead.source,
         status,
-        updated_at: new Date().toISOString(),
-        updated_by: userId
+        updatedBy: access.user.clerkUserId
       });
-
-    if (error) {
+    } catch (error) {
       console.error('Error updating lead status:', error);
       return NextResponse.json(
         { error: 'Failed to update lead status' },
@@ -138,7 +131,24 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ success: true });
+    if (existingLead.status !== status) {
+      try {
+        await recordLeadActivity(supabase, {
+          leadId: id,
+          leadSource: existingLead.source,
+          type: 'status_change',
+          body: `Status changed from ${existingLead.status} to ${status}`,
+          metadata: { from: existingLead.status, to: status },
+          actor: access.user
+        });
+      } catch (error) {
+        console.error('Error recording status change activity:', error);
+      }
+    }
+
+    const lead = await fetchLeadById(supabase, id);
+
+    return NextResponse.json({ success: true, lead });
   } catch (error) {
     console.error('Error in CRM leads PUT API:', error);
     return NextResponse.json(
@@ -0,0 +1,36 @@
+/**
+ * CRM Current User API Route
+ *
+ * Returns the signed-in user's CRM role and permissions so the CRM UI can
+ * show tabs and navigation from the same rules the API enforces.
+ */
+
+import { NextResponse } from 'next/server';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { getRolePermissions, getProjectScope } from '@/lib/crmAccess';
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess();
+    if ('response' in access) return access.response;
+
+    const { user } = access;
+
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role
+      },
+      permissions: getRolePermissions(user.role),
+      projectScope: getProjectScope(user.role)
+    });
+  } catch (error) {
+    console.error('Error in CRM me API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
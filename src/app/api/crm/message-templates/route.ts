@@ -0,0 +1,214 @@
+/**
+ * CRM Message Templates API Route
+ *
+ * SMS and email template library used by every sender (see
+ * src/lib/messageTemplates.ts).
+ *
+ * Features:
+ * - List templates, or one template with its version history (?key=)
+ * - Create a template (admins only)
+ * - Save an edit as a new version, restore an earlier version, or turn a
+ *   template on / off (admins only)
+ * - Unknown placeholders and variables outside the template's context are
+ *   rejected
+ * - Concurrent edits are refused instead of overwriting each other
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  TEMPLATE_CHANNELS,
+  TEMPLATE_CONTEXTS,
+  TEMPLATE_KEY_PATTERN,
+  createMessageTemplate,
+  fetchMessageTemplate,
+  fetchMessageTemplateVersions,
+  fetchMessageTemplates,
+  isTemplateChannel,
+  isTemplateContext,
+  saveMessageTemplateVersion,
+  setMessageTemplateActive,
+  validateTemplate
+} from '@/lib/messageTemplates';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('messages:send');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get('key');
+
+    if (key) {
+      const template = await fetchMessageTemplate(supabase, key);
+      if (!template) {
+        return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+      }
+
+      const versions = await fetchMessageTemplateVersions(supabase, template.id);
+      return NextResponse.json({ template, versions });
+    }
+
+    const channel = searchParams.get('channel');
+    const context = searchParams.get('context');
+    const templates = await fetchMessageTemplates(supabase, {
+      channel: isTemplateChannel(channel) ? channel : undefined,
+      context: isTemplateContext(context) ? context : undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    });
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error in CRM message templates API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const { key, channel, context, name, description, subject, body } = await request.json();
+
+    if (typeof key !== 'string' || !TEMPLATE_KEY_PATTERN.test(key)) {
+      return NextResponse.json(
+        { error: 'key must be lowercase letters, numbers and underscores' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTemplateChannel(channel)) {
+      return NextResponse.json(
+        { error: `Invalid channel. Must be one of: ${TEMPLATE_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isTemplateContext(context)) {
+      return NextResponse.json(
+        { error: `Invalid context. Must be one of: ${TEMPLATE_CONTEXTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const input = {
+      key,
+      channel,
+      context,
+      name: name.trim(),
+      description: optionalText(description),
+      subject: optionalText(subject),
+      body: typeof body === 'string' ? body.trim() : ''
+    };
+
+    const errors = validateTemplate(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid template', details: errors }, { status: 400 });
+    }
+
+    const template = await createMessageTemplate(supabase, input, access.user);
+    if (!template) {
+      return NextResponse.json({ error: `A template with key ${key} already exists` }, { status: 409 });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM message templates POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const { key, version, active, restoreVersion, name, description, subject, body, changeNote } = await request.json();
+
+    if (typeof key !== 'string' || !key) {
+      return NextResponse.json({ error: 'key is required' }, { status: 400 });
+    }
+
+    const current = await fetchMessageTemplate(supabase, key);
+    if (!current) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    // Turning a template on or off does not change its copy
+    if (typeof active === 'boolean' && restoreVersion === undefined && body === undefined) {
+      const template = await setMessageTemplateActive(supabase, key, active, access.user);
+      return NextResponse.json({ template });
+    }
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: 'version (the version being edited) is required' }, { status: 400 });
+    }
+
+    let changes = {
+      name: typeof name === 'string' && name.trim() ? name.trim() : current.name,
+      description: description === undefined ? current.description : optionalText(description),
+      subject: optionalText(subject),
+      body: typeof body === 'string' ? body.trim() : '',
+      changeNote: optionalText(changeNote)
+    };
+
+    if (restoreVersion !== undefined) {
+      const versions = await fetchMessageTemplateVersions(supabase, current.id);
+      const restored = versions.find(row => row.version === restoreVersion);
+      if (!restored) {
+        return NextResponse.json({ error: `Version ${restoreVersion} not found` }, { status: 404 });
+      }
+      changes = {
+        ...changes,
+        name: current.name,
+        description: current.description,
+        subject: restored.subject,
+        body: restored.body,
+        changeNote: changes.changeNote || `Restored version ${restored.version}`
+      };
+    }
+
+    // Variables can be retired, so restored copy is validated again
+    const errors = validateTemplate({ channel: current.channel, context: current.context, ...changes });
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid template', details: errors }, { status: 400 });
+    }
+
+    const template = await saveMessageTemplateVersion(supabase, key, version, changes, access.user);
+    if (!template) {
+      return NextResponse.json(
+        { error: 'This template was changed by someone else. Reload it and apply your edits again.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Error in CRM message templates PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,16 +7,38 @@
  * - Stores files in Supabase Storage
  * - Creates database records for tracking
  * - Supports GPS location data
+ * - Every photo is added to the project's photo history, tagged with its
+ *   current lifecycle stage (see src/lib/projectPhotos.ts)
+ * - Restricted to CRM users with photo submission access (installers only
+ *   for projects assigned to them)
+ * - Rate limited per user
+ * - Completed submissions fire the project's photo_submission_completed
+ *   automation rules (see src/lib/projectAutomation.ts)
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { rateLimit } from '@/lib/rateLimit';
+import { fetchPipeline, getStage } from '@/lib/pipelines';
+import { runProjectAutomation } from '@/lib/projectAutomation';
+import {
+  PHOTO_SUBMISSION_TYPES,
+  PROJECT_PHOTO_BUCKET,
+  isPhotoSubmissionType,
+  parsePhotoLocation,
+  recordProjectPhoto,
+  type PhotoLocation
+} from '@/lib/projectPhotos';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
 );
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 interface PhotoMetadata {
   originalName: string;
   size: number;
@@ -24,15 +46,14 @@ interface PhotoMetadata {
   id: string;
 }
 
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  timestamp: number;
-  accuracy?: number;
-}
-
 export async function POST(request: NextRequest) {
   try {
+    const access = await requireCrmAccess('photos:submit');
+    if ('response' in access) return access.response;
+
+    const limited = rateLimit(`photo-submission:${access.user.id}`, { limit: 30, windowMs: 60 * 60 * 1000 });
+    if (limited) return limited;
+
     const formData = await request.formData();
     
     // Extract form fields
@@ -46,26 +67,30 @@ export async function POST(request: NextRequest) {
     const locationString = formData.get('location') as string;
     
     // Parse location data if provided
-    let location: LocationData | null = null;
+    let location: PhotoLocation | null = null;
     if (locationString) {
       try {
-        location = JSON.parse(locationString);
+        location = parsePhotoLocation(JSON.parse(locationString));
       } catch (error) {
         console.error('Error parsing location data:', error);
       }
     }
 
     // Validate required fields
-    if (!submissionType || !technician) {
+    if (!projectId || !submissionType || !technician) {
       return NextResponse.json(
-        { error: 'Missing required fields: submissionType and technician are required' },
+        { error: 'Missing required fields: projectId, submissionType and technician are required' },
         { status: 400 }
       );
     }
 
-    if (!['site_survey', 'installation', 'inspection'].includes(submissionType)) {
+    if (!UUID_PATTERN.test(projectId)) {
+      return NextResponse.json({ error: 'projectId must be a project ID' }, { status: 400 });
+    }
+
+    if (!isPhotoSubmissionType(submissionType)) {
       return NextResponse.json(
-        { error: 'Invalid submission type. Must be: site_survey, installation, or inspection' },
+        { error: `Invalid submission type. Must be: ${PHOTO_SUBMISSION_TYPES.join(', ')}` },
         { status: 400 }
       );
     }
@@ -80,11 +105,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let projectQuery = supabase
+      .from('projects')
+      .select('id, current_stage, pipeline_id')
+      .eq('id', projectId);
+
+    // Installers can only submit photos for projects assigned to them
+    if (getProjectScope(access.user.role) === 'assigned') {
+      projectQuery = projectQuery.in('assigned_installer', getAssignmentKeys(access.user));
+    }
+
+    const { data: project, error: projectError } = await projectQuery.maybeSingle();
+
+    if (projectError) {
+      console.error('Error fetching project for photo submission:', projectError);
+      return NextResponse.json({ error: 'Failed to fetch project' }, { status: 500 });
+    }
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Photos are tagged with the stage the project is in now
+    const pipeline = await fetchPipeline(supabase, project.pipeline_id);
+    const stageId = (pipeline && getStage(pipeline, project.current_stage)?.id) ?? null;
+
     console.log(`Processing ${photos.length} photos for ${submissionType} submission`);
 
     // Create photo submission record
     const submissionData = {
-      project_id: projectId || null,
+      project_id: projectId,
       submission_type: submissionType,
       technician_name: technician,
       notes,
@@ -142,7 +192,7 @@ export async function POST(request: NextRequest) {
 
         // Upload to Supabase Storage
         const { error: uploadError } = await supabase.storage
-          .from('project-photos')
+          .from(PROJECT_PHOTO_BUCKET)
           .upload(filePath, buffer, {
             contentType: photo.type,
             upsert: false
@@ -160,13 +210,13 @@ export async function POST(request: NextRequest) {
 
         // Get public URL
         const { data: publicUrlData } = supabase.storage
-          .from('project-photos')
+          .from(PROJECT_PHOTO_BUCKET)
           .getPublicUrl(filePath);
 
         // Create photo record
         const photoData = {
           submission_id: submissionId,
-          project_id: projectId || null,
+          project_id: projectId,
           file_name: fileName,
           original_name: metadata?.originalName || photo.name,
           file_path: filePath,
@@ -193,6 +243,24 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        try {
+          await recordProjectPhoto(supabase, {
+            projectId,
+            photoType: submissionType,
+            filePath,
+            caption: metadata?.originalName || photo.name,
+            takenBy: technician,
+            takenAt: submissionRecord.submission_timestamp,
+            stageId,
+            location,
+            submissionId,
+            photoRecordId: photoRecord.id
+          });
+        } catch (error) {
+          // The photo is stored and recorded; only the gallery entry is missing
+          console.error(`Error adding photo ${i + 1} to project history:`, error);
+        }
+
         uploadedPhotos.push({
           id: photoRecord.id,
           fileName: fileName,
@@ -229,6 +297,14 @@ export async function POST(request: NextRequest) {
       console.error('Error updating submission status:', updateError);
     }
 
+    if (finalStatus === 'completed') {
+      after(() => runProjectAutomation(supabase, {
+        projectId,
+        triggers: ['photo_submission_completed'],
+        triggeredBy: access.user.clerkUserId
+      }).catch(error => console.error('Error running project automation:', error)));
+    }
+
     // Create response
     const response = {
       success: true,
@@ -0,0 +1,145 @@
+/**
+ * CRM Pipelines API Route
+ *
+ * Project pipeline templates and their ordered stages (see src/lib/pipelines.ts).
+ *
+ * Features:
+ * - List pipelines with stages, required documents and approval flags
+ * - Create a new pipeline template (admins only)
+ * - Role-based access control
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { fetchMessageTemplates } from '@/lib/messageTemplates';
+import { DOCUMENT_TYPE_PATTERN, fetchPipeline, fetchPipelines } from '@/lib/pipelines';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+
+interface StageInput {
+  name?: unknown;
+  description?: unknown;
+  typicalDurationDays?: unknown;
+  requiresApproval?: unknown;
+  requiredDocuments?: unknown;
+  smsTemplate?: unknown;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const pipelines = await fetchPipelines(supabase, {
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    });
+
+    return NextResponse.json({ pipelines });
+  } catch (error) {
+    console.error('Error in CRM pipelines API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const { key, name, description, stages } = await request.json();
+
+    if (typeof key !== 'string' || !KEY_PATTERN.test(key)) {
+      return NextResponse.json(
+        { error: 'key must be lowercase letters, numbers and underscores' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(stages) || stages.length === 0) {
+      return NextResponse.json({ error: 'At least one stage is required' }, { status: 400 });
+    }
+
+    const smsTemplateKeys = new Set(
+      (await fetchMessageTemplates(supabase, { channel: 'sms', context: 'project' })).map(template => template.key)
+    );
+
+    const stageErrors: string[] = [];
+    const stageRows = (stages as StageInput[]).map((stage, index) => {
+      const requiredDocuments = Array.isArray(stage.requiredDocuments) ? stage.requiredDocuments : [];
+
+      if (typeof stage.name !== 'string' || !stage.name.trim()) {
+        stageErrors.push(`Stage ${index + 1}: name is required`);
+      }
+      if (!requiredDocuments.every(doc => typeof doc === 'string' && DOCUMENT_TYPE_PATTERN.test(doc))) {
+        stageErrors.push(`Stage ${index + 1}: requiredDocuments must be document type keys`);
+      }
+      if (stage.smsTemplate != null && (typeof stage.smsTemplate !== 'string' || !smsTemplateKeys.has(stage.smsTemplate))) {
+        stageErrors.push(`Stage ${index + 1}: smsTemplate must be an active project SMS template`);
+      }
+
+      return {
+        sort_order: index + 1,
+        stage_name: typeof stage.name === 'string' ? stage.name.trim() : '',
+        stage_description: typeof stage.description === 'string' ? stage.description : null,
+        typical_duration_days: Number.isInteger(stage.typicalDurationDays) ? stage.typicalDurationDays : null,
+        requires_approval: stage.requiresApproval === true,
+        required_documents: requiredDocuments,
+        auto_sms_template: typeof stage.smsTemplate === 'string' ? stage.smsTemplate : null
+      };
+    });
+
+    if (stageErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid stages', details: stageErrors }, { status: 400 });
+    }
+
+    const { data: pipeline, error: pipelineError } = await supabase
+      .from('project_pipelines')
+      .insert({
+        key,
+        name: name.trim(),
+        description: typeof description === 'string' ? description : null
+      })
+      .select('id')
+      .single();
+
+    if (pipelineError) {
+      if (pipelineError.code === '23505') {
+        return NextResponse.json({ error: `A pipeline with key ${key} already exists` }, { status: 409 });
+      }
+      console.error('Error creating pipeline:', pipelineError);
+      return NextResponse.json({ error: 'Failed to create pipeline' }, { status: 500 });
+    }
+
+    const { error: stagesError } = await supabase
+      .from('project_lifecycle_stages')
+      .insert(stageRows.map(stage => ({ ...stage, pipeline_id: pipeline.id })));
+
+    if (stagesError) {
+      console.error('Error creating pipeline stages:', stagesError);
+      await supabase.from('project_pipelines').delete().eq('id', pipeline.id);
+      return NextResponse.json({ error: 'Failed to create pipeline stages' }, { status: 500 });
+    }
+
+    return NextResponse.json(await fetchPipeline(supabase, pipeline.id), { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM pipelines POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * CRM Project Automation API Route
+ *
+ * Automation log and follow-up tasks for a project (see
+ * src/lib/projectAutomation.ts).
+ *
+ * Features:
+ * - ?projectId= automation runs (rule, trigger, action, outcome) and tasks
+ * - Mark a task done or reopen it
+ * - Role-based access control (project read / write permission; installers
+ *   only see assigned projects)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys, type CrmUser } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import {
+  PROJECT_TASK_STATUSES,
+  fetchAutomationRuns,
+  fetchProjectTasks,
+  isProjectTaskStatus,
+  setProjectTaskStatus
+} from '@/lib/projectAutomation';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The project if it exists and the user may see it
+ */
+async function fetchAccessibleProject(user: CrmUser, projectId: string) {
+  let query = supabase
+    .from('projects')
+    .select('id')
+    .eq('id', projectId);
+
+  // Installers can only see projects assigned to them
+  if (getProjectScope(user.role) === 'assigned') {
+    query = query.in('assigned_installer', getAssignmentKeys(user));
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch project ${projectId}: ${error.message}`);
+  }
+
+  return data as { id: string } | null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
+
+    const projectId = new URL(request.url).searchParams.get('projectId');
+    if (!projectId || !UUID_PATTERN.test(projectId)) {
+      return NextResponse.json({ error: 'A valid projectId is required' }, { status: 400 });
+    }
+
+    const project = await fetchAccessibleProject(access.user, projectId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const [runs, tasks] = await Promise.all([
+      fetchAutomationRuns(supabase, projectId),
+      fetchProjectTasks(supabase, projectId)
+    ]);
+
+    return NextResponse.json({ runs, tasks });
+  } catch (error) {
+    console.error('Error in CRM project automation API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
+
+    const { taskId, status } = await request.json();
+
+    if (typeof taskId !== 'string' || !UUID_PATTERN.test(taskId)) {
+      return NextResponse.json({ error: 'A valid taskId is required' }, { status: 400 });
+    }
+
+    if (!isProjectTaskStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${PROJECT_TASK_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const task = await setProjectTaskStatus(supabase, taskId, status, access.user);
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ task });
+  } catch (error) {
+    console.error('Error in CRM project automation PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Project Automation Job
+ *
+ * Called every 15 minutes by Vercel Cron (see vercel.json). Evaluates the
+ * automation rules of every active project's current stage and runs the
+ * actions whose trigger is met (see src/lib/projectAutomation.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Each rule fires at most once per stage visit
+ * - Failed actions are retried on the next run
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { runProjectAutomation } from '@/lib/projectAutomation';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const summary = await runProjectAutomation(supabase);
+    console.log(`Project automation: ${summary.succeeded} succeeded, ${summary.skipped} skipped, ${summary.failed} failed across ${summary.projects} projects`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in project automation job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
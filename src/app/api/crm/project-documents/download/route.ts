@@ -0,0 +1,92 @@
+/**
+ * CRM Project Document Download API Route
+ *
+ * Streams a project document to signed-in CRM users from whichever backend
+ * holds it (see src/lib/projectDocuments.ts). Documents are never served
+ * from a public URL.
+ *
+ * Features:
+ * - Role-based access control (installers only see assigned projects)
+ * - Checksum verified before the file is served
+ * - Inline display for PDFs and images, ?download=1 to save
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { fetchProjectDocument, readProjectDocument } from '@/lib/projectDocuments';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid document ID is required' }, { status: 400 });
+    }
+
+    const document = await fetchProjectDocument(supabase, id);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    // Installers can only open documents of projects assigned to them
+    if (getProjectScope(access.user.role) === 'assigned') {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', document.project_id)
+        .in('assigned_installer', getAssignmentKeys(access.user))
+        .maybeSingle();
+
+      if (!project) {
+        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+      }
+    }
+
+    if (!document.object_key) {
+      return NextResponse.json(
+        { error: 'The file for this document was not stored' },
+        { status: 404 }
+      );
+    }
+
+    let body: Buffer;
+    try {
+      body = await readProjectDocument(supabase, document);
+    } catch (readError) {
+      console.error(`Error reading project document ${id}:`, readError);
+      return NextResponse.json({ error: 'Failed to read document' }, { status: 502 });
+    }
+
+    const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    const fileName = document.document_name.replace(/[^\w.\- ]/g, '_');
+
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': document.file_type || 'application/octet-stream',
+        'Content-Length': String(body.length),
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  } catch (error) {
+    console.error('Error in CRM project document download API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * CRM Project Documents API Route
+ *
+ * Contracts, permits, interconnection agreements, PTO letters and other
+ * project paperwork (see src/lib/projectDocuments.ts).
+ *
+ * Features:
+ * - ?projectId= documents, plus the required documents still missing before
+ *   the project can leave its current stage
+ * - Multipart upload of a PDF or image with its document type
+ * - Delete a document (?id=)
+ * - Uploads fire the project's document_uploaded automation rules
+ * - Role-based access control (installers only see assigned projects)
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys, type CrmUser } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { DOCUMENT_TYPE_PATTERN, fetchPipeline, getMissingDocuments, getStage } from '@/lib/pipelines';
+import { runProjectAutomation } from '@/lib/projectAutomation';
+import {
+  ALLOWED_DOCUMENT_TYPES,
+  MAX_DOCUMENT_SIZE,
+  createProjectDocument,
+  deleteProjectDocument,
+  fetchProjectDocument,
+  fetchProjectDocuments
+} from '@/lib/projectDocuments';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The project if it exists and the user may see it
+ */
+async function fetchAccessibleProject(user: CrmUser, projectId: string) {
+  let query = supabase
+    .from('projects')
+    .select('id, current_stage, pipeline_id')
+    .eq('id', projectId);
+
+  // Installers can only see projects assigned to them
+  if (getProjectScope(user.role) === 'assigned') {
+    query = query.in('assigned_installer', getAssignmentKeys(user));
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch project ${projectId}: ${error.message}`);
+  }
+
+  return data as { id: string; current_stage: number; pipeline_id: string | null } | null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
+
+    const projectId = new URL(request.url).searchParams.get('projectId');
+    if (!projectId || !UUID_PATTERN.test(projectId)) {
+      return NextResponse.json({ error: 'A valid projectId is required' }, { status: 400 });
+    }
+
+    const project = await fetchAccessibleProject(access.user, projectId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const [documents, pipeline] = await Promise.all([
+      fetchProjectDocuments(supabase, projectId),
+      fetchPipeline(supabase, project.pipeline_id)
+    ]);
+
+    const missingDocuments = pipeline
+      ? getMissingDocuments(pipeline, project.current_stage, project.current_stage + 1, documents)
+      : [];
+
+    return NextResponse.json({ documents, missingDocuments });
+  } catch (error) {
+    console.error('Error in CRM project documents API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
+
+    const formData = await request.formData();
+    const projectId = formData.get('projectId');
+    const documentType = formData.get('documentType');
+    const notes = formData.get('notes');
+    const file = formData.get('file');
+
+    if (typeof projectId !== 'string' || !UUID_PATTERN.test(projectId)) {
+      return NextResponse.json({ error: 'A valid projectId is required' }, { status: 400 });
+    }
+
+    if (typeof documentType !== 'string' || !DOCUMENT_TYPE_PATTERN.test(documentType)) {
+      return NextResponse.json({ error: 'documentType must be a document type key' }, { status: 400 });
+    }
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (!ALLOWED_DOCUMENT_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: 'Invalid file type. Please upload a PDF, JPG, PNG or WebP file.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0 || file.size > MAX_DOCUMENT_SIZE) {
+      return NextResponse.json(
+        { error: `File must be between 1 byte and ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB` },
+        { status: 400 }
+      );
+    }
+
+    const project = await fetchAccessibleProject(access.user, projectId);
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const pipeline = await fetchPipeline(supabase, project.pipeline_id);
+    const stage = pipeline ? getStage(pipeline, project.current_stage) : null;
+
+    const document = await createProjectDocument(supabase, {
+      projectId,
+      documentType,
+      fileName: file.name,
+      contentType: file.type,
+      body: Buffer.from(await file.arrayBuffer()),
+      stageId: stage?.id ?? null,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+    }, access.user);
+
+    // e.g. advance once the permit approval is in
+    after(() => runProjectAutomation(supabase, {
+      projectId,
+      triggers: ['document_uploaded'],
+      triggeredBy: access.user.clerkUserId
+    }).catch(error => console.error('Error running project automation:', error)));
+
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM project documents POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid document ID is required' }, { status: 400 });
+    }
+
+    const document = await fetchProjectDocument(supabase, id);
+    if (!document || !(await fetchAccessibleProject(access.user, document.project_id))) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    await deleteProjectDocument(supabase, document);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in CRM project documents DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * CRM Project Photos API Route
+ *
+ * A project's photo history (see src/lib/projectPhotos.ts), filled by
+ * field photo submissions.
+ *
+ * Features:
+ * - ?projectId= photos, newest first, with lifecycle stage and GPS fix
+ * - Role-based access control (installers only see assigned projects)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { fetchProjectPhotos } from '@/lib/projectPhotos';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
+
+    const projectId = new URL(request.url).searchParams.get('projectId');
+    if (!projectId || !UUID_PATTERN.test(projectId)) {
+      return NextResponse.json({ error: 'A valid projectId is required' }, { status: 400 });
+    }
+
+    let projectQuery = supabase
+      .from('projects')
+      .select('id')
+      .eq('id', projectId);
+
+    // Installers can only see projects assigned to them
+    if (getProjectScope(access.user.role) === 'assigned') {
+      projectQuery = projectQuery.in('assigned_installer', getAssignmentKeys(access.user));
+    }
+
+    const { data: project, error: projectError } = await projectQuery.maybeSingle();
+
+    if (projectError) {
+      console.error('Error fetching project:', projectError);
+      return NextResponse.json({ error: 'Failed to fetch project' }, { status: 500 });
+    }
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const photos = await fetchProjectPhotos(supabase, projectId);
+
+    return NextResponse.json({ photos });
+  } catch (error) {
+    console.error('Error in CRM project photos API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
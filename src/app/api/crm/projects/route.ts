@@ -1,47 +1,90 @@
 /**
  * CRM Projects API Route
  * 
- * Manages solar installation projects with comprehensive 12-stage lifecycle tracking.
+ * Manages solar installation projects through configurable pipeline lifecycles.
  * Provides project tracking, status updates, milestone management, and automation.
  * 
  * Features:
- * - 12-stage project lifecycle management
- * - Automated stage progression
- * - SMS notifications with Twilio integration
+ * - Pipeline-based lifecycle management (stages, terminal stage and
+ *   customer SMS template come from the project's pipeline, see src/lib/pipelines.ts)
+ * - Customer SMS copy resolved from the template library (see src/lib/messageTemplates.ts)
+ * - Automation rules (messages, stage advances, tasks) fired after manual
+ *   advances and on demand (see src/lib/projectAutomation.ts)
+ * - SMS notifications queued through the SMS queue (see src/lib/smsQueue.ts)
+ * - Approval stages gated on their required documents (see src/lib/projectDocuments.ts)
  * - Photo and document management
- * - Role-based access control
+ * - Role-based access control (installers only see assigned projects)
  * - Project timeline tracking
+ * - Paginated, filterable, sortable and searchable project list (see src/lib/crmList.ts)
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { auth } from '@clerk/nextjs/server';
+import { requireCrmAccess, getAssignmentKeys } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { parseListParams, applyListQuery, buildListPage, type ListConfig } from '@/lib/crmList';
+import { getProjectTemplateValues, renderMessageTemplate } from '@/lib/messageTemplates';
+import {
+  fetchPipeline,
+  getDocumentTypeLabel,
+  getMissingDocuments,
+  getStage,
+  getStageCount,
+  type Pipeline
+} from '@/lib/pipelines';
+import { runProjectAutomation, sendStageSms } from '@/lib/projectAutomation';
+import { fetchProjectDocuments } from '@/lib/projectDocuments';
+import { deliverSms } from '@/lib/smsQueue';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
   process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
 );
 
+const PROJECT_LIST_CONFIG: ListConfig = {
+  sortColumns: {
+    created_at: 'created_at',
+    updated_at: 'updated_at',
+    customer_name: 'customer_name',
+    current_stage: 'current_stage'
+  },
+  defaultSort: 'created_at',
+  filterColumns: {
+    status: 'overall_status',
+    stage: 'current_stage',
+    assignedTo: ['assigned_project_manager', 'assigned_installer']
+  },
+  searchColumns: ['customer_name', 'customer_email', 'customer_phone', 'address'],
+  phoneDigitsColumn: 'customer_phone_digits',
+  dateColumn: 'created_at'
+};
+
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('projects:read');
+    if ('response' in access) return access.response;
 
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('id');
 
     if (projectId) {
       // Get single project - simplified for when tables don't exist yet
-      const { data: project, error: projectError } = await supabase
+      let projectQuery = supabase
         .from('projects')
         .select('*')
-        .eq('id', projectId)
-        .single();
+        .eq('id', projectId);
+
+      // Installers can only open projects assigned to them
+      if (getProjectScope(access.user.role) === 'assigned') {
+        projectQuery = projectQuery.in('assigned_installer', getAssignmentKeys(access.user));
+      }
+
+      const { data: project, error: projectError } = await projectQuery.single();
 
       if (projectError) {
+        if (projectError.code === 'PGRST116') {
+          return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
         console.error('Error fetching project:', projectError);
         // Return empty project if table doesn't exist
         if (projectError.code === 'PGRST205') {
@@ -66,42 +109,65 @@ export async function GET(request: NextRequest) {
         console.log('Stage history table not available yet');
       }
 
+      // Stages of the project's pipeline, for the progress bar
+      let pipeline: Pipeline | null = null;
+      try {
+        pipeline = await fetchPipeline(supabase, project.pipeline_id);
+      } catch (error) {
+        console.error('Error fetching project pipeline:', error);
+      }
+
       return NextResponse.json({
         project,
-        stageHistory
+        stageHistory,
+        pipeline
       });
     } else {
-      // Get all projects - simplified query
-      const { data: projects, error } = await supabase
+      // Get one page of projects
+      const parsed = parseListParams(searchParams, PROJECT_LIST_CONFIG);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+
+      const { stage } = parsed.params.filters;
+      if (stage && !/^\d+$/.test(stage)) {
+        return NextResponse.json({ error: 'stage must be a stage number' }, { status: 400 });
+      }
+
+      const query = supabase
         .from('projects')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .select('*', parsed.params.cursor ? undefined : { count: 'exact' });
+
+      const restrictTo = getProjectScope(access.user.role) === 'assigned'
+        ? { column: 'assigned_installer', values: getAssignmentKeys(access.user) }
+        : undefined;
+
+      const { data: projects, error, count } = await applyListQuery(query, parsed.params, PROJECT_LIST_CONFIG, restrictTo);
 
       if (error) {
         console.error('Error fetching projects:', error);
-        // Return empty array if table doesn't exist yet
+        // Return empty page if table doesn't exist yet
         if (error.code === 'PGRST205') {
-          return NextResponse.json([]);
+          return NextResponse.json(buildListPage([], parsed.params, PROJECT_LIST_CONFIG, 0));
         }
         return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
       }
 
-      return NextResponse.json(projects || []);
+      return NextResponse.json(buildListPage(projects || [], parsed.params, PROJECT_LIST_CONFIG, count ?? null));
     }
   } catch (error) {
     console.error('Error in CRM projects API:', error);
-    // Return empty array for database connection issues
-    return NextResponse.json([]);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
 
     const projectData = await request.json();
 
@@ -115,7 +181,8 @@ export async function POST(request: NextRequest) {
       project_value,
       assigned_project_manager,
       assigned_installer,
-      notes
+      notes,
+      pipeline_id
     } = projectData;
 
     if (!customer_name || !address) {
@@ -125,6 +192,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const pipeline = await fetchPipeline(supabase, pipeline_id);
+    const firstStage = pipeline?.stages[0];
+
+    if (!pipeline || !firstStage) {
+      return NextResponse.json(
+        { error: pipeline_id ? 'Pipeline not found' : 'No default pipeline configured' },
+        { status: 400 }
+      );
+    }
+
     // Create project
     const { data: project, error: projectError } = await supabase
       .from('projects')
@@ -139,6 +216,8 @@ export async function POST(request: NextRequest) {
         assigned_project_manager,
         assigned_installer,
         notes,
+        pipeline_id: pipeline.id,
+        current_stage: firstStage.stage_number,
         notice_to_proceed_date: new Date().toISOString().split('T')[0]
       })
       .select()
@@ -149,13 +228,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
     }
 
-    // Initialize stage history with stage 1
+    // Initialize stage history with the pipeline's first stage
     const { error } = await supabase
       .from('project_stage_history')
       .insert({
         project_id: project.id,
-        stage_id: 1,
-        completed_by: userId
+        stage_id: firstStage.id,
+        completed_by: access.user.clerkUserId
       });
 
     if (error) {
@@ -165,15 +244,21 @@ export async function POST(request: NextRequest) {
     // Send initial SMS notification
     if (customer_phone) {
       try {
-        await fetch(`${request.nextUrl.origin}/api/integrations/twilio`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
+        const message = await renderMessageTemplate(supabase, 'project_started', getProjectTemplateValues(project, {
+          stage: firstStage.name,
+          repName: access.user.name
+        }), 'sms');
+        if (message) {
+          await deliverSms(supabase, {
             to: customer_phone,
-            message: `Welcome to Quantum Solar, ${customer_name}! Your solar project has officially started. We'll keep you updated throughout the process. - Quantum Solar`,
-            type: 'project_started'
-          })
-        });
+            body: message.body,
+            messageType: 'project_started',
+            projectId: project.id,
+            leadId: project.lead_id,
+            leadSource: project.lead_source,
+            actor: access.user
+          });
+        }
       } catch (smsError) {
         console.error('Error sending welcome SMS:', smsError);
       }
@@ -191,11 +276,8 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
 
     const { id, action, ...updateData } = await request.json();
 
@@ -208,68 +290,87 @@ export async function PUT(request: NextRequest) {
 
     if (action === 'advance_stage') {
       const { new_stage, notes } = updateData;
-      
-      if (!new_stage || new_stage < 1 || new_stage > 12) {
+
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('customer_phone, customer_name, customer_email, address, scheduled_install_date, current_stage, pipeline_id, lead_id, lead_source')
+        .eq('id', id)
+        .single();
+
+      if (projectError || !project) {
+        if (projectError?.code === 'PGRST116') {
+          return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+        }
+        console.error('Error fetching project:', projectError);
+        return NextResponse.json({ error: 'Failed to fetch project' }, { status: 500 });
+      }
+
+      const pipeline = await fetchPipeline(supabase, project.pipeline_id);
+      const stageCount = pipeline ? getStageCount(pipeline) : 0;
+
+      if (!pipeline || !Number.isInteger(new_stage) || new_stage < 1 || new_stage > stageCount) {
+        return NextResponse.json(
+          { error: `Invalid stage number. This project's pipeline has ${stageCount} stages` },
+          { status: 400 }
+        );
+      }
+
+      if (new_stage <= project.current_stage) {
         return NextResponse.json(
-          { error: 'Invalid stage number' },
+          { error: 'Cannot advance to previous or same stage' },
           { status: 400 }
         );
       }
 
+      // Approval stages cannot be left until their required documents are uploaded
+      const missingDocuments = getMissingDocuments(
+        pipeline,
+        project.current_stage,
+        new_stage,
+        await fetchProjectDocuments(supabase, id)
+      );
+      if (missingDocuments.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Upload the required documents before advancing: ${missingDocuments.map(getDocumentTypeLabel).join(', ')}`,
+            missingDocuments
+          },
+          { status: 409 }
+        );
+      }
+
       // Use the database function to advance the stage
       const { error } = await supabase
         .rpc('advance_project_stage', {
           project_uuid: id,
           new_stage_id: new_stage,
           notes_text: notes,
-          advanced_by: userId
+          advanced_by: access.user.clerkUserId
         });
 
       if (error) {
+        // A document was deleted since the check above
+        if (error.message?.startsWith('Missing required documents')) {
+          return NextResponse.json({ error: error.message }, { status: 409 });
+        }
         console.error('Error advancing project stage:', error);
         return NextResponse.json({ error: 'Failed to advance project stage' }, { status: 500 });
       }
 
       // Send SMS notification for stage advancement
-      const { data: project } = await supabase
-        .from('projects')
-        .select('customer_phone, customer_name, current_stage')
-        .eq('id', id)
-        .single();
-
-      if (project?.customer_phone) {
+      const stage = getStage(pipeline, new_stage);
+      if (stage) {
         try {
-          const stageMessages = {
-            2: `Hi ${project.customer_name}! Our team will be conducting your site survey and system design. We'll contact you to schedule a convenient time.`,
-            3: `Great news ${project.customer_name}! We're submitting your solar permits to the local authorities. This typically takes 2-3 weeks.`,
-            4: `Excellent! ${project.customer_name}, your permits have been approved. We're now ordering your solar equipment.`,
-            5: `Hi ${project.customer_name}! Your solar equipment has arrived. We're now scheduling your installation.`,
-            6: `Exciting news ${project.customer_name}! Your solar installation has been scheduled. We'll call you to confirm the date.`,
-            7: `Installation day is here! ${project.customer_name}, our crew is on their way to begin your solar installation.`,
-            8: `Fantastic! ${project.customer_name}, your solar system installation is complete. Next step: electrical inspection.`,
-            9: `Great news ${project.customer_name}! Your system passed inspection. We're now submitting interconnection paperwork to your utility.`,
-            10: `Hi ${project.customer_name}! Your utility interconnection is in process. Almost ready to start saving with solar!`,
-            11: `Exciting! ${project.customer_name}, your solar system is being commissioned and tested. Final step coming up!`,
-            12: `🎉 Congratulations ${project.customer_name}! Your solar system is now officially online and generating clean energy savings!`
-          };
-
-          const message = stageMessages[new_stage as keyof typeof stageMessages];
-          if (message) {
-            await fetch(`${request.nextUrl.origin}/api/integrations/twilio`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                to: project.customer_phone,
-                message: message,
-                type: 'stage_update'
-              })
-            });
-          }
+          await sendStageSms(supabase, { id, ...project }, stage, access.user);
         } catch (smsError) {
           console.error('Error sending stage update SMS:', smsError);
         }
       }
 
+      // Fire the new stage's automation rules without holding up the response
+      after(() => runProjectAutomation(supabase, { projectId: id, triggeredBy: access.user.clerkUserId })
+        .catch(error => console.error('Error running project automation:', error)));
+
       return NextResponse.json({ success: true, stage: new_stage });
     } else {
       // Regular project update
@@ -297,25 +398,16 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// Run project automation - can be called by cron job or manually
+// Run project automation now (see src/lib/projectAutomation.ts); the cron
+// job runs it on a schedule through /api/crm/project-automation/run
 export async function PATCH() {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('projects:write');
+    if ('response' in access) return access.response;
 
-    // Run the automation function
-    const { error } = await supabase
-      .rpc('process_project_automation');
-
-    if (error) {
-      console.error('Error running project automation:', error);
-      return NextResponse.json({ error: 'Failed to run automation' }, { status: 500 });
-    }
+    const summary = await runProjectAutomation(supabase, { triggeredBy: access.user.clerkUserId });
 
-    return NextResponse.json({ success: true, message: 'Project automation completed' });
+    return NextResponse.json({ success: true, message: 'Project automation completed', ...summary });
   } catch (error) {
     console.error('Error in project automation:', error);
     return NextResponse.json(
@@ -0,0 +1,170 @@
+/**
+ * CRM Qualification Rules API Route
+ *
+ * Rules of the splash funnel qualification check (see
+ * src/lib/leadQualification.ts).
+ *
+ * Features:
+ * - List the rules in evaluation order
+ * - Create, edit, turn on / off and delete rules (admins only)
+ * - Every splash lead is re-checked after a change, so the CRM shows the
+ *   current outcome and reason code
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  createQualificationRule,
+  deleteQualificationRule,
+  fetchQualificationRules,
+  requalifyAllLeads,
+  updateQualificationRule,
+  validateQualificationRule,
+  type NewQualificationRule
+} from '@/lib/leadQualification';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Editable rule fields; code is fixed once created
+const RULE_FIELDS = ['field', 'operator', 'match_values', 'outcome', 'reason', 'sort_order', 'is_active'] as const;
+
+function requalifyAfterChange() {
+  after(() => requalifyAllLeads(supabase)
+    .then(checked => console.log(`Lead qualification: re-checked ${checked} leads after a rule change`))
+    .catch(error => console.error('Error re-checking lead qualification:', error)));
+}
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess('leads:read');
+    if ('response' in access) return access.response;
+
+    const rules = await fetchQualificationRules(supabase);
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error in CRM qualification rules API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const body = await request.json();
+    const validationError = validateQualificationRule(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const rule = await createQualificationRule(supabase, {
+      code: body.code,
+      field: body.field,
+      operator: body.operator,
+      match_values: (body.match_values as string[]).map(value => value.trim()),
+      outcome: body.outcome,
+      reason: body.reason.trim(),
+      sort_order: body.sort_order,
+      is_active: body.is_active
+    }, access.user);
+
+    if (!rule) {
+      return NextResponse.json({ error: `A rule with code ${body.code} already exists` }, { status: 409 });
+    }
+
+    requalifyAfterChange();
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('Error in CRM qualification rules POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const body = await request.json();
+
+    if (typeof body.id !== 'string' || !UUID_PATTERN.test(body.id)) {
+      return NextResponse.json({ error: 'A valid rule ID is required' }, { status: 400 });
+    }
+
+    const update: Partial<Omit<NewQualificationRule, 'code'>> = {};
+    for (const field of RULE_FIELDS) {
+      if (body[field] !== undefined) {
+        (update as Record<string, unknown>)[field] = body[field];
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const validationError = validateQualificationRule(update, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (update.match_values) update.match_values = update.match_values.map(value => value.trim());
+    if (update.reason) update.reason = update.reason.trim();
+
+    const rule = await updateQualificationRule(supabase, body.id, update, access.user);
+    if (!rule) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    requalifyAfterChange();
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Error in CRM qualification rules PUT API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id || !UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'A valid rule ID is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteQualificationRule(supabase, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    requalifyAfterChange();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in CRM qualification rules DELETE API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
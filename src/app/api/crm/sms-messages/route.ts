@@ -0,0 +1,80 @@
+/**
+ * CRM SMS Messages API Route
+ *
+ * SMS conversation for a lead or a project: outbound texts with the delivery
+ * status reported by Twilio and the customer's replies (see
+ * src/lib/smsQueue.ts and src/lib/smsConversations.ts).
+ *
+ * Features:
+ * - ?leadId= or ?projectId= filter
+ * - Threads by phone number with their opt-out state
+ * - Role-based access control (lead or project read permission; installers
+ *   only see assigned projects)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess, getAssignmentKeys } from '@/lib/crmAuth';
+import { getProjectScope } from '@/lib/crmAccess';
+import { fetchSmsMessages } from '@/lib/smsQueue';
+import { fetchSmsConversations } from '@/lib/smsConversations';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const leadId = searchParams.get('leadId');
+    const projectId = searchParams.get('projectId');
+
+    if (!leadId === !projectId) {
+      return NextResponse.json({ error: 'Exactly one of leadId or projectId is required' }, { status: 400 });
+    }
+
+    const id = (leadId || projectId) as string;
+    if (!UUID_PATTERN.test(id)) {
+      return NextResponse.json({ error: 'Invalid ID' }, { status: 400 });
+    }
+
+    const access = await requireCrmAccess(leadId ? 'leads:read' : 'projects:read');
+    if ('response' in access) return access.response;
+
+    // Installers can only see projects assigned to them
+    if (projectId && getProjectScope(access.user.role) === 'assigned') {
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('id', projectId)
+        .in('assigned_installer', getAssignmentKeys(access.user))
+        .maybeSingle();
+
+      if (projectError) {
+        console.error('Error fetching project:', projectError);
+        return NextResponse.json({ error: 'Failed to fetch project' }, { status: 500 });
+      }
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+    }
+
+    const filter = leadId ? { leadId } : { projectId: id };
+    const [messages, conversations] = await Promise.all([
+      fetchSmsMessages(supabase, filter),
+      fetchSmsConversations(supabase, filter)
+    ]);
+
+    return NextResponse.json({ messages, conversations });
+  } catch (error) {
+    console.error('Error in CRM SMS messages API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
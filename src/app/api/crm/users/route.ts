@@ -0,0 +1,100 @@
+/**
+ * CRM Users API Route
+ *
+ * Manages CRM role assignments in the crm_users table.
+ *
+ * Features:
+ * - List CRM users (managers and admins)
+ * - Invite a user by email or change their role / active flag (admins only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { CRM_ROLES, isCrmRole } from '@/lib/crmAccess';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function GET() {
+  try {
+    const access = await requireCrmAccess('users:read');
+    if ('response' in access) return access.response;
+
+    const { data, error } = await supabase
+      .from('crm_users')
+      .select('id, clerk_user_id, email, name, role, active, created_at')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching CRM users:', error);
+      return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error('Error in CRM users API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('settings');
+    if ('response' in access) return access.response;
+
+    const { email, name, role, active } = await request.json();
+
+    if (!email || typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+
+    if (!isCrmRole(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${CRM_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    // Admins cannot remove their own admin access
+    if (normalizedEmail === access.user.email.toLowerCase() && (role !== 'admin' || active === false)) {
+      return NextResponse.json({ error: 'You cannot change your own role' }, { status: 400 });
+    }
+
+    const row: Record<string, unknown> = {
+      email: normalizedEmail,
+      role,
+      updated_at: new Date().toISOString()
+    };
+    if (typeof name === 'string') row.name = name.trim() || null;
+    if (typeof active === 'boolean') row.active = active;
+
+    const { data, error } = await supabase
+      .from('crm_users')
+      .upsert(row, { onConflict: 'email' })
+      .select('id, clerk_user_id, email, name, role, active, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error saving CRM user:', error);
+      return NextResponse.json({ error: 'Failed to save user' }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in CRM users POST API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
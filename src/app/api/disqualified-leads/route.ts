@@ -5,32 +5,44 @@
  * during the Ameren Illinois splash form process.
  * 
  * Features:
- * - Email notification to admin about disqualified leads
- * - Database tracking of disqualification reasons
+ * - Answers re-checked against the qualification rules (see
+ *   src/lib/leadQualification.ts); only disqualified leads are recorded
+ * - Email notification to admin about disqualified leads, from the
+ *   disqualified_lead_notification template
+ * - Database tracking of disqualification reasons and reason codes
  * - TCPA compliance tracking
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { Resend } from 'resend';
+import { renderMessageTemplate } from '@/lib/messageTemplates';
+import { qualifyAnswers, toQualificationAnswers, type QualificationResult } from '@/lib/leadQualification';
 
 const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
 
+// Message templates and qualification rules are only readable with the service role
+const serviceSupabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+// Answers so far; the competitor form asks qualifying questions before contact details
 interface DisqualifiedLeadData {
   sessionId?: string;
-  firstName: string;
-  lastName: string;
-  phone: string;
-  email: string;
-  streetAddress: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  utilityCompany: string;
-  homeownerStatus: string;
-  creditScore: string;
-  shading: string;
-  disqualificationReason: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  email?: string;
+  streetAddress?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  utilityCompany?: string;
+  homeownerStatus?: string;
+  creditScore?: string;
+  shading?: string;
   tcpaConsent?: boolean;
   smsConsent?: boolean;
   timestamp?: string;
@@ -41,17 +53,30 @@ export async function POST(request: NextRequest) {
     const body: DisqualifiedLeadData = await request.json();
     console.log('Received disqualified lead data:', body);
 
-    // Validate required fields
-    const requiredFields = ['firstName', 'lastName', 'phone', 'disqualificationReason'];
-    const missingFields = requiredFields.filter(field => !body[field as keyof DisqualifiedLeadData]);
-    
-    if (missingFields.length > 0) {
+    if (!body.sessionId && !body.phone) {
       return NextResponse.json(
-        { error: `Missing required fields: ${missingFields.join(', ')}` },
+        { error: 'sessionId or phone is required' },
         { status: 400 }
       );
     }
 
+    // The rules decide, not the form
+    const qualification = await qualifyAnswers(serviceSupabase, toQualificationAnswers(body));
+    if (qualification.status !== 'disqualified') {
+      return NextResponse.json(
+        { error: 'Lead is not disqualified', status: qualification.status },
+        { status: 409 }
+      );
+    }
+
+    const disqualification = {
+      status: 'disqualified',
+      notes: `Disqualified: ${qualification.reason}`,
+      qualification_status: qualification.status,
+      qualification_reason_code: qualification.reasonCode,
+      qualification_reason: qualification.reason
+    };
+
     let savedLead;
     
     // Save or update disqualified lead in database
@@ -89,10 +114,7 @@ export async function POST(request: NextRequest) {
         // Update the lead with disqualified status
         const { data: updatedLead, error: updateError } = await supabase
           .from('splash_leads')
-          .update({ 
-            status: 'disqualified',
-            notes: `Disqualified: ${body.disqualificationReason}`
-          })
+          .update(disqualification)
           .eq('id', leadId)
           .select()
           .single();
@@ -126,8 +148,7 @@ export async function POST(request: NextRequest) {
           form_type: 'ameren_illinois_splash',
           source: 'splash_page',
           completed_at: new Date().toISOString(),
-          status: 'disqualified',
-          notes: `Disqualified: ${body.disqualificationReason}`,
+          ...disqualification,
           tcpa_consent: body.tcpaConsent || false,
           sms_consent: body.smsConsent || false,
           consent_timestamp: (body.tcpaConsent || body.smsConsent) ? new Date().toISOString() : null
@@ -168,8 +189,7 @@ export async function POST(request: NextRequest) {
         form_type: 'ameren_illinois_splash',
         source: 'splash_page',
         completed_at: new Date().toISOString(),
-        status: 'disqualified',
-        notes: `Disqualified: ${body.disqualificationReason}`,
+        ...disqualification,
         tcpa_consent: body.tcpaConsent || false,
         sms_consent: body.smsConsent || false,
         consent_timestamp: (body.tcpaConsent || body.smsConsent) ? new Date().toISOString() : null
@@ -194,7 +214,7 @@ export async function POST(request: NextRequest) {
     // Send disqualified lead email notification
     if (savedLead) {
       try {
-        await sendDisqualifiedLeadNotification(body, savedLead);
+        await sendDisqualifiedLeadNotification(body, qualification, savedLead);
       } catch (emailError) {
         console.error('Email notification failed:', emailError);
         // Don't fail the request if email fails
@@ -222,7 +242,11 @@ export async function POST(request: NextRequest) {
 /**
  * Send email notification for disqualified leads
  */
-async function sendDisqualifiedLeadNotification(leadData: DisqualifiedLeadData, savedLead: Record<string, unknown>) {
+async function sendDisqualifiedLeadNotification(
+  leadData: DisqualifiedLeadData,
+  qualification: QualificationResult,
+  savedLead: Record<string, unknown>
+) {
   try {
     // Build field list with only filled fields
     const filledFields: string[] = [];
@@ -240,7 +264,7 @@ async function sendDisqualifiedLeadNotification(leadData: DisqualifiedLeadData,
     if (leadData.shading) filledFields.push(`<strong>Shading:</strong> ${leadData.shading}`);
 
     // Add disqualification reason
-    filledFields.push(`<strong>❌ Disqualification Reason:</strong> ${leadData.disqualificationReason}`);
+    filledFields.push(`<strong>❌ Disqualification Reason:</strong> ${qualification.reason} (${qualification.reasonCode})`);
 
     // Add TCPA consent information
     const consentInfo: string[] = [];
@@ -251,51 +275,29 @@ async function sendDisqualifiedLeadNotification(leadData: DisqualifiedLeadData,
       consentInfo.push(`<strong>SMS Consent:</strong> ${leadData.smsConsent ? '✅ Yes' : '❌ No'}`);
     }
 
-    const subject = `❌ Disqualified Lead - Ameren Illinois: ${leadData.firstName} ${leadData.lastName}`;
-
-    const emailData = {
-      to: process.env.NOTIFICATION_EMAIL || 'cesar@quantumsolar.us',
-      subject: subject,
-      html: `
-        <h2>❌ Disqualified Ameren Illinois Splash Page Lead</h2>
-        <p><strong>⚠️ Status:</strong> Lead disqualified during form completion</p>
-        <p><strong>🚫 Reason:</strong> ${leadData.disqualificationReason}</p>
-        <hr>
-        <h3>Lead Information:</h3>
-        ${filledFields.map(field => `<p>${field}</p>`).join('')}
-        ${filledFields.length === 0 ? '<p><em>No information provided</em></p>' : ''}
-        
-        ${consentInfo.length > 0 ? `
+    const email = await renderMessageTemplate(serviceSupabase, 'disqualified_lead_notification', {
+      FullName: `${leadData.firstName || ''} ${leadData.lastName || ''}`.trim() || 'Unknown',
+      Reason: qualification.reason ?? '',
+      LeadId: String(savedLead.id),
+      Timestamp: new Date().toLocaleString(),
+      LeadDetails: filledFields.length > 0
+        ? filledFields.map(field => `<p>${field}</p>`).join('')
+        : '<p><em>No information provided</em></p>',
+      ConsentDetails: consentInfo.length > 0 ? `
         <hr>
         <h3>📋 TCPA Compliance Information:</h3>
         ${consentInfo.map(info => `<p>${info}</p>`).join('')}
-        ${leadData.tcpaConsent || leadData.smsConsent ? 
+        ${leadData.tcpaConsent || leadData.smsConsent ?
           `<p><strong>Consent Timestamp:</strong> ${new Date().toLocaleString()}</p>
            <p><em>⚖️ This lead provided explicit consent before disqualification.</em></p>` :
           `<p><em>⚠️ No consent provided - follow-up must comply with TCPA regulations.</em></p>`
         }
-        ` : ''}
-        <hr>
-        <div style="background-color: #fee; border: 1px solid #fcc; padding: 15px; border-radius: 5px; margin: 10px 0;">
-          <h4 style="color: #c33; margin: 0 0 10px 0;">⚠️ Follow-up Opportunity</h4>
-          <p style="margin: 0; color: #666;">
-            While this lead didn&apos;t qualify for the current Ameren Illinois promotion, they may be eligible for:
-          </p>
-          <ul style="margin: 10px 0; color: #666;">
-            <li>Alternative financing programs</li>
-            <li>Future promotions when circumstances change</li>
-            <li>Referral opportunities</li>
-            <li>Educational content about solar benefits</li>
-          </ul>
-          <p style="margin: 0; color: #666; font-style: italic;">
-            Consider adding to nurture campaign if consent was provided.
-          </p>
-        </div>
-        <hr>
-        <p><small>Database ID: ${savedLead.id}</small></p>
-        <p><small>Timestamp: ${new Date().toLocaleString()}</small></p>
-      `
-    };
+      ` : ''
+    }, 'email');
+
+    if (!email) {
+      throw new Error('Email template disqualified_lead_notification is missing or inactive');
+    }
 
     // Send email using Resend
     await resend.emails.send({
@@ -306,8 +308,8 @@ async function sendDisqualifiedLeadNotification(leadData: DisqualifiedLeadData,
         // 'doug@leadrnnr.com', // Commented out for testing
         // 'bryan@leadrnnr.com' // Commented out for testing
       ],
-      subject: emailData.subject,
-      html: emailData.html
+      subject: email.subject ?? '',
+      html: email.body
     });
 
     console.log('Disqualified lead email sent successfully');
@@ -0,0 +1,303 @@
+/**
+ * Facebook Conversions API Endpoint
+ *
+ * Server-side relay for the hybrid pixel tracking in src/lib/fbPixel.ts.
+ * Receives lead events from the browser, hashes customer information the way
+ * Meta requires, and forwards them to the Graph API Conversions endpoint.
+ *
+ * Features:
+ * - Meta-compliant normalization + SHA-256 hashing of PII
+ * - Shared event_id with the browser pixel for deduplication
+ * - fbc/fbp cookies, client IP and user agent for better match rates
+ * - Configurable Graph endpoint (FACEBOOK_GRAPH_API_URL) for local stubs
+ * - Optional test event code for Events Manager testing
+ * - Per-IP rate limiting
+ * - Every relay attempt logged to facebook_event_log for quality reporting
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { rateLimit, getClientIp } from '@/lib/rateLimit';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const GRAPH_API_URL = process.env.FACEBOOK_GRAPH_API_URL || 'https://graph.facebook.com/v21.0';
+const PIXEL_ID = process.env.FACEBOOK_PIXEL_ID || '3001592626687286';
+
+// Customer information as sent by sendServerSideEvent
+interface CustomerInfo {
+  email?: string;
+  phone?: string;
+  firstName?: string;
+  lastName?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+interface ConversionEventPayload {
+  eventName: string;
+  customerInfo?: CustomerInfo;
+  customData?: {
+    contentName?: string;
+    contentCategory?: string;
+    value?: number;
+    currency?: string;
+  };
+  eventId: string;
+  sourceUrl?: string;
+  fbc?: string;
+  fbp?: string;
+}
+
+// Meta expects two-letter state codes before hashing
+const US_STATE_CODES: Record<string, string> = {
+  alabama: 'al', alaska: 'ak', arizona: 'az', arkansas: 'ar', california: 'ca',
+  colorado: 'co', connecticut: 'ct', delaware: 'de', 'district of columbia': 'dc',
+  florida: 'fl', georgia: 'ga', hawaii: 'hi', idaho: 'id', illinois: 'il',
+  indiana: 'in', iowa: 'ia', kansas: 'ks', kentucky: 'ky', louisiana: 'la',
+  maine: 'me', maryland: 'md', massachusetts: 'ma', michigan: 'mi', minnesota: 'mn',
+  mississippi: 'ms', missouri: 'mo', montana: 'mt', nebraska: 'ne', nevada: 'nv',
+  'new hampshire': 'nh', 'new jersey': 'nj', 'new mexico': 'nm', 'new york': 'ny',
+  'north carolina': 'nc', 'north dakota': 'nd', ohio: 'oh', oklahoma: 'ok',
+  oregon: 'or', pennsylvania: 'pa', 'rhode island': 'ri', 'south carolina': 'sc',
+  'south dakota': 'sd', tennessee: 'tn', texas: 'tx', utah: 'ut', vermont: 'vt',
+  virginia: 'va', washington: 'wa', 'west virginia': 'wv', wisconsin: 'wi', wyoming: 'wy'
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = rateLimit(`fb-conversions:ip:${getClientIp(request)}`, { limit: 120, windowMs: 10 * 60 * 1000 });
+    if (limited) return limited;
+
+    const body: ConversionEventPayload = await request.json();
+
+    if (!body.eventName || !body.eventId) {
+      return NextResponse.json(
+        { error: 'Missing required fields', details: 'eventName and eventId are required' },
+        { status: 400 }
+      );
+    }
+
+    const accessToken = process.env.FACEBOOK_CONVERSIONS_API_TOKEN;
+
+    if (!accessToken) {
+      await logRelayedEvent(body, { status: 'failed', errorMessage: 'FACEBOOK_CONVERSIONS_API_TOKEN is not set' });
+      return NextResponse.json(
+        { error: 'Facebook Conversions API configuration missing', details: 'FACEBOOK_CONVERSIONS_API_TOKEN is not set' },
+        { status: 500 }
+      );
+    }
+
+    const event = buildConversionEvent(body, request);
+
+    const payload: Record<string, unknown> = { data: [event] };
+    if (process.env.FACEBOOK_TEST_EVENT_CODE) {
+      payload.test_event_code = process.env.FACEBOOK_TEST_EVENT_CODE;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${GRAPH_API_URL}/${PIXEL_ID}/events?access_token=${encodeURIComponent(accessToken)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+    } catch (networkError) {
+      const errorMessage = networkError instanceof Error ? networkError.message : 'Network error';
+      console.error('Facebook Conversions API network error:', networkError);
+      await logRelayedEvent(body, { status: 'failed', errorMessage });
+      return NextResponse.json(
+        { error: 'Failed to reach Facebook', details: errorMessage },
+        { status: 502 }
+      );
+    }
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const errorMessage = result?.error?.message || `HTTP ${response.status}`;
+      console.error('Facebook Conversions API error:', response.status, result);
+      await logRelayedEvent(body, { status: 'failed', httpStatus: response.status, errorMessage, fbtraceId: result?.error?.fbtrace_id });
+      return NextResponse.json(
+        { error: 'Failed to send event to Facebook', details: errorMessage },
+        { status: 502 }
+      );
+    }
+
+    await logRelayedEvent(body, {
+      status: 'sent',
+      httpStatus: response.status,
+      eventsReceived: result.events_received,
+      fbtraceId: result.fbtrace_id
+    });
+
+    return NextResponse.json({
+      success: true,
+      eventId: body.eventId,
+      eventsReceived: result.events_received,
+      fbtrace_id: result.fbtrace_id
+    });
+
+  } catch (error) {
+    console.error('Error in Facebook Conversions API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Configuration status for debugging
+export async function GET() {
+  return NextResponse.json({
+    configured: !!process.env.FACEBOOK_CONVERSIONS_API_TOKEN,
+    pixelId: PIXEL_ID,
+    graphApiUrl: GRAPH_API_URL,
+    testEventCode: !!process.env.FACEBOOK_TEST_EVENT_CODE,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Build a Conversions API server event from the client payload
+ */
+function buildConversionEvent(body: ConversionEventPayload, request: NextRequest) {
+  const customerInfo = body.customerInfo || {};
+  const userData: Record<string, unknown> = {};
+
+  const hashed: Record<string, string | null> = {
+    em: normalizeEmail(customerInfo.email),
+    ph: normalizePhone(customerInfo.phone),
+    fn: normalizeName(customerInfo.firstName),
+    ln: normalizeName(customerInfo.lastName),
+    ct: normalizeCity(customerInfo.city),
+    st: normalizeState(customerInfo.state),
+    zp: normalizeZip(customerInfo.zipCode),
+    country: 'us'
+  };
+
+  for (const [key, value] of Object.entries(hashed)) {
+    if (value) userData[key] = [sha256(value)];
+  }
+
+  // Browser identifiers and request context are sent unhashed per Meta's spec
+  if (body.fbc) userData.fbc = body.fbc;
+  if (body.fbp) userData.fbp = body.fbp;
+
+  const clientIp = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+                   request.headers.get('x-real-ip');
+  if (clientIp) userData.client_ip_address = clientIp;
+
+  const userAgent = request.headers.get('user-agent');
+  if (userAgent) userData.client_user_agent = userAgent;
+
+  const customData: Record<string, unknown> = {};
+  if (body.customData?.contentName) customData.content_name = body.customData.contentName;
+  if (body.customData?.contentCategory) customData.content_category = body.customData.contentCategory;
+  if (typeof body.customData?.value === 'number') customData.value = body.customData.value;
+  if (body.customData?.currency) customData.currency = body.customData.currency;
+
+  return {
+    event_name: body.eventName,
+    event_time: Math.floor(Date.now() / 1000),
+    event_id: body.eventId,
+    event_source_url: body.sourceUrl || request.headers.get('referer') || undefined,
+    action_source: 'website',
+    user_data: userData,
+    custom_data: customData
+  };
+}
+
+/**
+ * Record the relay attempt in facebook_event_log.
+ * Only the presence of each customer parameter is stored, never the values.
+ */
+async function logRelayedEvent(
+  body: ConversionEventPayload,
+  outcome: {
+    status: 'sent' | 'failed';
+    httpStatus?: number;
+    errorMessage?: string;
+    eventsReceived?: number;
+    fbtraceId?: string;
+  }
+) {
+  try {
+    const customerInfo = body.customerInfo || {};
+
+    const { error } = await supabase
+      .from('facebook_event_log')
+      .insert({
+        event_id: body.eventId,
+        event_name: body.eventName,
+        source: 'server',
+        has_email: !!normalizeEmail(customerInfo.email),
+        has_phone: !!normalizePhone(customerInfo.phone),
+        has_name: !!(normalizeName(customerInfo.firstName) || normalizeName(customerInfo.lastName)),
+        has_address: !!(normalizeCity(customerInfo.city) || normalizeState(customerInfo.state) || normalizeZip(customerInfo.zipCode)),
+        has_fbc: !!body.fbc,
+        has_fbp: !!body.fbp,
+        status: outcome.status,
+        http_status: outcome.httpStatus ?? null,
+        error_message: outcome.errorMessage ?? null,
+        events_received: outcome.eventsReceived ?? null,
+        fbtrace_id: outcome.fbtraceId ?? null,
+        source_url: body.sourceUrl || null
+      });
+
+    if (error) {
+      console.error('Error logging Facebook event:', error);
+    }
+  } catch (error) {
+    // Logging must never block the relay
+    console.error('Error logging Facebook event:', error);
+  }
+}
+
+/**
+ * Normalization helpers following Meta's customer information parameter rules
+ */
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function normalizeEmail(email?: string): string | null {
+  const value = email?.trim().toLowerCase();
+  return value || null;
+}
+
+function normalizePhone(phone?: string): string | null {
+  const digits = phone?.replace(/\D/g, '') || '';
+  if (!digits) return null;
+  // Default to the US country code for 10-digit numbers
+  return digits.length === 10 ? `1${digits}` : digits;
+}
+
+function normalizeName(name?: string): string | null {
+  // Lowercase and strip punctuation, digits and whitespace; accented letters are kept
+  const value = name?.trim().toLowerCase().replace(/[\s\d.,'"`~!?@#$%^&*()_+=\-]/g, '');
+  return value || null;
+}
+
+function normalizeCity(city?: string): string | null {
+  const value = city?.trim().toLowerCase().replace(/[^a-z]/g, '');
+  return value || null;
+}
+
+function normalizeState(state?: string): string | null {
+  const value = state?.trim().toLowerCase();
+  if (!value) return null;
+  if (/^[a-z]{2}$/.test(value)) return value;
+  return US_STATE_CODES[value] || null;
+}
+
+function normalizeZip(zipCode?: string): string | null {
+  const value = zipCode?.trim().split('-')[0].replace(/\s/g, '');
+  return value ? value.slice(0, 5) : null;
+}
@@ -0,0 +1,303 @@
+/**
+ * Facebook Dataset Quality API Endpoint
+ *
+ * Reports event match quality for our Facebook tracking from our own event
+ * log (facebook_event_log) instead of relying on Meta's diagnostics.
+ *
+ * Features:
+ * - Per-event counts for pixel and server events
+ * - Share of server events carrying email, phone, address, fbc and fbp
+ * - Pixel/server deduplication on shared event_id
+ * - Recent Conversions API relay failures
+ * - Overall health score with actionable recommendations
+ * - POST endpoint for the browser pixel to log its side of each event,
+ *   rate limited per IP
+ * - The report is restricted to CRM users with integrations access
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { rateLimit, getClientIp } from '@/lib/rateLimit';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const REPORT_TYPES = ['dataset_health', 'event_match_quality', 'data_processing_stats'] as const;
+type ReportType = typeof REPORT_TYPES[number];
+
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 90;
+const MAX_LOG_ROWS = 10000;
+const RECENT_FAILURE_LIMIT = 10;
+
+interface EventLogRow {
+  event_id: string;
+  event_name: string;
+  source: 'pixel' | 'server';
+  has_email: boolean;
+  has_phone: boolean;
+  has_name: boolean;
+  has_address: boolean;
+  has_fbc: boolean;
+  has_fbp: boolean;
+  status: 'sent' | 'failed' | 'logged';
+  http_status: number | null;
+  error_message: string | null;
+  fbtrace_id: string | null;
+  created_at: string;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const access = await requireCrmAccess('integrations');
+    if ('response' in access) return access.response;
+
+    const { searchParams } = new URL(request.url);
+    const type = (searchParams.get('type') || 'dataset_health') as ReportType;
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get('days') || String(DEFAULT_WINDOW_DAYS), 10) || DEFAULT_WINDOW_DAYS, 1),
+      MAX_WINDOW_DAYS
+    );
+
+    if (!REPORT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `Invalid type. Must be one of: ${REPORT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('facebook_event_log')
+      .select('event_id, event_name, source, has_email, has_phone, has_name, has_address, has_fbc, has_fbp, status, http_status, error_message, fbtrace_id, created_at')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(MAX_LOG_ROWS);
+
+    if (error) {
+      console.error('Error fetching Facebook event log:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch dataset quality metrics' },
+        { status: 500 }
+      );
+    }
+
+    const report = buildQualityReport((data || []) as EventLogRow[]);
+    const window = { days, since, truncated: (data || []).length >= MAX_LOG_ROWS };
+
+    const reportData = {
+      dataset_health: {
+        health: report.health,
+        match_quality: report.match_quality,
+        events: report.events,
+        deduplication: report.deduplication,
+        processing: report.processing,
+        recent_failures: report.recent_failures
+      },
+      event_match_quality: {
+        match_quality: report.match_quality,
+        events: report.events
+      },
+      data_processing_stats: {
+        processing: report.processing,
+        deduplication: report.deduplication,
+        recent_failures: report.recent_failures
+      }
+    }[type];
+
+    return NextResponse.json({
+      success: true,
+      type,
+      window,
+      data: reportData
+    });
+
+  } catch (error) {
+    console.error('Error in Facebook dataset quality API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Log the browser pixel side of an event (sent by fbPixel.ts via sendBeacon)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = rateLimit(`fb-pixel-log:ip:${getClientIp(request)}`, { limit: 120, windowMs: 10 * 60 * 1000 });
+    if (limited) return limited;
+
+    let body: { eventName?: unknown; eventId?: unknown; fbc?: unknown; fbp?: unknown };
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    if (typeof body.eventName !== 'string' || typeof body.eventId !== 'string' ||
+        !body.eventName || !body.eventId ||
+        body.eventName.length > 100 || body.eventId.length > 100) {
+      return NextResponse.json(
+        { error: 'eventName and eventId are required' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('facebook_event_log')
+      .insert({
+        event_id: body.eventId,
+        event_name: body.eventName,
+        source: 'pixel',
+        has_fbc: body.fbc === true,
+        has_fbp: body.fbp === true,
+        status: 'logged',
+        source_url: request.headers.get('referer')
+      });
+
+    if (error) {
+      console.error('Error logging pixel event:', error);
+      return NextResponse.json({ error: 'Failed to log pixel event' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in pixel event logging:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Aggregate event log rows into match quality, deduplication and health metrics
+ */
+function buildQualityReport(rows: EventLogRow[]) {
+  const serverEvents = rows.filter(row => row.source === 'server');
+  const pixelEvents = rows.filter(row => row.source === 'pixel');
+  const sentEvents = serverEvents.filter(row => row.status === 'sent');
+  const failedEvents = serverEvents.filter(row => row.status === 'failed');
+
+  const rate = (count: number, total: number) => total > 0 ? count / total : 0;
+  const share = (field: keyof EventLogRow) => rate(sentEvents.filter(row => row[field]).length, sentEvents.length);
+
+  // Server events Meta can match to a person on hashed email or phone
+  const matchedEvents = sentEvents.filter(row => row.has_email || row.has_phone).length;
+
+  const matchQuality = {
+    total_events: sentEvents.length,
+    matched_events: matchedEvents,
+    match_rate_email: share('has_email'),
+    match_rate_phone: share('has_phone'),
+    match_rate_name: share('has_name'),
+    match_rate_address: share('has_address'),
+    match_rate_fbc: share('has_fbc'),
+    match_rate_fbp: share('has_fbp')
+  };
+
+  // Per-event counts
+  const eventCounts: Record<string, { pixel: number; server: number; failed: number }> = {};
+  for (const row of rows) {
+    const counts = eventCounts[row.event_name] ||= { pixel: 0, server: 0, failed: 0 };
+    if (row.source === 'pixel') counts.pixel++;
+    else if (row.status === 'failed') counts.failed++;
+    else counts.server++;
+  }
+  const events = Object.entries(eventCounts)
+    .map(([event_name, counts]) => ({ event_name, ...counts }))
+    .sort((a, b) => (b.pixel + b.server) - (a.pixel + a.server));
+
+  // Deduplication: event IDs that reached us from both the pixel and the server
+  const pixelIds = new Set(pixelEvents.map(row => row.event_id));
+  const serverIds = new Set(sentEvents.map(row => row.event_id));
+  const deduplicated = Array.from(serverIds).filter(id => pixelIds.has(id)).length;
+
+  const deduplication = {
+    pixel_events: pixelIds.size,
+    server_events: serverIds.size,
+    deduplicated_events: deduplicated,
+    pixel_only_events: pixelIds.size - deduplicated,
+    server_only_events: serverIds.size - deduplicated,
+    dedup_rate: rate(deduplicated, serverIds.size)
+  };
+
+  const processing = {
+    events_received: serverEvents.length,
+    events_sent: sentEvents.length,
+    events_failed: failedEvents.length,
+    delivery_rate: rate(sentEvents.length, serverEvents.length)
+  };
+
+  const recentFailures = failedEvents.slice(0, RECENT_FAILURE_LIMIT).map(row => ({
+    event_id: row.event_id,
+    event_name: row.event_name,
+    http_status: row.http_status,
+    error_message: row.error_message,
+    fbtrace_id: row.fbtrace_id,
+    created_at: row.created_at
+  }));
+
+  // Weighted score: identity parameters matter most, then browser IDs, then delivery
+  const overallScore = serverEvents.length === 0 ? 0 : Math.round(100 * (
+    0.3 * matchQuality.match_rate_email +
+    0.25 * matchQuality.match_rate_phone +
+    0.1 * matchQuality.match_rate_fbc +
+    0.1 * matchQuality.match_rate_fbp +
+    0.25 * processing.delivery_rate
+  ));
+
+  return {
+    health: {
+      overall_score: overallScore,
+      recommendations: buildRecommendations(matchQuality, deduplication, processing)
+    },
+    match_quality: matchQuality,
+    events,
+    deduplication,
+    processing,
+    recent_failures: recentFailures
+  };
+}
+
+function buildRecommendations(
+  matchQuality: { total_events: number; match_rate_email: number; match_rate_phone: number; match_rate_address: number; match_rate_fbc: number; match_rate_fbp: number },
+  deduplication: { pixel_events: number; server_events: number; dedup_rate: number },
+  processing: { events_received: number; delivery_rate: number }
+): string[] {
+  const recommendations: string[] = [];
+
+  if (processing.events_received === 0) {
+    return ['No server events recorded in this window. Verify that lead forms pass customerInfo to trackLeadEvent.'];
+  }
+  if (processing.delivery_rate < 0.95) {
+    recommendations.push('Some Conversions API relays are failing. Check the recent failures and the access token permissions.');
+  }
+  if (matchQuality.match_rate_email < 0.9) {
+    recommendations.push('Include the customer email with every server event to improve match rates.');
+  }
+  if (matchQuality.match_rate_phone < 0.9) {
+    recommendations.push('Include the customer phone number with every server event to improve match rates.');
+  }
+  if (matchQuality.match_rate_address < 0.5) {
+    recommendations.push('Send city, state and ZIP code when available for additional matching signals.');
+  }
+  if (matchQuality.match_rate_fbc < 0.3) {
+    recommendations.push('Few events carry the _fbc click ID. Make sure ad click URLs keep the fbclid parameter.');
+  }
+  if (matchQuality.match_rate_fbp < 0.8) {
+    recommendations.push('Many events lack the _fbp browser ID. Confirm the pixel loads before the form is submitted.');
+  }
+  if (deduplication.pixel_events > 0 && deduplication.dedup_rate < 0.8) {
+    recommendations.push('Many server events have no matching pixel event_id. Pixel events may be blocked or fired with a different event_id.');
+  }
+
+  return recommendations;
+}
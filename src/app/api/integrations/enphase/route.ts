@@ -13,15 +13,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
+import { requireCrmAccess } from '@/lib/crmAuth';
 
 export async function GET(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('integrations');
+    if ('response' in access) return access.response;
 
     const { searchParams } = new URL(request.url);
     const systemId = searchParams.get('systemId');
@@ -98,11 +95,8 @@ export async function GET(request: NextRequest) {
 // Example usage for CRM dashboard
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('integrations');
+    if ('response' in access) return access.response;
 
     const { systemIds } = await request.json();
 
@@ -0,0 +1,80 @@
+/**
+ * Twilio Inbound SMS Webhook
+ *
+ * Configured as the "A message comes in" webhook of the Twilio number.
+ * Stores replies in the sender's conversation thread and handles the
+ * STOP / START / HELP compliance keywords (see src/lib/smsConversations.ts).
+ *
+ * Features:
+ * - X-Twilio-Signature verification
+ * - Sender matched to a lead and project by phone number
+ * - Opt-out / opt-in updates sms_consent and blocks further outbound texts
+ * - Keyword confirmations replied with TwiML (TWILIO_KEYWORD_REPLIES=off
+ *   when Twilio's own opt-out handling already replies)
+ * - Redelivered webhooks are stored once
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getSignedWebhookUrl, verifyTwilioSignature } from '@/lib/sms';
+import { handleInboundSms } from '@/lib/smsConversations';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function twiml(reply: string | null): NextResponse {
+  const body = reply ? `<Message>${escapeXml(reply)}</Message>` : '';
+  return new NextResponse(`<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`, {
+    headers: { 'Content-Type': 'text/xml' }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value;
+    });
+
+    const signature = request.headers.get('x-twilio-signature');
+    if (!verifyTwilioSignature(signature, getSignedWebhookUrl(request.url), params)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const { MessageSid, From, To, Body } = params;
+    if (!MessageSid || !From) {
+      return NextResponse.json({ error: 'MessageSid and From are required' }, { status: 400 });
+    }
+
+    const { keyword, reply } = await handleInboundSms(supabase, {
+      sid: MessageSid,
+      from: From,
+      to: To || '',
+      body: Body || ''
+    });
+
+    if (keyword) {
+      console.log(`SMS keyword ${keyword} from ${From}`);
+    }
+
+    return twiml(process.env.TWILIO_KEYWORD_REPLIES === 'off' ? null : reply);
+  } catch (error) {
+    console.error('Error in Twilio inbound webhook:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
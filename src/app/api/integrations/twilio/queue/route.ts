@@ -0,0 +1,39 @@
+/**
+ * SMS Queue Job
+ *
+ * Called every five minutes by Vercel Cron (see vercel.json). Sends pending
+ * SMS whose retry time has come (see src/lib/smsQueue.ts).
+ *
+ * Features:
+ * - Protected by CRON_SECRET
+ * - Exponential backoff between attempts, up to each message's max_attempts
+ * - Messages stuck mid-send are returned to the queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/cronAuth';
+import { processSmsQueue } from '@/lib/smsQueue';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = requireCronSecret(request);
+    if (denied) return denied;
+
+    const summary = await processSmsQueue(supabase);
+    console.log(`SMS queue: ${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed of ${summary.due} due`);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error in SMS queue job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,74 +10,104 @@
  * - Project status updates
  * - Lead follow-up messages
  * - Bulk messaging capabilities
+ * - Every SMS is recorded on the recipient lead's activity timeline
+ * - Messages are queued in sms_messages and retried with backoff when
+ *   Twilio is unreachable (see src/lib/smsQueue.ts)
+ * - Numbers that replied STOP are refused, single and bulk
+ * - Messages can name a template from the template library instead of
+ *   sending literal copy (see src/lib/messageTemplates.ts); literal copy is
+ *   validated and its placeholders filled in the same way
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import {
+  fetchMessageTemplate,
+  fetchMessageTemplates,
+  getFirstName,
+  parseTemplateValues,
+  renderTemplate,
+  validateTemplate,
+  type MessageTemplate
+} from '@/lib/messageTemplates';
+import { isTwilioConfigured } from '@/lib/sms';
+import { deliverSms } from '@/lib/smsQueue';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('messages:send');
+    if ('response' in access) return access.response;
 
-    const { to, message, type } = await request.json();
+    const { to, message, templateKey, variables, type, leadId, projectId } = await request.json();
 
-    if (!to || !message) {
+    if (!to || (!message && !templateKey)) {
       return NextResponse.json(
-        { error: 'Phone number and message are required' },
+        { error: 'Phone number and message or templateKey are required' },
         { status: 400 }
       );
     }
 
-    const accountSid = process.env.TWILIO_ACCOUNT_SID;
-    const authToken = process.env.TWILIO_AUTH_TOKEN;
-    const twilioNumber = process.env.TWILIO_PHONE_NUMBER;
+    // Literal copy may use the same placeholders as a stored template
+    const template: Pick<MessageTemplate, 'channel' | 'context' | 'subject' | 'body'> | null = message
+      ? { channel: 'sms', context: 'lead', subject: null, body: message }
+      : await fetchSmsTemplate(templateKey);
+    if (!template) {
+      return NextResponse.json({ error: `No active SMS template ${templateKey}` }, { status: 400 });
+    }
+
+    const templateErrors = validateTemplate(template);
+    if (templateErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid message', details: templateErrors }, { status: 400 });
+    }
 
-    if (!accountSid || !authToken || !twilioNumber) {
+    const body = renderTemplate(template, { RepName: access.user.name, ...parseTemplateValues(variables) }).body;
+
+    if (!isTwilioConfigured()) {
       return NextResponse.json(
         { error: 'Twilio configuration missing' },
         { status: 500 }
       );
     }
 
-    // Format phone number (ensure it starts with +1 for US numbers)
-    const formattedNumber = to.startsWith('+') ? to : `+1${to.replace(/\D/g, '')}`;
-
-    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        To: formattedNumber,
-        From: twilioNumber,
-        Body: message
-      })
+    const sms = await deliverSms(supabase, {
+      to,
+      body,
+      messageType: type || templateKey || 'general',
+      leadId,
+      projectId,
+      actor: access.user
     });
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('Twilio API error:', response.status, error);
+    if (!sms) {
       return NextResponse.json(
-        { error: 'Failed to send SMS' },
-        { status: response.status }
+        { error: 'This number has opted out of text messages (replied STOP)' },
+        { status: 409 }
       );
     }
 
-    const data = await response.json();
-    
-    // Log the message for tracking
-    console.log(`SMS sent to ${formattedNumber}, SID: ${data.sid}, Type: ${type || 'general'}`);
-    
-    return NextResponse.json({ 
-      success: true, 
-      messageSid: data.sid,
-      status: data.status
-    });
+    if (sms.status === 'failed') {
+      return NextResponse.json(
+        { error: 'Failed to send SMS', messageId: sms.id, details: sms.last_error },
+        { status: 502 }
+      );
+    }
+
+    // Pending messages are retried by the SMS queue job
+    return NextResponse.json(
+      {
+        success: true,
+        messageId: sms.id,
+        messageSid: sms.twilio_sid,
+        status: sms.status
+      },
+      { status: sms.status === 'pending' ? 202 : 200 }
+    );
     
   } catch (error) {
     console.error('Error in Twilio API integration:', error);
@@ -91,26 +121,32 @@ export async function POST(request: NextRequest) {
 // Bulk messaging endpoint
 export async function PUT(request: NextRequest) {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const access = await requireCrmAccess('integrations');
+    if ('response' in access) return access.response;
 
-    const { recipients, message } = await request.json();
+    const { recipients, message, templateKey } = await request.json();
 
-    if (!recipients || !Array.isArray(recipients) || !message) {
+    if (!recipients || !Array.isArray(recipients) || (!message && !templateKey)) {
       return NextResponse.json(
-        { error: 'Recipients array and message are required' },
+        { error: 'Recipients array and message or templateKey are required' },
         { status: 400 }
       );
     }
 
-    const accountSid = process.env.TWILIO_ACCOUNT_SID;
-    const authToken = process.env.TWILIO_AUTH_TOKEN;
-    const twilioNumber = process.env.TWILIO_PHONE_NUMBER;
+    // Literal copy may use the same lead placeholders as a stored template
+    const template: Pick<MessageTemplate, 'channel' | 'context' | 'subject' | 'body'> | null = message
+      ? { channel: 'sms', context: 'lead', subject: null, body: message }
+      : await fetchSmsTemplate(templateKey);
+    if (!template) {
+      return NextResponse.json({ error: `No active SMS template ${templateKey}` }, { status: 400 });
+    }
 
-    if (!accountSid || !authToken || !twilioNumber) {
+    const templateErrors = validateTemplate(template);
+    if (templateErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid message', details: templateErrors }, { status: 400 });
+    }
+
+    if (!isTwilioConfigured()) {
       return NextResponse.json(
         { error: 'Twilio configuration missing' },
         { status: 500 }
@@ -118,45 +154,47 @@ export async function PUT(request: NextRequest) {
     }
 
     const results = await Promise.all(
-      recipients.map(async (recipient: { phone: string; name?: string }) => {
+      recipients.map(async (recipient: { phone: string; name?: string; leadId?: string }) => {
         try {
-          const formattedNumber = recipient.phone.startsWith('+') 
-            ? recipient.phone 
-            : `+1${recipient.phone.replace(/\D/g, '')}`;
-
-          // Personalize message if name is provided
-          const personalizedMessage = recipient.name 
-            ? message.replace('[Name]', recipient.name)
-            : message;
-
-          const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-              To: formattedNumber,
-              From: twilioNumber,
-              Body: personalizedMessage
-            })
+          const personalizedMessage = renderTemplate(template, {
+            Name: getFirstName(recipient.name),
+            FullName: recipient.name ?? null,
+            Phone: recipient.phone,
+            RepName: access.user.name
+          }).body;
+
+          const sms = await deliverSms(supabase, {
+            to: recipient.phone,
+            body: personalizedMessage,
+            messageType: templateKey || 'bulk',
+            leadId: recipient.leadId,
+            actor: access.user
           });
 
-          if (response.ok) {
-            const data = await response.json();
+          if (!sms) {
+            return {
+              phone: recipient.phone,
+              success: false,
+              error: 'Opted out'
+            };
+          } else if (sms.status !== 'failed') {
             return {
               phone: recipient.phone,
               success: true,
-              messageSid: data.sid
+              messageId: sms.id,
+              messageSid: sms.twilio_sid,
+              status: sms.status
             };
           } else {
             return {
               phone: recipient.phone,
               success: false,
+              messageId: sms.id,
               error: 'Failed to send'
             };
           }
-        } catch {
+        } catch (error) {
+          console.error('Error sending bulk SMS:', error);
           return {
             phone: recipient.phone,
             success: false,
@@ -188,23 +226,13 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// Predefined message templates
+// Active SMS templates from the template library
 export async function GET() {
   try {
-    const { userId } = await auth();
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const templates = {
-      appointment_reminder: "Hi [Name]! This is a reminder about your solar consultation appointment tomorrow at [Time]. We're excited to help you save money with solar! - Quantum Solar",
-      follow_up: "Hi [Name]! Thanks for your interest in solar. We'd love to answer any questions and provide your custom solar proposal. When's a good time to chat? - Quantum Solar",
-      installation_update: "Hi [Name]! Great news - your solar installation is scheduled for [Date]. Our team will arrive between [Time]. Any questions? - Quantum Solar",
-      project_complete: "Congratulations [Name]! Your solar system is now active and generating clean energy. You should see savings on your next bill! - Quantum Solar",
-      welcome_new_lead: "Thanks for your interest in solar, [Name]! We'll have a solar expert contact you within 24 hours with your custom proposal. - Quantum Solar"
-    };
+    const access = await requireCrmAccess('messages:send');
+    if ('response' in access) return access.response;
 
+    const templates = await fetchMessageTemplates(supabase, { channel: 'sms' });
     return NextResponse.json({ templates });
     
   } catch (error) {
@@ -215,3 +243,13 @@ export async function GET() {
     );
   }
 }
+
+/**
+ * Active SMS template by key, or null
+ */
+async function fetchSmsTemplate(key: unknown): Promise<MessageTemplate | null> {
+  if (typeof key !== 'string') return null;
+  const template = await fetchMessageTemplate(supabase, key);
+  return template?.active && template.channel === 'sms' ? template : null;
+}
+
@@ -0,0 +1,56 @@
+/**
+ * Twilio Status Callback
+ *
+ * Twilio posts here as an outbound message moves through queued, sent,
+ * delivered, failed or undelivered (the StatusCallback set by the SMS
+ * queue, see src/lib/smsQueue.ts).
+ *
+ * Features:
+ * - X-Twilio-Signature verification
+ * - Per-message delivery status and error code in sms_messages
+ * - Out-of-order callbacks never move a message back to an earlier status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getSignedWebhookUrl, verifyTwilioSignature } from '@/lib/sms';
+import { applySmsStatusCallback } from '@/lib/smsQueue';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value;
+    });
+
+    const signature = request.headers.get('x-twilio-signature');
+    if (!verifyTwilioSignature(signature, getSignedWebhookUrl(request.url), params)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const { MessageSid, MessageStatus, ErrorCode } = params;
+    if (!MessageSid || !MessageStatus) {
+      return NextResponse.json({ error: 'MessageSid and MessageStatus are required' }, { status: 400 });
+    }
+
+    const recorded = await applySmsStatusCallback(supabase, MessageSid, MessageStatus, ErrorCode || null);
+    if (!recorded) {
+      console.warn(`Ignored Twilio status ${MessageStatus} for unknown message ${MessageSid}`);
+    }
+
+    // Twilio only needs a 2xx; unknown messages are not retried
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error in Twilio status callback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
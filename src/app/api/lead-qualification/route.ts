@@ -0,0 +1,59 @@
+/**
+ * Lead Qualification API Endpoint
+ *
+ * Checks splash form answers against the qualification rules (see
+ * src/lib/leadQualification.ts) so both form variants share one rule set
+ * that can change without a deploy.
+ *
+ * Features:
+ * - Answers so far in, qualified / soft_fail / disqualified and the
+ *   deciding reason code out
+ * - Unanswered questions are skipped, so it can be called step by step
+ * - Rate limited per client IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { rateLimit, getClientIp } from '@/lib/rateLimit';
+import { QUALIFICATION_FIELDS, qualifyAnswers, type QualificationAnswers } from '@/lib/leadQualification';
+
+// Qualification rules are only readable with the service role
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const MAX_ANSWER_LENGTH = 200;
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = rateLimit(`lead-qualification:ip:${getClientIp(request)}`, { limit: 120, windowMs: 10 * 60 * 1000 });
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => null);
+    const input = body?.answers;
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return NextResponse.json({ error: 'answers is required' }, { status: 400 });
+    }
+
+    // Only known questions are checked
+    const answers: QualificationAnswers = {};
+    for (const field of QUALIFICATION_FIELDS) {
+      const value = (input as Record<string, unknown>)[field];
+      if (typeof value === 'boolean' || (typeof value === 'string' && value.length <= MAX_ANSWER_LENGTH)) {
+        answers[field] = value;
+      }
+    }
+
+    const result = await qualifyAnswers(supabase, answers);
+
+    return NextResponse.json({ status: result.status, reasonCode: result.reasonCode });
+  } catch (error) {
+    console.error('Lead qualification API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,40 @@
+/**
+ * Email Send API Route
+ *
+ * Sends an email through Resend from the Quantum Solar domain.
+ * Restricted to CRM users with the messages:send permission (admins,
+ * managers and sales) and rate limited per CRM user, since it can send to
+ * any recipient. Emails sent to a lead
+ * are recorded on the lead's activity timeline. The subject and body can
+ * come from an email template in the template library (templateKey and
+ * variables) instead of the request.
+ */
+
 import { Resend } from 'resend';
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCrmAccess } from '@/lib/crmAuth';
+import { rateLimit } from '@/lib/rateLimit';
+import { recordOutboundMessage } from '@/lib/leadActivities';
+import { fetchMessageTemplate, parseTemplateValues, renderTemplate, type RenderedMessage } from '@/lib/messageTemplates';
 
 const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
 
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+const SEND_RATE_LIMIT = { limit: 20, windowMs: 60 * 60 * 1000 };
+
 export async function POST(request: NextRequest) {
   try {
+    const access = await requireCrmAccess('messages:send');
+    if ('response' in access) return access.response;
+
+    const limited = rateLimit(`send:${access.user.id}`, SEND_RATE_LIMIT);
+    if (limited) return limited;
+
     // Log the start of the request
     console.log('Email send request received');
     console.log('Environment check:', {
@@ -18,7 +48,21 @@ export async function POST(request: NextRequest) {
 
     // Parse request body for dynamic email data
     const body = await request.json();
-    console.log('Email request body:', body);
+    console.log('Email request from:', access.user.email, 'to:', body.to);
+
+    let rendered: RenderedMessage | null = null;
+    let templateVersion: number | null = null;
+    if (body.templateKey) {
+      const template = await fetchMessageTemplate(supabase, String(body.templateKey));
+      if (!template || !template.active || template.channel !== 'email') {
+        return NextResponse.json(
+          { success: false, error: `No active email template ${body.templateKey}` },
+          { status: 400 }
+        );
+      }
+      rendered = renderTemplate(template, { RepName: access.user.name, ...parseTemplateValues(body.variables) });
+      templateVersion = template.version;
+    }
 
     // Default values for test emails
     const defaultEmailData = {
@@ -42,9 +86,9 @@ export async function POST(request: NextRequest) {
     const emailData = {
       from: 'Quantum Solar <info@quantumsolar.us>',
       to: [body.to || 'cesar@quantumsolar.us'],
-      subject: body.subject || defaultEmailData.subject,
-      html: body.html || defaultEmailData.html,
-      text: body.text || defaultEmailData.text,
+      subject: rendered?.subject || body.subject || defaultEmailData.subject,
+      html: rendered?.body || body.html || (body.text ? textToHtml(body.text) : defaultEmailData.html),
+      text: rendered ? undefined : body.text || defaultEmailData.text,
       replyTo: 'info@quantumsolar.us'
     };
 
@@ -55,6 +99,21 @@ export async function POST(request: NextRequest) {
 
     console.log('Resend API response:', result);
 
+    await recordOutboundMessage(supabase, {
+      type: 'email',
+      leadId: body.leadId,
+      subject: emailData.subject,
+      body: body.text || null,
+      recipient: emailData.to[0],
+      externalId: result.data?.id ?? null,
+      deliveryStatus: result.error ? 'failed' : 'sent',
+      metadata: {
+        ...(rendered ? { templateKey: body.templateKey, templateVersion } : {}),
+        ...(result.error ? { error: result.error.message } : {})
+      },
+      actor: access.user
+    });
+
     return NextResponse.json({
       success: true,
       result,
@@ -81,3 +140,16 @@ export async function POST(request: NextRequest) {
     }, { status: 500 });
   }
 }
+
+/**
+ * Plain-text email body as simple HTML with escaped content
+ */
+function textToHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br />');
+
+  return `<div style="font-family: Arial, sans-serif; padding: 20px;">${escaped}</div>`;
+}
@@ -0,0 +1,333 @@
+/**
+ * Splash Leads API Endpoint
+ *
+ * Receives incremental and final submissions from the Ameren Illinois splash
+ * forms (SplashForm and SplashFormCompetitor) and persists them as a single
+ * lead per browser session.
+ *
+ * Features:
+ * - Session-based upsert through the upsert_splash_lead RPC
+ * - Partial saves on every step and on page unload (fetch or sendBeacon)
+ * - Final submit marks the lead complete (p_is_partial = false)
+ * - Payload validation for field formats and final-submit requirements
+ * - Email notification to sales for completed and abandoned leads, from the
+ *   new_lead_notification / abandoned_lead_notification templates
+ * - Lead re-checked against the qualification rules and rescored after every
+ *   save (see src/lib/leadQualification.ts and src/lib/leadScoring.ts)
+ * - Completed leads routed to a sales rep once qualified (see
+ *   src/lib/leadAssignment.ts)
+ * - Returns the lead ID so the thank-you flow can attach uploads to it
+ * - Rate limited per client IP and per session
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { Resend } from 'resend';
+import { rateLimit, getClientIp } from '@/lib/rateLimit';
+import { SESSION_ID_PATTERN } from '@/lib/leadSession';
+import { renderMessageTemplate } from '@/lib/messageTemplates';
+import { recalculateLeadScore } from '@/lib/leadScoring';
+import { requalifyLead } from '@/lib/leadQualification';
+import { autoAssignLead } from '@/lib/leadAssignment';
+
+const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
+
+// Message templates, qualification, lead scoring and routing need the service role
+const serviceSupabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+// Payload posted by both splash form variants
+interface SplashLeadPayload {
+  sessionId: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  email?: string;
+  streetAddress?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  utilityCompany?: string;
+  averageMonthlyBill?: number | string;
+  homeownerStatus?: string;
+  creditScore?: string;
+  shading?: string;
+  preferredContactTime?: string;
+  formVariant?: string;
+  tcpaConsent?: boolean;
+  smsConsent?: boolean;
+  isPartial?: boolean;
+  currentStep?: number;
+  sendEmailNotification?: boolean;
+  completedAt?: string;
+  timestamp?: string;
+}
+
+// Fields that must be present before a lead can be marked complete
+const REQUIRED_FOR_COMPLETION: (keyof SplashLeadPayload)[] = [
+  'firstName',
+  'lastName',
+  'phone',
+  'email',
+  'streetAddress',
+  'city',
+  'state',
+  'zipCode',
+  'utilityCompany',
+  'homeownerStatus',
+  'creditScore',
+  'shading'
+];
+
+const PHONE_PATTERN = /^\(?([0-9]{3})\)?[-. ]?([0-9]{3})[-. ]?([0-9]{4})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ZIP_PATTERN = /^\d{5}(-\d{4})?$/;
+
+const ALLOWED_VALUES: Partial<Record<keyof SplashLeadPayload, string[]>> = {
+  homeownerStatus: ['yes', 'no'],
+  creditScore: ['650+', 'below650'],
+  shading: ['none', 'heavy'],
+  formVariant: ['standard', 'competitor']
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const ipLimited = rateLimit(`splash-leads:ip:${getClientIp(request)}`, { limit: 120, windowMs: 10 * 60 * 1000 });
+    if (ipLimited) return ipLimited;
+
+    const body = await parseBody(request);
+
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const validationErrors = validatePayload(body);
+
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid lead data', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const sessionLimited = rateLimit(`splash-leads:session:${body.sessionId}`, { limit: 60, windowMs: 10 * 60 * 1000 });
+    if (sessionLimited) return sessionLimited;
+
+    const isPartial = body.isPartial !== false;
+    const averageMonthlyBill = body.averageMonthlyBill !== undefined && body.averageMonthlyBill !== ''
+      ? Math.round(Number(body.averageMonthlyBill))
+      : null;
+
+    // Whether the lead was already completed decides which notification, if
+    // any, this save sends; the row read after the upsert cannot tell
+    const { data: existing } = await supabase
+      .from('splash_leads')
+      .select('is_partial')
+      .eq('session_id', body.sessionId)
+      .maybeSingle();
+    const wasCompleted = existing?.is_partial === false;
+
+    const { data: leadId, error } = await supabase.rpc('upsert_splash_lead', {
+      p_session_id: body.sessionId,
+      p_first_name: clean(body.firstName),
+      p_last_name: clean(body.lastName),
+      p_phone: clean(body.phone),
+      p_email: clean(body.email)?.toLowerCase() || null,
+      p_street_address: clean(body.streetAddress),
+      p_city: clean(body.city),
+      p_state: clean(body.state),
+      p_zip_code: clean(body.zipCode),
+      p_utility_company: clean(body.utilityCompany),
+      p_homeowner_status: clean(body.homeownerStatus),
+      p_credit_score: clean(body.creditScore),
+      p_shading: clean(body.shading),
+      p_average_monthly_bill: averageMonthlyBill,
+      p_preferred_contact_time: clean(body.preferredContactTime),
+      p_form_variant: body.formVariant || (averageMonthlyBill !== null ? 'competitor' : 'standard'),
+      p_is_partial: isPartial,
+      p_current_step: typeof body.currentStep === 'number' ? body.currentStep : null,
+      p_completed_at: isPartial ? null : (body.completedAt || new Date().toISOString()),
+      p_tcpa_consent: body.tcpaConsent ?? null,
+      p_sms_consent: body.smsConsent ?? null
+    });
+
+    if (error || !leadId) {
+      console.error('Splash lead upsert error:', error);
+      return NextResponse.json(
+        { error: 'Failed to save lead' },
+        { status: 500 }
+      );
+    }
+
+    // Routing waits for qualification so disqualified leads are not assigned
+    after(() => requalifyLead(serviceSupabase, leadId)
+      .catch(qualificationError => console.error('Error qualifying splash lead:', qualificationError))
+      .then(() => isPartial ? null : autoAssignLead(serviceSupabase, leadId))
+      .catch(assignmentError => console.error('Error assigning splash lead:', assignmentError)));
+    after(() => recalculateLeadScore(serviceSupabase, leadId)
+      .catch(scoreError => console.error('Error scoring splash lead:', scoreError)));
+
+    // Notify sales about completed leads and consented abandonments, once
+    if (body.sendEmailNotification && !wasCompleted) {
+      try {
+        const { data: lead } = await supabase
+          .from('splash_leads')
+          .select('*')
+          .eq('id', leadId)
+          .single();
+
+        // A partial save racing the final submit must not report an abandonment
+        if (lead && (!isPartial || lead.is_partial)) {
+          await sendLeadNotification(lead, isPartial);
+        }
+      } catch (emailError) {
+        console.error('Splash lead email notification failed:', emailError);
+        // Don't fail the save if email fails
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      leadId,
+      sessionId: body.sessionId,
+      isPartial
+    });
+
+  } catch (error) {
+    console.error('Splash leads API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Parse the request body regardless of how it was sent.
+ * navigator.sendBeacon posts a Blob or plain string, which may arrive as
+ * text/plain or with no content type at all, so the body is read as text.
+ */
+async function parseBody(request: NextRequest): Promise<SplashLeadPayload | null> {
+  try {
+    const text = await request.text();
+    if (!text) return null;
+
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+    return parsed as SplashLeadPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate field formats, and on final submit also require every form field
+ */
+function validatePayload(body: SplashLeadPayload): string[] {
+  const errors: string[] = [];
+
+  if (!body.sessionId || typeof body.sessionId !== 'string' || !SESSION_ID_PATTERN.test(body.sessionId)) {
+    errors.push('sessionId is missing or malformed');
+    return errors;
+  }
+
+  if (body.phone && !PHONE_PATTERN.test(body.phone.trim())) {
+    errors.push('phone is not a valid phone number');
+  }
+
+  if (body.email && !EMAIL_PATTERN.test(body.email.trim())) {
+    errors.push('email is not a valid email address');
+  }
+
+  if (body.zipCode && !ZIP_PATTERN.test(body.zipCode.trim())) {
+    errors.push('zipCode is not a valid ZIP code');
+  }
+
+  if (body.averageMonthlyBill !== undefined && body.averageMonthlyBill !== '') {
+    const bill = Number(body.averageMonthlyBill);
+    if (!Number.isFinite(bill) || bill < 0) {
+      errors.push('averageMonthlyBill must be a positive number');
+    }
+  }
+
+  for (const [field, allowed] of Object.entries(ALLOWED_VALUES)) {
+    const value = body[field as keyof SplashLeadPayload];
+    if (value && !allowed.includes(String(value))) {
+      errors.push(`${field} must be one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  if (body.isPartial === false) {
+    const missingFields = REQUIRED_FOR_COMPLETION.filter(field => !clean(body[field] as string | undefined));
+    if (missingFields.length > 0) {
+      errors.push(`Missing required fields: ${missingFields.join(', ')}`);
+    }
+    if (!body.tcpaConsent) {
+      errors.push('tcpaConsent is required to complete the form');
+    }
+  }
+
+  return errors;
+}
+
+// Trim strings and turn empty values into null so the RPC keeps existing data
+function clean(value: string | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+/**
+ * Send new lead (or abandoned lead) notification to the sales team
+ */
+async function sendLeadNotification(lead: Record<string, unknown>, isPartial: boolean) {
+  const name = `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || 'Unknown';
+
+  const rows: [string, unknown][] = [
+    ['Name', name],
+    ['Phone', lead.phone],
+    ['Email', lead.email],
+    ['Address', [lead.street_address, lead.city, lead.state, lead.zip_code].filter(Boolean).join(', ')],
+    ['Utility', lead.utility_company],
+    ['Average Bill', lead.average_monthly_bill ? `$${lead.average_monthly_bill}/month` : null],
+    ['Homeowner', lead.homeowner_status],
+    ['Credit Score', lead.credit_score],
+    ['Shading', lead.shading],
+    ['TCPA Consent', lead.tcpa_consent ? '✅ Yes' : '❌ No'],
+    ['SMS Consent', lead.sms_consent ? '✅ Yes' : '❌ No']
+  ];
+
+  const templateKey = isPartial ? 'abandoned_lead_notification' : 'new_lead_notification';
+  const email = await renderMessageTemplate(serviceSupabase, templateKey, {
+    FullName: name,
+    LeadId: String(lead.id),
+    SessionId: String(lead.session_id),
+    LastStep: lead.current_step == null ? 'Unknown' : String(lead.current_step),
+    Timestamp: new Date().toLocaleString(),
+    LeadDetails: rows
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([label, value]) => `<p><strong>${label}:</strong> ${value}</p>`)
+      .join('')
+  }, 'email');
+
+  if (!email) {
+    throw new Error(`Email template ${templateKey} is missing or inactive`);
+  }
+
+  await resend.emails.send({
+    from: 'Quantum Solar <info@quantumsolar.us>',
+    to: [
+      'cesar@quantumsolar.us',
+      // 'leads@leadrnnr.com', // Commented out for testing
+    ],
+    subject: email.subject ?? '',
+    html: email.body
+  });
+}
@@ -0,0 +1,600 @@
+/**
+ * CRM Calendar Page
+ *
+ * Weekly calendar of solar consultations with:
+ * - Upcoming appointments per day, filterable by sales rep
+ * - Customer requests waiting for a scheduled time
+ * - Scheduling, rescheduling, rep assignment and cancellation
+ * - Status updates (confirmed, completed, no-show)
+ * - New appointments for a lead (opened from the lead page)
+ */
+
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Clock, MapPin, Phone, User, X } from 'lucide-react';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  OPEN_APPOINTMENT_STATUSES,
+  type Appointment,
+  type AppointmentRep,
+  type AppointmentStatus
+} from '@/lib/appointments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180];
+
+const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  requested: 'bg-yellow-500',
+  confirmed: 'bg-blue-500',
+  completed: 'bg-green-600',
+  no_show: 'bg-red-500',
+  cancelled: 'bg-gray-500'
+};
+
+const PREFERRED_TIME_LABELS: Record<string, string> = {
+  morning: 'Morning (8 AM - 12 PM)',
+  afternoon: 'Afternoon (12 - 5 PM)',
+  evening: 'Evening (5 - 8 PM)',
+  weekend: 'Weekend',
+  flexible: 'Flexible'
+};
+
+interface ConflictSummary {
+  id: string;
+  customer_name: string;
+  scheduled_start: string;
+}
+
+// Monday 00:00 local time of the week containing the date
+function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Value for a datetime-local input in the browser's time zone
+function toLocalInputValue(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+}
+
+function formatTimeRange(appointment: Appointment): string {
+  if (!appointment.scheduled_start) return 'Not scheduled';
+  const format = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return appointment.scheduled_end
+    ? `${format(appointment.scheduled_start)} - ${format(appointment.scheduled_end)}`
+    : format(appointment.scheduled_start);
+}
+
+function getDurationMinutes(appointment: Appointment): number {
+  if (!appointment.scheduled_start || !appointment.scheduled_end) return DEFAULT_APPOINTMENT_MINUTES;
+  return Math.round((Date.parse(appointment.scheduled_end) - Date.parse(appointment.scheduled_start)) / 60000);
+}
+
+function getRepName(rep: AppointmentRep | null): string {
+  return rep ? rep.name || rep.email : 'Unassigned';
+}
+
+// useSearchParams requires a Suspense boundary for static rendering
+export default function CalendarPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading calendar...</div>
+      </div>
+    }>
+      <AppointmentCalendar />
+    </Suspense>
+  );
+}
+
+function AppointmentCalendar() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { can } = useCrmAccess();
+  const canWrite = can('leads:write');
+  const newLeadId = searchParams.get('leadId');
+  const newLeadName = searchParams.get('leadName');
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [repFilter, setRepFilter] = useState('');
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [requests, setRequests] = useState<Appointment[]>([]);
+  const [reps, setReps] = useState<AppointmentRep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Appointment | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ConflictSummary[]>([]);
+
+  // Schedule form, shared by new appointments and rescheduling
+  const [startValue, setStartValue] = useState('');
+  const [duration, setDuration] = useState(DEFAULT_APPOINTMENT_MINUTES);
+  const [assignee, setAssignee] = useState('');
+  const [confirmNew, setConfirmNew] = useState(true);
+
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, index) => new Date(weekStart.getTime() + index * DAY_MS)),
+    [weekStart]
+  );
+
+  const loadAppointments = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        from: weekStart.toISOString(),
+        to: new Date(weekStart.getTime() + 7 * DAY_MS).toISOString()
+      });
+      if (repFilter) params.set('assignedTo', repFilter);
+
+      const response = await fetch(`/api/crm/appointments?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setAppointments(data.appointments || []);
+        setRequests(data.requests || []);
+        setReps(data.reps || []);
+      } else {
+        console.error('Failed to load appointments:', response.status);
+      }
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart, repFilter]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  const selectAppointment = (appointment: Appointment | null) => {
+    setSelected(appointment);
+    setError(null);
+    setConflicts([]);
+    setStartValue(toLocalInputValue(appointment?.scheduled_start ?? null));
+    setDuration(appointment ? getDurationMinutes(appointment) : DEFAULT_APPOINTMENT_MINUTES);
+    setAssignee(appointment?.assigned_to || '');
+  };
+
+  const handleResponse = async (response: Response) => {
+    const data = await response.json();
+
+    if (response.ok) {
+      setError(null);
+      setConflicts([]);
+      await loadAppointments();
+      return data;
+    }
+
+    setError(data.error || 'Request failed');
+    setConflicts(data.conflicts || []);
+    return null;
+  };
+
+  const createAppointment = async () => {
+    if (!newLeadId || !startValue || saving) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/crm/appointments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leadId: newLeadId,
+          scheduledStart: new Date(startValue).toISOString(),
+          durationMinutes: duration,
+          assignedTo: assignee || null,
+          confirm: confirmNew
+        })
+      });
+      const data = await handleResponse(response);
+      if (data?.appointment) {
+        router.replace('/crm/calendar');
+        setWeekStart(getWeekStart(new Date(data.appointment.scheduled_start)));
+        selectAppointment(data.appointment);
+      }
+    } catch (error) {
+      console.error('Error creating appointment:', error);
+      setError('Failed to create appointment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateSelected = async (body: Record<string, unknown>) => {
+    if (!selected || saving) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/crm/appointments', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: selected.id, ...body })
+      });
+      const data = await handleResponse(response);
+      if (data?.appointment) {
+        setSelected(data.appointment);
+      }
+    } catch (error) {
+      console.error('Error updating appointment:', error);
+      setError('Failed to update appointment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const reschedule = () => {
+    if (!startValue) return;
+    updateSelected({
+      action: 'reschedule',
+      scheduledStart: new Date(startValue).toISOString(),
+      durationMinutes: duration
+    });
+  };
+
+  const cancel = () => {
+    const reason = window.prompt('Reason for cancelling (optional):');
+    if (reason === null) return;
+    updateSelected({ action: 'cancel', reason });
+  };
+
+  const appointmentsForDay = (day: Date) =>
+    appointments.filter(appointment => {
+      if (!appointment.scheduled_start) return false;
+      const start = new Date(appointment.scheduled_start).getTime();
+      return start >= day.getTime() && start < day.getTime() + DAY_MS;
+    });
+
+  const isOpen = selected ? OPEN_APPOINTMENT_STATUSES.includes(selected.status) : false;
+  const weekLabel = `${days[0].toLocaleDateString([], { month: 'short', day: 'numeric' })} - ${days[6].toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const scheduleFields = (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <label className="text-sm text-gray-400">
+        Start
+        <input
+          type="datetime-local"
+          value={startValue}
+          onChange={(e) => setStartValue(e.target.value)}
+          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white"
+        />
+      </label>
+      <label className="text-sm text-gray-400">
+        Duration
+        <select
+          value={duration}
+          onChange={(e) => setDuration(Number(e.target.value))}
+          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white"
+        >
+          {DURATION_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes} minutes</option>
+          ))}
+        </select>
+      </label>
+      <label className="text-sm text-gray-400">
+        Sales Rep
+        <select
+          value={assignee}
+          onChange={(e) => setAssignee(e.target.value)}
+          className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-white"
+        >
+          <option value="">Unassigned</option>
+          {reps.map(rep => (
+            <option key={rep.id} value={rep.id}>{getRepName(rep)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const errorMessage = error && (
+    <div className="p-3 bg-red-400/10 border border-red-400/20 rounded-lg text-sm">
+      <p className="text-red-400">{error}</p>
+      {conflicts.map(conflict => (
+        <p key={conflict.id} className="text-red-300 mt-1">
+          Conflicts with {conflict.customer_name} at {new Date(conflict.scheduled_start).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+        </p>
+      ))}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading calendar...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white">Calendar</h1>
+            <p className="text-gray-400">Solar consultations for {weekLabel}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={repFilter}
+              onChange={(e) => setRepFilter(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm text-white"
+              aria-label="Filter by sales rep"
+            >
+              <option value="">All reps</option>
+              {reps.map(rep => (
+                <option key={rep.id} value={rep.id}>{getRepName(rep)}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              className="border-gray-600 text-gray-300"
+              onClick={() => setWeekStart(new Date(weekStart.getTime() - 7 * DAY_MS))}
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              className="border-gray-600 text-gray-300"
+              onClick={() => setWeekStart(getWeekStart(new Date()))}
+            >
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              className="border-gray-600 text-gray-300"
+              onClick={() => setWeekStart(new Date(weekStart.getTime() + 7 * DAY_MS))}
+              aria-label="Next week"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* New appointment for a lead */}
+        {newLeadId && canWrite && (
+          <Card className="bg-gray-900/50 border-gray-700">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-white">
+                Schedule Consultation{newLeadName ? ` for ${newLeadName}` : ''}
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-400 hover:text-white"
+                onClick={() => router.replace('/crm/calendar')}
+                aria-label="Close"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {scheduleFields}
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={confirmNew}
+                  onChange={(e) => setConfirmNew(e.target.checked)}
+                />
+                Confirm now and text the customer
+              </label>
+              {errorMessage}
+              <Button
+                className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                onClick={createAppointment}
+                disabled={!startValue || saving}
+              >
+                {saving ? 'Saving...' : 'Schedule'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Week */}
+          <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-7 gap-2">
+            {days.map(day => {
+              const isToday = day.toDateString() === new Date().toDateString();
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`min-h-[200px] rounded-lg border p-2 ${isToday ? 'border-[#ff0000]/60 bg-[#ff0000]/5' : 'border-gray-700 bg-gray-900/50'}`}
+                >
+                  <p className={`text-sm font-medium mb-2 ${isToday ? 'text-white' : 'text-gray-400'}`}>
+                    {day.toLocaleDateString([], { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                  </p>
+                  <div className="space-y-2">
+                    {appointmentsForDay(day).map(appointment => (
+                      <button
+                        key={appointment.id}
+                        onClick={() => selectAppointment(appointment)}
+                        className={`w-full text-left rounded-md p-2 text-xs bg-gray-800 hover:bg-gray-700 border ${selected?.id === appointment.id ? 'border-[#ff0000]' : 'border-gray-700'} ${appointment.status === 'cancelled' ? 'opacity-50 line-through' : ''}`}
+                      >
+                        <div className="flex items-center gap-1 text-gray-300">
+                          <span className={`inline-block w-2 h-2 rounded-full ${STATUS_COLORS[appointment.status]}`} />
+                          {formatTimeRange(appointment)}
+                        </div>
+                        <p className="text-white font-medium truncate">{appointment.customer_name}</p>
+                        <p className="text-gray-400 truncate">{getRepName(appointment.assignee)}</p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Requests waiting for a time */}
+          <Card className="bg-gray-900/50 border-gray-700">
+            <CardHeader>
+              <CardTitle className="text-white">Requested ({requests.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {requests.length === 0 && (
+                <p className="text-gray-400 text-sm">No customer requests waiting to be scheduled.</p>
+              )}
+              {requests.map(request => (
+                <button
+                  key={request.id}
+                  onClick={() => selectAppointment(request)}
+                  className={`w-full text-left rounded-md p-3 text-sm bg-gray-800 hover:bg-gray-700 border ${selected?.id === request.id ? 'border-[#ff0000]' : 'border-gray-700'}`}
+                >
+                  <p className="text-white font-medium">{request.customer_name}</p>
+                  <p className="text-gray-400">
+                    {request.preferred_date ? new Date(`${request.preferred_date}T12:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' }) : 'Any day'}
+                    {' · '}
+                    {request.preferred_time ? PREFERRED_TIME_LABELS[request.preferred_time] || request.preferred_time : 'Any time'}
+                  </p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Selected appointment */}
+        {selected && (
+          <Card className="bg-gray-900/50 border-gray-700">
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div>
+                <CardTitle className="text-white mb-2">{selected.customer_name}</CardTitle>
+                <Badge className={`${STATUS_COLORS[selected.status]} text-white`}>
+                  {selected.status.replace('_', '-').toUpperCase()}
+                </Badge>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-400 hover:text-white"
+                onClick={() => selectAppointment(null)}
+                aria-label="Close"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-gray-300 text-sm">
+                <div className="flex items-center">
+                  <Clock className="h-4 w-4 mr-2 text-blue-400" />
+                  {selected.scheduled_start
+                    ? `${new Date(selected.scheduled_start).toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' })}, ${formatTimeRange(selected)}`
+                    : `Requested: ${selected.preferred_date || 'any day'}, ${selected.preferred_time ? PREFERRED_TIME_LABELS[selected.preferred_time] || selected.preferred_time : 'any time'}`}
+                </div>
+                <div className="flex items-center">
+                  <User className="h-4 w-4 mr-2 text-purple-400" />
+                  {getRepName(selected.assignee)}
+                </div>
+                {selected.customer_phone && (
+                  <div className="flex items-center">
+                    <Phone className="h-4 w-4 mr-2 text-green-400" />
+                    {selected.customer_phone}
+                  </div>
+                )}
+                {selected.address && (
+                  <div className="flex items-center">
+                    <MapPin className="h-4 w-4 mr-2 text-blue-400" />
+                    {selected.address}
+                  </div>
+                )}
+              </div>
+              {selected.confirmation_sent_at && (
+                <p className="text-gray-500 text-xs">
+                  Confirmation texted {new Date(selected.confirmation_sent_at).toLocaleString()}
+                  {selected.reminder_sent_at && ` · Reminder texted ${new Date(selected.reminder_sent_at).toLocaleString()}`}
+                </p>
+              )}
+              {selected.cancel_reason && (
+                <p className="text-gray-400 text-sm">Cancelled: {selected.cancel_reason}</p>
+              )}
+
+              {canWrite && isOpen && (
+                <div className="border-t border-gray-700 pt-4 space-y-3">
+                  {scheduleFields}
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={reschedule}
+                      disabled={!startValue || saving}
+                    >
+                      {selected.scheduled_start ? 'Reschedule' : 'Schedule'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => updateSelected({ action: 'assign', assignedTo: assignee || null })}
+                      disabled={saving || assignee === (selected.assigned_to || '')}
+                    >
+                      Assign Rep
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {errorMessage}
+
+              <div className="flex flex-wrap gap-2">
+                {canWrite && selected.status === 'requested' && (
+                  <Button
+                    className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                    onClick={() => updateSelected({ action: 'set_status', status: 'confirmed' })}
+                    disabled={saving || !selected.scheduled_start}
+                  >
+                    Confirm &amp; Text Customer
+                  </Button>
+                )}
+                {canWrite && selected.scheduled_start && selected.status !== 'cancelled' && (
+                  <>
+                    <Button
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => updateSelected({ action: 'set_status', status: 'completed' })}
+                      disabled={saving || selected.status === 'completed'}
+                    >
+                      Mark Completed
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => updateSelected({ action: 'set_status', status: 'no_show' })}
+                      disabled={saving || selected.status === 'no_show'}
+                    >
+                      Mark No-Show
+                    </Button>
+                  </>
+                )}
+                {canWrite && selected.status !== 'cancelled' && (
+                  <Button
+                    variant="outline"
+                    className="border-red-600 text-red-400"
+                    onClick={cancel}
+                    disabled={saving}
+                  >
+                    Cancel Appointment
+                  </Button>
+                )}
+                {selected.lead_id && can('leads:read') && (
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={() => router.push(`/crm/leads/${selected.lead_id}`)}
+                  >
+                    View Lead
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+/**
+ * CRM Possible Duplicates Page
+ *
+ * Review queue for leads that look like the same person, with:
+ * - Pairs flagged on matching phone, email or address, strongest first
+ * - Both records side by side with the reasons they matched
+ * - A field picker to choose each merged value from either record
+ * - Merge into the kept lead (its activity history comes along) or dismiss
+ * - Merged and dismissed pairs for reference
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  DUPLICATE_SOURCE_LABELS,
+  DUPLICATE_STATUSES,
+  MATCH_REASON_LABELS,
+  MERGE_FIELDS,
+  isMergeableRecord,
+  type DuplicateRecord,
+  type DuplicateStatus,
+  type LeadDuplicate,
+  type MergeField
+} from '@/lib/leadDuplicates';
+import { GitMerge, X } from 'lucide-react';
+
+const STATUS_LABELS: Record<DuplicateStatus, string> = {
+  open: 'Open',
+  merged: 'Merged',
+  dismissed: 'Dismissed'
+};
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  street_address: 'Address'
+};
+
+type Side = 'lead' | 'match';
+
+function getFieldValue(record: DuplicateRecord, field: MergeField): string | null {
+  const value = record[field];
+  return value && value !== 'Unknown' ? value : null;
+}
+
+/**
+ * Keep the older CRM lead, and its values unless they are empty
+ */
+function getDefaultSelection(duplicate: LeadDuplicate): { keep: Side; picks: Record<MergeField, Side> } {
+  const sides: Side[] = new Date(duplicate.lead.created_at) <= new Date(duplicate.match.created_at)
+    ? ['lead', 'match']
+    : ['match', 'lead'];
+  const keep = sides.find(side => isMergeableRecord(duplicate[side])) || 'lead';
+  const other: Side = keep === 'lead' ? 'match' : 'lead';
+
+  const picks = {} as Record<MergeField, Side>;
+  for (const field of MERGE_FIELDS) {
+    picks[field] = getFieldValue(duplicate[keep], field) || !getFieldValue(duplicate[other], field) ? keep : other;
+  }
+
+  return { keep, picks };
+}
+
+export default function DuplicatesPage() {
+  const { can } = useCrmAccess();
+  const [status, setStatus] = useState<DuplicateStatus>('open');
+  const [duplicates, setDuplicates] = useState<LeadDuplicate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<LeadDuplicate | null>(null);
+  const [keep, setKeep] = useState<Side>('lead');
+  const [picks, setPicks] = useState<Record<MergeField, Side> | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canResolve = can('leads:write') && status === 'open';
+
+  const loadDuplicates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/crm/lead-duplicates?status=${status}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDuplicates(data.duplicates || []);
+      }
+    } catch (error) {
+      console.error('Error loading lead duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setSelected(null);
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const selectDuplicate = (duplicate: LeadDuplicate) => {
+    const selection = getDefaultSelection(duplicate);
+    setSelected(duplicate);
+    setKeep(selection.keep);
+    setPicks(selection.picks);
+    setError(null);
+  };
+
+  const resolve = async (action: 'merge' | 'dismiss') => {
+    if (!selected || !picks) return;
+
+    let body: Record<string, unknown> = { id: selected.id, action };
+    if (action === 'merge') {
+      const kept = selected[keep];
+      if (!window.confirm(`Merge into ${kept.name} (${DUPLICATE_SOURCE_LABELS[kept.source]})? The other record will be removed.`)) return;
+
+      const fields: Partial<Record<MergeField, string | null>> = {};
+      for (const field of MERGE_FIELDS) {
+        fields[field] = getFieldValue(selected[picks[field]], field);
+      }
+      body = { ...body, keepId: kept.id, fields };
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/lead-duplicates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+
+      if (response.ok) {
+        setSelected(null);
+        await loadDuplicates();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `Failed to ${action} duplicate`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} lead duplicate:`, error);
+      setError(`Failed to ${action} duplicate`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRecordHeader = (side: Side) => {
+    if (!selected) return null;
+    const record = selected[side];
+
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="border-gray-600 text-gray-300">
+            {DUPLICATE_SOURCE_LABELS[record.source]}
+          </Badge>
+          {isMergeableRecord(record) && (
+            <Link href={`/crm/leads/${record.id}`} className="text-sm text-blue-400 hover:underline">
+              Open lead
+            </Link>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">Created {new Date(record.created_at).toLocaleString()}</p>
+        {canResolve && (
+          <label className={`flex items-center gap-2 text-sm ${isMergeableRecord(record) ? 'text-gray-200' : 'text-gray-500'}`}>
+            <input
+              type="radio"
+              name="keep"
+              checked={keep === side}
+              disabled={!isMergeableRecord(record)}
+              onChange={() => setKeep(side)}
+            />
+            Keep this lead
+          </label>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Possible Duplicates</h1>
+          <p className="text-gray-400">Leads from the splash form, contact form and chatbot that look like the same person</p>
+        </div>
+        <div className="flex gap-2">
+          {DUPLICATE_STATUSES.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={status === option ? 'default' : 'outline'}
+              className={status === option ? 'bg-[#ff0000] hover:bg-[#cc0000] text-white' : 'border-gray-600 text-gray-300'}
+              onClick={() => setStatus(option)}
+            >
+              {STATUS_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <Card className="bg-gray-900/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">
+              {STATUS_LABELS[status]} Pairs
+              {!loading && <span className="ml-2 text-sm font-normal text-gray-400">({duplicates.length})</span>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-gray-400 text-sm">Loading duplicates...</p>
+            ) : duplicates.length === 0 ? (
+              <p className="text-gray-400 text-sm">No {STATUS_LABELS[status].toLowerCase()} duplicates.</p>
+            ) : (
+              <ul className="space-y-2">
+                {duplicates.map(duplicate => (
+                  <li key={duplicate.id}>
+                    <button
+                      type="button"
+                      onClick={() => selectDuplicate(duplicate)}
+                      className={`w-full text-left rounded-lg border p-3 ${
+                        selected?.id === duplicate.id ? 'border-[#ff0000] bg-gray-800' : 'border-gray-700 hover:bg-gray-800/50'
+                      }`}
+                    >
+                      <p className="text-gray-200 text-sm">
+                        {duplicate.lead.name} <span className="text-gray-500">/</span> {duplicate.match.name}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {duplicate.match_reasons.map(reason => (
+                          <Badge key={reason} variant="outline" className="border-yellow-700 text-yellow-400 text-xs">
+                            {MATCH_REASON_LABELS[reason] || reason}
+                          </Badge>
+                        ))}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">Compare</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!selected || !picks ? (
+              <p className="text-gray-400 text-sm">Select a pair to compare the two records.</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-[8rem_minmax(0,1fr)_minmax(0,1fr)] gap-3">
+                  <div />
+                  {renderRecordHeader('lead')}
+                  {renderRecordHeader('match')}
+
+                  {MERGE_FIELDS.map(field => (
+                    <div key={field} className="contents">
+                      <div className="text-sm text-gray-400 pt-1">{FIELD_LABELS[field]}</div>
+                      {(['lead', 'match'] as Side[]).map(side => {
+                        const value = getFieldValue(selected[side], field);
+                        return (
+                          <label
+                            key={side}
+                            className={`flex items-start gap-2 rounded-md border p-2 text-sm break-words ${
+                              canResolve && picks[field] === side ? 'border-green-700 bg-green-900/20' : 'border-gray-700'
+                            }`}
+                          >
+                            {canResolve && (
+                              <input
+                                type="radio"
+                                name={`field-${field}`}
+                                className="mt-1"
+                                checked={picks[field] === side}
+                                disabled={!value}
+                                onChange={() => setPicks({ ...picks, [field]: side })}
+                              />
+                            )}
+                            <span className={value ? 'text-gray-200' : 'text-gray-500 italic'}>{value || 'Empty'}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Score {selected.score}: {selected.match_reasons.map(reason => MATCH_REASON_LABELS[reason] || reason).join(', ')}
+                  {selected.resolved_at && ` · ${STATUS_LABELS[selected.status]} ${new Date(selected.resolved_at).toLocaleString()}`}
+                </p>
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {canResolve && (
+                  <div className="flex flex-wrap gap-3">
+                    <Button
+                      onClick={() => resolve('merge')}
+                      disabled={saving || !isMergeableRecord(selected[keep])}
+                      className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                    >
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      {saving ? 'Saving...' : 'Merge'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => resolve('dismiss')}
+                      disabled={saving}
+                      className="border-gray-600 text-gray-300"
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Not a Duplicate
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
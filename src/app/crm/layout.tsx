@@ -13,6 +13,8 @@ import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { CrmAccessProvider, useCrmAccess } from '@/components/CrmAccessProvider';
+import type { CrmPermission } from '@/lib/crmAccess';
 import {
   Bell,
   Settings,
@@ -26,6 +28,12 @@ import {
   MessageSquare,
   Calendar,
   FileText,
+  Mail,
+  GitMerge,
+  Gauge,
+  ShieldCheck,
+  Shuffle,
+  Timer,
   Menu,
   X
 } from 'lucide-react';
@@ -34,10 +42,26 @@ interface CRMLayoutProps {
   children: React.ReactNode;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: typeof Home;
+  permission?: CrmPermission;
+}
+
 export default function CRMLayout({ children }: CRMLayoutProps) {
+  return (
+    <CrmAccessProvider>
+      <CRMLayoutContent>{children}</CRMLayoutContent>
+    </CrmAccessProvider>
+  );
+}
+
+function CRMLayoutContent({ children }: CRMLayoutProps) {
   const { user, isLoaded } = useUser();
   const router = useRouter();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const access = useCrmAccess();
 
   // Show loading while auth is being checked
   if (!isLoaded) {
@@ -64,29 +88,53 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
     );
   }
 
-  // Role-based access control
-  const getUserRole = () => {
-    if (!user) return 'guest';
-    const email = user.emailAddresses[0]?.emailAddress || '';
-    if (email.includes('admin') || email === 'cesar@quantumsolar.us') return 'admin';
-    if (email.includes('manager')) return 'manager';
-    if (email.includes('sales')) return 'sales';
-    if (email.includes('installer')) return 'installer';
-    return 'user';
-  };
+  if (access.loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-red-500/30 border-t-red-500 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-white text-lg">Loading CRM...</p>
+        </div>
+      </div>
+    );
+  }
 
-  const userRole = getUserRole();
+  // Signed in, but no role in crm_users
+  if (!access.role) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-800 flex items-center justify-center p-6">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-bold text-white mb-2">No CRM Access</h1>
+          <p className="text-gray-400 mb-6">
+            Your account does not have a CRM role yet. Ask an administrator to add you.
+          </p>
+          <SignOutButton>
+            <Button variant="outline" className="border-gray-600 text-gray-300">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </SignOutButton>
+        </div>
+      </div>
+    );
+  }
 
-  const navigation = [
+  const navigation = ([
     { name: 'Dashboard', href: '/crm', icon: Home },
-    { name: 'Leads', href: '/crm/leads', icon: Users },
-    { name: 'Projects', href: '/crm/projects', icon: Building2 },
-    { name: 'Candidates', href: '/crm/candidates', icon: Briefcase },
-    { name: 'Analytics', href: '/crm/analytics', icon: BarChart3 },
-    { name: 'Messages', href: '/crm/messages', icon: MessageSquare },
-    { name: 'Calendar', href: '/crm/calendar', icon: Calendar },
-    { name: 'Reports', href: '/crm/reports', icon: FileText },
-  ];
+    { name: 'Leads', href: '/crm/leads', icon: Users, permission: 'leads:read' },
+    { name: 'Duplicates', href: '/crm/duplicates', icon: GitMerge, permission: 'leads:read' },
+    { name: 'Lead Scoring', href: '/crm/scoring', icon: Gauge, permission: 'leads:read' },
+    { name: 'Qualification', href: '/crm/qualification', icon: ShieldCheck, permission: 'leads:read' },
+    { name: 'Lead Routing', href: '/crm/routing', icon: Shuffle, permission: 'leads:read' },
+    { name: 'Speed to Lead', href: '/crm/sla', icon: Timer, permission: 'leads:read' },
+    { name: 'Projects', href: '/crm/projects', icon: Building2, permission: 'projects:read' },
+    { name: 'Candidates', href: '/crm/candidates', icon: Briefcase, permission: 'candidates:read' },
+    { name: 'Analytics', href: '/crm/analytics', icon: BarChart3, permission: 'reports:read' },
+    { name: 'Messages', href: '/crm/messages', icon: MessageSquare, permission: 'leads:read' },
+    { name: 'Calendar', href: '/crm/calendar', icon: Calendar, permission: 'leads:read' },
+    { name: 'Templates', href: '/crm/templates', icon: Mail, permission: 'messages:send' },
+    { name: 'Reports', href: '/crm/reports', icon: FileText, permission: 'reports:read' },
+  ] as NavigationItem[]).filter(item => !item.permission || access.can(item.permission));
 
   return (
     <div className="min-h-screen bg-black">
@@ -121,7 +169,7 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
             <div className="flex items-center space-x-3">
               {/* Role Badge */}
               <Badge variant="outline" className="border-gray-600 text-gray-300 hidden md:flex">
-                {userRole.toUpperCase()}
+                {access.role.toUpperCase()}
               </Badge>
 
               {/* Notifications */}
@@ -148,14 +196,16 @@ export default function CRMLayout({ children }: CRMLayoutProps) {
               </div>
 
               {/* Settings Button */}
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                className="text-gray-400 hover:text-white"
-                onClick={() => router.push('/crm/settings')}
-              >
-                <Settings className="h-5 w-5" />
-              </Button>
+              {access.can('settings') && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  className="text-gray-400 hover:text-white"
+                  onClick={() => router.push('/crm/settings')}
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
+              )}
 
               {/* Profile Button */}
               <Button 
@@ -2,11 +2,15 @@
  * Lead Detail Page
  * 
  * Comprehensive lead management view with:
- * - Lead information and status
- * - Communication history
+ * - Lead information and status, with the qualification rule that decided it
+ * - Owner, with reassignment or routing by the configured strategy
+ * - Lead score with the points behind it, factor by factor
+ * - Uploaded electric bills with extracted usage and charges
+ * - Activity timeline (notes, calls, SMS, emails, status changes, assignments)
+ * - Text message history with delivery status
  * - Lead progression tracking
- * - Follow-up scheduling
- * - Conversion management
+ * - Follow-up and consultation scheduling
+ * - Conversion to a project
  */
 
 "use client";
@@ -16,24 +20,26 @@ import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, MapPin, Calendar, Phone, Mail, DollarSign, User, TrendingUp } from 'lucide-react';
-
-interface Lead {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  status: 'new' | 'contacted' | 'qualified' | 'proposal' | 'closed' | 'lost';
-  created_at: string;
-  electric_bill: number | null;
-  location: string;
-}
+import { ArrowLeft, MapPin, Calendar, Phone, Mail, DollarSign, User, TrendingUp, ShieldCheck, Star } from 'lucide-react';
+import { LEAD_STATUSES, type Lead, type LeadStatus } from '@/lib/leads';
+import { getRepName, type RoutingRep } from '@/lib/leadAssignment';
+import { LeadActivityTimeline, type ComposeMode } from '@/components/LeadActivityTimeline';
+import { LeadBillsPanel } from '@/components/LeadBillsPanel';
+import { SmsMessageHistory } from '@/components/SmsMessageHistory';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
 
 export default function LeadDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter();
   const resolvedParams = use(params);
   const [lead, setLead] = useState<Lead | null>(null);
   const [loading, setLoading] = useState(true);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [composeMode, setComposeMode] = useState<ComposeMode>('note');
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [converting, setConverting] = useState(false);
+  const [reps, setReps] = useState<RoutingRep[]>([]);
+  const [assigning, setAssigning] = useState(false);
+  const { can } = useCrmAccess();
 
   const loadLead = useCallback(async () => {
     try {
@@ -49,9 +55,126 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
     }
   }, [resolvedParams.id]);
 
+  const loadConvertedProject = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/crm/convert-lead?leadId=${resolvedParams.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setProjectId(data.project?.id || null);
+      }
+    } catch (error) {
+      console.error('Error loading converted project:', error);
+    }
+  }, [resolvedParams.id]);
+
+  const loadReps = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/lead-assignment');
+      if (response.ok) {
+        const data = await response.json();
+        setReps(data.reps || []);
+      }
+    } catch (error) {
+      console.error('Error loading lead owners:', error);
+    }
+  }, []);
+
   useEffect(() => {
     loadLead();
-  }, [loadLead]);
+    loadConvertedProject();
+    loadReps();
+  }, [loadLead, loadConvertedProject, loadReps]);
+
+  const convertToProject = async () => {
+    if (!lead || converting) return;
+    if (!window.confirm(`Create a project for ${lead.name} and mark this lead closed?`)) return;
+
+    setConverting(true);
+    try {
+      const response = await fetch('/api/crm/convert-lead', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadId: lead.id })
+      });
+      const data = await response.json();
+
+      if (response.ok && data.project) {
+        router.push(`/crm/projects/${data.project.id}`);
+      } else {
+        alert(data.error || 'Failed to convert lead');
+      }
+    } catch (error) {
+      console.error('Error converting lead:', error);
+      alert('Failed to convert lead');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const openComposer = (mode: ComposeMode) => {
+    setComposeMode(mode);
+    document.getElementById('lead-activity')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const updateStatus = async (status: LeadStatus) => {
+    if (!lead || status === lead.status) return;
+
+    setUpdatingStatus(true);
+    try {
+      const response = await fetch('/api/crm/leads', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: lead.id, status })
+      });
+      if (response.ok) {
+        const data = await response.json();
+        if (data.lead) setLead(data.lead);
+      } else {
+        console.error('Failed to update lead status:', response.status);
+      }
+    } catch (error) {
+      console.error('Error updating lead status:', error);
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  // ownerId of null unassigns; auto routes with the configured strategy
+  const assignOwner = async (assignment: { ownerId: string | null } | { auto: true }) => {
+    if (!lead) return;
+
+    setAssigning(true);
+    try {
+      const response = await fetch('/api/crm/lead-assignment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadId: lead.id, ...assignment })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        if (data.lead) setLead(data.lead);
+        loadReps();
+      } else {
+        alert(data.error || 'Failed to assign lead');
+      }
+    } catch (error) {
+      console.error('Error assigning lead:', error);
+      alert('Failed to assign lead');
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const getQualificationColor = (status: string): string => {
+    const colors = {
+      qualified: 'text-green-400',
+      soft_fail: 'text-orange-400',
+      disqualified: 'text-red-400',
+      pending: 'text-yellow-400',
+      incomplete: 'text-gray-400'
+    };
+    return colors[status as keyof typeof colors] || 'text-gray-400';
+  };
 
   const getStatusColor = (status: string): string => {
     const colors = {
@@ -106,6 +229,8 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
     );
   }
 
+  const owner = reps.find(rep => rep.clerk_user_id === lead.owner_id);
+
   return (
     <div className="min-h-screen bg-black p-6">
       <div className="max-w-4xl mx-auto">
@@ -162,6 +287,51 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
                     <span className="font-medium">Created:</span>
                     <span className="ml-2">{new Date(lead.created_at).toLocaleDateString()}</span>
                   </div>
+                  <div className="flex items-center text-gray-300">
+                    <MapPin className="h-5 w-5 mr-3 text-blue-400" />
+                    <span className="font-medium">Source:</span>
+                    <span className="ml-2">
+                      {lead.source === 'splash' ? 'Splash Page' : 'Contact Form'}
+                      {lead.is_partial && ' (partial)'}
+                    </span>
+                  </div>
+                  <div className="flex items-center text-gray-300">
+                    <User className="h-5 w-5 mr-3 text-purple-400" />
+                    <span className="font-medium">Owner:</span>
+                    {can('leads:write') ? (
+                      <>
+                        <select
+                          value={lead.owner_id || ''}
+                          disabled={assigning}
+                          onChange={(e) => assignOwner({ ownerId: e.target.value || null })}
+                          className="ml-2 rounded-md border border-gray-600 bg-gray-800 px-2 py-1 text-sm text-gray-200"
+                        >
+                          <option value="">Unassigned</option>
+                          {reps.map(rep => (
+                            <option key={rep.id} value={rep.clerk_user_id}>
+                              {getRepName(rep)}{rep.is_available ? '' : ' (away)'}
+                            </option>
+                          ))}
+                          {lead.owner_id && !owner && (
+                            <option value={lead.owner_id}>{lead.owner_id}</option>
+                          )}
+                        </select>
+                        {!lead.owner_id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={assigning}
+                            onClick={() => assignOwner({ auto: true })}
+                            className="ml-2 border-gray-600 text-gray-300"
+                          >
+                            Auto-assign
+                          </Button>
+                        )}
+                      </>
+                    ) : (
+                      <span className="ml-2">{owner ? getRepName(owner) : lead.owner_id || 'Unassigned'}</span>
+                    )}
+                  </div>
                 </div>
                 <div className="space-y-3">
                   {lead.electric_bill && (
@@ -176,6 +346,23 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
                     <span className="font-medium">Lead ID:</span>
                     <span className="ml-2 font-mono text-sm">{lead.id ? `${lead.id.slice(0, 8)}...` : 'Unknown'}</span>
                   </div>
+                  <div className="flex items-center text-gray-300">
+                    <ShieldCheck className="h-5 w-5 mr-3 text-green-400" />
+                    <span className="font-medium">Qualification:</span>
+                    <span className={`ml-2 capitalize ${getQualificationColor(lead.qualification.status)}`}>
+                      {lead.qualification.status.replace('_', ' ')}
+                    </span>
+                    {lead.qualification.reason && (
+                      <span className="ml-2 text-sm text-gray-500" title={lead.qualification.reason_code ?? undefined}>
+                        ({lead.qualification.reason})
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center text-gray-300">
+                    <Star className="h-5 w-5 mr-3 text-yellow-400" />
+                    <span className="font-medium">Score:</span>
+                    <span className="ml-2">{lead.score ?? 'Not scored'}</span>
+                  </div>
                   <div className="flex items-center text-gray-300">
                     <TrendingUp className="h-5 w-5 mr-3 text-orange-400" />
                     <span className="font-medium">Potential:</span>
@@ -188,6 +375,60 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
                   </div>
                 </div>
               </div>
+
+              {(lead.qualification.homeowner_status || lead.qualification.credit_score || lead.qualification.shading || lead.qualification.utility_company) && (
+                <div className="border-t border-gray-700 pt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Homeowner</p>
+                    <p className="text-gray-300">{lead.qualification.homeowner_status || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Credit Score</p>
+                    <p className="text-gray-300">{lead.qualification.credit_score || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Shading</p>
+                    <p className="text-gray-300">{lead.qualification.shading || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Utility</p>
+                    <p className="text-gray-300">{lead.qualification.utility_company || '—'}</p>
+                  </div>
+                </div>
+              )}
+
+              {lead.score_breakdown && lead.score_breakdown.length > 0 && (
+                <div className="border-t border-gray-700 pt-4 text-sm">
+                  <p className="text-gray-500 mb-2">
+                    Score Breakdown
+                    {lead.scored_at && <span className="ml-2 text-xs">updated {new Date(lead.scored_at).toLocaleString()}</span>}
+                  </p>
+                  <div className="space-y-2">
+                    {lead.score_breakdown.map(item => (
+                      <div key={item.factor} className="grid grid-cols-[minmax(0,12rem)_minmax(0,1fr)_4rem] items-center gap-3">
+                        <div className="min-w-0">
+                          <p className="text-gray-300 truncate">{item.label}</p>
+                          <p className="text-xs text-gray-500 truncate">{item.value ?? 'Not answered'}</p>
+                        </div>
+                        <div className="h-2 rounded bg-gray-800">
+                          <div
+                            className="h-2 rounded bg-yellow-400"
+                            style={{ width: `${item.max > 0 ? (item.points / item.max) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="text-right text-gray-300">{item.points}/{item.max}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {lead.message && (
+                <div className="border-t border-gray-700 pt-4 text-sm">
+                  <p className="text-gray-500 mb-1">Message</p>
+                  <p className="text-gray-300 whitespace-pre-wrap">{lead.message}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -198,21 +439,66 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
             </CardHeader>
             <CardContent>
               <div className="flex flex-wrap gap-4">
-                <Button className="bg-[#ff0000] hover:bg-[#cc0000]">
-                  Update Status
-                </Button>
+                <select
+                  value={lead.status}
+                  onChange={(e) => updateStatus(e.target.value as LeadStatus)}
+                  disabled={updatingStatus}
+                  className="bg-[#ff0000] hover:bg-[#cc0000] text-white rounded-md px-4 py-2 text-sm font-medium disabled:opacity-50"
+                  aria-label="Update Status"
+                >
+                  {LEAD_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {updatingStatus ? 'Updating...' : `Status: ${status.charAt(0).toUpperCase() + status.slice(1)}`}
+                    </option>
+                  ))}
+                </select>
                 <Button variant="outline" className="border-gray-600 text-gray-300">
                   Schedule Follow-up
                 </Button>
-                <Button variant="outline" className="border-gray-600 text-gray-300">
+                {can('leads:write') && (
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={() => router.push(`/crm/calendar?leadId=${lead.id}&leadName=${encodeURIComponent(lead.name)}`)}
+                  >
+                    Schedule Consultation
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  className="border-gray-600 text-gray-300"
+                  onClick={() => openComposer('call')}
+                >
+                  Log Call
+                </Button>
+                <Button
+                  variant="outline"
+                  className="border-gray-600 text-gray-300"
+                  onClick={() => openComposer('email')}
+                >
                   Send Email
                 </Button>
                 <Button variant="outline" className="border-gray-600 text-gray-300">
                   Create Proposal
                 </Button>
-                <Button variant="outline" className="border-gray-600 text-gray-300">
-                  Convert to Project
-                </Button>
+                {projectId ? can('projects:read') && (
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={() => router.push(`/crm/projects/${projectId}`)}
+                  >
+                    View Project
+                  </Button>
+                ) : can('projects:write') && (
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={convertToProject}
+                    disabled={converting}
+                  >
+                    {converting ? 'Converting...' : 'Convert to Project'}
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -253,6 +539,21 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
             </CardContent>
           </Card>
 
+          {/* Electric Bills */}
+          <LeadBillsPanel leadId={lead.id} />
+
+          {/* Activity Timeline */}
+          <div id="lead-activity">
+            <LeadActivityTimeline
+              lead={lead}
+              composeMode={composeMode}
+              onComposeModeChange={setComposeMode}
+            />
+          </div>
+
+          {/* Text Messages */}
+          <SmsMessageHistory leadId={lead.id} />
+
           {/* Coming Soon Features */}
           <Card className="bg-gray-900/50 border-gray-700">
             <CardHeader>
@@ -261,16 +562,12 @@ export default function LeadDetailPage({ params }: { params: Promise<{ id: strin
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-gray-400">
                 <ul className="space-y-2">
-                  <li>• Communication history</li>
                   <li>• Email templates</li>
                   <li>• Automated follow-ups</li>
-                  <li>• Lead scoring system</li>
                 </ul>
                 <ul className="space-y-2">
                   <li>• Solar calculator integration</li>
                   <li>• Proposal generation</li>
-                  <li>• Calendar integration</li>
-                  <li>• Lead source tracking</li>
                 </ul>
               </div>
             </CardContent>
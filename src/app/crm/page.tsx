@@ -13,37 +13,38 @@
  * - Project milestone tracking
  * - Job candidate pipeline
  * - Photo submission management
+ * - Server-side search, filters, sorting and cursor pagination
+ *   with filter state synced to the URL (?tab=leads&status=new&q=...)
+ * - Leads sorted by lead score by default, hottest first
+ * - "My Leads" shows only leads assigned to the signed-in rep
+ * - Speed-to-lead widget with leads at risk and rep response times
  * 
- * Access Control:
+ * Access Control (roles from crm_users, see src/lib/crmAccess.ts):
  * - Admin: Full access to all features
- * - Manager: Access to leads and projects
+ * - Manager: Everything except settings
  * - Sales: Access to leads only
- * - Installer: Access to project updates only
+ * - Installer: Access to assigned projects only
  */
 
 "use client";
 
 import { useUser } from '@clerk/nextjs';
-import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ProjectImporterIsolated } from '@/components/ProjectImporterIsolated';
-import { CalendarDays, Phone, Mail, MapPin, DollarSign, Users, Building2, Briefcase, TrendingUp, Clock, Plus, Filter, Upload } from 'lucide-react';
+import { CrmListFilters, LIST_FILTER_KEYS, type ListFilterValues } from '@/components/CrmListFilters';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { SpeedToLeadWidget } from '@/components/SpeedToLeadWidget';
+import type { CrmPermission } from '@/lib/crmAccess';
+import { getStage, getStageCount, getStagePhase, type Pipeline } from '@/lib/pipelines';
+import { LEAD_STATUSES, type Lead } from '@/lib/leads';
+import { getRepName, type RoutingRep } from '@/lib/leadAssignment';
+import { CalendarDays, Phone, Mail, MapPin, DollarSign, Users, Building2, Briefcase, TrendingUp, Clock, Plus, Filter, Upload, Star, UserCheck } from 'lucide-react';
 
 // Types
-interface Lead {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  status: 'new' | 'contacted' | 'qualified' | 'proposal' | 'closed' | 'lost';
-  created_at: string;
-  electric_bill: number | null;
-  location: string;
-}
-
 interface Project {
   id: string;
   customer_name: string;
@@ -52,13 +53,11 @@ interface Project {
   system_size_kw: number;
   estimated_completion_date: string | null;
   created_at: string;
-  project_lifecycle_stages?: {
-    stage_name: string;
-  };
+  pipeline_id: string | null;
 }
 
 interface JobCandidate {
-  id: string;
+  id: number;
   name: string;
   email: string;
   phone: string;
@@ -67,13 +66,84 @@ interface JobCandidate {
   created_at: string;
 }
 
-export default function CRMDashboard() {
+type DashboardTab = 'leads' | 'projects' | 'candidates' | 'import';
+type ListTab = Exclude<DashboardTab, 'import'>;
+
+interface ListPage<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+    total: number | null;
+  };
+}
+
+const DASHBOARD_TABS: DashboardTab[] = ['leads', 'projects', 'candidates', 'import'];
+
+const TAB_PERMISSIONS: Record<DashboardTab, CrmPermission> = {
+  leads: 'leads:read',
+  projects: 'projects:read',
+  candidates: 'candidates:read',
+  import: 'projects:import'
+};
+
+const LIST_ENDPOINTS: Record<ListTab, string> = {
+  leads: '/api/crm/leads',
+  projects: '/api/crm/projects',
+  candidates: '/api/crm/candidates'
+};
+
+const toOptions = (values: readonly string[]) =>
+  values.map(value => ({ value, label: value.charAt(0).toUpperCase() + value.slice(1) }));
+
+/**
+ * Fetch one page from a CRM list endpoint
+ */
+const fetchListPage = async <T,>(tab: ListTab, query: URLSearchParams): Promise<ListPage<T> | null> => {
+  try {
+    const response = await fetch(`${LIST_ENDPOINTS[tab]}?${query.toString()}`);
+    if (!response.ok) {
+      console.log(`${tab} API request failed:`, response.status);
+      return null;
+    }
+    const contentType = response.headers.get('content-type');
+    if (!contentType || !contentType.includes('application/json')) {
+      console.log(`${tab} API returned non-JSON response`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`Error loading ${tab}:`, error);
+    return null;
+  }
+};
+
+// useSearchParams requires a Suspense boundary for static rendering
+export default function CRMDashboardPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading CRM Dashboard...</div>
+      </div>
+    }>
+      <CRMDashboard />
+    </Suspense>
+  );
+}
+
+function CRMDashboard() {
   console.log('🏢 CRM PAGE: CRM Dashboard component mounting');
   
   const { user, isLoaded } = useUser();
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'leads' | 'projects' | 'candidates' | 'import'>('leads');
+  const searchParams = useSearchParams();
+  const { can } = useCrmAccess();
+  const permittedTabs = DASHBOARD_TABS.filter(tab => can(TAB_PERMISSIONS[tab]));
+  const tabParam = searchParams.get('tab') as DashboardTab | null;
+  const activeTab: DashboardTab = tabParam && permittedTabs.includes(tabParam) ? tabParam : (permittedTabs[0] ?? 'leads');
   
+
   console.log('👤 CRM PAGE: User state', {
     isLoaded,
     hasUser: !!user,
@@ -83,21 +153,45 @@ export default function CRMDashboard() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [candidates, setCandidates] = useState<JobCandidate[]>([]);
   const [loading, setLoading] = useState(true);
+  const [listLoading, setListLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totals, setTotals] = useState<Record<ListTab, number | null>>({ leads: null, projects: null, candidates: null });
+  const [closedLeadValue, setClosedLeadValue] = useState(0);
+  const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+  const [ownerNames, setOwnerNames] = useState<Record<string, string>>({});
 
-  // Role-based access control
-  const getUserRole = () => {
-    if (!user) return 'guest';
-    // In a real implementation, this would come from user metadata or a database
-    const email = user.emailAddresses[0]?.emailAddress || '';
-    if (email.includes('admin') || email === 'cesar@quantumsolar.us') return 'admin';
-    if (email.includes('manager')) return 'manager';
-    if (email.includes('sales')) return 'sales';
-    if (email.includes('installer')) return 'installer';
-    // Default to admin for testing purposes
-    return 'admin';
+  // Filter state for the active tab lives in the URL
+  const filterValues = useMemo<ListFilterValues>(() => {
+    const values: ListFilterValues = {};
+    for (const key of LIST_FILTER_KEYS) {
+      const value = searchParams.get(key);
+      if (value) values[key] = value;
+    }
+    return values;
+  }, [searchParams]);
+
+  const listQueryString = useMemo(() => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(filterValues)) {
+      if (value) query.set(key, value);
+    }
+    return query.toString();
+  }, [filterValues]);
+
+  const setActiveTab = (tab: DashboardTab) => {
+    // Filters are specific to each list, so switching tabs clears them
+    router.replace(`/crm?tab=${tab}`, { scroll: false });
   };
 
-  const userRole = getUserRole();
+  const updateFilters = useCallback((values: ListFilterValues) => {
+    const query = new URLSearchParams({ tab: activeTab });
+    for (const [key, value] of Object.entries(values)) {
+      if (value) query.set(key, value);
+    }
+    router.replace(`/crm?${query.toString()}`, { scroll: false });
+  }, [activeTab, router]);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -106,84 +200,98 @@ export default function CRMDashboard() {
     }
   }, [user, isLoaded, router]);
 
-  // Load data on mount
+  const setListData = (tab: ListTab, data: unknown[], append: boolean) => {
+    if (tab === 'leads') setLeads(prev => append ? [...prev, ...(data as Lead[])] : data as Lead[]);
+    if (tab === 'projects') setProjects(prev => append ? [...prev, ...(data as Project[])] : data as Project[]);
+    if (tab === 'candidates') setCandidates(prev => append ? [...prev, ...(data as JobCandidate[])] : data as JobCandidate[]);
+  };
+
+  // Totals for the stats cards, independent of the active filters
+  // (only for lists the user's role can read)
+  const canReadLeads = can('leads:read');
+  const canReadProjects = can('projects:read');
+  const canReadCandidates = can('candidates:read');
+
+  const loadStats = useCallback(async () => {
+    const [leadsPage, projectsPage, candidatesPage, closedLeadsPage] = await Promise.all([
+      canReadLeads ? fetchListPage<Lead>('leads', new URLSearchParams({ limit: '1' })) : null,
+      canReadProjects ? fetchListPage<Project>('projects', new URLSearchParams({ limit: '1' })) : null,
+      canReadCandidates ? fetchListPage<JobCandidate>('candidates', new URLSearchParams({ limit: '1' })) : null,
+      canReadLeads ? fetchListPage<Lead>('leads', new URLSearchParams({ status: 'closed', limit: '100' })) : null
+    ]);
+
+    setTotals({
+      leads: leadsPage?.pagination.total ?? null,
+      projects: projectsPage?.pagination.total ?? null,
+      candidates: candidatesPage?.pagination.total ?? null
+    });
+    setClosedLeadValue((closedLeadsPage?.data || []).reduce((sum, l) => sum + (l.electric_bill || 0), 0));
+  }, [canReadLeads, canReadProjects, canReadCandidates]);
+
+  // First page of the active list with the current filters
+  const loadList = useCallback(async (tab: DashboardTab, queryString: string) => {
+    if (tab === 'import') return;
+
+    setListLoading(true);
+    const page = await fetchListPage(tab, new URLSearchParams(queryString));
+    setListData(tab, page?.data || [], false);
+    setNextCursor(page?.pagination.nextCursor ?? null);
+    setListLoading(false);
+  }, []);
+
+  const loadMore = async () => {
+    if (activeTab === 'import' || !nextCursor) return;
+
+    setLoadingMore(true);
+    const query = new URLSearchParams(listQueryString);
+    query.set('cursor', nextCursor);
+    const page = await fetchListPage(activeTab, query);
+    if (page) {
+      setListData(activeTab, page.data, true);
+      setNextCursor(page.pagination.nextCursor);
+    }
+    setLoadingMore(false);
+  };
+
+  const loadDashboardData = async () => {
+    await Promise.all([loadStats(), loadList(activeTab, listQueryString)]);
+  };
+
+  // Load stats on mount
   useEffect(() => {
     if (user) {
-      loadDashboardData();
+      loadStats();
     }
-  }, [user]);
+  }, [user, loadStats]);
 
-  const loadDashboardData = async () => {
-    setLoading(true);
-    try {
-      // Load leads
-      try {
-        const leadsResponse = await fetch('/api/crm/leads');
-        if (leadsResponse.ok) {
-          const contentType = leadsResponse.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            const leadsData = await leadsResponse.json();
-            setLeads(leadsData);
-          } else {
-            console.log('Leads API returned non-JSON response');
-            setLeads([]); // Set empty array as fallback
-          }
-        } else {
-          console.log('Leads API request failed:', leadsResponse.status);
-          setLeads([]);
-        }
-      } catch (error) {
-        console.error('Error loading leads:', error);
-        setLeads([]);
-      }
-
-      // Load projects
-      try {
-        const projectsResponse = await fetch('/api/crm/projects');
-        if (projectsResponse.ok) {
-          const contentType = projectsResponse.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            const projectsData = await projectsResponse.json();
-            setProjects(projectsData);
-          } else {
-            console.log('Projects API returned non-JSON response');
-            setProjects([]);
-          }
-        } else {
-          console.log('Projects API request failed:', projectsResponse.status);
-          setProjects([]);
-        }
-      } catch (error) {
-        console.error('Error loading projects:', error);
-        setProjects([]);
-      }
-
-      // Load job candidates
-      try {
-        const candidatesResponse = await fetch('/api/crm/candidates');
-        if (candidatesResponse.ok) {
-          const contentType = candidatesResponse.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            const candidatesData = await candidatesResponse.json();
-            setCandidates(candidatesData);
-          } else {
-            console.log('Candidates API returned non-JSON response');
-            setCandidates([]);
-          }
-        } else {
-          console.log('Candidates API request failed:', candidatesResponse.status);
-          setCandidates([]);
-        }
-      } catch (error) {
-        console.error('Error loading candidates:', error);
-        setCandidates([]);
-      }
-    } catch (error) {
-      console.error('Error loading dashboard data:', error);
-    } finally {
-      setLoading(false);
+  // Pipelines give project stage names and counts
+  useEffect(() => {
+    if (!user || !canReadProjects) return;
+
+    fetch('/api/crm/pipelines')
+      .then(response => response.ok ? response.json() : { pipelines: [] })
+      .then(data => setPipelines(data.pipelines || []))
+      .catch(error => console.error('Error loading pipelines:', error));
+  }, [user, canReadProjects]);
+
+  // Lead owners' names, keyed by Clerk user ID
+  useEffect(() => {
+    if (!user || !canReadLeads) return;
+
+    fetch('/api/crm/lead-assignment')
+      .then(response => response.ok ? response.json() : { reps: [] })
+      .then(data => setOwnerNames(Object.fromEntries(
+        (data.reps || []).map((rep: RoutingRep) => [rep.clerk_user_id, getRepName(rep)])
+      )))
+      .catch(error => console.error('Error loading lead owners:', error));
+  }, [user, canReadLeads]);
+
+  // Reload the active list whenever the tab or its filters change
+  useEffect(() => {
+    if (user) {
+      loadList(activeTab, listQueryString).finally(() => setLoading(false));
     }
-  };
+  }, [user, activeTab, listQueryString, loadList]);
 
   // Status color mapping
   const getStatusColor = (status: string) => {
@@ -209,44 +317,28 @@ export default function CRMDashboard() {
     return colors[status as keyof typeof colors] || 'bg-gray-500';
   };
 
-  // Convert project stage to status
-  const getProjectStatus = (stage: number): string => {
-    const stageMap: { [key: number]: string } = {
-      1: 'planning',
-      2: 'planning', 
-      3: 'permits',
-      4: 'permits',
-      5: 'planning',
-      6: 'planning',
-      7: 'installation',
-      8: 'installation',
-      9: 'inspection',
-      10: 'inspection',
-      11: 'inspection',
-      12: 'complete'
-    };
-    return stageMap[stage] || 'planning';
-  };
+  // Pipeline of a project, falling back to the default pipeline
+  const getProjectPipeline = (project: Project): Pipeline | null =>
+    pipelines.find(pipeline => pipeline.id === project.pipeline_id) ||
+    pipelines.find(pipeline => pipeline.is_default) ||
+    null;
 
-  // Get readable stage name
-  const getReadableStage = (stage: number): string => {
-    const stageNames: { [key: number]: string } = {
-      1: 'Notice to Proceed',
-      2: 'Site Survey & Engineering',
-      3: 'Permit Application', 
-      4: 'Permit Approval',
-      5: 'Material Procurement',
-      6: 'Installation Scheduling',
-      7: 'Installation Start',
-      8: 'Installation Complete',
-      9: 'Electrical Inspection',
-      10: 'Utility Interconnection',
-      11: 'System Commissioning',
-      12: 'PTO Approval'
-    };
-    return stageNames[stage] || 'Unknown Stage';
+  // Get readable stage name from the project's pipeline
+  const getReadableStage = (project: Project): string => {
+    const pipeline = getProjectPipeline(project);
+    const stage = pipeline ? getStage(pipeline, project.current_stage) : null;
+    if (!pipeline || !stage) return `Stage ${project.current_stage}`;
+    return `${stage.name} (${stage.stage_number}/${getStageCount(pipeline)})`;
   };
 
+  // Stage filter options: stage numbers up to the longest pipeline, named after the default pipeline
+  const defaultPipeline = pipelines.find(pipeline => pipeline.is_default) || null;
+  const maxStageCount = Math.max(0, ...pipelines.map(getStageCount));
+  const stageOptions = Array.from({ length: maxStageCount }, (_, i) => {
+    const stage = defaultPipeline ? getStage(defaultPipeline, i + 1) : null;
+    return { value: String(i + 1), label: stage ? `${i + 1}. ${stage.name}` : `Stage ${i + 1}` };
+  });
+
   // Click handlers for making cards clickable
   const handleLeadClick = (leadId: string) => {
     router.push(`/crm/leads/${leadId}`);
@@ -256,7 +348,7 @@ export default function CRMDashboard() {
     router.push(`/crm/projects/${projectId}`);
   };
 
-  const handleCandidateClick = (candidateId: string) => {
+  const handleCandidateClick = (candidateId: number) => {
     router.push(`/crm/candidates/${candidateId}`);
   };
 
@@ -285,106 +377,126 @@ export default function CRMDashboard() {
 
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <Card className="bg-gray-900 border-gray-700">
-            <CardContent className="p-6">
-              <div className="flex items-center">
-                <div className="p-2 bg-blue-500 rounded-lg mr-4">
-                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="text-2xl font-bold text-white">{leads.length}</h3>
-                  <p className="text-gray-400">Total Leads</p>
+          {canReadLeads && (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-blue-500 rounded-lg mr-4">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-white">{totals.leads ?? leads.length}</h3>
+                    <p className="text-gray-400">Total Leads</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
-          <Card className="bg-gray-900 border-gray-700">
-            <CardContent className="p-6">
-              <div className="flex items-center">
-                <div className="p-2 bg-green-500 rounded-lg mr-4">
-                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="text-2xl font-bold text-white">{projects.length}</h3>
-                  <p className="text-gray-400">Active Projects</p>
+          {canReadProjects && (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-green-500 rounded-lg mr-4">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-white">{totals.projects ?? projects.length}</h3>
+                    <p className="text-gray-400">Active Projects</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
-          <Card className="bg-gray-900 border-gray-700">
-            <CardContent className="p-6">
-              <div className="flex items-center">
-                <div className="p-2 bg-purple-500 rounded-lg mr-4">
-                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2-2v2m8 0V6a2 2 0 012 2v6a2 2 0 01-2 2H8a2 2 0 01-2-2V8a2 2 0 012-2h8zM4 14v8a2 2 0 002 2h12a2 2 0 002-2v-8" />
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="text-2xl font-bold text-white">{candidates.length}</h3>
-                  <p className="text-gray-400">Job Candidates</p>
+          {canReadCandidates && (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-purple-500 rounded-lg mr-4">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2-2v2m8 0V6a2 2 0 012 2v6a2 2 0 01-2 2H8a2 2 0 01-2-2V8a2 2 0 012-2h8zM4 14v8a2 2 0 002 2h12a2 2 0 002-2v-8" />
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-white">{totals.candidates ?? candidates.length}</h3>
+                    <p className="text-gray-400">Job Candidates</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
-          <Card className="bg-gray-900 border-gray-700">
-            <CardContent className="p-6">
-              <div className="flex items-center">
-                <div className="p-2 bg-[#ff0000] rounded-lg mr-4">
-                  <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="text-2xl font-bold text-white">
-                    ${leads.filter(l => l.status === 'closed').reduce((sum, l) => sum + (l.electric_bill || 0), 0).toLocaleString()}
-                  </h3>
-                  <p className="text-gray-400">Revenue Pipeline</p>
+          {canReadLeads && (
+            <Card className="bg-gray-900 border-gray-700">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-[#ff0000] rounded-lg mr-4">
+                    <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-white">
+                      ${closedLeadValue.toLocaleString()}
+                    </h3>
+                    <p className="text-gray-400">Revenue Pipeline</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
+        {canReadLeads && (
+          <div className="mb-8">
+            <SpeedToLeadWidget />
+          </div>
+        )}
+
         {/* Tabs Navigation */}
         <div className="flex space-x-1 mb-6 bg-gray-800 p-1 rounded-lg w-fit">
-          <button
-            onClick={() => setActiveTab('leads')}
-            className={`px-4 py-2 rounded-md font-medium transition-colors ${
-              activeTab === 'leads'
-                ? 'bg-[#ff0000] text-white'
-                : 'text-gray-400 hover:text-white hover:bg-gray-700'
-            }`}
-          >
-            Leads
-          </button>
-          <button
-            onClick={() => setActiveTab('projects')}
-            className={`px-4 py-2 rounded-md font-medium transition-colors ${
-              activeTab === 'projects'
-                ? 'bg-[#ff0000] text-white'
-                : 'text-gray-400 hover:text-white hover:bg-gray-700'
-            }`}
-          >
-            Projects
-          </button>
-          <button
-            onClick={() => setActiveTab('candidates')}
-            className={`px-4 py-2 rounded-md font-medium transition-colors ${
-              activeTab === 'candidates'
-                ? 'bg-[#ff0000] text-white'
-                : 'text-gray-400 hover:text-white hover:bg-gray-700'
-            }`}
-          >
-            Candidates
-          </button>
-          {(userRole === 'admin' || userRole === 'manager') && (
+          {canReadLeads && (
+            <button
+              onClick={() => setActiveTab('leads')}
+              className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                activeTab === 'leads'
+                  ? 'bg-[#ff0000] text-white'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              Leads
+            </button>
+          )}
+          {canReadProjects && (
+            <button
+              onClick={() => setActiveTab('projects')}
+              className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                activeTab === 'projects'
+                  ? 'bg-[#ff0000] text-white'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              Projects
+            </button>
+          )}
+          {canReadCandidates && (
+            <button
+              onClick={() => setActiveTab('candidates')}
+              className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                activeTab === 'candidates'
+                  ? 'bg-[#ff0000] text-white'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-700'
+              }`}
+            >
+              Candidates
+            </button>
+          )}
+          {can('projects:import') && (
             <button
               onClick={() => setActiveTab('import')}
               className={`px-4 py-2 rounded-md font-medium transition-colors ${
@@ -407,11 +519,25 @@ export default function CRMDashboard() {
                   <Users className="h-5 w-5 text-[#ff0000]" />
                   <CardTitle className="text-white">Lead Management</CardTitle>
                   <Badge variant="outline" className="border-gray-600 text-gray-300">
-                    {leads.length} Total
+                    {totals.leads ?? leads.length} Total
                   </Badge>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm" className="border-gray-600 text-gray-300">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`border-gray-600 ${filterValues.assignedTo === 'me' ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+                    onClick={() => updateFilters({ ...filterValues, assignedTo: filterValues.assignedTo === 'me' ? undefined : 'me' })}
+                  >
+                    <UserCheck className="h-4 w-4 mr-2" />
+                    My Leads
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`border-gray-600 ${showFilters ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+                    onClick={() => setShowFilters(!showFilters)}
+                  >
                     <Filter className="h-4 w-4 mr-2" />
                     Filter
                   </Button>
@@ -423,8 +549,24 @@ export default function CRMDashboard() {
               </div>
             </CardHeader>
             <CardContent className="p-6">
+              <CrmListFilters
+                values={filterValues}
+                onChange={updateFilters}
+                showFilters={showFilters}
+                statusOptions={toOptions(LEAD_STATUSES)}
+                sourceOptions={[{ value: 'splash', label: 'Splash Page' }, { value: 'contact', label: 'Contact Form' }]}
+                sortOptions={[
+                  { value: 'score', label: 'Score' },
+                  { value: 'created_at', label: 'Created' },
+                  { value: 'name', label: 'Name' },
+                  { value: 'status', label: 'Status' }
+                ]}
+                assignedToLabel="Owner user ID"
+              />
               <div className="grid gap-4">
-                {leads.length === 0 ? (
+                {listLoading ? (
+                  <div className="text-center py-12 text-gray-400">Loading leads...</div>
+                ) : leads.length === 0 ? (
                   <div className="text-center py-12">
                     <Users className="h-12 w-12 text-gray-600 mx-auto mb-4" />
                     <p className="text-gray-400 text-lg mb-2">No leads found</p>
@@ -457,9 +599,15 @@ export default function CRMDashboard() {
                                   <span>{lead.phone}</span>
                                 </div>
                               </div>
-                              <div className="flex items-center text-gray-500 text-sm">
-                                <MapPin className="h-4 w-4 mr-1" />
-                                <span>{lead.location}</span>
+                              <div className="flex items-center text-gray-500 text-sm space-x-4">
+                                <div className="flex items-center">
+                                  <MapPin className="h-4 w-4 mr-1" />
+                                  <span>{lead.location}</span>
+                                </div>
+                                <div className="flex items-center">
+                                  <UserCheck className="h-4 w-4 mr-1" />
+                                  <span>{lead.owner_id ? ownerNames[lead.owner_id] || 'Assigned' : 'Unassigned'}</span>
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -467,6 +615,12 @@ export default function CRMDashboard() {
                             <Badge className={`${getStatusColor(lead.status)} text-white px-3 py-1`}>
                               {lead.status.toUpperCase()}
                             </Badge>
+                            {lead.score !== null && (
+                              <div className="flex items-center text-yellow-400 text-sm font-medium">
+                                <Star className="h-4 w-4 mr-1" />
+                                <span>{lead.score}</span>
+                              </div>
+                            )}
                             {lead.electric_bill && (
                               <div className="flex items-center text-green-400 font-medium">
                                 <DollarSign className="h-4 w-4" />
@@ -484,6 +638,18 @@ export default function CRMDashboard() {
                   ))
                 )}
               </div>
+              {nextCursor && !listLoading && (
+                <div className="flex justify-center mt-6">
+                  <Button
+                    variant="outline"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -496,11 +662,16 @@ export default function CRMDashboard() {
                   <Building2 className="h-5 w-5 text-[#ff0000]" />
                   <CardTitle className="text-white">Project Management</CardTitle>
                   <Badge variant="outline" className="border-gray-600 text-gray-300">
-                    {projects.length} Active
+                    {totals.projects ?? projects.length} Active
                   </Badge>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm" className="border-gray-600 text-gray-300">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`border-gray-600 ${showFilters ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+                    onClick={() => setShowFilters(!showFilters)}
+                  >
                     <Filter className="h-4 w-4 mr-2" />
                     Filter
                   </Button>
@@ -512,8 +683,24 @@ export default function CRMDashboard() {
               </div>
             </CardHeader>
             <CardContent className="p-6">
+              <CrmListFilters
+                values={filterValues}
+                onChange={updateFilters}
+                showFilters={showFilters}
+                statusOptions={toOptions(['active', 'complete'])}
+                stageOptions={stageOptions}
+                sortOptions={[
+                  { value: 'created_at', label: 'Created' },
+                  { value: 'updated_at', label: 'Updated' },
+                  { value: 'customer_name', label: 'Customer' },
+                  { value: 'current_stage', label: 'Stage' }
+                ]}
+                assignedToLabel="Manager or installer"
+              />
               <div className="grid gap-4">
-                {projects.length === 0 ? (
+                {listLoading ? (
+                  <div className="text-center py-12 text-gray-400">Loading projects...</div>
+                ) : projects.length === 0 ? (
                   <div className="text-center py-12">
                     <Building2 className="h-12 w-12 text-gray-600 mx-auto mb-4" />
                     <p className="text-gray-400 text-lg mb-2">No projects found</p>
@@ -545,8 +732,8 @@ export default function CRMDashboard() {
                             </div>
                           </div>
                           <div className="flex flex-col items-end space-y-2">
-                            <Badge className={`${getStatusColor(getProjectStatus(project.current_stage))} text-white px-3 py-1`}>
-                              {getReadableStage(project.current_stage)}
+                            <Badge className={`${getStatusColor(getStagePhase(getProjectPipeline(project), project.current_stage))} text-white px-3 py-1`}>
+                              {getReadableStage(project)}
                             </Badge>
                             {project.estimated_completion_date && (
                               <div className="flex items-center text-blue-400 text-sm">
@@ -565,6 +752,18 @@ export default function CRMDashboard() {
                   ))
                 )}
               </div>
+              {nextCursor && !listLoading && (
+                <div className="flex justify-center mt-6">
+                  <Button
+                    variant="outline"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -577,11 +776,16 @@ export default function CRMDashboard() {
                   <Briefcase className="h-5 w-5 text-[#ff0000]" />
                   <CardTitle className="text-white">Job Candidate Pipeline</CardTitle>
                   <Badge variant="outline" className="border-gray-600 text-gray-300">
-                    {candidates.length} Candidates
+                    {totals.candidates ?? candidates.length} Candidates
                   </Badge>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <Button variant="outline" size="sm" className="border-gray-600 text-gray-300">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`border-gray-600 ${showFilters ? 'bg-gray-700 text-white' : 'text-gray-300'}`}
+                    onClick={() => setShowFilters(!showFilters)}
+                  >
                     <Filter className="h-4 w-4 mr-2" />
                     Filter
                   </Button>
@@ -593,8 +797,21 @@ export default function CRMDashboard() {
               </div>
             </CardHeader>
             <CardContent className="p-6">
+              <CrmListFilters
+                values={filterValues}
+                onChange={updateFilters}
+                showFilters={showFilters}
+                statusOptions={toOptions(['applied', 'screening', 'interview', 'offer', 'hired', 'rejected'])}
+                sortOptions={[
+                  { value: 'created_at', label: 'Applied' },
+                  { value: 'name', label: 'Name' },
+                  { value: 'status', label: 'Status' }
+                ]}
+              />
               <div className="grid gap-4">
-                {candidates.length === 0 ? (
+                {listLoading ? (
+                  <div className="text-center py-12 text-gray-400">Loading candidates...</div>
+                ) : candidates.length === 0 ? (
                   <div className="text-center py-12">
                     <Briefcase className="h-12 w-12 text-gray-600 mx-auto mb-4" />
                     <p className="text-gray-400 text-lg mb-2">No candidates found</p>
@@ -648,11 +865,23 @@ export default function CRMDashboard() {
                   ))
                 )}
               </div>
+              {nextCursor && !listLoading && (
+                <div className="flex justify-center mt-6">
+                  <Button
+                    variant="outline"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
 
-        {activeTab === 'import' && (userRole === 'admin' || userRole === 'manager') && (
+        {activeTab === 'import' && can('projects:import') && (
           <div className="space-y-6">
             <div className="text-center">
               <Upload className="h-12 w-12 text-[#ff0000] mx-auto mb-4" />
@@ -3,10 +3,12 @@
  * 
  * Comprehensive project management view with:
  * - Project timeline and milestones
- * - Stage progression tracking
+ * - Stage progression tracking against the project's pipeline
  * - Customer information
- * - Photo and document management
- * - Communication history
+ * - Field photo submission and a per-stage photo gallery with GPS pins
+ * - Project documents, required before leaving approval stages
+ * - Text message history with delivery status
+ * - Follow-up tasks and automation log
  */
 
 "use client";
@@ -16,7 +18,21 @@ import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, MapPin, Calendar, TrendingUp, Phone, Mail, User } from 'lucide-react';
+import { ArrowLeft, MapPin, Calendar, TrendingUp, Phone, Mail, User, ShieldCheck } from 'lucide-react';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { SmsMessageHistory } from '@/components/SmsMessageHistory';
+import { ProjectAutomationPanel } from '@/components/ProjectAutomationPanel';
+import { ProjectDocumentsPanel } from '@/components/ProjectDocumentsPanel';
+import { ProjectPhotoGallery } from '@/components/ProjectPhotoGallery';
+import { PhotoSubmissionForm } from '@/components/PhotoSubmissionForm';
+import { getDocumentTypeLabel, getStage, getStageCount, getStagePhase, isTerminalStage, type Pipeline } from '@/lib/pipelines';
+import { PHOTO_SUBMISSION_TYPES, type PhotoSubmissionType } from '@/lib/projectPhotos';
+
+const PHOTO_SUBMISSION_LABELS: Record<PhotoSubmissionType, string> = {
+  site_survey: 'Site Survey',
+  installation: 'Installation',
+  inspection: 'Inspection'
+};
 
 interface Project {
   id: string;
@@ -25,6 +41,7 @@ interface Project {
   customer_phone?: string;
   address: string;
   current_stage: number;
+  pipeline_id: string | null;
   system_size_kw: number;
   estimated_completion_date?: string;
   created_at: string;
@@ -34,7 +51,13 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
   const router = useRouter();
   const resolvedParams = use(params);
   const [project, setProject] = useState<Project | null>(null);
+  const [pipeline, setPipeline] = useState<Pipeline | null>(null);
   const [loading, setLoading] = useState(true);
+  const [advancing, setAdvancing] = useState(false);
+  const [choosingPhotoType, setChoosingPhotoType] = useState(false);
+  const [photoSubmissionType, setPhotoSubmissionType] = useState<PhotoSubmissionType | null>(null);
+  const [photosRefreshKey, setPhotosRefreshKey] = useState(0);
+  const { can } = useCrmAccess();
 
   const loadProject = useCallback(async () => {
     try {
@@ -42,6 +65,7 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
       if (response.ok) {
         const data = await response.json();
         setProject(data.project);
+        setPipeline(data.pipeline || null);
       }
     } catch (error) {
       console.error('Error loading project:', error);
@@ -54,30 +78,49 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
     loadProject();
   }, [loadProject]);
 
-  const getReadableStage = (stage: number): string => {
-    const stageNames: { [key: number]: string } = {
-      1: 'Notice to Proceed',
-      2: 'Site Survey & Engineering',
-      3: 'Permit Application', 
-      4: 'Permit Approval',
-      5: 'Material Procurement',
-      6: 'Installation Scheduling',
-      7: 'Installation Start',
-      8: 'Installation Complete',
-      9: 'Electrical Inspection',
-      10: 'Utility Interconnection',
-      11: 'System Commissioning',
-      12: 'PTO Approval'
-    };
-    return stageNames[stage] || 'Unknown Stage';
+  const advanceStage = async () => {
+    if (!project || !pipeline || advancing) return;
+
+    const nextStage = getStage(pipeline, project.current_stage + 1);
+    if (!nextStage) return;
+    if (!window.confirm(`Advance to stage ${nextStage.stage_number}: ${nextStage.name}?`)) return;
+
+    setAdvancing(true);
+    try {
+      const response = await fetch('/api/crm/projects', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: project.id, action: 'advance_stage', new_stage: nextStage.stage_number })
+      });
+
+      if (response.ok) {
+        await loadProject();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to advance stage');
+      }
+    } catch (error) {
+      console.error('Error advancing stage:', error);
+      alert('Failed to advance stage');
+    } finally {
+      setAdvancing(false);
+    }
   };
 
-  const getStatusColor = (stage: number): string => {
-    if (stage <= 2) return 'bg-blue-500';
-    if (stage <= 4) return 'bg-yellow-500';
-    if (stage <= 8) return 'bg-orange-500';
-    if (stage <= 11) return 'bg-purple-500';
-    return 'bg-green-600';
+  const getStageName = (stageNumber: number): string => {
+    const stage = pipeline ? getStage(pipeline, stageNumber) : null;
+    return stage?.name || `Stage ${stageNumber}`;
+  };
+
+  const getStatusColor = (stageNumber: number): string => {
+    const colors = {
+      planning: 'bg-blue-500',
+      permits: 'bg-yellow-500',
+      installation: 'bg-orange-500',
+      inspection: 'bg-purple-500',
+      complete: 'bg-green-600'
+    };
+    return colors[getStagePhase(pipeline, stageNumber)];
   };
 
   if (loading) {
@@ -133,7 +176,7 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
               </div>
             </div>
             <Badge className={`${getStatusColor(project.current_stage || 1)} text-white px-4 py-2 text-lg`}>
-              {getReadableStage(project.current_stage || 1)}
+              {getStageName(project.current_stage || 1)}
             </Badge>
           </div>
         </div>
@@ -190,6 +233,52 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
             </CardContent>
           </Card>
 
+          {/* Pipeline Progress */}
+          {pipeline && (
+            <Card className="bg-gray-900/50 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white">
+                  {pipeline.name} Pipeline
+                  <span className="ml-2 text-sm font-normal text-gray-400">
+                    Stage {project.current_stage} of {getStageCount(pipeline)}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="h-2 w-full rounded-full bg-gray-700">
+                  <div
+                    className="h-2 rounded-full bg-[#ff0000] transition-all"
+                    style={{ width: `${Math.min(100, (project.current_stage / Math.max(1, getStageCount(pipeline))) * 100)}%` }}
+                  />
+                </div>
+                <ol className="space-y-2">
+                  {pipeline.stages.map(stage => (
+                    <li key={stage.id} className="flex items-start gap-3 text-sm">
+                      <span className={`flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full text-xs ${
+                        stage.stage_number <= project.current_stage ? 'bg-[#ff0000] text-white' : 'bg-gray-600 text-gray-400'
+                      }`}>
+                        {stage.stage_number}
+                      </span>
+                      <div>
+                        <p className={stage.stage_number === project.current_stage ? 'text-white font-medium' : 'text-gray-400'}>
+                          {stage.name}
+                          {stage.requires_approval && (
+                            <ShieldCheck className="ml-2 inline h-4 w-4 text-yellow-400" aria-label="Requires approval" />
+                          )}
+                        </p>
+                        {stage.required_documents.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            Required: {stage.required_documents.map(getDocumentTypeLabel).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Project Actions */}
           <Card className="bg-gray-900/50 border-gray-700">
             <CardHeader>
@@ -197,12 +286,24 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
             </CardHeader>
             <CardContent>
               <div className="flex flex-wrap gap-4">
-                <Button className="bg-[#ff0000] hover:bg-[#cc0000]">
-                  Update Stage
-                </Button>
-                <Button variant="outline" className="border-gray-600 text-gray-300">
-                  Add Photos
-                </Button>
+                {can('projects:write') && pipeline && !isTerminalStage(pipeline, project.current_stage) && (
+                  <Button
+                    className="bg-[#ff0000] hover:bg-[#cc0000]"
+                    onClick={advanceStage}
+                    disabled={advancing}
+                  >
+                    {advancing ? 'Advancing...' : 'Advance Stage'}
+                  </Button>
+                )}
+                {can('photos:submit') && (
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={() => setChoosingPhotoType(!choosingPhotoType)}
+                  >
+                    Add Photos
+                  </Button>
+                )}
                 <Button variant="outline" className="border-gray-600 text-gray-300">
                   Send Update
                 </Button>
@@ -210,9 +311,58 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
                   View Timeline
                 </Button>
               </div>
+              {choosingPhotoType && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {PHOTO_SUBMISSION_TYPES.map(type => (
+                    <Button
+                      key={type}
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => {
+                        setPhotoSubmissionType(type);
+                        setChoosingPhotoType(false);
+                      }}
+                    >
+                      {PHOTO_SUBMISSION_LABELS[type]}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Photo Submission */}
+          {photoSubmissionType && (
+            <PhotoSubmissionForm
+              key={photoSubmissionType}
+              projectId={resolvedParams.id}
+              submissionType={photoSubmissionType}
+              onSubmissionComplete={() => setPhotosRefreshKey(key => key + 1)}
+              onCancel={() => setPhotoSubmissionType(null)}
+            />
+          )}
+
+          {/* Photos */}
+          <ProjectPhotoGallery
+            projectId={resolvedParams.id}
+            pipeline={pipeline}
+            refreshKey={photosRefreshKey}
+          />
+
+          {/* Documents */}
+          <ProjectDocumentsPanel
+            projectId={resolvedParams.id}
+            pipeline={pipeline}
+            currentStage={project.current_stage}
+          />
+
+          {/* Text Messages */}
+          <SmsMessageHistory projectId={resolvedParams.id} />
+
+          {/* Tasks and Automation */}
+          <ProjectAutomationPanel projectId={resolvedParams.id} />
+
           {/* Coming Soon Features */}
           <Card className="bg-gray-900/50 border-gray-700">
             <CardHeader>
@@ -222,13 +372,9 @@ export default function ProjectDetailPage({ params }: { params: Promise<{ id: st
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-gray-400">
                 <ul className="space-y-2">
                   <li>• Project timeline visualization</li>
-                  <li>• Photo gallery management</li>
-                  <li>• Document attachments</li>
                   <li>• Customer communication history</li>
                 </ul>
                 <ul className="space-y-2">
-                  <li>• Progress tracking charts</li>
-                  <li>• Automated notifications</li>
                   <li>• Installation scheduling</li>
                   <li>• Financial tracking</li>
                 </ul>
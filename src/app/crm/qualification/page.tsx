@@ -0,0 +1,342 @@
+/**
+ * CRM Qualification Rules Page
+ *
+ * Rules the splash funnel is checked against, with:
+ * - Rules in evaluation order, each disqualifying or soft-failing a lead
+ *   and the reason code stored on leads it fails
+ * - Editing, turning on / off, adding and deleting rules (admins only);
+ *   both splash forms pick changes up without a deploy and leads are
+ *   re-checked after each save
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  QUALIFICATION_FIELDS,
+  QUALIFICATION_FIELD_LABELS,
+  QUALIFICATION_OPERATORS,
+  QUALIFICATION_OPERATOR_LABELS,
+  QUALIFICATION_OUTCOMES,
+  QUALIFICATION_OUTCOME_LABELS,
+  type QualificationField,
+  type QualificationOperator,
+  type QualificationOutcome,
+  type QualificationRule
+} from '@/lib/leadQualification';
+import { Plus, Trash2 } from 'lucide-react';
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+// Answers are edited as a comma separated list
+interface RuleDraft {
+  code: string;
+  field: QualificationField;
+  operator: QualificationOperator;
+  values: string;
+  outcome: QualificationOutcome;
+  reason: string;
+  sort_order: string;
+  is_active: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  code: '',
+  field: 'homeowner_status',
+  operator: 'in',
+  values: '',
+  outcome: 'soft_fail',
+  reason: '',
+  sort_order: '0',
+  is_active: true
+};
+
+function toDraft(rule: QualificationRule): RuleDraft {
+  return {
+    code: rule.code,
+    field: rule.field,
+    operator: rule.operator,
+    values: rule.match_values.join(', '),
+    outcome: rule.outcome,
+    reason: rule.reason,
+    sort_order: String(rule.sort_order),
+    is_active: rule.is_active
+  };
+}
+
+function toPayload(draft: RuleDraft) {
+  return {
+    field: draft.field,
+    operator: draft.operator,
+    match_values: draft.values.split(',').map(value => value.trim()).filter(Boolean),
+    outcome: draft.outcome,
+    reason: draft.reason,
+    sort_order: parseInt(draft.sort_order, 10) || 0,
+    is_active: draft.is_active
+  };
+}
+
+export default function QualificationRulesPage() {
+  const { can } = useCrmAccess();
+  const canEdit = can('settings');
+
+  const [rules, setRules] = useState<QualificationRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [creating, setCreating] = useState<RuleDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/qualification-rules');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: QualificationRule[] = data.rules || [];
+        setRules(loaded);
+        setDrafts(Object.fromEntries(loaded.map(rule => [rule.id, toDraft(rule)])));
+      }
+    } catch (error) {
+      console.error('Error loading qualification rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const send = async (request: Promise<Response>, message: string, failure: string) => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await request;
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      setNotice(message);
+      await loadRules();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveRule = (rule: QualificationRule) => send(
+    fetch('/api/crm/qualification-rules', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: rule.id, ...toPayload(drafts[rule.id]) })
+    }),
+    `Rule ${rule.code} saved. Leads are being re-checked.`,
+    'Failed to save rule'
+  );
+
+  const deleteRule = (rule: QualificationRule) => {
+    if (!window.confirm(`Delete rule ${rule.code}?`)) return;
+    send(
+      fetch(`/api/crm/qualification-rules?id=${rule.id}`, { method: 'DELETE' }),
+      `Rule ${rule.code} deleted. Leads are being re-checked.`,
+      'Failed to delete rule'
+    );
+  };
+
+  const createRule = async () => {
+    if (!creating) return;
+    const created = await send(
+      fetch('/api/crm/qualification-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: creating.code.trim(), ...toPayload(creating) })
+      }),
+      `Rule ${creating.code} added. Leads are being re-checked.`,
+      'Failed to add rule'
+    );
+    if (created) setCreating(null);
+  };
+
+  const renderFields = (draft: RuleDraft, onChange: (update: Partial<RuleDraft>) => void) => (
+    <div className="grid gap-3 md:grid-cols-[10rem_10rem_minmax(0,1fr)] items-center">
+      <select
+        value={draft.field}
+        disabled={!canEdit}
+        onChange={(e) => onChange({ field: e.target.value as QualificationField })}
+        className={selectClassName}
+      >
+        {QUALIFICATION_FIELDS.map(field => (
+          <option key={field} value={field}>{QUALIFICATION_FIELD_LABELS[field]}</option>
+        ))}
+      </select>
+      <select
+        value={draft.operator}
+        disabled={!canEdit}
+        onChange={(e) => onChange({ operator: e.target.value as QualificationOperator })}
+        className={selectClassName}
+      >
+        {QUALIFICATION_OPERATORS.map(operator => (
+          <option key={operator} value={operator}>{QUALIFICATION_OPERATOR_LABELS[operator]}</option>
+        ))}
+      </select>
+      <Input
+        value={draft.values}
+        disabled={!canEdit}
+        placeholder="Answers, comma separated (true / false for yes-no questions)"
+        onChange={(e) => onChange({ values: e.target.value })}
+        className="bg-gray-800 border-gray-600 text-white"
+      />
+      <select
+        value={draft.outcome}
+        disabled={!canEdit}
+        onChange={(e) => onChange({ outcome: e.target.value as QualificationOutcome })}
+        className={selectClassName}
+      >
+        {QUALIFICATION_OUTCOMES.map(outcome => (
+          <option key={outcome} value={outcome}>{QUALIFICATION_OUTCOME_LABELS[outcome]}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-sm text-gray-400">
+        Order
+        <Input
+          type="number"
+          value={draft.sort_order}
+          disabled={!canEdit}
+          onChange={(e) => onChange({ sort_order: e.target.value })}
+          className="w-20 bg-gray-800 border-gray-600 text-white"
+        />
+      </label>
+      <Input
+        value={draft.reason}
+        disabled={!canEdit}
+        placeholder="Reason shown to sales"
+        onChange={(e) => onChange({ reason: e.target.value })}
+        className="bg-gray-800 border-gray-600 text-white"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Qualification Rules</h1>
+          <p className="text-gray-400">
+            Checked on the server as the splash forms are filled in. Disqualified leads leave the funnel; soft fails are accepted and flagged.
+          </p>
+        </div>
+        {canEdit && !creating && (
+          <Button onClick={() => setCreating({ ...EMPTY_DRAFT })} className="bg-[#ff0000] hover:bg-[#cc0000] text-white">
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      {creating && (
+        <Card className="bg-gray-900/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">New Rule</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              value={creating.code}
+              placeholder="Reason code, e.g. no_roof_access"
+              onChange={(e) => setCreating({ ...creating, code: e.target.value })}
+              className="max-w-xs bg-gray-800 border-gray-600 text-white"
+            />
+            {renderFields(creating, update => setCreating({ ...creating, ...update }))}
+            <div className="flex gap-3">
+              <Button onClick={createRule} disabled={saving} className="bg-[#ff0000] hover:bg-[#cc0000] text-white">
+                {saving ? 'Saving...' : 'Add Rule'}
+              </Button>
+              <Button variant="outline" onClick={() => setCreating(null)} className="border-gray-600 text-gray-300">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <p className="text-gray-400">Loading qualification rules...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-gray-400">No qualification rules. Every lead qualifies.</p>
+      ) : (
+        <div className="space-y-4">
+          {rules.map(rule => {
+            const draft = drafts[rule.id];
+            if (!draft) return null;
+
+            return (
+              <Card key={rule.id} className="bg-gray-900/50 border-gray-700">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-sm text-gray-200">{rule.code}</span>
+                    <Badge
+                      variant="outline"
+                      className={rule.outcome === 'disqualified' ? 'border-red-700 text-red-400' : 'border-orange-700 text-orange-400'}
+                    >
+                      {QUALIFICATION_OUTCOME_LABELS[rule.outcome]}
+                    </Badge>
+                    {!rule.is_active && (
+                      <Badge variant="outline" className="border-gray-600 text-gray-500">Off</Badge>
+                    )}
+                  </div>
+
+                  {renderFields(draft, update => setDrafts(prev => ({ ...prev, [rule.id]: { ...draft, ...update } })))}
+
+                  {canEdit && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [rule.id]: { ...draft, is_active: e.target.checked } }))}
+                        />
+                        Active
+                      </label>
+                      <Button
+                        size="sm"
+                        onClick={() => saveRule(rule)}
+                        disabled={saving}
+                        className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deleteRule(rule)}
+                        disabled={saving}
+                        className="border-gray-600 text-gray-300"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
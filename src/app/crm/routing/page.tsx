@@ -0,0 +1,340 @@
+/**
+ * CRM Lead Routing Page
+ *
+ * How new leads are assigned to reps, with:
+ * - The routing strategy and whether completed leads are routed
+ *   automatically (admins only)
+ * - Every rep who can own leads with today's leads and open leads
+ * - Each rep's availability, weight, caps, territory and alert
+ *   preferences (admins only); reps can mark themselves available or away
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  MAX_REP_WEIGHT,
+  ROUTING_STRATEGIES,
+  ROUTING_STRATEGY_LABELS,
+  getRepName,
+  type RoutingRep,
+  type RoutingSettings,
+  type RoutingStrategy
+} from '@/lib/leadAssignment';
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+// Caps and lists are edited as text; an empty cap means no cap
+interface RepDraft {
+  weight: string;
+  daily_cap: string;
+  open_lead_cap: string;
+  zip_codes: string;
+  utilities: string;
+  phone: string;
+  notify_sms: boolean;
+  notify_email: boolean;
+}
+
+const toList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+const toCap = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function toDraft(rep: RoutingRep): RepDraft {
+  return {
+    weight: String(rep.weight),
+    daily_cap: rep.daily_cap === null ? '' : String(rep.daily_cap),
+    open_lead_cap: rep.open_lead_cap === null ? '' : String(rep.open_lead_cap),
+    zip_codes: rep.zip_codes.join(', '),
+    utilities: rep.utilities.join(', '),
+    phone: rep.phone || '',
+    notify_sms: rep.notify_sms,
+    notify_email: rep.notify_email
+  };
+}
+
+export default function LeadRoutingPage() {
+  const { can, user } = useCrmAccess();
+  const canEdit = can('settings');
+  const canWrite = can('leads:write');
+
+  const [settings, setSettings] = useState<RoutingSettings | null>(null);
+  const [reps, setReps] = useState<RoutingRep[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RepDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadRouting = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/lead-assignment');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: RoutingRep[] = data.reps || [];
+        setSettings(data.settings);
+        setReps(loaded);
+        setDrafts(Object.fromEntries(loaded.map(rep => [rep.id, toDraft(rep)])));
+      }
+    } catch (error) {
+      console.error('Error loading lead routing:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRouting();
+  }, [loadRouting]);
+
+  const save = async (key: string, body: Record<string, unknown>, message: string) => {
+    setSaving(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/crm/lead-assignment', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to save');
+        return;
+      }
+      setNotice(message);
+      await loadRouting();
+    } catch (error) {
+      console.error('Error saving lead routing:', error);
+      setError('Failed to save');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const saveSettings = (update: Partial<Pick<RoutingSettings, 'strategy' | 'is_active'>>) =>
+    save('settings', update, 'Routing settings saved.');
+
+  const saveRep = (rep: RoutingRep) => {
+    const draft = drafts[rep.id];
+    if (!draft) return;
+
+    save(rep.id, {
+      repId: rep.id,
+      weight: Number(draft.weight),
+      daily_cap: toCap(draft.daily_cap),
+      open_lead_cap: toCap(draft.open_lead_cap),
+      zip_codes: toList(draft.zip_codes),
+      utilities: toList(draft.utilities),
+      phone: draft.phone.trim() || null,
+      notify_sms: draft.notify_sms,
+      notify_email: draft.notify_email
+    }, `${getRepName(rep)} saved.`);
+  };
+
+  const updateDraft = (repId: string, update: Partial<RepDraft>) => {
+    setDrafts(prev => ({ ...prev, [repId]: { ...prev[repId], ...update } }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Lead Routing</h1>
+        <p className="text-gray-400">
+          Completed splash leads go to an available rep under their caps. Reps are alerted by text and email when a lead is assigned to them.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      {loading ? (
+        <p className="text-gray-400">Loading lead routing...</p>
+      ) : (
+        <>
+          {settings && (
+            <Card className="bg-gray-900/50 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white">Strategy</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center gap-4 text-sm">
+                <select
+                  value={settings.strategy}
+                  disabled={!canEdit || saving !== null}
+                  onChange={(e) => saveSettings({ strategy: e.target.value as RoutingStrategy })}
+                  className={selectClassName}
+                >
+                  {ROUTING_STRATEGIES.map(strategy => (
+                    <option key={strategy} value={strategy}>{ROUTING_STRATEGY_LABELS[strategy]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.is_active}
+                    disabled={!canEdit || saving !== null}
+                    onChange={(e) => saveSettings({ is_active: e.target.checked })}
+                  />
+                  Route new leads automatically
+                </label>
+                <span className="text-gray-500">
+                  {settings.strategy === 'weighted' && 'Each rep gets leads in proportion to their weight.'}
+                  {settings.strategy === 'round_robin' && 'Leads go to the rep who has waited longest.'}
+                  {settings.strategy === 'territory' && 'Leads go to reps whose ZIP codes or utilities match, otherwise round robin.'}
+                </span>
+              </CardContent>
+            </Card>
+          )}
+
+          {reps.length === 0 ? (
+            <p className="text-gray-400">No reps can own leads yet. Add sales users who have signed in to the CRM.</p>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              {reps.map(rep => {
+                const draft = drafts[rep.id];
+                if (!draft) return null;
+                const isSelf = rep.id === user?.id;
+
+                return (
+                  <Card key={rep.id} className="bg-gray-900/50 border-gray-700">
+                    <CardHeader>
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <CardTitle className="text-white">{getRepName(rep)}</CardTitle>
+                          <p className="text-sm text-gray-500">{rep.email} · {rep.role}</p>
+                        </div>
+                        <Badge variant="outline" className={rep.is_available ? 'border-green-700 text-green-400' : 'border-gray-600 text-gray-500'}>
+                          {rep.is_available ? 'Available' : 'Away'}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4 text-sm">
+                      <div className="flex flex-wrap items-center gap-4 text-gray-400">
+                        <span>{rep.assigned_today}{rep.daily_cap !== null && ` / ${rep.daily_cap}`} today</span>
+                        <span>{rep.open_leads}{rep.open_lead_cap !== null && ` / ${rep.open_lead_cap}`} open leads</span>
+                        {(canEdit || (isSelf && canWrite)) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={saving !== null}
+                            onClick={() => save(rep.id, { repId: rep.id, is_available: !rep.is_available },
+                              `${getRepName(rep)} is now ${rep.is_available ? 'away' : 'available'}.`)}
+                            className="border-gray-600 text-gray-300"
+                          >
+                            {rep.is_available ? 'Mark Away' : 'Mark Available'}
+                          </Button>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-3">
+                        <label className="space-y-1 text-gray-400">
+                          <span>Weight</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={MAX_REP_WEIGHT}
+                            value={draft.weight}
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft(rep.id, { weight: e.target.value })}
+                            className="bg-gray-800 border-gray-600 text-white"
+                          />
+                        </label>
+                        <label className="space-y-1 text-gray-400">
+                          <span>Daily cap</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={draft.daily_cap}
+                            placeholder="None"
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft(rep.id, { daily_cap: e.target.value })}
+                            className="bg-gray-800 border-gray-600 text-white"
+                          />
+                        </label>
+                        <label className="space-y-1 text-gray-400">
+                          <span>Open lead cap</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={draft.open_lead_cap}
+                            placeholder="None"
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft(rep.id, { open_lead_cap: e.target.value })}
+                            className="bg-gray-800 border-gray-600 text-white"
+                          />
+                        </label>
+                      </div>
+
+                      <label className="block space-y-1 text-gray-400">
+                        <span>Territory ZIP codes or prefixes</span>
+                        <Input
+                          value={draft.zip_codes}
+                          placeholder="e.g. 62220, 622"
+                          disabled={!canEdit}
+                          onChange={(e) => updateDraft(rep.id, { zip_codes: e.target.value })}
+                          className="bg-gray-800 border-gray-600 text-white"
+                        />
+                      </label>
+                      <label className="block space-y-1 text-gray-400">
+                        <span>Territory utilities</span>
+                        <Input
+                          value={draft.utilities}
+                          placeholder="e.g. Ameren"
+                          disabled={!canEdit}
+                          onChange={(e) => updateDraft(rep.id, { utilities: e.target.value })}
+                          className="bg-gray-800 border-gray-600 text-white"
+                        />
+                      </label>
+
+                      <div className="flex flex-wrap items-center gap-4">
+                        <Input
+                          value={draft.phone}
+                          placeholder="Mobile for new lead texts"
+                          disabled={!canEdit}
+                          onChange={(e) => updateDraft(rep.id, { phone: e.target.value })}
+                          className="max-w-[14rem] bg-gray-800 border-gray-600 text-white"
+                        />
+                        <label className="flex items-center gap-2 text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={draft.notify_sms}
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft(rep.id, { notify_sms: e.target.checked })}
+                          />
+                          Text
+                        </label>
+                        <label className="flex items-center gap-2 text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={draft.notify_email}
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft(rep.id, { notify_email: e.target.checked })}
+                          />
+                          Email
+                        </label>
+                      </div>
+
+                      {canEdit && (
+                        <Button
+                          onClick={() => saveRep(rep)}
+                          disabled={saving !== null}
+                          className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                        >
+                          {saving === rep.id ? 'Saving...' : 'Save'}
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * CRM Lead Scoring Page
+ *
+ * Factors of the lead scoring engine with:
+ * - Each factor's weight and share of the 0-100 score
+ * - Points per answer (or per monthly bill band), plus unlisted and
+ *   unanswered answers
+ * - Editing, and turning factors on or off (admins only); leads are
+ *   rescored in the background after each save
+ * - Rescoring every lead on demand (admins only)
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  NUMERIC_SCORING_FACTORS,
+  type LeadScoringFactor,
+  type ScoringFactor,
+  type ScoringRules
+} from '@/lib/leadScoring';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+
+// Multipliers are edited as percentages of the factor's weight
+interface FactorDraft {
+  weight: string;
+  is_active: boolean;
+  entries: { key: string; percent: string }[];
+  other: string;
+  missing: string;
+}
+
+const toPercent = (value: number | undefined) => String(Math.round((value ?? 0) * 100));
+const fromPercent = (value: string) => Math.min(Math.max(Number(value) || 0, 0), 100) / 100;
+
+function isNumericFactor(factor: LeadScoringFactor): boolean {
+  return NUMERIC_SCORING_FACTORS.includes(factor);
+}
+
+function toDraft(factor: ScoringFactor): FactorDraft {
+  const entries = isNumericFactor(factor.factor)
+    ? (factor.rules.bands || []).map(band => ({ key: String(band.min), percent: toPercent(band.value) }))
+    : Object.entries(factor.rules.values || {}).map(([key, value]) => ({ key, percent: toPercent(value) }));
+
+  return {
+    weight: String(factor.weight),
+    is_active: factor.is_active,
+    entries,
+    other: toPercent(factor.rules.other),
+    missing: toPercent(factor.rules.missing)
+  };
+}
+
+function toRules(factor: LeadScoringFactor, draft: FactorDraft): ScoringRules {
+  const entries = draft.entries.filter(entry => entry.key.trim());
+  const rules: ScoringRules = { other: fromPercent(draft.other), missing: fromPercent(draft.missing) };
+
+  if (isNumericFactor(factor)) {
+    rules.bands = entries
+      .map(entry => ({ min: Number(entry.key), value: fromPercent(entry.percent) }))
+      .sort((a, b) => b.min - a.min);
+  } else {
+    rules.values = Object.fromEntries(entries.map(entry => [entry.key.trim(), fromPercent(entry.percent)]));
+  }
+
+  return rules;
+}
+
+export default function LeadScoringPage() {
+  const { can } = useCrmAccess();
+  const canEdit = can('settings');
+
+  const [factors, setFactors] = useState<ScoringFactor[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<LeadScoringFactor, FactorDraft>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<LeadScoringFactor | 'all' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadFactors = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/lead-scoring');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: ScoringFactor[] = data.factors || [];
+        setFactors(loaded);
+        setDrafts(Object.fromEntries(loaded.map(factor => [factor.factor, toDraft(factor)])));
+      }
+    } catch (error) {
+      console.error('Error loading lead scoring factors:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFactors();
+  }, [loadFactors]);
+
+  const updateDraft = (factor: LeadScoringFactor, update: Partial<FactorDraft>) => {
+    setDrafts(prev => ({ ...prev, [factor]: { ...prev[factor]!, ...update } }));
+  };
+
+  const updateEntry = (factor: LeadScoringFactor, index: number, update: Partial<FactorDraft['entries'][number]>) => {
+    const draft = drafts[factor];
+    if (!draft) return;
+    updateDraft(factor, {
+      entries: draft.entries.map((entry, i) => (i === index ? { ...entry, ...update } : entry))
+    });
+  };
+
+  const saveFactor = async (factor: ScoringFactor) => {
+    const draft = drafts[factor.factor];
+    if (!draft) return;
+
+    setSaving(factor.factor);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/crm/lead-scoring', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          factor: factor.factor,
+          weight: Number(draft.weight),
+          is_active: draft.is_active,
+          rules: toRules(factor.factor, draft)
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to save factor');
+        return;
+      }
+
+      setNotice(`${factor.label} saved. Leads are being rescored.`);
+      await loadFactors();
+    } catch (error) {
+      console.error('Error saving lead scoring factor:', error);
+      setError('Failed to save factor');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const rescoreAll = async () => {
+    setSaving('all');
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/crm/lead-scoring', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to rescore leads');
+        return;
+      }
+      setNotice(`${data.queued} leads queued for rescoring; scores update within a few minutes`);
+    } catch (error) {
+      console.error('Error rescoring leads:', error);
+      setError('Failed to rescore leads');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const totalWeight = factors
+    .filter(factor => factor.is_active)
+    .reduce((sum, factor) => sum + factor.weight, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Lead Scoring</h1>
+          <p className="text-gray-400">
+            How splash leads are scored from 0 to 100. Each factor is worth up to its weight; answers earn a share of it.
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            variant="outline"
+            onClick={rescoreAll}
+            disabled={saving !== null}
+            className="border-gray-600 text-gray-300"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${saving === 'all' ? 'animate-spin' : ''}`} />
+            Rescore All Leads
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      {loading ? (
+        <p className="text-gray-400">Loading scoring factors...</p>
+      ) : factors.length === 0 ? (
+        <p className="text-gray-400">No scoring factors are configured.</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {factors.map(factor => {
+            const draft = drafts[factor.factor];
+            if (!draft) return null;
+            const numeric = isNumericFactor(factor.factor);
+            const share = factor.is_active && totalWeight > 0 ? Math.round((factor.weight / totalWeight) * 100) : 0;
+
+            return (
+              <Card key={factor.factor} className="bg-gray-900/50 border-gray-700">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-white">{factor.label}</CardTitle>
+                    <Badge variant="outline" className={factor.is_active ? 'border-green-700 text-green-400' : 'border-gray-600 text-gray-500'}>
+                      {factor.is_active ? `${share}% of score` : 'Off'}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <label className="flex items-center gap-2 text-gray-300">
+                      Weight
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.weight}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft(factor.factor, { weight: e.target.value })}
+                        className="w-20 bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={draft.is_active}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft(factor.factor, { is_active: e.target.checked })}
+                      />
+                      Active
+                    </label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-[minmax(0,1fr)_6rem_2rem] gap-2 text-xs text-gray-500">
+                      <span>{numeric ? 'Monthly bill at least ($)' : 'Answer'}</span>
+                      <span>% of weight</span>
+                      <span />
+                    </div>
+                    {draft.entries.map((entry, index) => (
+                      <div key={index} className="grid grid-cols-[minmax(0,1fr)_6rem_2rem] gap-2">
+                        <Input
+                          type={numeric ? 'number' : 'text'}
+                          value={entry.key}
+                          disabled={!canEdit}
+                          onChange={(e) => updateEntry(factor.factor, index, { key: e.target.value })}
+                          className="bg-gray-800 border-gray-600 text-white"
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={entry.percent}
+                          disabled={!canEdit}
+                          onChange={(e) => updateEntry(factor.factor, index, { percent: e.target.value })}
+                          className="bg-gray-800 border-gray-600 text-white"
+                        />
+                        {canEdit && (
+                          <button
+                            type="button"
+                            aria-label="Remove"
+                            onClick={() => updateDraft(factor.factor, { entries: draft.entries.filter((_, i) => i !== index) })}
+                            className="text-gray-500 hover:text-red-400"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => updateDraft(factor.factor, { entries: [...draft.entries, { key: '', percent: '0' }] })}
+                        className="flex items-center text-sm text-blue-400 hover:underline"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        {numeric ? 'Add band' : 'Add answer'}
+                      </button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <label className="space-y-1 text-gray-400">
+                      <span>{numeric ? 'Below every band (%)' : 'Any other answer (%)'}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.other}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft(factor.factor, { other: e.target.value })}
+                        className="bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                    <label className="space-y-1 text-gray-400">
+                      <span>Not answered (%)</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={draft.missing}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft(factor.factor, { missing: e.target.value })}
+                        className="bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                  </div>
+
+                  {canEdit && (
+                    <Button
+                      onClick={() => saveFactor(factor)}
+                      disabled={saving !== null}
+                      className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                    >
+                      {saving === factor.factor ? 'Saving...' : 'Save'}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+/**
+ * CRM Speed to Lead Page
+ *
+ * First touch SLAs for new leads, with:
+ * - Leads at risk of or past their SLA and each rep's average response time
+ * - Policies in the order they are matched: target minutes, business hours
+ *   and days (Central time) and the delay before managers are alerted
+ * - Editing, turning on / off, adding and deleting policies (admins only)
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { SpeedToLeadWidget } from '@/components/SpeedToLeadWidget';
+import type { SlaPolicy } from '@/lib/leadSla';
+import type { LeadSource } from '@/lib/leads';
+import { Plus, Trash2 } from 'lucide-react';
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+// ISO weekdays, 1 = Monday
+const WEEKDAYS: [number, string][] = [
+  [1, 'Mon'], [2, 'Tue'], [3, 'Wed'], [4, 'Thu'], [5, 'Fri'], [6, 'Sat'], [7, 'Sun']
+];
+
+// Minutes are edited as text; an empty source means all leads
+interface PolicyDraft {
+  name: string;
+  source: LeadSource | '';
+  target_minutes: string;
+  business_hours_only: boolean;
+  business_start: string;
+  business_end: string;
+  business_days: number[];
+  manager_escalation_minutes: string;
+  sort_order: string;
+  is_active: boolean;
+}
+
+const EMPTY_DRAFT: PolicyDraft = {
+  name: '',
+  source: '',
+  target_minutes: '5',
+  business_hours_only: true,
+  business_start: '08:00',
+  business_end: '19:00',
+  business_days: [1, 2, 3, 4, 5, 6],
+  manager_escalation_minutes: '10',
+  sort_order: '0',
+  is_active: true
+};
+
+function toDraft(policy: SlaPolicy): PolicyDraft {
+  return {
+    name: policy.name,
+    source: policy.source || '',
+    target_minutes: String(policy.target_minutes),
+    business_hours_only: policy.business_hours_only,
+    business_start: policy.business_start.slice(0, 5),
+    business_end: policy.business_end.slice(0, 5),
+    business_days: policy.business_days,
+    manager_escalation_minutes: String(policy.manager_escalation_minutes),
+    sort_order: String(policy.sort_order),
+    is_active: policy.is_active
+  };
+}
+
+function toPayload(draft: PolicyDraft) {
+  return {
+    name: draft.name.trim(),
+    source: draft.source || null,
+    target_minutes: Number(draft.target_minutes),
+    business_hours_only: draft.business_hours_only,
+    business_start: draft.business_start,
+    business_end: draft.business_end,
+    business_days: draft.business_days,
+    manager_escalation_minutes: Number(draft.manager_escalation_minutes),
+    sort_order: parseInt(draft.sort_order, 10) || 0,
+    is_active: draft.is_active
+  };
+}
+
+export default function SpeedToLeadPage() {
+  const { can } = useCrmAccess();
+  const canEdit = can('settings');
+
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, PolicyDraft>>({});
+  const [creating, setCreating] = useState<PolicyDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/lead-sla');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: SlaPolicy[] = data.policies || [];
+        setPolicies(loaded);
+        setDrafts(Object.fromEntries(loaded.map(policy => [policy.id, toDraft(policy)])));
+      }
+    } catch (error) {
+      console.error('Error loading SLA policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  const send = async (request: Promise<Response>, message: string, failure: string) => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await request;
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      setNotice(message);
+      await loadPolicies();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const savePolicy = (policy: SlaPolicy) => send(
+    fetch('/api/crm/lead-sla', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: policy.id, ...toPayload(drafts[policy.id]) })
+    }),
+    `${drafts[policy.id].name || policy.name} saved.`,
+    'Failed to save policy'
+  );
+
+  const deletePolicy = (policy: SlaPolicy) => {
+    if (!window.confirm(`Delete policy ${policy.name}?`)) return;
+    send(
+      fetch(`/api/crm/lead-sla?id=${policy.id}`, { method: 'DELETE' }),
+      `${policy.name} deleted.`,
+      'Failed to delete policy'
+    );
+  };
+
+  const createPolicy = async () => {
+    if (!creating) return;
+    const created = await send(
+      fetch('/api/crm/lead-sla', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(creating))
+      }),
+      `${creating.name} added.`,
+      'Failed to add policy'
+    );
+    if (created) setCreating(null);
+  };
+
+  const renderFields = (draft: PolicyDraft, onChange: (update: Partial<PolicyDraft>) => void) => (
+    <div className="space-y-3 text-sm">
+      <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_10rem_8rem_8rem] items-end">
+        <label className="space-y-1 text-gray-400">
+          <span>Name</span>
+          <Input
+            value={draft.name}
+            disabled={!canEdit}
+            placeholder="e.g. First touch"
+            onChange={(e) => onChange({ name: e.target.value })}
+            className="bg-gray-800 border-gray-600 text-white"
+          />
+        </label>
+        <label className="space-y-1 text-gray-400">
+          <span>Leads</span>
+          <select
+            value={draft.source}
+            disabled={!canEdit}
+            onChange={(e) => onChange({ source: e.target.value as PolicyDraft['source'] })}
+            className={`${selectClassName} w-full`}
+          >
+            <option value="">All leads</option>
+            <option value="splash">Splash page</option>
+            <option value="contact">Contact form</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-gray-400">
+          <span>Target minutes</span>
+          <Input
+            type="number"
+            min={1}
+            value={draft.target_minutes}
+            disabled={!canEdit}
+            onChange={(e) => onChange({ target_minutes: e.target.value })}
+            className="bg-gray-800 border-gray-600 text-white"
+          />
+        </label>
+        <label className="space-y-1 text-gray-400">
+          <span>Managers after</span>
+          <Input
+            type="number"
+            min={0}
+            value={draft.manager_escalation_minutes}
+            disabled={!canEdit}
+            onChange={(e) => onChange({ manager_escalation_minutes: e.target.value })}
+            className="bg-gray-800 border-gray-600 text-white"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.business_hours_only}
+            disabled={!canEdit}
+            onChange={(e) => onChange({ business_hours_only: e.target.checked })}
+          />
+          Business hours only
+        </label>
+        <Input
+          type="time"
+          value={draft.business_start}
+          disabled={!canEdit || !draft.business_hours_only}
+          onChange={(e) => onChange({ business_start: e.target.value })}
+          className="w-32 bg-gray-800 border-gray-600 text-white"
+        />
+        <span className="text-gray-500">to</span>
+        <Input
+          type="time"
+          value={draft.business_end}
+          disabled={!canEdit || !draft.business_hours_only}
+          onChange={(e) => onChange({ business_end: e.target.value })}
+          className="w-32 bg-gray-800 border-gray-600 text-white"
+        />
+        {WEEKDAYS.map(([day, label]) => (
+          <label key={day} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={draft.business_days.includes(day)}
+              disabled={!canEdit || !draft.business_hours_only}
+              onChange={(e) => onChange({
+                business_days: e.target.checked
+                  ? [...draft.business_days, day].sort((a, b) => a - b)
+                  : draft.business_days.filter(selected => selected !== day)
+              })}
+            />
+            {label}
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-gray-400">
+          Order
+          <Input
+            type="number"
+            value={draft.sort_order}
+            disabled={!canEdit}
+            onChange={(e) => onChange({ sort_order: e.target.value })}
+            className="w-20 bg-gray-800 border-gray-600 text-white"
+          />
+        </label>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Speed to Lead</h1>
+          <p className="text-gray-400">
+            Time from a new lead to its first call, text or email. Owners are re-alerted when a lead passes its target, then managers.
+          </p>
+        </div>
+        {canEdit && !creating && (
+          <Button onClick={() => setCreating({ ...EMPTY_DRAFT })} className="bg-[#ff0000] hover:bg-[#cc0000] text-white">
+            <Plus className="h-4 w-4 mr-2" />
+            New Policy
+          </Button>
+        )}
+      </div>
+
+      <SpeedToLeadWidget />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      {creating && (
+        <Card className="bg-gray-900/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">New Policy</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderFields(creating, update => setCreating({ ...creating, ...update }))}
+            <div className="flex gap-3">
+              <Button onClick={createPolicy} disabled={saving} className="bg-[#ff0000] hover:bg-[#cc0000] text-white">
+                {saving ? 'Saving...' : 'Add Policy'}
+              </Button>
+              <Button variant="outline" onClick={() => setCreating(null)} className="border-gray-600 text-gray-300">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <p className="text-gray-400">Loading SLA policies...</p>
+      ) : policies.length === 0 ? (
+        <p className="text-gray-400">No SLA policies. Leads are not timed or escalated.</p>
+      ) : (
+        <div className="space-y-4">
+          {policies.map(policy => {
+            const draft = drafts[policy.id];
+            if (!draft) return null;
+
+            return (
+              <Card key={policy.id} className="bg-gray-900/50 border-gray-700">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-200">{policy.name}</span>
+                    <Badge variant="outline" className="border-gray-600 text-gray-400">
+                      {policy.target_minutes} min{policy.business_hours_only && ' (business hours)'}
+                    </Badge>
+                    {!policy.is_active && (
+                      <Badge variant="outline" className="border-gray-600 text-gray-500">Off</Badge>
+                    )}
+                  </div>
+
+                  {renderFields(draft, update => setDrafts(prev => ({ ...prev, [policy.id]: { ...draft, ...update } })))}
+
+                  {canEdit && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [policy.id]: { ...draft, is_active: e.target.checked } }))}
+                        />
+                        Active
+                      </label>
+                      <Button
+                        size="sm"
+                        onClick={() => savePolicy(policy)}
+                        disabled={saving}
+                        className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deletePolicy(policy)}
+                        disabled={saving}
+                        className="border-gray-600 text-gray-300"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
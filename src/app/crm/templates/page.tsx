@@ -0,0 +1,586 @@
+/**
+ * CRM Message Templates Page
+ *
+ * SMS and email template library with:
+ * - Templates grouped by channel, with inactive ones marked
+ * - Editor with the variables available to the template's context
+ * - Live validation of placeholders and a preview with example values
+ * - Version history with restore of any earlier version
+ * - New templates and turning templates on or off (admins only)
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import {
+  MAX_SMS_LENGTH,
+  TEMPLATE_CHANNELS,
+  TEMPLATE_CONTEXTS,
+  TEMPLATE_CONTEXT_DETAILS,
+  TEMPLATE_VARIABLES,
+  renderTemplatePreview,
+  validateTemplate,
+  type MessageTemplate,
+  type MessageTemplateVersion,
+  type TemplateChannel,
+  type TemplateContext
+} from '@/lib/messageTemplates';
+import { History, Mail, MessageSquare, Plus, RotateCcw } from 'lucide-react';
+
+const CHANNEL_LABELS: Record<TemplateChannel, string> = {
+  sms: 'SMS',
+  email: 'Email'
+};
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+interface TemplateDraft {
+  name: string;
+  description: string;
+  subject: string;
+  body: string;
+  changeNote: string;
+}
+
+interface NewTemplateDraft {
+  key: string;
+  name: string;
+  channel: TemplateChannel;
+  context: TemplateContext;
+}
+
+function toDraft(template: MessageTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    description: template.description || '',
+    subject: template.subject || '',
+    body: template.body,
+    changeNote: ''
+  };
+}
+
+export default function MessageTemplatesPage() {
+  const { can } = useCrmAccess();
+  const canEdit = can('settings');
+
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<MessageTemplate | null>(null);
+  const [versions, setVersions] = useState<MessageTemplateVersion[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [creating, setCreating] = useState<NewTemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/message-templates?includeInactive=true');
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.templates || []);
+      }
+    } catch (error) {
+      console.error('Error loading message templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const selectTemplate = async (key: string) => {
+    setCreating(null);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/crm/message-templates?key=${encodeURIComponent(key)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelected(data.template);
+        setVersions(data.versions || []);
+        setDraft(toDraft(data.template));
+      }
+    } catch (error) {
+      console.error('Error loading message template:', error);
+    }
+  };
+
+  const showSaveResult = async (response: Response, message: string) => {
+    const data = await response.json();
+    if (!response.ok) {
+      setError([data.error, ...(data.details || [])].filter(Boolean).join(': '));
+      return;
+    }
+    setNotice(message);
+    await loadTemplates();
+    await selectTemplate(data.template.key);
+    setNotice(message);
+  };
+
+  const saveDraft = async () => {
+    if (!selected || !draft) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/message-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: selected.key, version: selected.version, ...draft })
+      });
+      await showSaveResult(response, `Saved as version ${selected.version + 1}`);
+    } catch (error) {
+      console.error('Error saving message template:', error);
+      setError('Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const restoreVersion = async (version: MessageTemplateVersion) => {
+    if (!selected || !window.confirm(`Restore version ${version.version}? It will be saved as a new version.`)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/message-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: selected.key, version: selected.version, restoreVersion: version.version })
+      });
+      await showSaveResult(response, `Restored version ${version.version}`);
+    } catch (error) {
+      console.error('Error restoring message template:', error);
+      setError('Failed to restore version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/message-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: selected.key, active: !selected.active })
+      });
+      await showSaveResult(response, selected.active ? 'Template turned off' : 'Template turned on');
+    } catch (error) {
+      console.error('Error updating message template:', error);
+      setError('Failed to update template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createTemplate = async () => {
+    if (!creating) return;
+
+    const context = TEMPLATE_CONTEXT_DETAILS[creating.context];
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/message-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...creating,
+          subject: creating.channel === 'email' ? creating.name : null,
+          body: creating.channel === 'email' ? '<p>Hi [Name],</p>' : 'Hi [Name]! - Quantum Solar',
+          description: context.description
+        })
+      });
+      await showSaveResult(response, 'Template created');
+    } catch (error) {
+      console.error('Error creating message template:', error);
+      setError('Failed to create template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const validationErrors = useMemo(() => {
+    if (!selected || !draft) return [];
+    return validateTemplate({
+      channel: selected.channel,
+      context: selected.context,
+      subject: draft.subject || null,
+      body: draft.body
+    });
+  }, [selected, draft]);
+
+  const preview = useMemo(() => {
+    if (!selected || !draft) return null;
+    return renderTemplatePreview({ channel: selected.channel, subject: draft.subject || null, body: draft.body });
+  }, [selected, draft]);
+
+  const isDirty = !!selected && !!draft && (
+    draft.name !== selected.name ||
+    draft.description !== (selected.description || '') ||
+    draft.subject !== (selected.subject || '') ||
+    draft.body !== selected.body
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Message Templates</h1>
+          <p className="text-gray-400">SMS and email copy used by reminders, project updates, automations and notifications</p>
+        </div>
+        {canEdit && (
+          <Button
+            className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+            onClick={() => {
+              setSelected(null);
+              setDraft(null);
+              setError(null);
+              setNotice(null);
+              setCreating({ key: '', name: '', channel: 'sms', context: 'lead' });
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-gray-900/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="text-white">Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <p className="text-gray-400 text-sm">Loading templates...</p>
+            ) : TEMPLATE_CHANNELS.map(channel => (
+              <div key={channel} className="space-y-2">
+                <h3 className="flex items-center text-sm font-medium text-gray-400">
+                  {channel === 'sms' ? <MessageSquare className="h-4 w-4 mr-2" /> : <Mail className="h-4 w-4 mr-2" />}
+                  {CHANNEL_LABELS[channel]}
+                </h3>
+                <ul className="space-y-1">
+                  {templates.filter(template => template.channel === channel).map(template => (
+                    <li key={template.id}>
+                      <button
+                        type="button"
+                        onClick={() => selectTemplate(template.key)}
+                        className={`w-full text-left rounded-md px-3 py-2 text-sm ${
+                          selected?.key === template.key ? 'bg-gray-800 text-white' : 'text-gray-300 hover:bg-gray-800/60'
+                        }`}
+                      >
+                        <span className="flex items-center justify-between gap-2">
+                          <span className={template.active ? '' : 'text-gray-500 line-through'}>{template.name}</span>
+                          <span className="text-xs text-gray-500">v{template.version}</span>
+                        </span>
+                        <span className="block text-xs text-gray-500">{template.key}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {creating && (
+            <Card className="bg-gray-900/50 border-gray-700">
+              <CardHeader>
+                <CardTitle className="text-white">New Template</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <label className="text-sm text-gray-400">
+                    Key
+                    <Input
+                      value={creating.key}
+                      onChange={(e) => setCreating({ ...creating, key: e.target.value.toLowerCase() })}
+                      placeholder="referral_thank_you"
+                      className="mt-1 bg-gray-800 border-gray-600 text-white"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-400">
+                    Name
+                    <Input
+                      value={creating.name}
+                      onChange={(e) => setCreating({ ...creating, name: e.target.value })}
+                      placeholder="Referral thank you"
+                      className="mt-1 bg-gray-800 border-gray-600 text-white"
+                    />
+                  </label>
+                  <label className="text-sm text-gray-400 flex flex-col">
+                    Channel
+                    <select
+                      value={creating.channel}
+                      onChange={(e) => setCreating({ ...creating, channel: e.target.value as TemplateChannel })}
+                      className={`mt-1 ${selectClassName}`}
+                    >
+                      {TEMPLATE_CHANNELS.map(channel => (
+                        <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-400 flex flex-col">
+                    Used for
+                    <select
+                      value={creating.context}
+                      onChange={(e) => setCreating({ ...creating, context: e.target.value as TemplateContext })}
+                      className={`mt-1 ${selectClassName}`}
+                    >
+                      {TEMPLATE_CONTEXTS.map(context => (
+                        <option key={context} value={context}>{TEMPLATE_CONTEXT_DETAILS[context].label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <div className="flex gap-2">
+                  <Button
+                    className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                    onClick={createTemplate}
+                    disabled={saving || !creating.key || !creating.name.trim()}
+                  >
+                    {saving ? 'Creating...' : 'Create'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="border-gray-600 text-gray-300"
+                    onClick={() => setCreating(null)}
+                    disabled={saving}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {!creating && !selected && (
+            <Card className="bg-gray-900/50 border-gray-700">
+              <CardContent className="py-12 text-center text-gray-400">
+                Select a template to view or edit it.
+              </CardContent>
+            </Card>
+          )}
+
+          {selected && draft && (
+            <>
+              <Card className="bg-gray-900/50 border-gray-700">
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-white">{selected.name}</CardTitle>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {selected.key} · {CHANNEL_LABELS[selected.channel]} · {TEMPLATE_CONTEXT_DETAILS[selected.context].label} · version {selected.version}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={`${selected.active ? 'bg-green-600' : 'bg-gray-500'} text-white`}>
+                      {selected.active ? 'Active' : 'Off'}
+                    </Badge>
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="border-gray-600 text-gray-300"
+                        onClick={toggleActive}
+                        disabled={saving}
+                      >
+                        {selected.active ? 'Turn Off' : 'Turn On'}
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="text-sm text-gray-400">
+                      Name
+                      <Input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        disabled={!canEdit}
+                        className="mt-1 bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                    <label className="text-sm text-gray-400">
+                      Description
+                      <Input
+                        value={draft.description}
+                        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                        disabled={!canEdit}
+                        className="mt-1 bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                  </div>
+
+                  {selected.channel === 'email' && (
+                    <label className="block text-sm text-gray-400">
+                      Subject
+                      <Input
+                        value={draft.subject}
+                        onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                        disabled={!canEdit}
+                        className="mt-1 bg-gray-800 border-gray-600 text-white"
+                      />
+                    </label>
+                  )}
+
+                  <label className="block text-sm text-gray-400">
+                    {selected.channel === 'email' ? 'Body (HTML)' : 'Message'}
+                    <Textarea
+                      value={draft.body}
+                      onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      disabled={!canEdit}
+                      rows={selected.channel === 'email' ? 14 : 5}
+                      className="mt-1 bg-gray-800 border-gray-600 text-gray-200 font-mono text-sm"
+                    />
+                  </label>
+                  {selected.channel === 'sms' && (
+                    <p className="text-xs text-gray-500">{draft.body.length} / {MAX_SMS_LENGTH} characters</p>
+                  )}
+
+                  <div>
+                    <p className="text-sm text-gray-400 mb-2">Variables</p>
+                    <div className="flex flex-wrap gap-2">
+                      {TEMPLATE_CONTEXT_DETAILS[selected.context].variables
+                        .filter(name => selected.channel === 'email' || TEMPLATE_VARIABLES[name].type !== 'html')
+                        .map(name => (
+                          <button
+                            key={name}
+                            type="button"
+                            title={`${TEMPLATE_VARIABLES[name].label} (${TEMPLATE_VARIABLES[name].type})`}
+                            onClick={() => canEdit && setDraft({ ...draft, body: `${draft.body}[${name}]` })}
+                            className="rounded border border-gray-600 px-2 py-0.5 text-xs text-gray-300 hover:border-gray-400"
+                          >
+                            [{name}]
+                          </button>
+                        ))}
+                    </div>
+                  </div>
+
+                  {validationErrors.length > 0 && (
+                    <ul className="text-sm text-red-400 space-y-1">
+                      {validationErrors.map(message => <li key={message}>{message}</li>)}
+                    </ul>
+                  )}
+
+                  {canEdit && (
+                    <div className="space-y-3">
+                      <Input
+                        value={draft.changeNote}
+                        onChange={(e) => setDraft({ ...draft, changeNote: e.target.value })}
+                        placeholder="What changed? (optional)"
+                        className="bg-gray-800 border-gray-600 text-white"
+                      />
+                      {error && <p className="text-sm text-red-400">{error}</p>}
+                      {notice && <p className="text-sm text-green-400">{notice}</p>}
+                      <div className="flex gap-2">
+                        <Button
+                          className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                          onClick={saveDraft}
+                          disabled={saving || !isDirty || validationErrors.length > 0}
+                        >
+                          {saving ? 'Saving...' : 'Save New Version'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="border-gray-600 text-gray-300"
+                          onClick={() => setDraft(toDraft(selected))}
+                          disabled={saving || !isDirty}
+                        >
+                          Discard Changes
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {preview && (
+                <Card className="bg-gray-900/50 border-gray-700">
+                  <CardHeader>
+                    <CardTitle className="text-white">Preview</CardTitle>
+                    <p className="text-sm text-gray-500">Rendered with example values</p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {preview.subject !== null && (
+                      <p className="text-sm text-gray-300"><span className="text-gray-500">Subject:</span> {preview.subject}</p>
+                    )}
+                    {selected.channel === 'email' ? (
+                      <iframe
+                        title="Email preview"
+                        sandbox=""
+                        srcDoc={preview.body}
+                        className="w-full h-96 rounded-md bg-white"
+                      />
+                    ) : (
+                      <p className="max-w-md rounded-lg bg-blue-600 px-4 py-3 text-sm text-white whitespace-pre-wrap">
+                        {preview.body}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card className="bg-gray-900/50 border-gray-700">
+                <CardHeader>
+                  <CardTitle className="flex items-center text-white">
+                    <History className="h-5 w-5 mr-2" />
+                    Version History
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-3">
+                    {versions.map(version => (
+                      <li key={version.id} className="border border-gray-700 rounded-lg p-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="text-sm">
+                            <p className="text-gray-300">
+                              Version {version.version}
+                              {version.version === selected.version && <span className="text-green-400"> · current</span>}
+                            </p>
+                            <p className="text-gray-500 text-xs">
+                              {new Date(version.created_at).toLocaleString()}
+                              {version.change_note && ` · ${version.change_note}`}
+                            </p>
+                          </div>
+                          {canEdit && version.version !== selected.version && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="border-gray-600 text-gray-300"
+                              onClick={() => restoreVersion(version)}
+                              disabled={saving}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                          )}
+                        </div>
+                        {version.subject && <p className="text-gray-400 text-xs mt-2">Subject: {version.subject}</p>}
+                        <pre className="text-gray-400 text-xs mt-2 whitespace-pre-wrap max-h-32 overflow-y-auto">{version.body}</pre>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@
  * - Upload progress tracking
  * - Error handling
  * - Success confirmation
+ * - Upload tied to the lead submitted in this browser session
  */
 
 "use client";
@@ -18,6 +19,7 @@ import { useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { trackLeadEvent } from '@/lib/fbPixel';
 import { trackFileUpload, trackLead } from '@/lib/gtm';
+import { getStoredLeadReference } from '@/lib/leadSession';
 
 interface UploadState {
   isUploading: boolean;
@@ -106,6 +108,16 @@ export function BillUploadComponent() {
   const handleUpload = async () => {
     if (!file) return;
 
+    // The upload is attached to the lead from the splash form submit
+    const leadReference = getStoredLeadReference();
+    if (!leadReference) {
+      setUploadState(prev => ({
+        ...prev,
+        error: 'We couldn\'t find your form submission in this browser. Please email your bill to info@quantumsolar.us'
+      }));
+      return;
+    }
+
     setUploadState(prev => ({
       ...prev,
       isUploading: true,
@@ -117,6 +129,8 @@ export function BillUploadComponent() {
       const formData = new FormData();
       formData.append('bill', file);
       formData.append('source', 'ameren_illinois_splash');
+      formData.append('leadId', leadReference.leadId);
+      formData.append('sessionId', leadReference.sessionId);
 
       // Simulate upload progress
       const progressInterval = setInterval(() => {
@@ -0,0 +1,82 @@
+/**
+ * CRM Access Provider
+ *
+ * Loads the signed-in user's CRM role and permissions from /api/crm/me once
+ * per session and shares them with the CRM layout and pages, so navigation
+ * and tabs follow the same rules the API enforces (src/lib/crmAccess.ts).
+ */
+
+"use client";
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { useUser } from '@clerk/nextjs';
+import type { CrmPermission, CrmRole } from '@/lib/crmAccess';
+
+interface CrmAccessState {
+  loading: boolean;
+  role: CrmRole | null;
+  permissions: CrmPermission[];
+  user: { id: string; email: string; name: string | null } | null;
+  can: (permission: CrmPermission) => boolean;
+}
+
+const CrmAccessContext = createContext<CrmAccessState>({
+  loading: true,
+  role: null,
+  permissions: [],
+  user: null,
+  can: () => false
+});
+
+export function CrmAccessProvider({ children }: { children: React.ReactNode }) {
+  const { user, isLoaded } = useUser();
+  const [state, setState] = useState<Omit<CrmAccessState, 'can'>>({
+    loading: true,
+    role: null,
+    permissions: [],
+    user: null
+  });
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (!user) {
+      setState({ loading: false, role: null, permissions: [], user: null });
+      return;
+    }
+
+    const loadAccess = async () => {
+      try {
+        const response = await fetch('/api/crm/me');
+        if (!response.ok) {
+          console.log('CRM access request failed:', response.status);
+          setState({ loading: false, role: null, permissions: [], user: null });
+          return;
+        }
+        const data = await response.json();
+        setState({
+          loading: false,
+          role: data.user.role,
+          permissions: data.permissions,
+          user: { id: data.user.id, email: data.user.email, name: data.user.name }
+        });
+      } catch (error) {
+        console.error('Error loading CRM access:', error);
+        setState({ loading: false, role: null, permissions: [], user: null });
+      }
+    };
+
+    loadAccess();
+  }, [user, isLoaded]);
+
+  const can = (permission: CrmPermission) => state.permissions.includes(permission);
+
+  return (
+    <CrmAccessContext.Provider value={{ ...state, can }}>
+      {children}
+    </CrmAccessContext.Provider>
+  );
+}
+
+export function useCrmAccess(): CrmAccessState {
+  return useContext(CrmAccessContext);
+}
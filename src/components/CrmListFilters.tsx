@@ -0,0 +1,197 @@
+/**
+ * CRM List Filters Component
+ *
+ * Search, filter and sort controls for the CRM dashboard lists. The parent
+ * owns the filter state (kept in the URL) and the server does the filtering
+ * through the CRM list endpoints (see src/lib/crmList.ts).
+ *
+ * Features:
+ * - Debounced search across name, email, phone and address
+ * - Optional status, source, stage and assigned user filters
+ * - Created date range
+ * - Sort key and direction
+ * - Clear all filters
+ */
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Search, X } from 'lucide-react';
+
+export const LIST_FILTER_KEYS = ['q', 'status', 'source', 'stage', 'assignedTo', 'from', 'to', 'sort', 'order'] as const;
+export type ListFilterField = typeof LIST_FILTER_KEYS[number];
+export type ListFilterValues = Partial<Record<ListFilterField, string>>;
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface CrmListFiltersProps {
+  values: ListFilterValues;
+  onChange: (values: ListFilterValues) => void;
+  statusOptions?: FilterOption[];
+  sourceOptions?: FilterOption[];
+  stageOptions?: FilterOption[];
+  sortOptions: FilterOption[];
+  assignedToLabel?: string;
+  showFilters: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+const inputClassName = 'h-9 bg-gray-800 border-gray-600 text-gray-200';
+
+export function CrmListFilters({
+  values,
+  onChange,
+  statusOptions,
+  sourceOptions,
+  stageOptions,
+  sortOptions,
+  assignedToLabel,
+  showFilters
+}: CrmListFiltersProps) {
+  const [search, setSearch] = useState(values.q || '');
+
+  // Keep the search box in sync when the URL changes (back/forward, clear)
+  useEffect(() => {
+    setSearch(values.q || '');
+  }, [values.q]);
+
+  // Debounce search input before it reaches the URL
+  useEffect(() => {
+    if (search === (values.q || '')) return;
+    const timeout = setTimeout(() => onChange({ ...values, q: search || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, values, onChange]);
+
+  const update = (field: ListFilterField, value: string) => {
+    onChange({ ...values, [field]: value || undefined });
+  };
+
+  const hasFilters = LIST_FILTER_KEYS.some(key => key !== 'sort' && key !== 'order' && values[key]);
+
+  return (
+    <div className="space-y-3 mb-4">
+      <div className="relative">
+        <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search name, email, phone or address"
+          className={`${inputClassName} pl-9`}
+        />
+      </div>
+
+      {showFilters && (
+        <div className="flex flex-wrap items-center gap-2">
+          {statusOptions && (
+            <select
+              value={values.status || ''}
+              onChange={(e) => update('status', e.target.value)}
+              className={selectClassName}
+              aria-label="Status"
+            >
+              <option value="">All statuses</option>
+              {statusOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+
+          {sourceOptions && (
+            <select
+              value={values.source || ''}
+              onChange={(e) => update('source', e.target.value)}
+              className={selectClassName}
+              aria-label="Source"
+            >
+              <option value="">All sources</option>
+              {sourceOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+
+          {stageOptions && (
+            <select
+              value={values.stage || ''}
+              onChange={(e) => update('stage', e.target.value)}
+              className={selectClassName}
+              aria-label="Stage"
+            >
+              <option value="">All stages</option>
+              {stageOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+
+          {assignedToLabel && (
+            <Input
+              value={values.assignedTo || ''}
+              onChange={(e) => update('assignedTo', e.target.value)}
+              placeholder={assignedToLabel}
+              className={`${inputClassName} w-48`}
+            />
+          )}
+
+          <label className="flex items-center gap-1 text-sm text-gray-400">
+            From
+            <Input
+              type="date"
+              value={values.from || ''}
+              onChange={(e) => update('from', e.target.value)}
+              className={`${inputClassName} w-40`}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-400">
+            To
+            <Input
+              type="date"
+              value={values.to || ''}
+              onChange={(e) => update('to', e.target.value)}
+              className={`${inputClassName} w-40`}
+            />
+          </label>
+
+          <select
+            value={values.sort || sortOptions[0]?.value || ''}
+            onChange={(e) => update('sort', e.target.value)}
+            className={selectClassName}
+            aria-label="Sort by"
+          >
+            {sortOptions.map(option => (
+              <option key={option.value} value={option.value}>Sort: {option.label}</option>
+            ))}
+          </select>
+          <select
+            value={values.order || 'desc'}
+            onChange={(e) => update('order', e.target.value)}
+            className={selectClassName}
+            aria-label="Sort order"
+          >
+            <option value="desc">Descending</option>
+            <option value="asc">Ascending</option>
+          </select>
+
+          {hasFilters && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ sort: values.sort, order: values.order })}
+              className="border-gray-600 text-gray-300"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
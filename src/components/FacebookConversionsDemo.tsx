@@ -20,10 +20,27 @@ interface DatasetQuality {
   match_rate_email: number;
   match_rate_phone: number;
   match_rate_address: number;
+  match_rate_fbc: number;
+  match_rate_fbp: number;
   total_events: number;
   matched_events: number;
   overall_score: number;
   recommendations: string[];
+  events: { event_name: string; pixel: number; server: number; failed: number }[];
+  deduplication: {
+    pixel_events: number;
+    server_events: number;
+    deduplicated_events: number;
+    pixel_only_events: number;
+    server_only_events: number;
+  };
+  recent_failures: {
+    event_id: string;
+    event_name: string;
+    http_status: number | null;
+    error_message: string | null;
+    created_at: string;
+  }[];
 }
 
 export function FacebookConversionsDemo() {
@@ -39,6 +56,7 @@ export function FacebookConversionsDemo() {
   const [lastTestResult, setLastTestResult] = useState<TestResult | null>(null);
   const [datasetQuality, setDatasetQuality] = useState<DatasetQuality | null>(null);
   const [isLoadingQuality, setIsLoadingQuality] = useState(false);
+  const [qualityError, setQualityError] = useState<string | null>(null);
 
   /**
    * Test enhanced lead tracking with customer data
@@ -91,30 +109,38 @@ export function FacebookConversionsDemo() {
    */
   const fetchDatasetQuality = async () => {
     setIsLoadingQuality(true);
+    setQualityError(null);
     
     try {
       const response = await fetch('/api/facebook-dataset-quality?type=dataset_health');
+      const result = await response.json().catch(() => ({}));
       
       if (!response.ok) {
-        throw new Error('Failed to fetch dataset quality metrics');
+        throw new Error(result.error || 'Failed to fetch dataset quality metrics');
       }
       
-      const result = await response.json();
-      
-      if (result.data?.health && result.data?.match_quality) {
-        setDatasetQuality({
-          match_rate_email: result.data.match_quality.match_rate_email * 100,
-          match_rate_phone: result.data.match_quality.match_rate_phone * 100,
-          match_rate_address: result.data.match_quality.match_rate_address * 100,
-          total_events: result.data.match_quality.total_events,
-          matched_events: result.data.match_quality.matched_events,
-          overall_score: result.data.health.overall_score,
-          recommendations: result.data.health.recommendations
-        });
+      if (!result.data?.health || !result.data?.match_quality) {
+        throw new Error('Dataset quality response is missing metrics');
       }
+
+      setDatasetQuality({
+        match_rate_email: result.data.match_quality.match_rate_email * 100,
+        match_rate_phone: result.data.match_quality.match_rate_phone * 100,
+        match_rate_address: result.data.match_quality.match_rate_address * 100,
+        match_rate_fbc: result.data.match_quality.match_rate_fbc * 100,
+        match_rate_fbp: result.data.match_quality.match_rate_fbp * 100,
+        total_events: result.data.match_quality.total_events,
+        matched_events: result.data.match_quality.matched_events,
+        overall_score: result.data.health.overall_score,
+        recommendations: result.data.health.recommendations,
+        events: result.data.events || [],
+        deduplication: result.data.deduplication,
+        recent_failures: result.data.recent_failures || []
+      });
       
     } catch (error) {
       console.error('Failed to fetch dataset quality:', error);
+      setQualityError(error instanceof Error ? error.message : 'Failed to fetch dataset quality metrics');
     } finally {
       setIsLoadingQuality(false);
     }
@@ -208,6 +234,14 @@ export function FacebookConversionsDemo() {
         </Card>
       )}
 
+      {qualityError && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-red-600"><strong>Dataset quality unavailable:</strong> {qualityError}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {datasetQuality && (
         <Card>
           <CardHeader>
@@ -237,6 +271,68 @@ export function FacebookConversionsDemo() {
                 <p className="text-2xl font-bold">{datasetQuality.matched_events.toLocaleString()}</p>
               </div>
             </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm font-medium">Address Match Rate</p>
+                <p className="text-2xl font-bold">{datasetQuality.match_rate_address.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">fbc Coverage</p>
+                <p className="text-2xl font-bold">{datasetQuality.match_rate_fbc.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">fbp Coverage</p>
+                <p className="text-2xl font-bold">{datasetQuality.match_rate_fbp.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium">Deduplicated Events</p>
+                <p className="text-2xl font-bold">{datasetQuality.deduplication.deduplicated_events.toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  {datasetQuality.deduplication.pixel_only_events} pixel only, {datasetQuality.deduplication.server_only_events} server only
+                </p>
+              </div>
+            </div>
+
+            {datasetQuality.events.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Events:</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1">Event</th>
+                      <th className="py-1">Pixel</th>
+                      <th className="py-1">Server</th>
+                      <th className="py-1">Failed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {datasetQuality.events.map((event) => (
+                      <tr key={event.event_name} className="border-t">
+                        <td className="py-1">{event.event_name}</td>
+                        <td className="py-1">{event.pixel}</td>
+                        <td className="py-1">{event.server}</td>
+                        <td className="py-1">{event.failed}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {datasetQuality.recent_failures.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Recent Failures:</h3>
+                <ul className="space-y-1 text-sm">
+                  {datasetQuality.recent_failures.map((failure) => (
+                    <li key={`${failure.event_id}-${failure.created_at}`} className="text-red-600">
+                      {new Date(failure.created_at).toLocaleString()} - {failure.event_name}
+                      {failure.http_status ? ` (HTTP ${failure.http_status})` : ''}: {failure.error_message || 'Unknown error'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
             {datasetQuality.recommendations.length > 0 && (
               <div>
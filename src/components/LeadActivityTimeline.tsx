@@ -0,0 +1,335 @@
+/**
+ * Lead Activity Timeline Component
+ *
+ * Chronological history of a lead on the CRM lead detail page, with a
+ * composer for adding notes, logging calls and sending SMS or email.
+ * Activities come from /api/crm/lead-activities (see src/lib/leadActivities.ts).
+ *
+ * Features:
+ * - Notes, calls, SMS, emails, status changes and assignments, newest first
+ * - Who acted and when for every entry
+ * - Warning when another rep called or texted the lead in the last hour
+ * - SMS through /api/integrations/twilio and email through /api/send,
+ *   both recorded on the timeline by the server
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { CALL_OUTCOMES, type CallOutcome, type LeadActivity } from '@/lib/leadActivities';
+import type { Lead } from '@/lib/leads';
+import { AlertTriangle, Mail, MessageSquare, Phone, RefreshCw, StickyNote, UserCheck } from 'lucide-react';
+
+export type ComposeMode = 'note' | 'call' | 'sms' | 'email';
+
+interface LeadActivityTimelineProps {
+  lead: Pick<Lead, 'id' | 'name' | 'first_name' | 'phone' | 'email'>;
+  composeMode: ComposeMode;
+  onComposeModeChange: (mode: ComposeMode) => void;
+}
+
+const COMPOSE_MODES: { mode: ComposeMode; label: string }[] = [
+  { mode: 'note', label: 'Note' },
+  { mode: 'call', label: 'Log Call' },
+  { mode: 'sms', label: 'SMS' },
+  { mode: 'email', label: 'Email' }
+];
+
+const CALL_OUTCOME_LABELS: Record<CallOutcome, string> = {
+  connected: 'Connected',
+  voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+  busy: 'Busy',
+  wrong_number: 'Wrong number'
+};
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+export function LeadActivityTimeline({ lead, composeMode, onComposeModeChange }: LeadActivityTimelineProps) {
+  const { can } = useCrmAccess();
+  const [activities, setActivities] = useState<LeadActivity[]>([]);
+  const [recentContact, setRecentContact] = useState<LeadActivity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [text, setText] = useState('');
+  const [subject, setSubject] = useState('');
+  const [callOutcome, setCallOutcome] = useState<CallOutcome>('connected');
+  const [callMinutes, setCallMinutes] = useState('');
+
+  const canWrite = can('leads:write');
+  const canSend = can('messages:send');
+  const availableModes = COMPOSE_MODES.filter(({ mode }) => mode === 'note' || mode === 'call' || canSend);
+
+  const loadActivities = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/crm/lead-activities?leadId=${lead.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setActivities(data.activities || []);
+        setRecentContact(data.recentContact || null);
+      }
+    } catch (error) {
+      console.error('Error loading lead activities:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [lead.id]);
+
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities]);
+
+  const resetComposer = () => {
+    setText('');
+    setSubject('');
+    setCallMinutes('');
+    setCallOutcome('connected');
+  };
+
+  const postJson = (url: string, body: Record<string, unknown>) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const submit = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      let response: Response;
+
+      if (composeMode === 'note' || composeMode === 'call') {
+        const payload = {
+          leadId: lead.id,
+          type: composeMode,
+          body: text,
+          callOutcome: composeMode === 'call' ? callOutcome : undefined,
+          callDurationSeconds: composeMode === 'call' && callMinutes ? Number(callMinutes) * 60 : undefined
+        };
+        response = await postJson('/api/crm/lead-activities', payload);
+
+        // Someone else reached out within the hour; log anyway only if confirmed
+        if (response.status === 409) {
+          const conflict = await response.json();
+          if (!window.confirm(`${conflict.details}. Log this call anyway?`)) return;
+          response = await postJson('/api/crm/lead-activities', { ...payload, confirmRecentContact: true });
+        }
+      } else if (composeMode === 'sms') {
+        response = await postJson('/api/integrations/twilio', {
+          to: lead.phone,
+          message: text,
+          type: 'follow_up',
+          leadId: lead.id
+        });
+      } else {
+        response = await postJson('/api/send', {
+          to: lead.email,
+          subject,
+          text,
+          leadId: lead.id
+        });
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        const message = typeof data.error === 'string' ? data.error : data.error?.message;
+        setError([message || 'Request failed', typeof data.details === 'string' ? data.details : null].filter(Boolean).join(': '));
+        return;
+      }
+
+      resetComposer();
+      await loadActivities();
+    } catch (error) {
+      console.error('Error saving lead activity:', error);
+      setError('Network error, please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !submitting && (
+    composeMode === 'call' ||
+    (composeMode === 'email' ? !!subject.trim() && !!text.trim() && !!lead.email : !!text.trim())
+  ) && (composeMode !== 'sms' || !!lead.phone);
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white">Activity</CardTitle>
+        <Button variant="ghost" size="sm" className="text-gray-400 hover:text-white" onClick={loadActivities}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {recentContact && (
+          <div className="flex items-start gap-3 rounded-md border border-yellow-600/50 bg-yellow-900/20 p-3 text-sm text-yellow-200">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0 text-yellow-400" />
+            <span>
+              {recentContact.actor_name || 'Someone'} {recentContact.type === 'call' ? 'called' : 'texted'} this lead{' '}
+              {formatRelativeTime(recentContact.created_at)}. Check before reaching out again.
+            </span>
+          </div>
+        )}
+
+        {canWrite && (
+          <div className="space-y-3 rounded-md border border-gray-700 p-4">
+            <div className="flex flex-wrap gap-1">
+              {availableModes.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => onComposeModeChange(mode)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    composeMode === mode
+                      ? 'bg-[#ff0000] text-white'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {composeMode === 'call' && (
+              <div className="flex flex-wrap gap-3">
+                <select
+                  value={callOutcome}
+                  onChange={(e) => setCallOutcome(e.target.value as CallOutcome)}
+                  className={selectClassName}
+                  aria-label="Call outcome"
+                >
+                  {CALL_OUTCOMES.map(outcome => (
+                    <option key={outcome} value={outcome}>{CALL_OUTCOME_LABELS[outcome]}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  value={callMinutes}
+                  onChange={(e) => setCallMinutes(e.target.value)}
+                  placeholder="Minutes"
+                  className="h-9 w-28 bg-gray-800 border-gray-600 text-gray-200"
+                />
+              </div>
+            )}
+
+            {composeMode === 'email' && (
+              <Input
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Subject"
+                className="bg-gray-800 border-gray-600 text-gray-200"
+              />
+            )}
+
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={3}
+              placeholder={
+                composeMode === 'note' ? 'Add a note...'
+                  : composeMode === 'call' ? 'Call notes (optional)'
+                  : composeMode === 'sms' ? `Text to ${lead.phone || 'no phone on file'}`
+                  : `Email to ${lead.email || 'no email on file'}`
+              }
+              className="bg-gray-800 border-gray-600 text-gray-200"
+            />
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={submit}
+                disabled={!canSubmit}
+                className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+              >
+                {submitting ? 'Saving...' : composeMode === 'sms' || composeMode === 'email' ? 'Send' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-400">Loading activity...</p>
+        ) : activities.length === 0 ? (
+          <p className="text-gray-400">No activity yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-700 ml-3 space-y-6">
+            {activities.map(activity => (
+              <li key={activity.id} className="ml-6">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-gray-800 ring-4 ring-gray-900">
+                  <ActivityIcon type={activity.type} />
+                </span>
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm font-medium text-white">{describeActivity(activity)}</p>
+                  <time
+                    className="text-xs text-gray-500"
+                    dateTime={activity.created_at}
+                    title={new Date(activity.created_at).toLocaleString()}
+                  >
+                    {formatRelativeTime(activity.created_at)}
+                  </time>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {activity.actor_name || 'System'}
+                  {activity.recipient && ` → ${activity.recipient}`}
+                  {activity.delivery_status === 'failed' && <span className="text-red-400"> · failed</span>}
+                </p>
+                {activity.subject && <p className="mt-1 text-sm text-gray-300">{activity.subject}</p>}
+                {activity.body && activity.type !== 'status_change' && activity.type !== 'assignment' && (
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-400">{activity.body}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ActivityIcon({ type }: { type: LeadActivity['type'] }) {
+  const className = 'h-3.5 w-3.5';
+  if (type === 'call') return <Phone className={`${className} text-green-400`} />;
+  if (type === 'sms') return <MessageSquare className={`${className} text-blue-400`} />;
+  if (type === 'email') return <Mail className={`${className} text-purple-400`} />;
+  if (type === 'status_change') return <RefreshCw className={`${className} text-orange-400`} />;
+  if (type === 'assignment') return <UserCheck className={`${className} text-cyan-400`} />;
+  return <StickyNote className={`${className} text-yellow-400`} />;
+}
+
+function describeActivity(activity: LeadActivity): string {
+  switch (activity.type) {
+    case 'call': {
+      const outcome = activity.call_outcome ? CALL_OUTCOME_LABELS[activity.call_outcome] : 'Call';
+      const minutes = activity.call_duration_seconds ? ` (${Math.round(activity.call_duration_seconds / 60)} min)` : '';
+      return `Call: ${outcome}${minutes}`;
+    }
+    case 'sms':
+      return activity.direction === 'inbound' ? 'SMS received' : 'SMS sent';
+    case 'email':
+      return activity.direction === 'inbound' ? 'Email received' : 'Email sent';
+    case 'status_change':
+      return activity.body || 'Status changed';
+    case 'assignment':
+      return activity.body || 'Owner changed';
+    default:
+      return 'Note';
+  }
+}
+
+function formatRelativeTime(timestamp: string): string {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
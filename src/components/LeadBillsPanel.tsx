@@ -0,0 +1,254 @@
+/**
+ * Lead Bills Panel Component
+ *
+ * Electric bills the lead uploaded, with the values read from them, on the
+ * CRM lead detail page. Bills come from /api/crm/bill-uploads (see
+ * src/lib/billUploads.ts).
+ *
+ * Features:
+ * - Account, service address, billing period, usage and charges per bill
+ * - Parsed / needs review status with the reason a bill needs review
+ * - Inline review form to correct values and mark the bill parsed
+ * - Download of the original file through the CRM, and its Google Drive copy
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { BILL_FIELD_LABELS, type BillField } from '@/lib/billParser';
+import type { BillUpload, BillUploadStatus } from '@/lib/billUploads';
+import { Download, ExternalLink, FileText } from 'lucide-react';
+
+interface LeadBillsPanelProps {
+  leadId: string;
+}
+
+const STATUS_STYLES: Record<BillUploadStatus, { label: string; className: string }> = {
+  received: { label: 'Processing', className: 'bg-gray-500' },
+  parsed: { label: 'Parsed', className: 'bg-green-600' },
+  needs_review: { label: 'Needs Review', className: 'bg-yellow-500' }
+};
+
+const REVIEW_FIELDS: { field: BillField; type: 'text' | 'date' | 'number'; step?: string }[] = [
+  { field: 'utility', type: 'text' },
+  { field: 'account_number', type: 'text' },
+  { field: 'service_address', type: 'text' },
+  { field: 'billing_period_start', type: 'date' },
+  { field: 'billing_period_end', type: 'date' },
+  { field: 'kwh_used', type: 'number', step: '1' },
+  { field: 'total_charges', type: 'number', step: '0.01' },
+  { field: 'supply_rate', type: 'number', step: '0.00001' },
+  { field: 'delivery_charges', type: 'number', step: '0.01' }
+];
+
+function formatBillValue(bill: BillUpload, field: BillField): string {
+  const value = bill[field];
+  if (value === null || value === undefined) return '—';
+
+  switch (field) {
+    case 'kwh_used':
+      return `${Number(value).toLocaleString()} kWh`;
+    case 'total_charges':
+    case 'delivery_charges':
+      return `$${Number(value).toFixed(2)}`;
+    case 'supply_rate':
+      return `$${Number(value).toFixed(5)}/kWh`;
+    case 'billing_period_start':
+    case 'billing_period_end':
+      return new Date(`${value}T12:00:00`).toLocaleDateString();
+    default:
+      return String(value);
+  }
+}
+
+export function LeadBillsPanel({ leadId }: LeadBillsPanelProps) {
+  const { can } = useCrmAccess();
+  const [bills, setBills] = useState<BillUpload[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBills = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/crm/bill-uploads?leadId=${leadId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setBills(data.bills || []);
+      }
+    } catch (error) {
+      console.error('Error loading bill uploads:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId]);
+
+  useEffect(() => {
+    loadBills();
+  }, [loadBills]);
+
+  const startReview = (bill: BillUpload) => {
+    setReviewingId(bill.id);
+    setError(null);
+    setDraft(Object.fromEntries(
+      REVIEW_FIELDS.map(({ field }) => [field, bill[field] === null ? '' : String(bill[field])])
+    ));
+  };
+
+  const saveReview = async () => {
+    if (!reviewingId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/crm/bill-uploads', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: reviewingId, values: draft })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setBills(prev => prev.map(bill => bill.id === data.bill.id ? data.bill : bill));
+        setReviewingId(null);
+      } else {
+        setError([data.error, ...(data.details || [])].filter(Boolean).join(': '));
+      }
+    } catch (error) {
+      console.error('Error saving bill review:', error);
+      setError('Failed to save bill values');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Electric Bills</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading bills...</p>
+        ) : bills.length === 0 ? (
+          <p className="text-gray-400 text-sm">No bills uploaded for this lead.</p>
+        ) : bills.map(bill => {
+          const status = STATUS_STYLES[bill.status] || STATUS_STYLES.received;
+          const isReviewing = reviewingId === bill.id;
+
+          return (
+            <div key={bill.id} className="border border-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="flex items-center text-gray-300">
+                  <FileText className="h-5 w-5 mr-2 text-blue-400" />
+                  <div>
+                    <p className="font-medium">{bill.original_name}</p>
+                    <p className="text-gray-500 text-xs">
+                      Uploaded {new Date(bill.created_at).toLocaleString()}
+                      {bill.extraction_method && ` · ${bill.extraction_method === 'ocr' ? 'OCR' : 'PDF text'}`}
+                      {bill.extraction_confidence !== null && ` (${Math.round(bill.extraction_confidence)}% confidence)`}
+                      {bill.reviewed_at && ` · Reviewed ${new Date(bill.reviewed_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge className={`${status.className} text-white`}>{status.label}</Badge>
+                  {(bill.object_key || bill.google_drive_id) && (
+                    <a
+                      href={`/api/crm/bill-uploads/download?id=${bill.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-white"
+                      aria-label="Download bill"
+                    >
+                      <Download className="h-4 w-4" />
+                    </a>
+                  )}
+                  {bill.file_url && bill.file_url.startsWith('https://') && (
+                    <a
+                      href={bill.file_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-white"
+                      aria-label="Open in Google Drive"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                </div>
+              </div>
+
+              {bill.status === 'needs_review' && bill.parse_notes && (
+                <p className="text-yellow-400 text-sm">{bill.parse_notes}</p>
+              )}
+
+              {isReviewing ? (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {REVIEW_FIELDS.map(({ field, type, step }) => (
+                      <label key={field} className="text-sm text-gray-400">
+                        {BILL_FIELD_LABELS[field]}
+                        <Input
+                          type={type}
+                          step={step}
+                          value={draft[field] ?? ''}
+                          onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                          className="mt-1 bg-gray-800 border-gray-600 text-white"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  {error && <p className="text-red-400 text-sm">{error}</p>}
+                  <div className="flex gap-2">
+                    <Button
+                      className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+                      onClick={saveReview}
+                      disabled={saving}
+                    >
+                      {saving ? 'Saving...' : 'Save & Mark Parsed'}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => setReviewingId(null)}
+                      disabled={saving}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                    {REVIEW_FIELDS.map(({ field }) => (
+                      <div key={field}>
+                        <p className="text-gray-500">{BILL_FIELD_LABELS[field]}</p>
+                        <p className="text-gray-300">{formatBillValue(bill, field)}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {can('leads:write') && bill.status !== 'received' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-gray-600 text-gray-300"
+                      onClick={() => startReview(bill)}
+                    >
+                      {bill.status === 'needs_review' ? 'Review Values' : 'Edit Values'}
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,7 @@
  * - Inspection documentation
  * 
  * Features:
+ * - Project picker (searches the CRM project list) unless a project is given
  * - Multiple photo upload with preview
  * - Project stage categorization
  * - GPS location capture
@@ -17,13 +18,14 @@
 
 "use client";
 
-import { useState, useRef } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import type { PhotoSubmissionType } from '@/lib/projectPhotos';
 import { 
   Upload, 
   Camera, 
@@ -32,7 +34,8 @@ import {
   FileImage,
   CheckCircle,
   AlertCircle,
-  Loader2
+  Loader2,
+  Search
 } from 'lucide-react';
 
 interface PhotoFile {
@@ -50,9 +53,16 @@ interface LocationData {
   accuracy?: number;
 }
 
+interface ProjectOption {
+  id: string;
+  customer_name: string;
+  address: string;
+}
+
 interface PhotoSubmissionFormProps {
+  // Without one, the technician picks the project
   projectId?: string;
-  submissionType: 'site_survey' | 'installation' | 'inspection';
+  submissionType: PhotoSubmissionType;
   onSubmissionComplete?: (data: {
     submissionId: string;
     photoCount: number;
@@ -116,6 +126,9 @@ export function PhotoSubmissionForm({
   const [uploading, setUploading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [location, setLocation] = useState<LocationData | null>(null);
+  const [selectedProject, setSelectedProject] = useState<ProjectOption | null>(null);
+  const [projectQuery, setProjectQuery] = useState('');
+  const [projectOptions, setProjectOptions] = useState<ProjectOption[]>([]);
   const [formData, setFormData] = useState({
     technician: '',
     notes: '',
@@ -126,6 +139,29 @@ export function PhotoSubmissionForm({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const config = submissionTypeConfig[submissionType];
+  const targetProjectId = projectId || selectedProject?.id;
+
+  // Search the projects this user can see
+  useEffect(() => {
+    if (projectId || selectedProject) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ limit: '10', status: 'active' });
+        if (projectQuery.trim()) params.set('q', projectQuery.trim());
+
+        const response = await fetch(`/api/crm/projects?${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setProjectOptions(data.data || []);
+        }
+      } catch (error) {
+        console.error('Error searching projects:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [projectId, selectedProject, projectQuery]);
 
   // Get current location
   const getCurrentLocation = () => {
@@ -187,6 +223,11 @@ export function PhotoSubmissionForm({
 
   // Handle form submission
   const handleSubmit = async () => {
+    if (!targetProjectId) {
+      alert('Please select a project');
+      return;
+    }
+
     if (photos.length < config.minPhotos) {
       alert(`Please upload at least ${config.minPhotos} photos`);
       return;
@@ -221,7 +262,7 @@ export function PhotoSubmissionForm({
 
       // Create FormData for file upload
       const uploadData = new FormData();
-      uploadData.append('projectId', projectId || '');
+      uploadData.append('projectId', targetProjectId);
       uploadData.append('submissionType', submissionType);
       uploadData.append('technician', formData.technician);
       uploadData.append('notes', formData.notes);
@@ -250,7 +291,14 @@ export function PhotoSubmissionForm({
       });
 
       if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        const messages: Record<number, string> = {
+          401: 'Please sign in to submit photos',
+          403: 'You do not have access to submit photos',
+          404: 'Project not found or not assigned to you',
+          429: errorData.details || 'Too many submissions, please try again later'
+        };
+        throw new Error(messages[response.status] || errorData.error || `Upload failed: ${response.statusText}`);
       }
 
       const result = await response.json();
@@ -263,7 +311,7 @@ export function PhotoSubmissionForm({
           submissionId: result.id,
           photoCount: photos.length,
           submissionType,
-          projectId
+          projectId: targetProjectId
         });
       }
 
@@ -348,6 +396,60 @@ export function PhotoSubmissionForm({
         </CardHeader>
 
         <CardContent className="space-y-6">
+          {/* Project */}
+          {!projectId && (
+            <div>
+              <Label htmlFor="project-search" className="text-white">Project *</Label>
+              {selectedProject ? (
+                <div className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+                  <div>
+                    <p className="text-white">{selectedProject.customer_name}</p>
+                    <p className="text-gray-400 text-sm">{selectedProject.address}</p>
+                  </div>
+                  <Button
+                    onClick={() => setSelectedProject(null)}
+                    variant="outline"
+                    size="sm"
+                    className="border-gray-600 text-gray-300"
+                  >
+                    Change
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="project-search"
+                      value={projectQuery}
+                      onChange={(e) => setProjectQuery(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white pl-9"
+                      placeholder="Search by customer, address or phone"
+                    />
+                  </div>
+                  {projectOptions.length > 0 ? (
+                    <ul className="max-h-48 overflow-y-auto rounded-lg border border-slate-600 divide-y divide-slate-700">
+                      {projectOptions.map(option => (
+                        <li key={option.id}>
+                          <button
+                            type="button"
+                            onClick={() => setSelectedProject(option)}
+                            className="w-full text-left px-3 py-2 hover:bg-slate-700/50"
+                          >
+                            <span className="text-white">{option.customer_name}</span>
+                            <span className="block text-gray-400 text-sm">{option.address}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-gray-500 text-sm">No matching projects</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Technician Info */}
           <div className="grid md:grid-cols-2 gap-4">
             <div>
@@ -505,6 +607,16 @@ export function PhotoSubmissionForm({
               )}
               Photo Requirements ({photos.length}/{config.minPhotos} minimum)
             </div>
+            {!projectId && (
+              <div className={`flex items-center gap-2 ${selectedProject ? 'text-green-400' : 'text-yellow-400'}`}>
+                {selectedProject ? (
+                  <CheckCircle className="h-4 w-4" />
+                ) : (
+                  <AlertCircle className="h-4 w-4" />
+                )}
+                Project
+              </div>
+            )}
             <div className={`flex items-center gap-2 ${formData.technician ? 'text-green-400' : 'text-yellow-400'}`}>
               {formData.technician ? (
                 <CheckCircle className="h-4 w-4" />
@@ -529,7 +641,7 @@ export function PhotoSubmissionForm({
             
             <Button
               onClick={handleSubmit}
-              disabled={uploading || photos.length < config.minPhotos || !formData.technician}
+              disabled={uploading || !targetProjectId || photos.length < config.minPhotos || !formData.technician}
               className="bg-[#ff0000] hover:bg-[#cc0000] ml-auto"
             >
               {uploading ? (
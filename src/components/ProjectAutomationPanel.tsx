@@ -0,0 +1,197 @@
+/**
+ * Project Automation Panel Component
+ *
+ * Follow-up tasks and automation log for a project. Data comes from
+ * /api/crm/project-automation (see src/lib/projectAutomation.ts).
+ *
+ * Features:
+ * - Open and done tasks with assignee and due date, overdue ones highlighted
+ * - Mark a task done or reopen it (project write access)
+ * - Every automation run: trigger, action, outcome, attempts and last error
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import type {
+  AutomationAction,
+  AutomationRun,
+  AutomationRunStatus,
+  AutomationTrigger,
+  ProjectTask
+} from '@/lib/projectAutomation';
+import { CheckSquare, RefreshCw, Square, Zap } from 'lucide-react';
+
+const TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  time_elapsed: 'Time in stage',
+  document_uploaded: 'Document uploaded',
+  photo_submission_completed: 'Photos submitted',
+  manual_advance: 'Stage entered'
+};
+
+const ACTION_LABELS: Record<AutomationAction, string> = {
+  send_sms: 'Text customer',
+  send_email: 'Email customer',
+  advance_stage: 'Advance stage',
+  create_task: 'Create task'
+};
+
+const RUN_STATUS_STYLES: Record<AutomationRunStatus, { label: string; className: string }> = {
+  running: { label: 'Running', className: 'bg-gray-500' },
+  succeeded: { label: 'Done', className: 'bg-green-600' },
+  skipped: { label: 'Skipped', className: 'bg-yellow-500' },
+  failed: { label: 'Failed', className: 'bg-red-600' }
+};
+
+function describeRun(run: AutomationRun): string | null {
+  const config = run.rule?.action_config;
+  if (!config) return null;
+  return config.template || config.title || null;
+}
+
+export function ProjectAutomationPanel({ projectId }: { projectId: string }) {
+  const { can } = useCrmAccess();
+  const [runs, setRuns] = useState<AutomationRun[]>([]);
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingTaskId, setUpdatingTaskId] = useState<string | null>(null);
+
+  const loadAutomation = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/crm/project-automation?projectId=${projectId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(data.runs || []);
+        setTasks(data.tasks || []);
+      }
+    } catch (error) {
+      console.error('Error loading project automation:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadAutomation();
+  }, [loadAutomation]);
+
+  const toggleTask = async (task: ProjectTask) => {
+    setUpdatingTaskId(task.id);
+    try {
+      const response = await fetch('/api/crm/project-automation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId: task.id, status: task.status === 'done' ? 'open' : 'done' })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(current => current.map(row => row.id === task.id ? data.task : row));
+      }
+    } catch (error) {
+      console.error('Error updating task:', error);
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white">Tasks &amp; Automation</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-gray-600 text-gray-300"
+          onClick={loadAutomation}
+          disabled={loading}
+          aria-label="Refresh automation"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-400">Tasks</h3>
+          {tasks.length === 0 ? (
+            <p className="text-gray-500 text-sm">No tasks.</p>
+          ) : (
+            <ul className="space-y-2">
+              {tasks.map(task => {
+                const done = task.status === 'done';
+                const overdue = !done && !!task.due_date && task.due_date < today;
+
+                return (
+                  <li key={task.id} className="flex items-start gap-3 border border-gray-700 rounded-lg p-3">
+                    <button
+                      type="button"
+                      onClick={() => toggleTask(task)}
+                      disabled={!can('projects:write') || updatingTaskId === task.id}
+                      className="mt-0.5 text-gray-400 hover:text-white disabled:opacity-50"
+                      aria-label={done ? 'Reopen task' : 'Mark task done'}
+                    >
+                      {done ? <CheckSquare className="h-4 w-4 text-green-500" /> : <Square className="h-4 w-4" />}
+                    </button>
+                    <div className="text-sm">
+                      <p className={done ? 'text-gray-500 line-through' : 'text-gray-200'}>{task.title}</p>
+                      {task.description && <p className="text-gray-400 text-xs mt-1">{task.description}</p>}
+                      <p className={`text-xs mt-1 ${overdue ? 'text-red-400' : 'text-gray-500'}`}>
+                        {task.assigned_to || 'Unassigned'}
+                        {task.due_date && ` · due ${new Date(`${task.due_date}T12:00:00`).toLocaleDateString()}`}
+                        {task.automation_rule_id && ' · from automation'}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-400">Automation Log</h3>
+          {loading && runs.length === 0 ? (
+            <p className="text-gray-400 text-sm">Loading automation...</p>
+          ) : runs.length === 0 ? (
+            <p className="text-gray-500 text-sm">No automation has run for this project yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map(run => {
+                const status = RUN_STATUS_STYLES[run.status];
+                const detail = describeRun(run);
+                const reason = typeof run.result?.reason === 'string' ? run.result.reason : null;
+
+                return (
+                  <li key={run.id} className="border border-gray-700 rounded-lg p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center text-gray-300">
+                        <Zap className="h-4 w-4 mr-2 text-yellow-400" />
+                        {ACTION_LABELS[run.action_type]}
+                        {detail && <span className="ml-1 text-gray-500">({detail.replace(/_/g, ' ')})</span>}
+                      </div>
+                      <Badge className={`${status.className} text-white`}>{status.label}</Badge>
+                    </div>
+                    <p className="text-gray-500 text-xs mt-1">
+                      {TRIGGER_LABELS[run.trigger_condition]}
+                      {' · '}{new Date(run.completed_at || run.created_at).toLocaleString()}
+                      {run.attempts > 1 && ` · attempt ${run.attempts} of ${run.max_attempts}`}
+                    </p>
+                    {reason && <p className="text-yellow-400 text-xs mt-1">{reason}</p>}
+                    {run.last_error && <p className="text-red-400 text-xs mt-1">{run.last_error}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
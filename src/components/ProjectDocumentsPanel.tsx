@@ -0,0 +1,242 @@
+/**
+ * Project Documents Panel Component
+ *
+ * Contracts, permits, interconnection agreements, PTO letters and other
+ * paperwork for a project. Data comes from /api/crm/project-documents (see
+ * src/lib/projectDocuments.ts).
+ *
+ * Features:
+ * - Documents with type, size, upload date and notes; open or download
+ * - Upload a PDF or image as a document type (project write access)
+ * - Delete a document (project write access)
+ * - Documents still required before the project can leave its current stage
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import { DOCUMENT_TYPE_LABELS, getDocumentTypeLabel, type Pipeline } from '@/lib/pipelines';
+import type { ProjectDocument } from '@/lib/projectDocuments';
+import { AlertTriangle, Download, FileText, Trash2, Upload } from 'lucide-react';
+
+interface ProjectDocumentsPanelProps {
+  projectId: string;
+  pipeline: Pipeline | null;
+  // Missing documents are reloaded when the project changes stage
+  currentStage: number;
+}
+
+const selectClassName = 'h-9 rounded-md border border-gray-600 bg-gray-800 px-2 text-sm text-gray-200';
+
+function formatFileSize(bytes: number | null): string {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ProjectDocumentsPanel({ projectId, pipeline, currentStage }: ProjectDocumentsPanelProps) {
+  const { can } = useCrmAccess();
+  const [documents, setDocuments] = useState<ProjectDocument[]>([]);
+  const [missingDocuments, setMissingDocuments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [documentType, setDocumentType] = useState('');
+  const [notes, setNotes] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/crm/project-documents?projectId=${projectId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDocuments(data.documents || []);
+        setMissingDocuments(data.missingDocuments || []);
+      }
+    } catch (error) {
+      console.error('Error loading project documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments, currentStage]);
+
+  // Types the pipeline requires first, then the other known types
+  const typeOptions = useMemo(() => {
+    const required = pipeline ? pipeline.stages.flatMap(stage => stage.required_documents) : [];
+    return [...new Set([...required, ...Object.keys(DOCUMENT_TYPE_LABELS)])];
+  }, [pipeline]);
+
+  const selectedType = documentType || missingDocuments[0] || typeOptions[0] || 'other';
+
+  const uploadDocument = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('projectId', projectId);
+      formData.append('documentType', selectedType);
+      formData.append('notes', notes);
+      formData.append('file', file);
+
+      const response = await fetch('/api/crm/project-documents', { method: 'POST', body: formData });
+
+      if (response.ok) {
+        setFile(null);
+        setNotes('');
+        setDocumentType('');
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        await loadDocuments();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to upload document');
+      }
+    } catch (error) {
+      console.error('Error uploading project document:', error);
+      setError('Failed to upload document');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const deleteDocument = async (document: ProjectDocument) => {
+    if (!window.confirm(`Delete ${document.document_name}?`)) return;
+
+    try {
+      const response = await fetch(`/api/crm/project-documents?id=${document.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        await loadDocuments();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to delete document');
+      }
+    } catch (error) {
+      console.error('Error deleting project document:', error);
+      alert('Failed to delete document');
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Documents</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missingDocuments.length > 0 && (
+          <div className="flex items-start text-sm text-yellow-400 border border-yellow-900 rounded-lg p-3">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              Required before leaving this stage: {missingDocuments.map(getDocumentTypeLabel).join(', ')}
+            </span>
+          </div>
+        )}
+
+        {loading && documents.length === 0 ? (
+          <p className="text-gray-400 text-sm">Loading documents...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-gray-400 text-sm">No documents uploaded yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {documents.map(document => (
+              <li key={document.id} className="flex items-start justify-between gap-3 border border-gray-700 rounded-lg p-3">
+                <div className="flex items-start text-sm min-w-0">
+                  <FileText className="h-4 w-4 mr-2 mt-0.5 text-blue-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-gray-200 truncate">{document.document_name}</p>
+                    <p className="text-gray-500 text-xs">
+                      {getDocumentTypeLabel(document.document_type)}
+                      {document.file_size ? ` · ${formatFileSize(document.file_size)}` : ''}
+                      {' · '}{new Date(document.uploaded_at).toLocaleDateString()}
+                    </p>
+                    {document.notes && <p className="text-gray-400 text-xs mt-1">{document.notes}</p>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {document.object_key && (
+                    <>
+                      <a
+                        href={`/api/crm/project-documents/download?id=${document.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-400 hover:underline"
+                      >
+                        Open
+                      </a>
+                      <a
+                        href={`/api/crm/project-documents/download?id=${document.id}&download=1`}
+                        className="text-gray-400 hover:text-white"
+                        aria-label={`Download ${document.document_name}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </>
+                  )}
+                  {can('projects:write') && (
+                    <button
+                      type="button"
+                      onClick={() => deleteDocument(document)}
+                      className="text-gray-400 hover:text-red-400"
+                      aria-label={`Delete ${document.document_name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {can('projects:write') && (
+          <div className="space-y-3 border-t border-gray-700 pt-4">
+            <div className="flex flex-wrap gap-3">
+              <select
+                value={selectedType}
+                onChange={(e) => setDocumentType(e.target.value)}
+                className={selectClassName}
+                aria-label="Document type"
+              >
+                {typeOptions.map(type => (
+                  <option key={type} value={type}>{getDocumentTypeLabel(type)}</option>
+                ))}
+              </select>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf,image/jpeg,image/png,image/webp"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="text-sm text-gray-300 file:mr-3 file:rounded-md file:border-0 file:bg-gray-700 file:px-3 file:py-1.5 file:text-gray-200"
+              />
+            </div>
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional)"
+              className="bg-gray-800 border-gray-600 text-white"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <Button
+              onClick={uploadDocument}
+              disabled={uploading || !file}
+              className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload Document'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -108,10 +108,13 @@ export function ProjectImporter() {
         });
       } else {
         console.error('❌ Import failed:', data);
+        // Auth and rate limit errors carry a string in details
         setResult({
           success: false,
-          message: data.error || 'Import failed',
-          details: data.details
+          message: typeof data.details === 'string'
+            ? `${data.error || 'Import failed'}: ${data.details}`
+            : data.error || 'Import failed',
+          details: typeof data.details === 'object' ? data.details : undefined
         });
       }
     } catch (error) {
@@ -0,0 +1,220 @@
+/**
+ * Project Photo Gallery Component
+ *
+ * A project's photo history grouped by the lifecycle stage each photo was
+ * taken in. Data comes from /api/crm/project-photos (see
+ * src/lib/projectPhotos.ts).
+ *
+ * Features:
+ * - One section per pipeline stage, in pipeline order
+ * - Lightbox with previous / next navigation
+ * - Map pin for photos taken with a GPS fix
+ */
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import type { Pipeline } from '@/lib/pipelines';
+import type { ProjectPhoto } from '@/lib/projectPhotos';
+import { ChevronLeft, ChevronRight, MapPin } from 'lucide-react';
+
+interface ProjectPhotoGalleryProps {
+  projectId: string;
+  pipeline: Pipeline | null;
+  // Changed by the page after a new submission, to reload the photos
+  refreshKey?: number;
+}
+
+interface StageSection {
+  key: string;
+  title: string;
+  photos: ProjectPhoto[];
+}
+
+const PHOTO_TYPE_LABELS: Record<string, string> = {
+  site_survey: 'Site Survey',
+  installation: 'Installation',
+  inspection: 'Inspection'
+};
+
+function getMapEmbedUrl(latitude: number, longitude: number): string {
+  const delta = 0.002;
+  const bbox = [longitude - delta, latitude - delta, longitude + delta, latitude + delta].join(',');
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`;
+}
+
+export function ProjectPhotoGallery({ projectId, pipeline, refreshKey }: ProjectPhotoGalleryProps) {
+  const [photos, setPhotos] = useState<ProjectPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const loadPhotos = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/crm/project-photos?projectId=${projectId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPhotos(data.photos || []);
+      }
+    } catch (error) {
+      console.error('Error loading project photos:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadPhotos();
+  }, [loadPhotos, refreshKey]);
+
+  const sections = useMemo(() => {
+    const result: StageSection[] = [];
+    const stages = pipeline?.stages || [];
+
+    for (const stage of stages) {
+      const stagePhotos = photos.filter(photo => photo.stage_id === stage.id);
+      if (stagePhotos.length > 0) {
+        result.push({ key: String(stage.id), title: `${stage.stage_number}. ${stage.name}`, photos: stagePhotos });
+      }
+    }
+
+    // Photos from before stage tagging, or from a stage of another pipeline
+    const stageIds = new Set(stages.map(stage => stage.id));
+    const untagged = photos.filter(photo => photo.stage_id === null || !stageIds.has(photo.stage_id));
+    if (untagged.length > 0) {
+      result.push({ key: 'other', title: 'Other Photos', photos: untagged });
+    }
+
+    return result;
+  }, [photos, pipeline]);
+
+  // Lightbox navigation follows the on-screen order
+  const orderedPhotos = useMemo(() => sections.flatMap(section => section.photos), [sections]);
+  const openPhoto = openIndex !== null ? orderedPhotos[openIndex] : null;
+
+  const showPhoto = (offset: number) => {
+    if (openIndex === null || orderedPhotos.length === 0) return;
+    setOpenIndex((openIndex + offset + orderedPhotos.length) % orderedPhotos.length);
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">Photos</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && photos.length === 0 ? (
+          <p className="text-gray-400 text-sm">Loading photos...</p>
+        ) : sections.length === 0 ? (
+          <p className="text-gray-400 text-sm">No photos submitted yet.</p>
+        ) : (
+          sections.map(section => (
+            <div key={section.key}>
+              <h3 className="text-sm font-medium text-gray-300 mb-2">
+                {section.title}
+                <span className="ml-2 text-gray-500">({section.photos.length})</span>
+              </h3>
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                {section.photos.map(photo => (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    onClick={() => setOpenIndex(orderedPhotos.indexOf(photo))}
+                    className="relative aspect-square overflow-hidden rounded-md border border-gray-700 hover:border-gray-500"
+                  >
+                    <img
+                      src={photo.url}
+                      alt={photo.caption || 'Project photo'}
+                      loading="lazy"
+                      className="h-full w-full object-cover"
+                    />
+                    {photo.gps_latitude !== null && photo.gps_longitude !== null && (
+                      <MapPin className="absolute bottom-1 right-1 h-4 w-4 text-white drop-shadow" aria-label="Has location" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={openPhoto !== null} onOpenChange={(open) => { if (!open) setOpenIndex(null); }}>
+        <DialogContent className="bg-gray-900 border-gray-700 text-white max-w-4xl">
+          {openPhoto && (
+            <div className="space-y-4">
+              <DialogTitle>{openPhoto.caption || 'Project photo'}</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                {PHOTO_TYPE_LABELS[openPhoto.photo_type] || openPhoto.photo_type}
+                {openPhoto.taken_by ? ` · ${openPhoto.taken_by}` : ''}
+                {' · '}{new Date(openPhoto.taken_at).toLocaleString()}
+              </DialogDescription>
+
+              <div className="relative flex items-center justify-center bg-black rounded-md">
+                <img
+                  src={openPhoto.url}
+                  alt={openPhoto.caption || 'Project photo'}
+                  className="max-h-[60vh] w-auto object-contain"
+                />
+                {orderedPhotos.length > 1 && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => showPhoto(-1)}
+                      className="absolute left-2 text-white"
+                      aria-label="Previous photo"
+                    >
+                      <ChevronLeft className="h-6 w-6" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => showPhoto(1)}
+                      className="absolute right-2 text-white"
+                      aria-label="Next photo"
+                    >
+                      <ChevronRight className="h-6 w-6" />
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {openPhoto.gps_latitude !== null && openPhoto.gps_longitude !== null ? (
+                <div className="space-y-2">
+                  <iframe
+                    title="Photo location"
+                    src={getMapEmbedUrl(openPhoto.gps_latitude, openPhoto.gps_longitude)}
+                    className="h-48 w-full rounded-md border border-gray-700"
+                    loading="lazy"
+                  />
+                  <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <Badge variant="outline" className="border-gray-600 text-gray-300">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {openPhoto.gps_latitude.toFixed(5)}, {openPhoto.gps_longitude.toFixed(5)}
+                    </Badge>
+                    {openPhoto.gps_accuracy_m !== null && <span>±{Math.round(openPhoto.gps_accuracy_m)} m</span>}
+                    <a
+                      href={`https://www.google.com/maps?q=${openPhoto.gps_latitude},${openPhoto.gps_longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:underline"
+                    >
+                      Open in Maps
+                    </a>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">No location recorded for this photo.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
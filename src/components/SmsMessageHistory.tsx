@@ -0,0 +1,198 @@
+/**
+ * SMS Message History Component
+ *
+ * Text conversation with a lead or a project's customer: outbound texts
+ * with the delivery status reported by Twilio, and the customer's replies.
+ * Messages come from /api/crm/sms-messages (see src/lib/smsQueue.ts and
+ * src/lib/smsConversations.ts).
+ *
+ * Features:
+ * - Inbound replies and outbound texts in one thread
+ * - Pending / queued / sent / delivered / failed / undelivered status
+ * - Retry count and the last error for messages that did not go through
+ * - Reply box, disabled when the number has opted out (STOP)
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useCrmAccess } from '@/components/CrmAccessProvider';
+import type { SmsMessage, SmsMessageStatus } from '@/lib/smsQueue';
+import type { SmsConversation } from '@/lib/smsConversations';
+import { Ban, MessageSquare, RefreshCw } from 'lucide-react';
+
+type SmsMessageHistoryProps = { leadId: string; projectId?: never } | { projectId: string; leadId?: never };
+
+const STATUS_STYLES: Record<SmsMessageStatus, { label: string; className: string }> = {
+  pending: { label: 'Retrying', className: 'bg-yellow-500' },
+  sending: { label: 'Sending', className: 'bg-gray-500' },
+  queued: { label: 'Queued', className: 'bg-gray-500' },
+  sent: { label: 'Sent', className: 'bg-blue-600' },
+  delivered: { label: 'Delivered', className: 'bg-green-600' },
+  failed: { label: 'Failed', className: 'bg-red-600' },
+  undelivered: { label: 'Undelivered', className: 'bg-red-600' },
+  received: { label: 'Reply', className: 'bg-purple-600' }
+};
+
+export function SmsMessageHistory({ leadId, projectId }: SmsMessageHistoryProps) {
+  const { can } = useCrmAccess();
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+  const [conversations, setConversations] = useState<SmsConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMessages = useCallback(async () => {
+    setLoading(true);
+    try {
+      const query = leadId ? `leadId=${leadId}` : `projectId=${projectId}`;
+      const response = await fetch(`/api/crm/sms-messages?${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setMessages(data.messages || []);
+        setConversations(data.conversations || []);
+      }
+    } catch (error) {
+      console.error('Error loading SMS messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [leadId, projectId]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  // Replies go to the most recently active number
+  const conversation = conversations[0] || null;
+
+  const sendReply = async () => {
+    if (!conversation || !reply.trim()) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/integrations/twilio', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to: conversation.phone_number,
+          message: reply.trim(),
+          type: 'reply',
+          leadId: leadId || conversation.lead_id,
+          projectId: projectId || conversation.project_id
+        })
+      });
+
+      if (response.ok) {
+        setReply('');
+        await loadMessages();
+      } else {
+        const data = await response.json();
+        setError(data.error || 'Failed to send reply');
+      }
+    } catch (error) {
+      console.error('Error sending SMS reply:', error);
+      setError('Failed to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-white">Text Messages</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-gray-600 text-gray-300"
+          onClick={loadMessages}
+          disabled={loading}
+          aria-label="Refresh messages"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {conversations.filter(thread => thread.opted_out).map(thread => (
+          <div key={thread.id} className="flex items-center text-sm text-red-400 border border-red-900 rounded-lg p-3">
+            <Ban className="h-4 w-4 mr-2" />
+            {thread.phone_number} opted out of texts
+            {thread.opted_out_at && ` on ${new Date(thread.opted_out_at).toLocaleDateString()}`}
+            {thread.last_keyword && ` (replied ${thread.last_keyword})`}
+          </div>
+        ))}
+
+        {loading && messages.length === 0 ? (
+          <p className="text-gray-400 text-sm">Loading messages...</p>
+        ) : messages.length === 0 ? (
+          <p className="text-gray-400 text-sm">No text messages yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {messages.map(message => {
+              const status = STATUS_STYLES[message.status];
+              const inbound = message.direction === 'inbound';
+
+              return (
+                <li
+                  key={message.id}
+                  className={`border rounded-lg p-3 ${inbound ? 'border-purple-800 bg-purple-950/20 mr-8' : 'border-gray-700 ml-8'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center text-gray-500 text-xs">
+                      <MessageSquare className={`h-4 w-4 mr-2 ${inbound ? 'text-purple-400' : 'text-blue-400'}`} />
+                      {new Date(message.created_at).toLocaleString()}
+                      {' · '}{message.message_type.replace(/_/g, ' ')}
+                      {' · '}{inbound ? `from ${message.from_number}` : `to ${message.to_number}`}
+                    </div>
+                    <Badge className={`${status.className} text-white`}>{status.label}</Badge>
+                  </div>
+                  <p className="text-gray-300 text-sm mt-2 whitespace-pre-wrap">{message.body}</p>
+                  {(message.status === 'pending' || message.status === 'failed' || message.status === 'undelivered') && (
+                    <p className="text-red-400 text-xs mt-2">
+                      {message.attempts} of {message.max_attempts} attempts
+                      {message.status === 'pending' && ` · next try ${new Date(message.next_attempt_at).toLocaleTimeString()}`}
+                      {message.last_error && ` · ${message.last_error}`}
+                      {message.error_code && ` (Twilio ${message.error_code})`}
+                    </p>
+                  )}
+                  {message.delivered_at && (
+                    <p className="text-gray-500 text-xs mt-2">Delivered {new Date(message.delivered_at).toLocaleString()}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {can('messages:send') && conversation && !conversation.opted_out && (
+          <div className="space-y-2">
+            <Textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              rows={2}
+              placeholder={`Reply to ${conversation.phone_number}`}
+              className="bg-gray-800 border-gray-600 text-gray-200"
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex justify-end">
+              <Button
+                onClick={sendReply}
+                disabled={sending || !reply.trim()}
+                className="bg-[#ff0000] hover:bg-[#cc0000] text-white"
+              >
+                {sending ? 'Sending...' : 'Send'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * Speed-to-Lead Widget Component
+ *
+ * First touch SLA status for the CRM dashboard. Data comes from
+ * /api/crm/lead-sla (see src/lib/leadSla.ts).
+ *
+ * Features:
+ * - New leads at risk of or past their first touch SLA, soonest due first,
+ *   with owner and time waited; click through to the lead
+ * - Each rep's average response time and share of SLAs met over 30 days
+ * - Refreshes every minute
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { SlaReport } from '@/lib/leadSla';
+import { Timer } from 'lucide-react';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+}
+
+export function SpeedToLeadWidget() {
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/lead-sla');
+      if (response.ok) {
+        const data = await response.json();
+        setReport(data.report);
+      }
+    } catch (error) {
+      console.error('Error loading speed-to-lead report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+    const interval = setInterval(loadReport, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadReport]);
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Timer className="h-5 w-5 text-[#ff0000]" />
+          <CardTitle className="text-white">Speed to Lead</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-400">Loading response times...</p>
+        ) : !report ? (
+          <p className="text-sm text-gray-400">Response times are unavailable.</p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-300">Leads at risk ({report.at_risk.length})</h3>
+              {report.at_risk.length === 0 ? (
+                <p className="text-sm text-gray-500">Every new lead is on track.</p>
+              ) : (
+                report.at_risk.map(lead => (
+                  <Link
+                    key={lead.lead_id}
+                    href={`/crm/leads/${lead.lead_id}`}
+                    className="flex items-center justify-between gap-3 rounded-md border border-gray-700 px-3 py-2 text-sm hover:bg-gray-800"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-white">{lead.name}</p>
+                      <p className="truncate text-gray-500">{lead.owner_name || 'Unassigned'}</p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span className="text-gray-400">
+                        {formatMinutes(lead.elapsed_minutes)} / {formatMinutes(lead.target_minutes)}
+                      </span>
+                      <Badge className={lead.status === 'breached' ? 'bg-red-600' : 'bg-yellow-500'}>
+                        {lead.status === 'breached' ? 'Breached' : 'At risk'}
+                      </Badge>
+                    </div>
+                  </Link>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-300">Average response time (30 days)</h3>
+              {report.reps.length === 0 ? (
+                <p className="text-sm text-gray-500">No leads in the last 30 days.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 font-normal">Rep</th>
+                      <th className="py-1 font-normal">Touched</th>
+                      <th className="py-1 font-normal">Average</th>
+                      <th className="py-1 font-normal">SLA met</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.reps.map(rep => (
+                      <tr key={rep.owner_id || 'unassigned'} className="border-t border-gray-800 text-gray-300">
+                        <td className="py-1">{rep.name}</td>
+                        <td className="py-1">{rep.touched} / {rep.leads}</td>
+                        <td className="py-1">
+                          {rep.average_response_minutes === null ? '—' : formatMinutes(rep.average_response_minutes)}
+                        </td>
+                        <td className="py-1">{rep.met_rate === null ? '—' : `${Math.round(rep.met_rate * 100)}%`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
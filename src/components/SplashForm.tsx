@@ -8,7 +8,7 @@
  * - 13 sequential form steps with slide animations
  * - TCPA consent at step 4 (after phone number) for abandoned lead compliance
  * - Real-time validation and error handling
- * - Conditional disqualification logic
+ * - Qualification rules checked on the server after each qualifying answer
  * - Incremental data persistence to prevent data loss
  * - Mobile-first responsive design
  * - Accessibility compliant
@@ -21,6 +21,8 @@ import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
 import { trackLeadEvent } from "@/lib/fbPixel";
 import { trackFormSubmission, trackLead, trackConversion } from "@/lib/gtm";
+import { LEAD_REFERENCE_STORAGE_KEY } from "@/lib/leadSession";
+import { isQualifyingFormField, requestLeadQualification } from "@/lib/leadQualification";
 
 // Generate unique session ID with QSLID convention
 const generateSessionId = (): string => {
@@ -254,6 +256,7 @@ export function SplashForm() {
         body: JSON.stringify({
           ...formData,
           sessionId,
+          formVariant: 'standard',
           isPartial: true,
           currentStep,
           sendEmailNotification: sendEmail,
@@ -277,17 +280,28 @@ export function SplashForm() {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       // Only send abandonment email if user has consented and provided contact info
       if (formData.tcpaConsent && formData.phone && currentStep > 3) {
-        fetch('/api/splash-leads', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            ...formData,
-            sessionId,
-            isPartial: true,
-            sendEmailNotification: true,
-            timestamp: new Date().toISOString()
-          })
-        }).catch(console.error);
+        const payload = JSON.stringify({
+          ...formData,
+          sessionId,
+          formVariant: 'standard',
+          isPartial: true,
+          currentStep,
+          sendEmailNotification: true,
+          timestamp: new Date().toISOString()
+        });
+
+        // sendBeacon survives the page unloading; fall back to a keepalive fetch
+        const beaconSent = typeof navigator.sendBeacon === 'function' &&
+          navigator.sendBeacon('/api/splash-leads', new Blob([payload], { type: 'application/json' }));
+
+        if (!beaconSent) {
+          fetch('/api/splash-leads', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: payload,
+            keepalive: true
+          }).catch(console.error);
+        }
         
         e.preventDefault();
         e.returnValue = '';
@@ -307,15 +321,6 @@ export function SplashForm() {
     }
   }, [formData, sessionId, currentStep, saveToLocalStorage]);
 
-  // Check if current step disqualifies the user (homeowner status only)
-  const checkDisqualification = (step: FormStep, value: string) => {
-    if (step.field === 'homeownerStatus' && value === 'no') {
-      return 'Not a homeowner';
-    }
-    // Credit score and shading restrictions removed - these leads are now accepted
-    return null;
-  };
-
   // Get current step info - handle consent step specially
   const getCurrentStepInfo = () => {
     if (currentStep === 3) {
@@ -391,15 +396,13 @@ export function SplashForm() {
     
     const { isConsentStep, step } = getCurrentStepInfo();
     
-    // Check for disqualification (homeowner status only)
-    if (!isConsentStep && step) {
-      const currentValue = formData[step.field] as string;
-      const disqualificationReason = checkDisqualification(step, currentValue);
+    // Check the answers so far against the server's qualification rules
+    if (!isConsentStep && step && isQualifyingFormField(step.field)) {
+      // Set loading state to prevent multiple submissions
+      setIsAnimating(true);
+      const qualification = await requestLeadQualification({ ...formData });
       
-      if (disqualificationReason) {
-        // Set loading state to prevent multiple submissions
-        setIsAnimating(true);
-        
+      if (qualification?.status === 'disqualified') {
         // Send disqualified lead notification
         try {
           await fetch('/api/disqualified-leads', {
@@ -408,7 +411,6 @@ export function SplashForm() {
             body: JSON.stringify({
               ...formData,
               sessionId,
-              disqualificationReason,
               timestamp: new Date().toISOString()
             })
           });
@@ -463,6 +465,7 @@ export function SplashForm() {
         body: JSON.stringify({
           ...formData,
           sessionId,
+          formVariant: 'standard',
           isPartial: false,
           sendEmailNotification: true,
           completedAt: new Date().toISOString()
@@ -509,6 +512,12 @@ export function SplashForm() {
         });
       }
       
+      // Keep the lead reference so the thank-you page can attach bill uploads and appointments
+      sessionStorage.setItem(LEAD_REFERENCE_STORAGE_KEY, JSON.stringify({
+        leadId: responseData.leadId,
+        sessionId
+      }));
+
       // Clear saved data
       localStorage.removeItem('quantumSolarSplashForm');
       router.push('/state-promotions/illinois/ameren-il/thank-you');
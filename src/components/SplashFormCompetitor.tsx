@@ -9,7 +9,7 @@
  * - Soft intent questions first (ZIP, utility, bill amount) before personal info
  * - TCPA consent after phone number for abandoned lead compliance
  * - Real-time validation and error handling
- * - Conditional disqualification logic
+ * - Qualification rules checked on the server after each qualifying answer
  * - Incremental data persistence to prevent data loss
  * - Mobile-first responsive design
  * - Accessibility compliant
@@ -24,6 +24,8 @@ import { Slider } from "@/components/ui/slider";
 import { useRouter } from "next/navigation";
 import { trackLeadEvent } from "@/lib/fbPixel";
 import { trackFormSubmission, trackLead, trackConversion } from "@/lib/gtm";
+import { LEAD_REFERENCE_STORAGE_KEY } from "@/lib/leadSession";
+import { isQualifyingFormField, requestLeadQualification } from "@/lib/leadQualification";
 
 // Generate unique session ID with QSLID convention
 const generateSessionId = (): string => {
@@ -283,6 +285,7 @@ export function SplashFormCompetitor() {
         body: JSON.stringify({
           ...formData,
           sessionId,
+          formVariant: 'competitor',
           isPartial: true,
           currentStep,
           sendEmailNotification: sendEmail,
@@ -306,17 +309,28 @@ export function SplashFormCompetitor() {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
       // Only send abandonment email if user has consented and provided contact info
       if (formData.tcpaConsent && formData.phone && currentStep > 10) {
-        fetch('/api/splash-leads', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            ...formData,
-            sessionId,
-            isPartial: true,
-            sendEmailNotification: true,
-            timestamp: new Date().toISOString()
-          })
-        }).catch(console.error);
+        const payload = JSON.stringify({
+          ...formData,
+          sessionId,
+          formVariant: 'competitor',
+          isPartial: true,
+          currentStep,
+          sendEmailNotification: true,
+          timestamp: new Date().toISOString()
+        });
+
+        // sendBeacon survives the page unloading; fall back to a keepalive fetch
+        const beaconSent = typeof navigator.sendBeacon === 'function' &&
+          navigator.sendBeacon('/api/splash-leads', new Blob([payload], { type: 'application/json' }));
+
+        if (!beaconSent) {
+          fetch('/api/splash-leads', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: payload,
+            keepalive: true
+          }).catch(console.error);
+        }
         
         e.preventDefault();
         e.returnValue = '';
@@ -336,15 +350,6 @@ export function SplashFormCompetitor() {
     }
   }, [formData, sessionId, currentStep, saveToLocalStorage]);
 
-  // Check if current step disqualifies the user (homeowner status only)
-  const checkDisqualification = (step: FormStep, value: string | number) => {
-    if (step.field === 'homeownerStatus' && value === 'no') {
-      return 'Not a homeowner';
-    }
-    // Credit score and shading restrictions removed - these leads are now accepted
-    return null;
-  };
-
   // Get current step info - handle consent step specially
   const getCurrentStepInfo = () => {
     if (currentStep === 10) {
@@ -422,39 +427,33 @@ export function SplashFormCompetitor() {
     
     const { isConsentStep, step } = getCurrentStepInfo();
     
-    // Check for disqualification (homeowner status only)
-    if (!isConsentStep && step) {
-      const currentValue = formData[step.field];
-      // Only check disqualification for string/number fields, not boolean fields
-      if (typeof currentValue === 'string' || typeof currentValue === 'number') {
-        const disqualificationReason = checkDisqualification(step, currentValue);
-        
-        if (disqualificationReason) {
-          // Set loading state to prevent multiple submissions
-          setIsAnimating(true);
-          
-          // Send disqualified lead notification
-          try {
-            await fetch('/api/disqualified-leads', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                ...formData,
-                sessionId,
-                disqualificationReason,
-                timestamp: new Date().toISOString()
-              })
-            });
-          } catch (error) {
-            console.error('Failed to send disqualified lead notification:', error);
-          }
-          
-          // Ensure redirect happens after API call
-          setTimeout(() => {
-            router.push('/state-promotions/illinois/ameren-il/disqualified');
-          }, 500);
-          return;
+    // Check the answers so far against the server's qualification rules
+    if (!isConsentStep && step && isQualifyingFormField(step.field)) {
+      // Set loading state to prevent multiple submissions
+      setIsAnimating(true);
+      const qualification = await requestLeadQualification({ ...formData });
+      
+      if (qualification?.status === 'disqualified') {
+        // Send disqualified lead notification
+        try {
+          await fetch('/api/disqualified-leads', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...formData,
+              sessionId,
+              timestamp: new Date().toISOString()
+            })
+          });
+        } catch (error) {
+          console.error('Failed to send disqualified lead notification:', error);
         }
+        
+        // Ensure redirect happens after API call
+        setTimeout(() => {
+          router.push('/state-promotions/illinois/ameren-il/disqualified');
+        }, 500);
+        return;
       }
     }
     
@@ -497,6 +496,7 @@ export function SplashFormCompetitor() {
         body: JSON.stringify({
           ...formData,
           sessionId,
+          formVariant: 'competitor',
           isPartial: false,
           sendEmailNotification: true,
           completedAt: new Date().toISOString()
@@ -545,6 +545,12 @@ export function SplashFormCompetitor() {
         });
       }
       
+      // Keep the lead reference so the thank-you page can attach bill uploads and appointments
+      sessionStorage.setItem(LEAD_REFERENCE_STORAGE_KEY, JSON.stringify({
+        leadId: responseData.leadId,
+        sessionId
+      }));
+
       // Clear saved data
       localStorage.removeItem('quantumSolarSplashFormCompetitor');
       router.push('/state-promotions/illinois/ameren-il/thank-you');
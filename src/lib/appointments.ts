@@ -0,0 +1,483 @@
+/**
+ * Appointments
+ *
+ * Solar consultation appointments stored in the appointments table. A
+ * customer's preferred date and time from the thank-you page creates a
+ * requested appointment; reps schedule it, assign a sales rep, confirm it
+ * and record the outcome. Customers are texted when an appointment is
+ * confirmed and 24 hours before it starts.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client; the pure helpers are also used by CRM pages.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import type { LeadSource } from './leads';
+import { getFirstName, renderMessageTemplate } from './messageTemplates';
+import { deliverSms } from './smsQueue';
+
+export const APPOINTMENT_STATUSES = ['requested', 'confirmed', 'completed', 'no_show', 'cancelled'] as const;
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+// Statuses that hold a slot on the rep's calendar
+export const OPEN_APPOINTMENT_STATUSES: AppointmentStatus[] = ['requested', 'confirmed'];
+
+export const PREFERRED_TIMES = ['morning', 'afternoon', 'evening', 'weekend', 'flexible'] as const;
+export type PreferredTime = typeof PREFERRED_TIMES[number];
+
+export const DEFAULT_APPOINTMENT_MINUTES = 90;
+
+// Customer-facing times are shown in the service area's time zone
+export const APPOINTMENT_TIME_ZONE = 'America/Chicago';
+
+// Reminders go out once a confirmed appointment is this close
+export const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Roles that can run consultations
+const REP_ROLES = ['admin', 'manager', 'sales'];
+
+export interface AppointmentRep {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface Appointment {
+  id: string;
+  lead_id: string | null;
+  lead_source: LeadSource | null;
+  project_id: string | null;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_email: string | null;
+  address: string | null;
+  preferred_date: string | null;
+  preferred_time: PreferredTime | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  assigned_to: string | null;
+  assignee: AppointmentRep | null;
+  status: AppointmentStatus;
+  source: string | null;
+  notes: string | null;
+  cancel_reason: string | null;
+  confirmation_sent_at: string | null;
+  reminder_sent_at: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentFilters {
+  from?: string;
+  to?: string;
+  assignedTo?: string;
+  leadId?: string;
+  status?: AppointmentStatus;
+}
+
+export interface NewAppointment {
+  leadId?: string | null;
+  leadSource?: LeadSource | null;
+  projectId?: string | null;
+  customerName: string;
+  customerPhone?: string | null;
+  customerEmail?: string | null;
+  address?: string | null;
+  preferredDate?: string | null;
+  preferredTime?: PreferredTime | null;
+  scheduledStart?: string | null;
+  scheduledEnd?: string | null;
+  assignedTo?: string | null;
+  status?: AppointmentStatus;
+  source?: string;
+  notes?: string | null;
+  createdBy?: string | null;
+}
+
+const APPOINTMENT_SELECT = '*, assignee:crm_users(id, name, email)';
+
+// Exclusion constraint violation on appointments_no_rep_overlap
+const OVERLAP_VIOLATION = '23P01';
+
+export function isAppointmentStatus(value: unknown): value is AppointmentStatus {
+  return typeof value === 'string' && (APPOINTMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function isPreferredTime(value: unknown): value is PreferredTime {
+  return typeof value === 'string' && (PREFERRED_TIMES as readonly string[]).includes(value);
+}
+
+/**
+ * End of an appointment slot starting at the given time
+ */
+export function getAppointmentEnd(start: Date, durationMinutes = DEFAULT_APPOINTMENT_MINUTES): Date {
+  return new Date(start.getTime() + durationMinutes * 60 * 1000);
+}
+
+/**
+ * Customer-facing date, e.g. "Tuesday, October 21"
+ */
+export function formatAppointmentDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: APPOINTMENT_TIME_ZONE
+  });
+}
+
+/**
+ * Customer-facing time, e.g. "2:00 PM CDT"
+ */
+export function formatAppointmentTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: APPOINTMENT_TIME_ZONE,
+    timeZoneName: 'short'
+  });
+}
+
+/**
+ * Fetch appointments, scheduled ones in start order. from/to bound
+ * scheduled_start; unscheduled requests are only included without a range.
+ */
+export async function fetchAppointments(client: SupabaseClient, filters: AppointmentFilters = {}): Promise<Appointment[]> {
+  let query = client
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .order('scheduled_start', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true })
+    .limit(500);
+
+  if (filters.from) query = query.gte('scheduled_start', filters.from);
+  if (filters.to) query = query.lt('scheduled_start', filters.to);
+  if (filters.assignedTo) query = query.eq('assigned_to', filters.assignedTo);
+  if (filters.leadId) query = query.eq('lead_id', filters.leadId);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch appointments: ${error.message}`);
+  }
+
+  return (data || []) as Appointment[];
+}
+
+/**
+ * Requested appointments still waiting for a scheduled time
+ */
+export async function fetchUnscheduledRequests(client: SupabaseClient): Promise<Appointment[]> {
+  const { data, error } = await client
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('status', 'requested')
+    .is('scheduled_start', null)
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw new Error(`Failed to fetch appointment requests: ${error.message}`);
+  }
+
+  return (data || []) as Appointment[];
+}
+
+export async function fetchAppointment(client: SupabaseClient, id: string): Promise<Appointment | null> {
+  const { data, error } = await client
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch appointment ${id}: ${error.message}`);
+  }
+
+  return data as Appointment | null;
+}
+
+/**
+ * Active CRM users who can be assigned consultations
+ */
+export async function fetchAppointmentReps(client: SupabaseClient): Promise<AppointmentRep[]> {
+  const { data, error } = await client
+    .from('crm_users')
+    .select('id, name, email')
+    .eq('active', true)
+    .in('role', REP_ROLES)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch appointment reps: ${error.message}`);
+  }
+
+  return (data || []) as AppointmentRep[];
+}
+
+/**
+ * Open appointments on the rep's calendar that overlap the given slot
+ */
+export async function findAppointmentConflicts(
+  client: SupabaseClient,
+  slot: { assignedTo: string; start: string; end: string; excludeId?: string }
+): Promise<Appointment[]> {
+  let query = client
+    .from('appointments')
+    .select(APPOINTMENT_SELECT)
+    .eq('assigned_to', slot.assignedTo)
+    .in('status', OPEN_APPOINTMENT_STATUSES)
+    .lt('scheduled_start', slot.end)
+    .gt('scheduled_end', slot.start)
+    .order('scheduled_start', { ascending: true });
+
+  if (slot.excludeId) query = query.neq('id', slot.excludeId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to check appointment conflicts: ${error.message}`);
+  }
+
+  return (data || []) as Appointment[];
+}
+
+/**
+ * Create an appointment. Returns null when it would double-book the rep
+ * (a concurrent booking won the race past the conflict check).
+ */
+export async function createAppointment(client: SupabaseClient, appointment: NewAppointment): Promise<Appointment | null> {
+  const { data, error } = await client
+    .from('appointments')
+    .insert({
+      lead_id: appointment.leadId ?? null,
+      lead_source: appointment.leadSource ?? null,
+      project_id: appointment.projectId ?? null,
+      customer_name: appointment.customerName,
+      customer_phone: appointment.customerPhone ?? null,
+      customer_email: appointment.customerEmail ?? null,
+      address: appointment.address ?? null,
+      preferred_date: appointment.preferredDate ?? null,
+      preferred_time: appointment.preferredTime ?? null,
+      scheduled_start: appointment.scheduledStart ?? null,
+      scheduled_end: appointment.scheduledEnd ?? null,
+      assigned_to: appointment.assignedTo ?? null,
+      status: appointment.status ?? 'requested',
+      source: appointment.source ?? 'crm',
+      notes: appointment.notes ?? null,
+      created_by: appointment.createdBy ?? null,
+      updated_by: appointment.createdBy ?? null
+    })
+    .select(APPOINTMENT_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === OVERLAP_VIOLATION) return null;
+    throw new Error(`Failed to create appointment: ${error.message}`);
+  }
+
+  return data as Appointment;
+}
+
+/**
+ * Update an appointment. Returns null when the change would double-book
+ * the rep.
+ */
+export async function updateAppointment(
+  client: SupabaseClient,
+  id: string,
+  changes: Record<string, unknown>,
+  updatedBy: string | null
+): Promise<Appointment | null> {
+  const { data, error } = await client
+    .from('appointments')
+    .update({ ...changes, updated_by: updatedBy, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(APPOINTMENT_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === OVERLAP_VIOLATION) return null;
+    throw new Error(`Failed to update appointment ${id}: ${error.message}`);
+  }
+
+  return data as Appointment;
+}
+
+/**
+ * Record a customer's preferred slot from the thank-you page. Updates the
+ * lead's open, unscheduled request if there is one instead of adding another.
+ */
+export async function saveAppointmentRequest(
+  client: SupabaseClient,
+  request: Omit<NewAppointment, 'status' | 'scheduledStart' | 'scheduledEnd' | 'assignedTo' | 'createdBy'> & { leadId: string }
+): Promise<Appointment> {
+  const { data: existing, error: existingError } = await client
+    .from('appointments')
+    .select('id')
+    .eq('lead_id', request.leadId)
+    .eq('status', 'requested')
+    .is('scheduled_start', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Failed to fetch appointment request: ${existingError.message}`);
+  }
+
+  if (existing) {
+    const updated = await updateAppointment(client, existing.id, {
+      preferred_date: request.preferredDate ?? null,
+      preferred_time: request.preferredTime ?? null,
+      source: request.source ?? 'unknown'
+    }, null);
+    if (updated) return updated;
+  }
+
+  const created = await createAppointment(client, { ...request, status: 'requested' });
+  if (!created) {
+    throw new Error('Failed to create appointment request');
+  }
+  return created;
+}
+
+/**
+ * Text the customer a template about their appointment and record it on the
+ * lead's timeline. Returns whether the SMS was sent or queued for retry,
+ * or null when the customer has opted out of texts. A missing or inactive
+ * template sends nothing. Never throws.
+ */
+async function sendAppointmentSms(
+  client: SupabaseClient,
+  appointment: Appointment,
+  template: 'appointment_confirmation' | 'appointment_reminder',
+  actor: CrmUser | null
+): Promise<boolean | null> {
+  if (!appointment.customer_phone || !appointment.scheduled_start) return false;
+
+  try {
+    const message = await renderMessageTemplate(client, template, {
+      Name: getFirstName(appointment.customer_name),
+      FullName: appointment.customer_name,
+      Phone: appointment.customer_phone,
+      Email: appointment.customer_email,
+      Address: appointment.address,
+      RepName: appointment.assignee?.name ?? null,
+      Date: formatAppointmentDate(appointment.scheduled_start),
+      Time: formatAppointmentTime(appointment.scheduled_start)
+    }, 'sms');
+    if (!message) {
+      console.error(`SMS template ${template} is missing or inactive`);
+      return false;
+    }
+
+    const sms = await deliverSms(client, {
+      to: appointment.customer_phone,
+      body: message.body,
+      messageType: template,
+      leadId: appointment.lead_id,
+      leadSource: appointment.lead_source,
+      projectId: appointment.project_id,
+      actor
+    });
+
+    // Pending messages are retried by the SMS queue job
+    return sms ? sms.status !== 'failed' : null;
+  } catch (error) {
+    console.error(`Error sending ${template} SMS:`, error);
+    return false;
+  }
+}
+
+/**
+ * Send the confirmation SMS for a confirmed appointment. When it starts
+ * within the reminder window the confirmation doubles as the reminder.
+ * Never throws; a failed text does not undo the confirmation.
+ */
+export async function sendAppointmentConfirmation(
+  client: SupabaseClient,
+  appointment: Appointment,
+  actor: CrmUser | null,
+  now = new Date()
+): Promise<boolean> {
+  try {
+    const sent = await sendAppointmentSms(client, appointment, 'appointment_confirmation', actor);
+    if (!sent || !appointment.scheduled_start) return false;
+
+    const startsSoon = new Date(appointment.scheduled_start).getTime() - now.getTime() <= REMINDER_WINDOW_MS;
+    const { error } = await client
+      .from('appointments')
+      .update({
+        confirmation_sent_at: now.toISOString(),
+        ...(startsSoon ? { reminder_sent_at: now.toISOString() } : {})
+      })
+      .eq('id', appointment.id);
+
+    if (error) {
+      console.error('Error marking appointment confirmation sent:', error);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error sending appointment confirmation:', error);
+    return false;
+  }
+}
+
+/**
+ * Send reminders for confirmed appointments starting within the next 24
+ * hours. Each appointment is claimed by setting reminder_sent_at first, so
+ * overlapping runs never text a customer twice; failed sends are released
+ * for the next run. Customers who opted out of texts are skipped.
+ */
+export async function sendDueAppointmentReminders(client: SupabaseClient, now = new Date()) {
+  const { data, error } = await client
+    .from('appointments')
+    .update({ reminder_sent_at: now.toISOString() })
+    .eq('status', 'confirmed')
+    .is('reminder_sent_at', null)
+    .not('customer_phone', 'is', null)
+    .gt('scheduled_start', now.toISOString())
+    .lte('scheduled_start', new Date(now.getTime() + REMINDER_WINDOW_MS).toISOString())
+    .select(APPOINTMENT_SELECT);
+
+  if (error) {
+    throw new Error(`Failed to claim appointment reminders: ${error.message}`);
+  }
+
+  const claimed = (data || []) as Appointment[];
+  let sent = 0;
+  let failed = 0;
+  let optedOut = 0;
+
+  for (const appointment of claimed) {
+    const success = await sendAppointmentSms(client, appointment, 'appointment_reminder', null);
+
+    if (success) {
+      sent++;
+      continue;
+    }
+
+    // Leave opted-out reminders claimed so they are not retried
+    if (success === null) {
+      optedOut++;
+      continue;
+    }
+
+    failed++;
+    const { error: releaseError } = await client
+      .from('appointments')
+      .update({ reminder_sent_at: null })
+      .eq('id', appointment.id);
+
+    if (releaseError) {
+      console.error('Error releasing appointment reminder:', releaseError);
+    }
+  }
+
+  return { due: claimed.length, sent, failed, optedOut };
+}
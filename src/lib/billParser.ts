@@ -0,0 +1,184 @@
+/**
+ * Electric Bill Parser
+ *
+ * Pulls structured values out of the text of an Ameren Illinois or ComEd
+ * bill (from PDF text extraction or OCR): account number, service address,
+ * billing period, kWh used, total charges, supply rate and delivery charges.
+ *
+ * Parsing is pattern based and deliberately conservative: a value that does
+ * not match a known label, or falls outside a sane range, is left null so
+ * the upload is flagged for review instead of carrying a wrong number into a
+ * proposal.
+ */
+
+export interface ParsedBill {
+  utility: string | null;
+  account_number: string | null;
+  service_address: string | null;
+  billing_period_start: string | null;
+  billing_period_end: string | null;
+  kwh_used: number | null;
+  total_charges: number | null;
+  supply_rate: number | null;
+  delivery_charges: number | null;
+}
+
+export type BillField = keyof ParsedBill;
+
+export const BILL_FIELD_LABELS: Record<BillField, string> = {
+  utility: 'Utility',
+  account_number: 'Account Number',
+  service_address: 'Service Address',
+  billing_period_start: 'Billing Period Start',
+  billing_period_end: 'Billing Period End',
+  kwh_used: 'kWh Used',
+  total_charges: 'Total Charges',
+  supply_rate: 'Supply Rate ($/kWh)',
+  delivery_charges: 'Delivery Charges'
+};
+
+// Fields a bill must yield before it is trusted without review
+export const REQUIRED_BILL_FIELDS: BillField[] = [
+  'account_number',
+  'billing_period_start',
+  'billing_period_end',
+  'kwh_used',
+  'total_charges'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const NUMERIC_DATE = String.raw`\d{1,2}\/\d{1,2}\/\d{2,4}`;
+const NAMED_DATE = String.raw`[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4}`;
+const ANY_DATE = `(?:${NUMERIC_DATE}|${NAMED_DATE})`;
+
+const ACCOUNT_PATTERN = /Account\s*(?:Number|No\.?|#)\s*:?\s*(\d[\d\s-]{5,22}\d)/i;
+const SERVICE_ADDRESS_PATTERN = /Service\s+(?:Address|Location)\s*:?[ \t]*([^\n]*)(?:\n([^\n]*))?/i;
+const PERIOD_PATTERN = new RegExp(
+  String.raw`(?:Billing|Service|Meter\s+Reading)?\s*(?:Period|Dates?|from)?\s*:?\s*(${ANY_DATE})\s*(?:-|–|to|through|thru)\s*(${ANY_DATE})`,
+  'i'
+);
+const KWH_LABEL_PATTERNS = [
+  /Total\s+kWh\s+(?:Used|Usage)\s*:?\s*([\d,]+(?:\.\d+)?)/i,
+  /kWh\s+(?:Used|Usage)\s*:?\s*([\d,]+(?:\.\d+)?)/i,
+  /(?:Total\s+)?Usage\s*\(?kWh\)?\s*:?\s*([\d,]+(?:\.\d+)?)/i,
+  /Energy\s+Used\s*:?\s*([\d,]+(?:\.\d+)?)\s*kWh/i
+];
+const KWH_FALLBACK_PATTERN = /(?:^|[^$.\d])([\d,]{2,7})\s*kWh\b(?!\s*[x×@])/gi;
+const TOTAL_PATTERNS = [
+  /Total\s+Current\s+Charges\s*:?\s*\$?\s*([\d,]+\.\d{2})/i,
+  /Total\s+Amount\s+Due\s*:?\s*\$?\s*([\d,]+\.\d{2})/i,
+  /Amount\s+Due\s*:?\s*\$?\s*([\d,]+\.\d{2})/i
+];
+const SUPPLY_RATE_PATTERN = /(?:Supply|Purchased\s+Electricity|Price\s+to\s+Compare|Electricity\s+Supply)[^\n]*?\$?\s*(0?\.\d{3,6})\s*(?:per\s*kWh|\/\s*kWh|x)?/i;
+const DELIVERY_PATTERN = /(?:Total\s+)?Delivery\s+(?:Services?|Charges?)[^\n$]*\$\s*([\d,]+\.\d{2})/i;
+
+// Sanity ranges for residential and small commercial bills
+const KWH_RANGE: [number, number] = [1, 100000];
+const CHARGES_RANGE: [number, number] = [0, 100000];
+const SUPPLY_RATE_RANGE: [number, number] = [0.01, 1];
+
+function parseAmount(value: string | undefined, [min, max]: [number, number]): number | null {
+  if (!value) return null;
+  const amount = Number(value.replace(/,/g, ''));
+  return Number.isFinite(amount) && amount >= min && amount <= max ? amount : null;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Parse "9/30/25", "09/30/2025" or "Sep 30, 2025" into YYYY-MM-DD
+ */
+export function parseBillDate(value: string): string | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const numeric = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (numeric) {
+    month = Number(numeric[1]);
+    day = Number(numeric[2]);
+    year = Number(numeric[3]);
+    if (year < 100) year += 2000;
+  } else {
+    const named = value.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+    if (!named) return null;
+    month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase()) + 1;
+    day = Number(named[2]);
+    year = Number(named[3]);
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().split('T')[0];
+}
+
+function parseUtility(text: string): string | null {
+  if (/ameren/i.test(text)) return 'Ameren Illinois';
+  if (/comed|commonwealth\s+edison/i.test(text)) return 'ComEd';
+  return null;
+}
+
+function parseServiceAddress(text: string): string | null {
+  const match = text.match(SERVICE_ADDRESS_PATTERN);
+  if (!match) return null;
+
+  // Either "Service Address: 123 MAIN ST, CITY IL 62701" or the street and
+  // city on the following lines
+  const lines = [match[1], match[2]]
+    .map(line => (line || '').trim())
+    .filter(Boolean);
+  const address = (lines[0] && /\d{5}/.test(lines[0]) ? lines.slice(0, 1) : lines).join(', ');
+
+  return /^\d+\s+\S/.test(address) ? address.replace(/\s+/g, ' ') : null;
+}
+
+function parseKwh(text: string): number | null {
+  const labeled = parseAmount(firstMatch(text, KWH_LABEL_PATTERNS), KWH_RANGE);
+  if (labeled !== null) return labeled;
+
+  // Unlabeled bills: the largest "N kWh" figure is the period total
+  const candidates = Array.from(text.matchAll(KWH_FALLBACK_PATTERN))
+    .map(match => parseAmount(match[1], KWH_RANGE))
+    .filter((value): value is number => value !== null);
+
+  return candidates.length > 0 ? Math.max(...candidates) : null;
+}
+
+/**
+ * Parse bill text into structured values; anything not found is null
+ */
+export function parseBillText(text: string): ParsedBill {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ');
+  const accountMatch = normalized.match(ACCOUNT_PATTERN);
+  const periodMatch = normalized.match(PERIOD_PATTERN);
+  const periodStart = periodMatch ? parseBillDate(periodMatch[1].trim()) : null;
+  const periodEnd = periodMatch ? parseBillDate(periodMatch[2].trim()) : null;
+  const periodValid = !!periodStart && !!periodEnd && periodStart < periodEnd;
+
+  return {
+    utility: parseUtility(normalized),
+    account_number: accountMatch ? accountMatch[1].replace(/[\s-]/g, '') : null,
+    service_address: parseServiceAddress(normalized),
+    billing_period_start: periodValid ? periodStart : null,
+    billing_period_end: periodValid ? periodEnd : null,
+    kwh_used: parseKwh(normalized),
+    total_charges: parseAmount(firstMatch(normalized, TOTAL_PATTERNS), CHARGES_RANGE),
+    supply_rate: parseAmount(normalized.match(SUPPLY_RATE_PATTERN)?.[1], SUPPLY_RATE_RANGE),
+    delivery_charges: parseAmount(normalized.match(DELIVERY_PATTERN)?.[1], CHARGES_RANGE)
+  };
+}
+
+/**
+ * Required fields the parser could not fill
+ */
+export function getMissingBillFields(bill: ParsedBill): BillField[] {
+  return REQUIRED_BILL_FIELDS.filter(field => bill[field] === null);
+}
@@ -0,0 +1,364 @@
+/**
+ * Bill Uploads
+ *
+ * Processing pipeline for electric bills uploaded from the thank-you page.
+ * Text-based PDFs are read with PDF.js (unpdf); photos and scans of bills
+ * are read with a local Tesseract OCR worker. The text is parsed into
+ * structured columns on bill_uploads (see src/lib/billParser.ts) and the
+ * upload is marked parsed, or needs_review when required values are missing
+ * or the OCR was low confidence. Sales can correct values from the lead page.
+ *
+ * Files are kept in the configured storage backend (see
+ * src/lib/fileStorage.ts) under a durable object key with a SHA-256
+ * checksum, and mirrored to Google Drive for the sales workflow. Uploads
+ * whose Drive copy failed are left google_failed and pushed by a retry job.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import { tmpdir } from 'os';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createWorker } from 'tesseract.js';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { getMissingBillFields, parseBillText, type ParsedBill } from './billParser';
+import {
+  computeChecksum,
+  createGoogleDriveAdapter,
+  getConfiguredStorageBackend,
+  getStorageAdapter,
+  isStorageBackend,
+  type StorageBackend,
+  type StoredObject
+} from './fileStorage';
+
+export const BILL_UPLOAD_STATUSES = ['received', 'parsed', 'needs_review'] as const;
+export type BillUploadStatus = typeof BILL_UPLOAD_STATUSES[number];
+
+export type BillExtractionMethod = 'pdf_text' | 'ocr';
+
+// Drive mirror state; local_only means Drive is not the mirror target
+export const DRIVE_STATUSES = ['google_integrated', 'google_failed', 'local_only'] as const;
+export type DriveStatus = typeof DRIVE_STATUSES[number];
+
+export const BILL_STORAGE_BUCKET = 'bill-uploads';
+
+// Drive copies are retried this many times before needing manual attention
+export const MAX_DRIVE_SYNC_ATTEMPTS = 5;
+
+export interface BillUpload extends ParsedBill {
+  id: string;
+  lead_id: string | null;
+  file_name: string;
+  original_name: string;
+  file_type: string;
+  file_size: number;
+  file_url: string | null;
+  google_drive_id: string | null;
+  storage_backend: StorageBackend | null;
+  object_key: string | null;
+  checksum_sha256: string | null;
+  drive_status: DriveStatus | null;
+  drive_sync_attempts: number;
+  drive_sync_error: string | null;
+  drive_synced_at: string | null;
+  source: string | null;
+  status: BillUploadStatus;
+  extraction_method: BillExtractionMethod | null;
+  extraction_confidence: number | null;
+  parse_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  processed_at: string | null;
+  created_at: string;
+}
+
+interface ExtractedText {
+  text: string;
+  method: BillExtractionMethod;
+  confidence: number | null;
+}
+
+// Below this much text a PDF is treated as a scan with no text layer
+const MIN_TEXT_LENGTH = 50;
+
+// Tesseract word confidence (0-100) below which values need a human check
+const MIN_OCR_CONFIDENCE = 60;
+
+// Raw text kept in extracted_data for reviewers
+const MAX_STORED_TEXT = 20000;
+
+const BILL_UPLOAD_SELECT = 'id, lead_id, file_name, original_name, file_type, file_size, file_url, google_drive_id, storage_backend, object_key, checksum_sha256, drive_status, drive_sync_attempts, drive_sync_error, drive_synced_at, source, status, utility, account_number, service_address, billing_period_start, billing_period_end, kwh_used, total_charges, supply_rate, delivery_charges, extraction_method, extraction_confidence, parse_notes, reviewed_by, reviewed_at, processed_at, created_at';
+
+/**
+ * Extract the text of a bill: the PDF text layer, or OCR for images
+ */
+export async function extractBillText(buffer: Buffer, mimeType: string): Promise<ExtractedText> {
+  if (mimeType === 'application/pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return { text, method: 'pdf_text', confidence: null };
+  }
+
+  const worker = await createWorker('eng', 1, {
+    // Point at bundled traineddata in production; defaults to the CDN copy
+    ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+    cachePath: tmpdir()
+  });
+
+  try {
+    const { data } = await worker.recognize(buffer);
+    return { text: data.text, method: 'ocr', confidence: data.confidence };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Why parsed values need a human check, or null if they can be trusted
+ */
+function getReviewReason(extracted: ExtractedText, parsed: ParsedBill): string | null {
+  if (extracted.text.trim().length < MIN_TEXT_LENGTH) {
+    return extracted.method === 'pdf_text'
+      ? 'PDF has no text layer (scanned bill); enter values manually'
+      : 'No readable text found in image';
+  }
+
+  const missing = getMissingBillFields(parsed);
+  if (missing.length > 0) {
+    return `Could not find: ${missing.join(', ')}`;
+  }
+
+  if (extracted.confidence !== null && extracted.confidence < MIN_OCR_CONFIDENCE) {
+    return `Low OCR confidence (${Math.round(extracted.confidence)}%)`;
+  }
+
+  return null;
+}
+
+/**
+ * Extract, parse and store the values of an uploaded bill. Failures mark
+ * the upload needs_review rather than throwing, so the upload itself stands.
+ */
+export async function processBillUpload(
+  client: SupabaseClient,
+  uploadId: string,
+  buffer: Buffer,
+  mimeType: string
+): Promise<void> {
+  let update: Record<string, unknown>;
+
+  try {
+    const extracted = await extractBillText(buffer, mimeType);
+    const parsed = parseBillText(extracted.text);
+    const reviewReason = getReviewReason(extracted, parsed);
+
+    update = {
+      ...parsed,
+      status: reviewReason ? 'needs_review' : 'parsed',
+      extraction_method: extracted.method,
+      extraction_confidence: extracted.confidence,
+      parse_notes: reviewReason,
+      extracted_data: {
+        text: extracted.text.slice(0, MAX_STORED_TEXT),
+        missing: getMissingBillFields(parsed)
+      }
+    };
+  } catch (error) {
+    console.error(`Error extracting bill ${uploadId}:`, error);
+    update = {
+      status: 'needs_review',
+      parse_notes: `Text extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+
+  const { error } = await client
+    .from('bill_uploads')
+    .update({ ...update, processed_at: new Date().toISOString() })
+    .eq('id', uploadId);
+
+  if (error) {
+    console.error(`Error saving parsed bill ${uploadId}:`, error);
+  }
+}
+
+/**
+ * Fetch a lead's bill uploads, newest first
+ */
+export async function fetchBillUploadsForLead(client: SupabaseClient, leadId: string): Promise<BillUpload[]> {
+  const { data, error } = await client
+    .from('bill_uploads')
+    .select(BILL_UPLOAD_SELECT)
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch bill uploads: ${error.message}`);
+  }
+
+  return (data || []) as BillUpload[];
+}
+
+/**
+ * Save reviewed values for a bill and mark it parsed
+ */
+export async function saveReviewedBill(
+  client: SupabaseClient,
+  uploadId: string,
+  values: Partial<ParsedBill>,
+  reviewedBy: string
+): Promise<BillUpload | null> {
+  const { data, error } = await client
+    .from('bill_uploads')
+    .update({
+      ...values,
+      status: 'parsed',
+      parse_notes: null,
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', uploadId)
+    .select(BILL_UPLOAD_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save bill ${uploadId}: ${error.message}`);
+  }
+
+  return data as BillUpload | null;
+}
+
+/**
+ * Object key for a lead's bill; keys are never reused
+ */
+export function getBillObjectKey(leadId: string, fileName: string): string {
+  return `bills/${leadId}/${fileName}`;
+}
+
+/**
+ * Store a bill's bytes in the configured backend
+ */
+export async function storeBillFile(
+  client: SupabaseClient,
+  key: string,
+  body: Buffer,
+  contentType: string
+): Promise<StoredObject & { checksum: string }> {
+  const adapter = getStorageAdapter(getConfiguredStorageBackend(), client, BILL_STORAGE_BUCKET);
+  const stored = await adapter.put(key, body, contentType);
+  return { ...stored, checksum: computeChecksum(body) };
+}
+
+/**
+ * Read a bill's bytes back and verify them against the stored checksum.
+ * Uploads from before object keys existed are read from their Drive copy.
+ */
+export async function readBillFile(client: SupabaseClient, bill: BillUpload): Promise<Buffer> {
+  let body: Buffer;
+
+  if (bill.object_key && isStorageBackend(bill.storage_backend)) {
+    const adapter = getStorageAdapter(bill.storage_backend, client, BILL_STORAGE_BUCKET);
+    body = await adapter.get({ key: bill.object_key, externalId: bill.google_drive_id });
+  } else if (bill.google_drive_id) {
+    body = await createGoogleDriveAdapter().get({ key: bill.file_name, externalId: bill.google_drive_id });
+  } else {
+    throw new Error(`Bill upload ${bill.id} has no stored file`);
+  }
+
+  if (bill.checksum_sha256 && computeChecksum(body) !== bill.checksum_sha256) {
+    throw new Error(`Checksum mismatch for bill upload ${bill.id}`);
+  }
+
+  return body;
+}
+
+/**
+ * Fetch a single bill upload
+ */
+export async function fetchBillUpload(client: SupabaseClient, uploadId: string): Promise<BillUpload | null> {
+  const { data, error } = await client
+    .from('bill_uploads')
+    .select(BILL_UPLOAD_SELECT)
+    .eq('id', uploadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch bill upload ${uploadId}: ${error.message}`);
+  }
+
+  return data as BillUpload | null;
+}
+
+/**
+ * Push uploads whose Drive copy failed to Google Drive from primary storage.
+ * Each row is claimed by bumping drive_sync_attempts so overlapping runs do
+ * not upload the same file twice.
+ */
+export async function retryFailedDriveSyncs(
+  client: SupabaseClient,
+  limit = 25
+): Promise<{ due: number; synced: number; failed: number }> {
+  const { data, error } = await client
+    .from('bill_uploads')
+    .select(BILL_UPLOAD_SELECT)
+    .eq('drive_status', 'google_failed')
+    .not('object_key', 'is', null)
+    .lt('drive_sync_attempts', MAX_DRIVE_SYNC_ATTEMPTS)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch unsynced bill uploads: ${error.message}`);
+  }
+
+  const bills = (data || []) as BillUpload[];
+  const drive = createGoogleDriveAdapter();
+  let synced = 0;
+  let failed = 0;
+
+  for (const bill of bills) {
+    const attempts = bill.drive_sync_attempts + 1;
+
+    const { data: claimed } = await client
+      .from('bill_uploads')
+      .update({ drive_sync_attempts: attempts })
+      .eq('id', bill.id)
+      .eq('drive_sync_attempts', bill.drive_sync_attempts)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+
+    try {
+      const body = await readBillFile(client, bill);
+      const copy = await drive.put(bill.object_key as string, body, bill.file_type);
+
+      const { error: updateError } = await client
+        .from('bill_uploads')
+        .update({
+          drive_status: 'google_integrated',
+          google_drive_id: copy.externalId,
+          file_url: copy.url,
+          drive_sync_error: null,
+          drive_synced_at: new Date().toISOString()
+        })
+        .eq('id', bill.id);
+
+      if (updateError) {
+        throw new Error(`Failed to record Drive copy: ${updateError.message}`);
+      }
+
+      synced++;
+    } catch (syncError) {
+      console.error(`Error syncing bill ${bill.id} to Google Drive:`, syncError);
+      failed++;
+
+      await client
+        .from('bill_uploads')
+        .update({ drive_sync_error: syncError instanceof Error ? syncError.message : 'Unknown error' })
+        .eq('id', bill.id);
+    }
+  }
+
+  return { due: bills.length, synced, failed };
+}
@@ -0,0 +1,60 @@
+/**
+ * CRM Access Control
+ *
+ * Role and permission definitions shared by the server-side guard
+ * (src/lib/crmAuth.ts) and the CRM UI, so tabs and navigation are hidden
+ * based on the same rules the API enforces.
+ *
+ * Roles:
+ * - admin: full access
+ * - manager: everything except settings
+ * - sales: leads, and SMS / email to leads
+ * - installer: assigned projects and photo submission
+ */
+
+export const CRM_ROLES = ['admin', 'manager', 'sales', 'installer'] as const;
+export type CrmRole = typeof CRM_ROLES[number];
+
+export const CRM_PERMISSIONS = [
+  'leads:read',
+  'leads:write',
+  'projects:read',
+  'projects:write',
+  'candidates:read',
+  'candidates:write',
+  'projects:import',
+  'photos:submit',
+  'integrations',
+  'messages:send',
+  'reports:read',
+  'users:read',
+  'settings'
+] as const;
+export type CrmPermission = typeof CRM_PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<CrmRole, readonly CrmPermission[]> = {
+  admin: CRM_PERMISSIONS,
+  manager: CRM_PERMISSIONS.filter(permission => permission !== 'settings'),
+  sales: ['leads:read', 'leads:write', 'messages:send'],
+  installer: ['projects:read', 'photos:submit']
+};
+
+export function isCrmRole(value: unknown): value is CrmRole {
+  return typeof value === 'string' && (CRM_ROLES as readonly string[]).includes(value);
+}
+
+export function getRolePermissions(role: CrmRole): CrmPermission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+export function hasPermission(role: CrmRole | null | undefined, permission: CrmPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Installers only see projects assigned to them; everyone else with
+ * projects:read sees all projects.
+ */
+export function getProjectScope(role: CrmRole): 'all' | 'assigned' {
+  return role === 'installer' ? 'assigned' : 'all';
+}
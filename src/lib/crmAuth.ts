@@ -0,0 +1,156 @@
+/**
+ * CRM Authorization Guard
+ *
+ * Server-side guard shared by every /api/crm/* and /api/integrations/*
+ * handler. Resolves the signed-in Clerk user to their crm_users row and
+ * checks the role's permissions from src/lib/crmAccess.ts.
+ *
+ * Usage:
+ * ```ts
+ * const access = await requireCrmAccess('leads:read');
+ * if ('response' in access) return access.response;
+ * const { user } = access;
+ * ```
+ */
+
+import { NextResponse } from 'next/server';
+import { auth, currentUser } from '@clerk/nextjs/server';
+import { createClient } from '@supabase/supabase-js';
+import { hasPermission, isCrmRole, type CrmPermission, type CrmRole } from './crmAccess';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || 'placeholder-service-key'
+);
+
+export interface CrmUser {
+  id: string;
+  clerkUserId: string;
+  email: string;
+  name: string | null;
+  role: CrmRole;
+}
+
+export type CrmAccessResult =
+  | { user: CrmUser }
+  | { response: NextResponse };
+
+interface CrmUserRow {
+  id: string;
+  clerk_user_id: string | null;
+  email: string;
+  name: string | null;
+  role: string;
+  active: boolean;
+}
+
+/**
+ * Require a signed-in, active CRM user with the given permission
+ * (or any CRM role when no permission is given).
+ * Returns the user, or a 401/403 response to return from the handler.
+ */
+export async function requireCrmAccess(permission?: CrmPermission): Promise<CrmAccessResult> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await getCrmUser(userId);
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Forbidden', details: 'No CRM role assigned' }, { status: 403 }) };
+  }
+
+  if (permission && !hasPermission(user.role, permission)) {
+    return { response: NextResponse.json({ error: 'Forbidden', details: `Missing permission: ${permission}` }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+/**
+ * Look up the CRM user for a Clerk user ID.
+ * Users invited by email are linked to their Clerk ID on first access.
+ */
+export async function getCrmUser(clerkUserId: string): Promise<CrmUser | null> {
+  const { data, error } = await supabase
+    .from('crm_users')
+    .select('id, clerk_user_id, email, name, role, active')
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching CRM user:', error);
+    return null;
+  }
+
+  if (data) {
+    return toCrmUser(data as CrmUserRow);
+  }
+
+  return linkInvitedUser(clerkUserId);
+}
+
+/**
+ * Values a project's assigned_installer / assigned_project_manager may hold
+ * for this user (Clerk ID, email or display name).
+ */
+export function getAssignmentKeys(user: CrmUser): string[] {
+  return [user.clerkUserId, user.email, user.name].filter((value): value is string => !!value);
+}
+
+async function linkInvitedUser(clerkUserId: string): Promise<CrmUser | null> {
+  const clerkUser = await currentUser();
+  // Only verified addresses, so an invite cannot be claimed by adding the
+  // invitee's email to another Clerk account
+  const emails = (clerkUser?.emailAddresses || [])
+    .filter(address => address.verification?.status === 'verified')
+    .map(address => address.emailAddress.toLowerCase());
+
+  if (!clerkUser || emails.length === 0) return null;
+
+  const { data: invited, error: inviteError } = await supabase
+    .from('crm_users')
+    .select('id, name')
+    .in('email', emails)
+    .is('clerk_user_id', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (inviteError || !invited) {
+    if (inviteError) console.error('Error fetching invited CRM user:', inviteError);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('crm_users')
+    .update({
+      clerk_user_id: clerkUserId,
+      name: invited.name || clerkUser.fullName || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', invited.id)
+    .select('id, clerk_user_id, email, name, role, active')
+    .single();
+
+  if (error) {
+    console.error('Error linking CRM user:', error);
+    return null;
+  }
+
+  return data ? toCrmUser(data as CrmUserRow) : null;
+}
+
+function toCrmUser(row: CrmUserRow): CrmUser | null {
+  if (!row.active || !row.clerk_user_id || !isCrmRole(row.role)) return null;
+
+  return {
+    id: row.id,
+    clerkUserId: row.clerk_user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role
+  };
+}
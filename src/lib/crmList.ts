@@ -0,0 +1,252 @@
+/**
+ * CRM List Query Utility
+ *
+ * Shared cursor pagination, filtering, sorting and search for the CRM list
+ * endpoints (/api/crm/leads, /api/crm/projects, /api/crm/candidates).
+ *
+ * Query parameters:
+ * - limit: page size (default 25, max 100)
+ * - cursor: opaque cursor from the previous page's pagination.nextCursor
+ * - sort / order: sort key (endpoint specific) and asc | desc
+ * - q: search across name, email, phone and address
+ * - status, source, stage, assignedTo: equality filters (endpoint specific)
+ * - from / to: created_at date range (YYYY-MM-DD or ISO timestamp)
+ *
+ * Pagination is keyset based on (sort column, id) so pages stay stable while
+ * new rows are inserted.
+ */
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+export type ListFilterKey = 'status' | 'source' | 'stage' | 'assignedTo';
+
+export interface ListParams {
+  limit: number;
+  cursor: ListCursor | null;
+  sort: string;
+  order: SortOrder;
+  q: string | null;
+  from: string | null;
+  to: string | null;
+  filters: Partial<Record<ListFilterKey, string>>;
+}
+
+export interface ListCursor {
+  value: string | number;
+  id: string | number;
+}
+
+export interface ListConfig {
+  // Allowed sort keys mapped to (non-null) column names
+  sortColumns: Record<string, string>;
+  defaultSort: string;
+  // Filter keys this endpoint supports, mapped to column names.
+  // assignedTo may map to several columns (matched with OR).
+  filterColumns: Partial<Record<ListFilterKey, string | string[]>>;
+  // Text columns searched with q
+  searchColumns: string[];
+  // Column holding digits-only phone numbers, searched when q looks like a phone number
+  phoneDigitsColumn?: string;
+  dateColumn: string;
+}
+
+export interface ListPage<T> {
+  data: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+    total: number | null;
+  };
+}
+
+// Minimal shape of the Supabase filter builder used here
+interface FilterableQuery<Q> {
+  eq(column: string, value: unknown): Q;
+  gte(column: string, value: unknown): Q;
+  lte(column: string, value: unknown): Q;
+  or(filters: string): Q;
+  order(column: string, options?: { ascending?: boolean }): Q;
+  limit(count: number): Q;
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse and validate list query parameters
+ */
+export function parseListParams(
+  searchParams: URLSearchParams,
+  config: ListConfig
+): { params: ListParams } | { error: string } {
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const sort = searchParams.get('sort') || config.defaultSort;
+  if (!config.sortColumns[sort]) {
+    return { error: `Invalid sort. Must be one of: ${Object.keys(config.sortColumns).join(', ')}` };
+  }
+
+  const order = (searchParams.get('order') || 'desc') as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  let cursor: ListCursor | null = null;
+  const cursorParam = searchParams.get('cursor');
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return { error: 'Invalid cursor' };
+    }
+  }
+
+  const from = parseDateParam(searchParams.get('from'), 'start');
+  const to = parseDateParam(searchParams.get('to'), 'end');
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be valid dates' };
+  }
+
+  const filters: ListParams['filters'] = {};
+  for (const key of Object.keys(config.filterColumns) as ListFilterKey[]) {
+    const value = searchParams.get(key)?.trim();
+    if (value) filters[key] = value;
+  }
+
+  const q = searchParams.get('q')?.trim() || null;
+
+  return { params: { limit, cursor, sort, order, q, from, to, filters } };
+}
+
+/**
+ * Apply filters, search, keyset cursor, ordering and limit to a query.
+ * One extra row is requested so the caller can tell whether more pages exist.
+ * restrictTo limits rows to those where the column holds one of the values
+ * (used for role scoping, e.g. installers only see their assigned projects).
+ */
+export function applyListQuery<Q extends FilterableQuery<Q>>(
+  query: Q,
+  params: ListParams,
+  config: ListConfig,
+  restrictTo?: { column: string; values: string[] }
+): Q {
+  const sortColumn = config.sortColumns[params.sort];
+  const orGroups: string[] = [];
+
+  if (restrictTo) {
+    orGroups.push(`${restrictTo.column}.in.(${restrictTo.values.map(quote).join(',')})`);
+  }
+
+  for (const [key, value] of Object.entries(params.filters) as [ListFilterKey, string][]) {
+    const column = config.filterColumns[key];
+    if (!column) continue;
+    if (Array.isArray(column)) {
+      orGroups.push(column.map(c => `${c}.eq.${quote(value)}`).join(','));
+    } else {
+      query = query.eq(column, value);
+    }
+  }
+
+  if (params.from) query = query.gte(config.dateColumn, params.from);
+  if (params.to) query = query.lte(config.dateColumn, params.to);
+
+  if (params.q) {
+    // Wildcards and escapes in user input are dropped rather than escaped
+    const pattern = quote(`%${params.q.replace(/[%*\\]/g, '')}%`);
+    const conditions = config.searchColumns.map(column => `${column}.ilike.${pattern}`);
+
+    const digits = params.q.replace(/\D/g, '');
+    if (config.phoneDigitsColumn && digits.length >= 3 && /^[\d\s()+.-]+$/.test(params.q)) {
+      conditions.push(`${config.phoneDigitsColumn}.like.${quote(`%${digits}%`)}`);
+    }
+
+    orGroups.push(conditions.join(','));
+  }
+
+  if (params.cursor) {
+    const op = params.order === 'desc' ? 'lt' : 'gt';
+    const value = quote(params.cursor.value);
+    orGroups.push(`${sortColumn}.${op}.${value},and(${sortColumn}.eq.${value},id.${op}.${quote(params.cursor.id)})`);
+  }
+
+  // PostgREST only takes one top-level or filter, so AND multiple groups together
+  if (orGroups.length === 1) {
+    query = query.or(orGroups[0]);
+  } else if (orGroups.length > 1) {
+    query = query.or(`and(${orGroups.map(group => `or(${group})`).join(',')})`);
+  }
+
+  return query
+    .order(sortColumn, { ascending: params.order === 'asc' })
+    .order('id', { ascending: params.order === 'asc' })
+    .limit(params.limit + 1);
+}
+
+/**
+ * Trim the extra row and build the next cursor from the last item on the page
+ */
+export function buildListPage<T extends { id: string | number }>(
+  rows: T[],
+  params: ListParams,
+  config: ListConfig,
+  total: number | null
+): ListPage<T> {
+  const hasMore = rows.length > params.limit;
+  const data = hasMore ? rows.slice(0, params.limit) : rows;
+  const last = data[data.length - 1];
+  const sortColumn = config.sortColumns[params.sort];
+
+  return {
+    data,
+    pagination: {
+      limit: params.limit,
+      nextCursor: hasMore && last
+        ? encodeCursor({ value: (last as Record<string, unknown>)[sortColumn] as string | number, id: last.id })
+        : null,
+      hasMore,
+      total
+    }
+  };
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): ListCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null;
+
+    const [value, id] = parsed;
+    const isScalar = (v: unknown) => typeof v === 'string' || typeof v === 'number';
+    if (!isScalar(value) || !isScalar(id)) return null;
+
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Quote a value for use inside a PostgREST or() filter
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// Expand date-only values to the start or end of that day (UTC).
+// Returns undefined for invalid input.
+function parseDateParam(value: string | null, edge: 'start' | 'end'): string | null | undefined {
+  if (!value) return null;
+
+  const iso = DATE_ONLY_PATTERN.test(value)
+    ? `${value}T${edge === 'start' ? '00:00:00.000' : '23:59:59.999'}Z`
+    : value;
+
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,37 @@
+/**
+ * Cron Authorization
+ *
+ * Guard for scheduled job endpoints. Vercel Cron calls them with
+ * `Authorization: Bearer $CRON_SECRET`; anything else is rejected.
+ *
+ * Usage:
+ * ```ts
+ * const denied = requireCronSecret(request);
+ * if (denied) return denied;
+ * ```
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Returns a 401 response unless the request carries the cron secret,
+ * otherwise null. Fails closed when CRON_SECRET is not configured.
+ */
+export function requireCronSecret(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error('CRON_SECRET is not configured; refusing cron request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const provided = Buffer.from(request.headers.get('authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -67,6 +67,32 @@ function getFacebookCookies(): { fbc?: string; fbp?: string } {
   };
 }
 
+/**
+ * Record a browser pixel event so the dataset quality report can match it
+ * against the server-side event with the same event_id
+ */
+function logPixelEvent(eventName: string, eventId: string): void {
+  try {
+    if (typeof window === 'undefined' || !window.fbq) return;
+
+    const { fbc, fbp } = getFacebookCookies();
+    const payload = JSON.stringify({ eventName, eventId, fbc: !!fbc, fbp: !!fbp });
+
+    if (typeof navigator.sendBeacon === 'function') {
+      navigator.sendBeacon('/api/facebook-dataset-quality', new Blob([payload], { type: 'application/json' }));
+    } else {
+      fetch('/api/facebook-dataset-quality', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: payload,
+        keepalive: true
+      }).catch(() => undefined);
+    }
+  } catch (error) {
+    console.error('Facebook Pixel: Error logging pixel event', error);
+  }
+}
+
 /**
  * Send event to server-side Conversions API
  */
@@ -171,6 +197,7 @@ export const trackLeadEvent = async (
 
   // Send client-side event first (immediate)
   trackFBPixelEvent('Lead', clientParams);
+  logPixelEvent('Lead', eventId);
 
   // Send server-side event (enhanced with customer data)
   if (customerInfo && Object.keys(customerInfo).length > 0) {
@@ -239,6 +266,7 @@ export const trackCustomEvent = async (
   
   // Client-side tracking
   trackFBPixelEvent(eventName, { ...parameters, event_id: eventId });
+  logPixelEvent(eventName, eventId);
   
   // Server-side enhancement if customer info provided
   if (customerInfo && Object.keys(customerInfo).length > 0) {
@@ -0,0 +1,177 @@
+/**
+ * File Storage
+ *
+ * Pluggable storage backends for uploaded files. Every adapter stores bytes
+ * under a durable object key and can read and remove them again, so callers
+ * record the backend and key on their row and never depend on a single
+ * provider.
+ *
+ * Backends:
+ * - supabase: private Supabase Storage bucket (default)
+ * - google_drive: service-account Google Drive folder
+ * - local: local filesystem directory, for development and self-hosting
+ *
+ * Configuration:
+ * - FILE_STORAGE_BACKEND: supabase | google_drive | local
+ * - LOCAL_STORAGE_PATH: root directory for the local backend (default ./storage)
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { deleteFromGoogleDrive, downloadFromGoogleDrive, getDriveFileUrl, getGoogleAuth, uploadToGoogleDrive } from './googleDrive';
+
+export const STORAGE_BACKENDS = ['supabase', 'google_drive', 'local'] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export interface StoredObject {
+  backend: StorageBackend;
+  key: string;
+  // Provider file ID where the provider does not address files by key (Drive)
+  externalId: string | null;
+  // Link for people with provider access; downloads go through the CRM
+  url: string | null;
+}
+
+export interface StorageAdapter {
+  backend: StorageBackend;
+  put(key: string, body: Buffer, contentType: string): Promise<StoredObject>;
+  get(object: Pick<StoredObject, 'key' | 'externalId'>): Promise<Buffer>;
+  remove(object: Pick<StoredObject, 'key' | 'externalId'>): Promise<void>;
+}
+
+export function isStorageBackend(value: unknown): value is StorageBackend {
+  return typeof value === 'string' && (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * SHA-256 hex digest used to verify stored files
+ */
+export function computeChecksum(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export function createSupabaseStorageAdapter(client: SupabaseClient, bucket: string): StorageAdapter {
+  return {
+    backend: 'supabase',
+
+    async put(key, body, contentType) {
+      const { error } = await client.storage
+        .from(bucket)
+        .upload(key, body, { contentType, upsert: false });
+
+      if (error) {
+        throw new Error(`Failed to store ${key} in Supabase Storage: ${error.message}`);
+      }
+
+      return { backend: 'supabase', key, externalId: null, url: null };
+    },
+
+    async get({ key }) {
+      const { data, error } = await client.storage.from(bucket).download(key);
+
+      if (error || !data) {
+        throw new Error(`Failed to read ${key} from Supabase Storage: ${error?.message || 'no data'}`);
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove({ key }) {
+      const { error } = await client.storage.from(bucket).remove([key]);
+
+      if (error) {
+        throw new Error(`Failed to remove ${key} from Supabase Storage: ${error.message}`);
+      }
+    }
+  };
+}
+
+export function createGoogleDriveAdapter(): StorageAdapter {
+  return {
+    backend: 'google_drive',
+
+    async put(key, body, contentType) {
+      const auth = await getGoogleAuth();
+      // Drive has no paths; the key's last segment is the file name
+      const fileId = await uploadToGoogleDrive(auth, body, path.posix.basename(key), contentType);
+      return { backend: 'google_drive', key, externalId: fileId, url: getDriveFileUrl(fileId) };
+    },
+
+    async get({ key, externalId }) {
+      if (!externalId) {
+        throw new Error(`No Google Drive file ID recorded for ${key}`);
+      }
+      const auth = await getGoogleAuth();
+      return downloadFromGoogleDrive(auth, externalId);
+    },
+
+    async remove({ key, externalId }) {
+      if (!externalId) {
+        throw new Error(`No Google Drive file ID recorded for ${key}`);
+      }
+      const auth = await getGoogleAuth();
+      await deleteFromGoogleDrive(auth, externalId);
+    }
+  };
+}
+
+export function createLocalStorageAdapter(root: string): StorageAdapter {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    backend: 'local',
+
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // wx: never overwrite an existing object
+      await writeFile(filePath, body, { flag: 'wx' });
+      return { backend: 'local', key, externalId: null, url: null };
+    },
+
+    async get({ key }) {
+      return readFile(resolveKey(key));
+    },
+
+    async remove({ key }) {
+      await rm(resolveKey(key), { force: true });
+    }
+  };
+}
+
+/**
+ * Adapter for a backend; Supabase-backed adapters use the given bucket
+ */
+export function getStorageAdapter(
+  backend: StorageBackend,
+  client: SupabaseClient,
+  bucket: string
+): StorageAdapter {
+  switch (backend) {
+    case 'google_drive':
+      return createGoogleDriveAdapter();
+    case 'local':
+      return createLocalStorageAdapter(process.env.LOCAL_STORAGE_PATH || path.join(process.cwd(), 'storage'));
+    default:
+      return createSupabaseStorageAdapter(client, bucket);
+  }
+}
+
+/**
+ * The configured primary backend, defaulting to Supabase Storage
+ */
+export function getConfiguredStorageBackend(): StorageBackend {
+  const configured = process.env.FILE_STORAGE_BACKEND;
+  if (configured && !isStorageBackend(configured)) {
+    console.warn(`Unknown FILE_STORAGE_BACKEND "${configured}", using supabase`);
+  }
+  return isStorageBackend(configured) ? configured : 'supabase';
+}
@@ -0,0 +1,172 @@
+/**
+ * Google Drive
+ *
+ * Service-account auth and Drive file transfer shared by the bill upload
+ * route, the Drive storage adapter and the Drive sync retry job.
+ *
+ * Configuration:
+ * - GOOGLE_PROJECT_ID, GOOGLE_PRIVATE_KEY, GOOGLE_CLIENT_EMAIL: service account
+ * - GOOGLE_DRIVE_FOLDER_ID: optional (Shared Drive) folder for uploads
+ */
+
+import { google } from 'googleapis';
+import { PassThrough } from 'stream';
+
+export type GoogleAuth = InstanceType<typeof google.auth.JWT>;
+
+export function getDriveFileUrl(fileId: string): string {
+  return `https://drive.google.com/file/d/${fileId}/view`;
+}
+
+/**
+ * Initialize Google Auth using service account
+ */
+export async function getGoogleAuth(): Promise<GoogleAuth> {
+  // Debug environment variables
+  console.log('Google environment variables check:');
+  console.log('GOOGLE_PROJECT_ID:', process.env.GOOGLE_PROJECT_ID ? 'SET' : 'MISSING');
+  console.log('GOOGLE_PRIVATE_KEY:', process.env.GOOGLE_PRIVATE_KEY ? 'SET (length: ' + process.env.GOOGLE_PRIVATE_KEY?.length + ')' : 'MISSING');
+  console.log('GOOGLE_CLIENT_EMAIL:', process.env.GOOGLE_CLIENT_EMAIL ? 'SET' : 'MISSING');
+  console.log('GOOGLE_PRIVATE_KEY_ID:', process.env.GOOGLE_PRIVATE_KEY_ID ? 'SET' : 'MISSING');
+  console.log('GOOGLE_CLIENT_ID:', process.env.GOOGLE_CLIENT_ID ? 'SET' : 'MISSING');
+  console.log('GOOGLE_DRIVE_FOLDER_ID:', process.env.GOOGLE_DRIVE_FOLDER_ID ? 'SET' : 'MISSING');
+  console.log('GOOGLE_SHEETS_ID:', process.env.GOOGLE_SHEETS_ID ? 'SET' : 'MISSING');
+
+  // Validate environment variables first
+  if (!process.env.GOOGLE_PROJECT_ID || 
+      !process.env.GOOGLE_PRIVATE_KEY || 
+      !process.env.GOOGLE_CLIENT_EMAIL) {
+    const missing = [];
+    if (!process.env.GOOGLE_PROJECT_ID) missing.push('GOOGLE_PROJECT_ID');
+    if (!process.env.GOOGLE_PRIVATE_KEY) missing.push('GOOGLE_PRIVATE_KEY');
+    if (!process.env.GOOGLE_CLIENT_EMAIL) missing.push('GOOGLE_CLIENT_EMAIL');
+    throw new Error(`Missing required Google environment variables: ${missing.join(', ')}`);
+  }
+
+  try {
+    // Enhanced Google Auth with better private key handling for serverless environments
+    console.log('Initializing Google Auth with enhanced approach...');
+    
+    // Clean and prepare the private key - handle multiple possible formats
+    let privateKey = process.env.GOOGLE_PRIVATE_KEY;
+    
+    // Handle different private key formats that might come from environment variables
+    if (privateKey) {
+      // Remove quotes if present
+      privateKey = privateKey.replace(/^["']|["']$/g, '');
+      
+      // Replace literal \n with actual newlines (common in environment variables)
+      privateKey = privateKey.replace(/\\n/g, '\n');
+      
+      // Ensure proper formatting
+      if (!privateKey.startsWith('-----BEGIN')) {
+        throw new Error('Private key appears to be malformed - missing BEGIN marker');
+      }
+      if (!privateKey.endsWith('-----\n') && !privateKey.endsWith('-----')) {
+        privateKey += '\n';
+      }
+    }
+    
+    console.log('Private key preparation complete, length:', privateKey?.length || 0);
+    
+    // Single robust JWT approach with enhanced error handling
+    const auth = new google.auth.JWT({
+      email: process.env.GOOGLE_CLIENT_EMAIL,
+      key: privateKey,
+      scopes: [
+        'https://www.googleapis.com/auth/drive.file',
+        'https://www.googleapis.com/auth/spreadsheets'
+      ]
+    });
+    
+    // Test authentication
+    console.log('Testing Google Auth authorization...');
+    const tokens = await auth.authorize();
+    console.log('Google Auth successful - token type:', tokens.token_type || 'bearer');
+    
+    return auth;
+    
+  } catch (authError: unknown) {
+    console.error('Google Auth initialization failed:', authError);
+    const errorMessage = authError instanceof Error ? authError.message : 'Unknown authentication error';
+    throw new Error(`Failed to initialize Google Auth: ${errorMessage}`);
+  }
+}
+
+/**
+ * Upload file to Google Drive (supports Shared Drives) - Final stream fix
+ */
+export async function uploadToGoogleDrive(auth: GoogleAuth, buffer: Buffer, fileName: string, mimeType: string): Promise<string> {
+  try {
+    console.log('Starting Google Drive upload for file:', fileName);
+    
+    // Initialize Google Drive API with explicit auth
+    console.log('Initializing Google Drive API...');
+    const drive = google.drive({ version: 'v3', auth });
+    
+    // Handle optional folder ID - only include parents if folder ID is provided
+    const fileMetadata: Record<string, unknown> = {
+      name: fileName,
+    };
+
+    if (process.env.GOOGLE_DRIVE_FOLDER_ID) {
+      console.log('Using Google Drive folder:', process.env.GOOGLE_DRIVE_FOLDER_ID);
+      fileMetadata.parents = [process.env.GOOGLE_DRIVE_FOLDER_ID];
+    }
+
+    // Create a proper Readable stream from Buffer using Node.js stream API
+    console.log('Creating readable stream from buffer, size:', buffer.length);
+    const bufferStream = new PassThrough();
+    bufferStream.end(buffer);
+
+    const media = {
+      mimeType: mimeType,
+      body: bufferStream,
+    };
+
+    // Upload file with support for Shared Drives
+    console.log('Uploading file to Google Drive...');
+    const response = await drive.files.create({
+      requestBody: fileMetadata,
+      media: media,
+      fields: 'id',
+      supportsAllDrives: true,  // Required for Shared Drive access
+      supportsTeamDrives: true, // Legacy support
+    });
+
+    console.log('Google Drive upload response:', response.data);
+    
+    if (!response.data.id) {
+      throw new Error('Failed to upload file to Google Drive - no file ID returned');
+    }
+
+    console.log('Google Drive upload successful, file ID:', response.data.id);
+    return response.data.id;
+    
+  } catch (driveError) {
+    console.error('Google Drive upload error details:', driveError);
+    throw new Error(`Google Drive upload failed: ${driveError instanceof Error ? driveError.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Download a file the service account uploaded to Google Drive
+ */
+export async function downloadFromGoogleDrive(auth: GoogleAuth, fileId: string): Promise<Buffer> {
+  const drive = google.drive({ version: 'v3', auth });
+
+  const response = await drive.files.get(
+    { fileId, alt: 'media', supportsAllDrives: true },
+    { responseType: 'arraybuffer' }
+  );
+
+  return Buffer.from(response.data as ArrayBuffer);
+}
+
+/**
+ * Delete a file the service account uploaded to Google Drive
+ */
+export async function deleteFromGoogleDrive(auth: GoogleAuth, fileId: string): Promise<void> {
+  const drive = google.drive({ version: 'v3', auth });
+  await drive.files.delete({ fileId, supportsAllDrives: true });
+}
@@ -0,0 +1,159 @@
+/**
+ * Lead Activities
+ *
+ * Timeline entries for CRM leads stored in lead_activities: notes and calls
+ * logged by reps, SMS sent through /api/integrations/twilio, emails sent
+ * through Resend, status changes and assignments.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import { fetchLeadByContact, type LeadSource } from './leads';
+
+export const LEAD_ACTIVITY_TYPES = ['note', 'call', 'sms', 'email', 'status_change', 'assignment'] as const;
+export type LeadActivityType = typeof LEAD_ACTIVITY_TYPES[number];
+
+export const CALL_OUTCOMES = ['connected', 'voicemail', 'no_answer', 'busy', 'wrong_number'] as const;
+export type CallOutcome = typeof CALL_OUTCOMES[number];
+
+// Window in which a second call or text to the same lead is flagged
+export const RECENT_CONTACT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface LeadActivity {
+  id: string;
+  lead_id: string;
+  lead_source: LeadSource | null;
+  type: LeadActivityType;
+  direction: 'inbound' | 'outbound' | null;
+  subject: string | null;
+  body: string | null;
+  call_outcome: CallOutcome | null;
+  call_duration_seconds: number | null;
+  recipient: string | null;
+  external_id: string | null;
+  delivery_status: 'sent' | 'failed' | null;
+  metadata: Record<string, unknown>;
+  actor_id: string | null;
+  actor_name: string | null;
+  created_at: string;
+}
+
+export interface NewLeadActivity {
+  leadId: string;
+  leadSource?: LeadSource | null;
+  type: LeadActivityType;
+  direction?: 'inbound' | 'outbound';
+  subject?: string | null;
+  body?: string | null;
+  callOutcome?: CallOutcome | null;
+  callDurationSeconds?: number | null;
+  recipient?: string | null;
+  externalId?: string | null;
+  deliveryStatus?: 'sent' | 'failed' | null;
+  metadata?: Record<string, unknown>;
+  actor?: CrmUser | null;
+}
+
+export function isLeadActivityType(value: unknown): value is LeadActivityType {
+  return typeof value === 'string' && (LEAD_ACTIVITY_TYPES as readonly string[]).includes(value);
+}
+
+export function isCallOutcome(value: unknown): value is CallOutcome {
+  return typeof value === 'string' && (CALL_OUTCOMES as readonly string[]).includes(value);
+}
+
+/**
+ * Record an activity against a lead
+ */
+export async function recordLeadActivity(client: SupabaseClient, activity: NewLeadActivity): Promise<LeadActivity> {
+  const { data, error } = await client
+    .from('lead_activities')
+    .insert({
+      lead_id: activity.leadId,
+      lead_source: activity.leadSource ?? null,
+      type: activity.type,
+      direction: activity.direction ?? (activity.type === 'note' || activity.type === 'status_change' || activity.type === 'assignment' ? null : 'outbound'),
+      subject: activity.subject ?? null,
+      body: activity.body ?? null,
+      call_outcome: activity.callOutcome ?? null,
+      call_duration_seconds: activity.callDurationSeconds ?? null,
+      recipient: activity.recipient ?? null,
+      external_id: activity.externalId ?? null,
+      delivery_status: activity.deliveryStatus ?? null,
+      metadata: activity.metadata ?? {},
+      actor_id: activity.actor?.clerkUserId ?? null,
+      actor_name: activity.actor ? activity.actor.name || activity.actor.email : null
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record lead activity: ${error.message}`);
+  }
+
+  return data as LeadActivity;
+}
+
+/**
+ * Record an outbound SMS or email against the lead it was sent to.
+ * Uses the given lead ID, otherwise matches the recipient against lead
+ * phone numbers and emails. Never throws, so a logging failure does not
+ * fail the send that already happened.
+ */
+export async function recordOutboundMessage(
+  client: SupabaseClient,
+  message: Omit<NewLeadActivity, 'leadId' | 'type'> & { type: 'sms' | 'email'; leadId?: string | null }
+): Promise<LeadActivity | null> {
+  try {
+    let leadId = message.leadId || null;
+    let leadSource = message.leadSource ?? null;
+
+    if (!leadId && message.recipient) {
+      const lead = await fetchLeadByContact(client, message.type === 'sms'
+        ? { phone: message.recipient }
+        : { email: message.recipient });
+      leadId = lead?.id ?? null;
+      leadSource = lead?.source ?? null;
+    }
+
+    if (!leadId) return null;
+
+    return await recordLeadActivity(client, { ...message, leadId, leadSource });
+  } catch (error) {
+    console.error(`Error recording ${message.type} activity:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch a lead's activities, newest first
+ */
+export async function fetchLeadActivities(client: SupabaseClient, leadId: string, limit = 200): Promise<LeadActivity[]> {
+  const { data, error } = await client
+    .from('lead_activities')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch lead activities: ${error.message}`);
+  }
+
+  return (data || []) as LeadActivity[];
+}
+
+/**
+ * Most recent outbound call or SMS to the lead within the recent-contact
+ * window, so reps can see someone already reached out.
+ */
+export function findRecentContact(activities: LeadActivity[], now = Date.now()): LeadActivity | null {
+  return activities.find(activity =>
+    (activity.type === 'call' || activity.type === 'sms') &&
+    activity.direction !== 'inbound' &&
+    now - new Date(activity.created_at).getTime() < RECENT_CONTACT_WINDOW_MS
+  ) || null;
+}
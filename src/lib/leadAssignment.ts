@@ -0,0 +1,564 @@
+/**
+ * Lead Assignment
+ *
+ * Routes leads to sales reps and records who owns them in
+ * leads_status.owner_id (the rep's Clerk user ID). The strategy in
+ * lead_routing_settings picks among the reps that can take a lead:
+ * - round_robin: the rep who has waited longest since their last lead
+ * - weighted: the rep with the fewest leads today for their weight, so a
+ *   weight 2 rep gets twice the leads of a weight 1 rep
+ * - territory: reps whose ZIP codes / utilities match the lead, round robin
+ *   among them; round robin among everyone when none match
+ *
+ * A rep can take a lead when they are an active CRM user who has signed in,
+ * are available, and are under their daily cap (leads assigned since
+ * midnight Central) and open lead cap (owned leads not closed or lost).
+ * Active sales users take leads with the defaults until they have a
+ * lead_routing_reps row; admins and managers only once added.
+ *
+ * Completed splash leads are routed automatically unless disqualified or
+ * already owned. Reps with leads:write can reassign from the CRM or route a
+ * lead (e.g. a contact form lead) on demand. Every assignment is logged in
+ * lead_assignments, recorded on the lead's timeline and alerted to the new
+ * owner by text and email (lead_assigned_sms / lead_assigned_email).
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import type { CrmUser } from './crmAuth';
+import { APPOINTMENT_TIME_ZONE } from './appointments';
+import { recordLeadActivity } from './leadActivities';
+import { fetchLeadById, type Lead } from './leads';
+import { escapeHtml, renderMessageTemplate, type TemplateValues } from './messageTemplates';
+import { deliverSms } from './smsQueue';
+
+export const ROUTING_STRATEGIES = ['round_robin', 'weighted', 'territory'] as const;
+export type RoutingStrategy = typeof ROUTING_STRATEGIES[number];
+
+export const ROUTING_STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  round_robin: 'Round robin',
+  weighted: 'Weighted',
+  territory: 'Territory (ZIP / utility)'
+};
+
+export const ASSIGNMENT_METHODS = [...ROUTING_STRATEGIES, 'manual'] as const;
+export type AssignmentMethod = typeof ASSIGNMENT_METHODS[number];
+
+export const MAX_REP_WEIGHT = 100;
+
+// Roles that can own leads
+const OWNER_ROLES = ['admin', 'manager', 'sales'];
+
+// Updated by for automatic assignments
+const ROUTING_ACTOR = 'system';
+
+const ASSIGNMENT_ALERT_TEMPLATES = { sms: 'lead_assigned_sms', email: 'lead_assigned_email' };
+
+export interface RoutingSettings {
+  strategy: RoutingStrategy;
+  is_active: boolean;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+export interface RepRouting {
+  is_available: boolean;
+  weight: number;
+  daily_cap: number | null;
+  open_lead_cap: number | null;
+  zip_codes: string[];
+  utilities: string[];
+  phone: string | null;
+  notify_sms: boolean;
+  notify_email: boolean;
+}
+
+// A CRM user who can own leads, with their routing and current load
+export interface RoutingRep extends RepRouting {
+  id: string;
+  clerk_user_id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  last_assigned_at: string | null;
+  assigned_today: number;
+  open_leads: number;
+}
+
+export interface LeadAssignment {
+  id: string;
+  lead_id: string;
+  lead_source: Lead['source'];
+  owner_id: string | null;
+  previous_owner_id: string | null;
+  method: AssignmentMethod;
+  assigned_by: string | null;
+  notified_via: string[];
+  created_at: string;
+}
+
+interface CrmUserRoutingRow {
+  id: string;
+  clerk_user_id: string;
+  name: string | null;
+  email: string;
+  role: string;
+  lead_routing_reps: (RepRouting & { last_assigned_at: string | null }) | (RepRouting & { last_assigned_at: string | null })[] | null;
+}
+
+const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
+
+export function isRoutingStrategy(value: unknown): value is RoutingStrategy {
+  return typeof value === 'string' && (ROUTING_STRATEGIES as readonly string[]).includes(value);
+}
+
+export function getRepName(rep: Pick<RoutingRep, 'name' | 'email'>): string {
+  return rep.name || rep.email;
+}
+
+/**
+ * Validate a rep routing update. Returns an error message, or null when valid.
+ */
+export function validateRepRouting(update: Partial<RepRouting>): string | null {
+  if (update.weight !== undefined && (!Number.isInteger(update.weight) || update.weight < 1 || update.weight > MAX_REP_WEIGHT)) {
+    return `weight must be a whole number from 1 to ${MAX_REP_WEIGHT}`;
+  }
+
+  for (const cap of ['daily_cap', 'open_lead_cap'] as const) {
+    const value = update[cap];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0)) {
+      return `${cap} must be a whole number of 0 or more, or null for no cap`;
+    }
+  }
+
+  for (const list of ['zip_codes', 'utilities'] as const) {
+    const value = update[list];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim() || item.length > 100))) {
+      return `${list} must be a list of names`;
+    }
+  }
+
+  if (update.zip_codes?.some(zip => !/^\d{1,5}$/.test(zip.trim()))) {
+    return 'zip_codes must be ZIP codes or ZIP prefixes';
+  }
+
+  if (update.phone !== undefined && update.phone !== null && (typeof update.phone !== 'string' || update.phone.replace(/\D/g, '').length < 10)) {
+    return 'phone must be a valid phone number';
+  }
+
+  for (const flag of ['is_available', 'notify_sms', 'notify_email'] as const) {
+    if (update[flag] !== undefined && typeof update[flag] !== 'boolean') {
+      return `${flag} must be true or false`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the rep can take another lead: available and under both caps
+ */
+export function hasCapacity(rep: RoutingRep): boolean {
+  if (!rep.is_available) return false;
+  if (rep.daily_cap !== null && rep.assigned_today >= rep.daily_cap) return false;
+  if (rep.open_lead_cap !== null && rep.open_leads >= rep.open_lead_cap) return false;
+  return true;
+}
+
+/**
+ * Whether the lead is in the rep's territory, by ZIP code (or prefix) or utility
+ */
+export function matchesTerritory(rep: Pick<RoutingRep, 'zip_codes' | 'utilities'>, lead: Pick<Lead, 'zip_code' | 'qualification'>): boolean {
+  const zip = (lead.zip_code || '').trim();
+  const utility = (lead.qualification.utility_company || '').trim().toLowerCase();
+
+  return (!!zip && rep.zip_codes.some(prefix => zip.startsWith(prefix.trim())))
+    || (!!utility && rep.utilities.some(name => utility.includes(name.trim().toLowerCase())));
+}
+
+// Longest waiting first; reps who never had a lead come before everyone
+function byLastAssigned(a: RoutingRep, b: RoutingRep): number {
+  const waitedA = a.last_assigned_at ? new Date(a.last_assigned_at).getTime() : 0;
+  const waitedB = b.last_assigned_at ? new Date(b.last_assigned_at).getTime() : 0;
+  return waitedA - waitedB || getRepName(a).localeCompare(getRepName(b));
+}
+
+/**
+ * Pick the rep for a lead with the given strategy, among reps with capacity.
+ * Returns null when no rep can take it.
+ */
+export function pickRep(
+  strategy: RoutingStrategy,
+  reps: RoutingRep[],
+  lead: Pick<Lead, 'zip_code' | 'qualification'>
+): { rep: RoutingRep; method: RoutingStrategy } | null {
+  const candidates = reps.filter(hasCapacity);
+  if (candidates.length === 0) return null;
+
+  if (strategy === 'weighted') {
+    const [rep] = [...candidates].sort((a, b) =>
+      (a.assigned_today + 1) / a.weight - (b.assigned_today + 1) / b.weight || byLastAssigned(a, b));
+    return { rep, method: 'weighted' };
+  }
+
+  if (strategy === 'territory') {
+    const inTerritory = candidates.filter(rep => matchesTerritory(rep, lead));
+    if (inTerritory.length > 0) {
+      return { rep: [...inTerritory].sort(byLastAssigned)[0], method: 'territory' };
+    }
+  }
+
+  return { rep: [...candidates].sort(byLastAssigned)[0], method: 'round_robin' };
+}
+
+/**
+ * Midnight (Central time) of the day containing the given time
+ */
+function getStartOfDay(now: Date): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: APPOINTMENT_TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(now).map(part => [part.type, Number(part.value)])
+  );
+
+  const zonedAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = zonedAsUtc - Math.floor(now.getTime() / 1000) * 1000;
+
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day) - offset);
+}
+
+/**
+ * Fetch the routing settings
+ */
+export async function fetchRoutingSettings(client: SupabaseClient): Promise<RoutingSettings> {
+  const { data, error } = await client
+    .from('lead_routing_settings')
+    .select('strategy, is_active, updated_by, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead routing settings: ${error.message}`);
+  }
+
+  return (data as RoutingSettings | null) ?? { strategy: 'round_robin', is_active: true, updated_by: null, updated_at: null };
+}
+
+/**
+ * Change the routing strategy or turn automatic routing on or off
+ */
+export async function updateRoutingSettings(
+  client: SupabaseClient,
+  update: { strategy?: RoutingStrategy; is_active?: boolean },
+  actor: CrmUser
+): Promise<RoutingSettings> {
+  const { data, error } = await client
+    .from('lead_routing_settings')
+    .upsert({ id: true, ...update, updated_by: actor.clerkUserId, updated_at: new Date().toISOString() })
+    .select('strategy, is_active, updated_by, updated_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update lead routing settings: ${error.message}`);
+  }
+
+  return data as RoutingSettings;
+}
+
+/**
+ * Fetch every CRM user who can own leads, with their routing and load.
+ * Reps without a routing row get the defaults; only sales users are
+ * available by default.
+ */
+export async function fetchRoutingReps(client: SupabaseClient, now = new Date()): Promise<RoutingRep[]> {
+  const [{ data, error }, { data: load, error: loadError }] = await Promise.all([
+    client
+      .from('crm_users')
+      .select('id, clerk_user_id, name, email, role, lead_routing_reps(*)')
+      .eq('active', true)
+      .in('role', OWNER_ROLES)
+      .not('clerk_user_id', 'is', null)
+      .order('name', { ascending: true }),
+    client.rpc('lead_routing_load', { p_since: getStartOfDay(now).toISOString() })
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch lead routing reps: ${error.message}`);
+  }
+  if (loadError) {
+    throw new Error(`Failed to fetch lead routing load: ${loadError.message}`);
+  }
+
+  const loadByOwner = new Map(
+    ((load || []) as { owner_id: string; open_leads: number; assigned_since: number }[])
+      .map(row => [row.owner_id, row])
+  );
+
+  return ((data || []) as CrmUserRoutingRow[]).map(user => {
+    const routing = Array.isArray(user.lead_routing_reps) ? user.lead_routing_reps[0] : user.lead_routing_reps;
+    const ownerLoad = loadByOwner.get(user.clerk_user_id);
+
+    return {
+      id: user.id,
+      clerk_user_id: user.clerk_user_id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      is_available: routing ? routing.is_available : user.role === 'sales',
+      weight: routing?.weight ?? 1,
+      daily_cap: routing?.daily_cap ?? null,
+      open_lead_cap: routing?.open_lead_cap ?? null,
+      zip_codes: routing?.zip_codes ?? [],
+      utilities: routing?.utilities ?? [],
+      phone: routing?.phone ?? null,
+      notify_sms: routing?.notify_sms ?? true,
+      notify_email: routing?.notify_email ?? true,
+      last_assigned_at: routing?.last_assigned_at ?? null,
+      assigned_today: Number(ownerLoad?.assigned_since ?? 0),
+      open_leads: Number(ownerLoad?.open_leads ?? 0)
+    };
+  });
+}
+
+/**
+ * Save a rep's routing (creating their row on first edit)
+ */
+export async function updateRepRouting(
+  client: SupabaseClient,
+  crmUserId: string,
+  update: Partial<RepRouting>,
+  actor: CrmUser
+): Promise<void> {
+  const { error } = await client
+    .from('lead_routing_reps')
+    .upsert({ crm_user_id: crmUserId, ...update, updated_by: actor.clerkUserId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to update lead routing for rep ${crmUserId}: ${error.message}`);
+  }
+}
+
+/**
+ * Make the rep (or nobody, with null) the lead's owner.
+ * Logs the assignment, records it on the timeline and alerts the new owner,
+ * unless they assigned the lead to themselves. Alert failures are logged,
+ * not thrown. With onlyUnowned the lead is only claimed while it has no
+ * owner; returns null, logging and alerting nothing, when it already has one.
+ */
+export async function assignLead(
+  client: SupabaseClient,
+  lead: Lead,
+  owner: RoutingRep | null,
+  options: { method: AssignmentMethod; actor?: CrmUser | null; reps?: RoutingRep[]; onlyUnowned?: boolean }
+): Promise<LeadAssignment | null> {
+  const now = new Date().toISOString();
+  const ownerId = owner?.clerk_user_id ?? null;
+
+  const { data: written, error: statusError } = await client.rpc('set_lead_owner', {
+    p_lead_id: lead.id,
+    p_source: lead.source,
+    p_owner_id: ownerId,
+    p_updated_by: options.actor?.clerkUserId ?? ROUTING_ACTOR,
+    p_only_unowned: options.onlyUnowned ?? false
+  });
+
+  if (statusError) {
+    throw new Error(`Failed to assign lead ${lead.id}: ${statusError.message}`);
+  }
+  if (!written) {
+    console.log(`Lead routing: lead ${lead.id} already has an owner`);
+    return null;
+  }
+
+  const { data, error } = await client
+    .from('lead_assignments')
+    .insert({
+      lead_id: lead.id,
+      lead_source: lead.source,
+      owner_id: ownerId,
+      previous_owner_id: lead.owner_id,
+      method: options.method,
+      assigned_by: options.actor?.clerkUserId ?? null
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to log assignment of lead ${lead.id}: ${error.message}`);
+  }
+
+  let assignment = data as LeadAssignment;
+
+  // Creating the rep's row keeps their default availability
+  if (owner) {
+    const { error: repError } = await client
+      .from('lead_routing_reps')
+      .upsert({ crm_user_id: owner.id, last_assigned_at: now, is_available: owner.is_available });
+
+    if (repError) {
+      console.error('Error updating rep last assigned time:', repError);
+    }
+  }
+
+  try {
+    const previous = lead.owner_id
+      ? (options.reps ?? []).find(rep => rep.clerk_user_id === lead.owner_id)
+      : null;
+    const previousName = previous ? getRepName(previous) : lead.owner_id;
+    const how = options.method === 'manual' ? '' : ` (${ROUTING_STRATEGY_LABELS[options.method].toLowerCase()})`;
+
+    await recordLeadActivity(client, {
+      leadId: lead.id,
+      leadSource: lead.source,
+      type: 'assignment',
+      body: owner
+        ? `${previousName ? `Reassigned from ${previousName} to` : 'Assigned to'} ${getRepName(owner)}${how}`
+        : `Unassigned from ${previousName || 'nobody'}`,
+      metadata: { from: lead.owner_id, to: ownerId, method: options.method },
+      actor: options.actor
+    });
+  } catch (activityError) {
+    console.error('Error recording assignment activity:', activityError);
+  }
+
+  if (owner && owner.clerk_user_id !== options.actor?.clerkUserId) {
+    const notifiedVia = await alertRep(client, owner, lead, ASSIGNMENT_ALERT_TEMPLATES);
+    if (notifiedVia.length > 0) {
+      const { error: notifyError } = await client
+        .from('lead_assignments')
+        .update({ notified_via: notifiedVia })
+        .eq('id', assignment.id);
+
+      if (notifyError) {
+        console.error('Error recording assignment alerts:', notifyError);
+      } else {
+        assignment = { ...assignment, notified_via: notifiedVia };
+      }
+    }
+  }
+
+  return assignment;
+}
+
+/**
+ * Route a lead with the configured strategy. Returns null without assigning
+ * when routing is off, the lead is missing, already owned or disqualified,
+ * or no rep can take it.
+ */
+export async function autoAssignLead(client: SupabaseClient, leadId: string): Promise<LeadAssignment | null> {
+  const settings = await fetchRoutingSettings(client);
+  if (!settings.is_active) return null;
+
+  return routeLead(client, leadId, settings.strategy);
+}
+
+/**
+ * Route a lead with the given strategy, whether or not automatic routing is
+ * on. Returns null when the lead is missing, already owned or disqualified,
+ * or no rep can take it.
+ */
+export async function routeLead(
+  client: SupabaseClient,
+  leadId: string,
+  strategy: RoutingStrategy,
+  actor: CrmUser | null = null
+): Promise<LeadAssignment | null> {
+  const lead = await fetchLeadById(client, leadId);
+  if (!lead || lead.owner_id || lead.qualification.status === 'disqualified') return null;
+
+  const reps = await fetchRoutingReps(client);
+  const picked = pickRep(strategy, reps, lead);
+  if (!picked) {
+    console.log(`Lead routing: no rep can take lead ${leadId}`);
+    return null;
+  }
+
+  return assignLead(client, lead, picked.rep, { method: picked.method, actor, reps, onlyUnowned: true });
+}
+
+/**
+ * Text and email a rep about a lead with the given templates, as the rep
+ * prefers. Used for new lead alerts and SLA escalations
+ * (see src/lib/leadSla.ts). Returns the channels that went out. Never throws.
+ */
+export async function alertRep(
+  client: SupabaseClient,
+  rep: RoutingRep,
+  lead: Lead,
+  templates: { sms: string; email: string },
+  extraValues: TemplateValues = {}
+): Promise<string[]> {
+  const address = [lead.street_address, lead.location].filter(Boolean).join(', ');
+  const rows: [string, string | number | null][] = [
+    ['Name', lead.name],
+    ['Phone', lead.phone],
+    ['Email', lead.email],
+    ['Address', address],
+    ['Utility', lead.qualification.utility_company],
+    ['Average Bill', lead.electric_bill ? `$${lead.electric_bill}/month` : null],
+    ['Score', lead.score],
+    ['Source', lead.source === 'splash' ? 'Splash page' : 'Contact form']
+  ];
+
+  const values: TemplateValues = {
+    ...extraValues,
+    FullName: lead.name,
+    Phone: lead.phone,
+    Address: address,
+    RepName: getRepName(rep),
+    LeadId: lead.id,
+    Timestamp: new Date().toLocaleString(),
+    LeadDetails: rows
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(String(value))}</p>`)
+      .join('')
+  };
+
+  const notifiedVia: string[] = [];
+
+  // Rep alerts go through the SMS queue so a rep who replied STOP is not
+  // texted and transient Twilio failures are retried. No lead is linked, as
+  // the alert is not a message to the lead.
+  if (rep.notify_sms && rep.phone) {
+    try {
+      const message = await renderMessageTemplate(client, templates.sms, values, 'sms');
+      if (!message) throw new Error(`SMS template ${templates.sms} is missing or inactive`);
+
+      const sms = await deliverSms(client, { to: rep.phone, body: message.body, messageType: 'rep_alert' });
+      if (!sms) throw new Error('Rep has opted out of texts');
+      if (sms.status === 'failed') throw new Error(sms.last_error || 'SMS send failed');
+      notifiedVia.push('sms');
+    } catch (error) {
+      console.error(`Error texting ${templates.sms} to rep:`, error);
+    }
+  }
+
+  if (rep.notify_email) {
+    try {
+      const message = await renderMessageTemplate(client, templates.email, values, 'email');
+      if (!message) throw new Error(`Email template ${templates.email} is missing or inactive`);
+
+      const { error } = await resend.emails.send({
+        from: 'Quantum Solar <info@quantumsolar.us>',
+        to: [rep.email],
+        subject: message.subject || message.template.name,
+        html: message.body
+      });
+      if (error) throw new Error(error.message);
+      notifiedVia.push('email');
+    } catch (error) {
+      console.error(`Error emailing ${templates.email} to rep:`, error);
+    }
+  }
+
+  return notifiedVia;
+}
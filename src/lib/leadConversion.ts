@@ -0,0 +1,168 @@
+/**
+ * Lead to Project Conversion
+ *
+ * Turns a CRM lead into a project: creates the projects row pre-filled from
+ * the lead on the default pipeline, links it back through projects.lead_id,
+ * opens history for the pipeline's first stage and marks the lead closed.
+ * Conversion is idempotent; the unique index on projects.lead_id means a
+ * lead only ever produces one project.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import { updateLeadStatus, type Lead } from './leads';
+import { recordLeadActivity } from './leadActivities';
+import { fetchPipeline } from './pipelines';
+
+// Rough sizing for Illinois residential systems
+const AVERAGE_RATE_PER_KWH = 0.15;
+const ANNUAL_KWH_PER_KW = 1300;
+const MIN_SYSTEM_KW = 3;
+const MAX_SYSTEM_KW = 15;
+const COST_PER_KW = 3000; // $3/W, same estimate as the Google Solar integration
+
+export interface SystemEstimate {
+  system_size_kw: number;
+  estimated_annual_production_kwh: number;
+  project_value: number;
+}
+
+export interface LeadConversionResult {
+  project: Record<string, unknown> & { id: string };
+  created: boolean;
+}
+
+/**
+ * Estimate system size, production and value from the average monthly bill
+ */
+export function estimateSystemFromBill(monthlyBill: number | null): SystemEstimate | null {
+  if (!monthlyBill || monthlyBill <= 0) return null;
+
+  const annualUsageKwh = (monthlyBill * 12) / AVERAGE_RATE_PER_KWH;
+  const systemSizeKw = Math.min(Math.max(annualUsageKwh / ANNUAL_KWH_PER_KW, MIN_SYSTEM_KW), MAX_SYSTEM_KW);
+  const roundedSize = Math.round(systemSizeKw * 10) / 10;
+
+  return {
+    system_size_kw: roundedSize,
+    estimated_annual_production_kwh: Math.round(roundedSize * ANNUAL_KWH_PER_KW),
+    project_value: Math.round(roundedSize * COST_PER_KW)
+  };
+}
+
+/**
+ * Full street address for a lead, or null when the lead has none
+ */
+export function formatLeadAddress(lead: Lead): string | null {
+  const stateZip = [lead.state, lead.zip_code].filter(Boolean).join(' ');
+  const parts = [lead.street_address, lead.city, stateZip].filter(Boolean);
+  return lead.street_address ? parts.join(', ') : null;
+}
+
+/**
+ * Fetch the project already converted from a lead, if any
+ */
+export async function fetchProjectForLead(client: SupabaseClient, leadId: string) {
+  const { data, error } = await client
+    .from('projects')
+    .select('*')
+    .eq('lead_id', leadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project for lead ${leadId}: ${error.message}`);
+  }
+
+  return data as LeadConversionResult['project'] | null;
+}
+
+/**
+ * Convert a lead to a project. Returns the existing project when the lead
+ * was already converted, including when a concurrent request won the race.
+ */
+export async function convertLeadToProject(
+  client: SupabaseClient,
+  lead: Lead,
+  address: string,
+  user: CrmUser
+): Promise<LeadConversionResult> {
+  const existing = await fetchProjectForLead(client, lead.id);
+  if (existing) return { project: existing, created: false };
+
+  const pipeline = await fetchPipeline(client);
+  const firstStage = pipeline?.stages[0];
+  if (!pipeline || !firstStage) {
+    throw new Error('No default pipeline configured');
+  }
+
+  const estimate = estimateSystemFromBill(lead.electric_bill);
+  const notes = [
+    `Converted from ${lead.source === 'splash' ? 'splash page' : 'contact form'} lead`,
+    lead.electric_bill ? `Average monthly bill: $${lead.electric_bill}` : null,
+    lead.qualification.utility_company ? `Utility: ${lead.qualification.utility_company}` : null,
+    lead.message ? `Message: ${lead.message}` : null
+  ].filter(Boolean).join('\n');
+
+  const { data: project, error: projectError } = await client
+    .from('projects')
+    .insert({
+      customer_name: lead.name,
+      customer_email: lead.email || null,
+      customer_phone: lead.phone || null,
+      address,
+      ...estimate,
+      lead_id: lead.id,
+      lead_source: lead.source,
+      pipeline_id: pipeline.id,
+      current_stage: firstStage.stage_number,
+      notes,
+      contract_signed_date: new Date().toISOString().split('T')[0],
+      notice_to_proceed_date: new Date().toISOString().split('T')[0]
+    })
+    .select()
+    .single();
+
+  if (projectError) {
+    // Unique violation on projects.lead_id: another request converted it first
+    if (projectError.code === '23505') {
+      const converted = await fetchProjectForLead(client, lead.id);
+      if (converted) return { project: converted, created: false };
+    }
+    throw new Error(`Failed to create project: ${projectError.message}`);
+  }
+
+  // Initialize stage history with the pipeline's first stage
+  const { error: historyError } = await client
+    .from('project_stage_history')
+    .insert({
+      project_id: project.id,
+      stage_id: firstStage.id,
+      completed_by: user.clerkUserId,
+      notes: 'Project created from lead conversion'
+    });
+
+  if (historyError) {
+    console.error('Error creating stage history:', historyError);
+  }
+
+  await updateLeadStatus(client, {
+    id: lead.id,
+    source: lead.source,
+    status: 'closed',
+    updatedBy: user.clerkUserId
+  });
+
+  try {
+    await recordLeadActivity(client, {
+      leadId: lead.id,
+      leadSource: lead.source,
+      type: 'status_change',
+      body: `Converted to project (status changed from ${lead.status} to closed)`,
+      metadata: { from: lead.status, to: 'closed', projectId: project.id },
+      actor: user
+    });
+  } catch (error) {
+    console.error('Error recording conversion activity:', error);
+  }
+
+  return { project, created: true };
+}
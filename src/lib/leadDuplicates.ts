@@ -0,0 +1,228 @@
+/**
+ * Lead Duplicates
+ *
+ * The CRM "Possible duplicates" queue. Splash leads, contact submissions and
+ * chatbot conversations are matched in the database on normalized phone,
+ * email and street address (exact and fuzzy), both for existing records and
+ * by triggers as new ones are written. Each likely pair is a row in
+ * lead_duplicate_candidates, read side by side through crm_lead_duplicates.
+ *
+ * A pair is either dismissed or merged. Merging keeps one splash or contact
+ * lead, applies the field values picked in the CRM and moves the other
+ * record's activity, messages, appointments, bills and project link over
+ * (merge_crm_leads). Chatbot conversations are linked, not deleted.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import type { LeadSource } from './leads';
+
+export const DUPLICATE_STATUSES = ['open', 'merged', 'dismissed'] as const;
+export type DuplicateStatus = typeof DUPLICATE_STATUSES[number];
+
+export const DUPLICATE_RECORD_SOURCES = ['splash', 'contact', 'chatbot'] as const;
+export type DuplicateRecordSource = typeof DUPLICATE_RECORD_SOURCES[number];
+
+// Fields picked from either record when merging
+export const MERGE_FIELDS = ['name', 'email', 'phone', 'street_address'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const MATCH_REASON_LABELS: Record<string, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  address: 'Same address',
+  similar_address: 'Similar address',
+  name: 'Similar name'
+};
+
+export const DUPLICATE_SOURCE_LABELS: Record<DuplicateRecordSource, string> = {
+  splash: 'Splash Form',
+  contact: 'Contact Form',
+  chatbot: 'Chatbot'
+};
+
+export interface DuplicateRecord {
+  id: string;
+  source: DuplicateRecordSource;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  street_address: string | null;
+  created_at: string;
+}
+
+export interface LeadDuplicate {
+  id: string;
+  score: number;
+  match_reasons: string[];
+  status: DuplicateStatus;
+  detected_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  lead: DuplicateRecord;
+  match: DuplicateRecord;
+}
+
+export type MergeResult = { merged: true; leadId: string } | { merged: false; reason: string };
+
+// Row shape returned by the crm_lead_duplicates view
+interface LeadDuplicateRow {
+  id: string;
+  score: number;
+  match_reasons: string[] | null;
+  status: DuplicateStatus;
+  detected_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  lead_id: string;
+  lead_source: DuplicateRecordSource;
+  lead_name: string;
+  lead_email: string | null;
+  lead_phone: string | null;
+  lead_address: string | null;
+  lead_created_at: string;
+  match_id: string;
+  match_source: DuplicateRecordSource;
+  match_name: string;
+  match_email: string | null;
+  match_phone: string | null;
+  match_address: string | null;
+  match_created_at: string;
+}
+
+export function isDuplicateStatus(value: unknown): value is DuplicateStatus {
+  return typeof value === 'string' && (DUPLICATE_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a record can be kept as the merged lead (chatbot conversations
+ * are not CRM leads)
+ */
+export function isMergeableRecord(record: DuplicateRecord): record is DuplicateRecord & { source: LeadSource } {
+  return record.source === 'splash' || record.source === 'contact';
+}
+
+function toLeadDuplicate(row: LeadDuplicateRow): LeadDuplicate {
+  return {
+    id: row.id,
+    score: row.score,
+    match_reasons: row.match_reasons || [],
+    status: row.status,
+    detected_at: row.detected_at,
+    resolved_at: row.resolved_at,
+    resolved_by: row.resolved_by,
+    lead: {
+      id: row.lead_id,
+      source: row.lead_source,
+      name: row.lead_name,
+      email: row.lead_email,
+      phone: row.lead_phone,
+      street_address: row.lead_address,
+      created_at: row.lead_created_at
+    },
+    match: {
+      id: row.match_id,
+      source: row.match_source,
+      name: row.match_name,
+      email: row.match_email,
+      phone: row.match_phone,
+      street_address: row.match_address,
+      created_at: row.match_created_at
+    }
+  };
+}
+
+/**
+ * Fetch duplicate pairs with a status, strongest and newest first
+ */
+export async function fetchLeadDuplicates(
+  client: SupabaseClient,
+  status: DuplicateStatus = 'open',
+  limit = 50
+): Promise<LeadDuplicate[]> {
+  const { data, error } = await client
+    .from('crm_lead_duplicates')
+    .select('*')
+    .eq('status', status)
+    .order('score', { ascending: false })
+    .order('detected_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch lead duplicates: ${error.message}`);
+  }
+
+  return ((data || []) as LeadDuplicateRow[]).map(toLeadDuplicate);
+}
+
+/**
+ * Fetch a single duplicate pair, or null if it does not exist or one of
+ * its records is gone
+ */
+export async function fetchLeadDuplicate(client: SupabaseClient, id: string): Promise<LeadDuplicate | null> {
+  const { data, error } = await client
+    .from('crm_lead_duplicates')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead duplicate ${id}: ${error.message}`);
+  }
+
+  return data ? toLeadDuplicate(data as LeadDuplicateRow) : null;
+}
+
+/**
+ * Mark an open pair as not a duplicate. Returns false if it was not open.
+ */
+export async function dismissLeadDuplicate(client: SupabaseClient, id: string, actor: CrmUser): Promise<boolean> {
+  const { data, error } = await client
+    .from('lead_duplicate_candidates')
+    .update({ status: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: actor.clerkUserId })
+    .eq('id', id)
+    .eq('status', 'open')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to dismiss lead duplicate ${id}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Merge the other record of a pair into the kept lead with the picked
+ * field values. Refusals (pair already resolved, record gone, both leads
+ * converted to projects) come back as { merged: false, reason }.
+ */
+export async function mergeLeadDuplicate(
+  client: SupabaseClient,
+  merge: {
+    duplicateId: string;
+    keep: { id: string; source: LeadSource };
+    fields: Partial<Record<MergeField, string | null>>;
+  },
+  actor: CrmUser
+): Promise<MergeResult> {
+  const { data, error } = await client.rpc('merge_crm_leads', {
+    p_candidate_id: merge.duplicateId,
+    p_primary_source: merge.keep.source,
+    p_primary_id: merge.keep.id,
+    p_fields: merge.fields,
+    p_merged_by: actor.clerkUserId,
+    p_merged_by_name: actor.name || actor.email
+  });
+
+  if (error) {
+    if (error.message.startsWith('Cannot merge: ')) {
+      return { merged: false, reason: error.message.slice('Cannot merge: '.length) };
+    }
+    throw new Error(`Failed to merge lead duplicate ${merge.duplicateId}: ${error.message}`);
+  }
+
+  return { merged: true, leadId: data as string };
+}
@@ -0,0 +1,430 @@
+/**
+ * Lead Qualification
+ *
+ * Shared qualification rules for the splash funnel. Rules live in
+ * lead_qualification_rules so they can be changed from the CRM without a
+ * deploy. Each rule tests one answer (utility, state, ZIP, homeowner,
+ * credit, shading, existing solar, HOA) and, when it matches, either
+ * disqualifies the lead or soft-fails it (the lead is accepted but flagged
+ * for sales). Unanswered questions are skipped, so the same rules can be
+ * checked step by step while the form is filled in.
+ *
+ * The rules are only evaluated on the server: both splash forms ask
+ * /api/lead-qualification after each qualifying answer, /api/disqualified-leads
+ * re-checks before recording a disqualification, and /api/splash-leads stores
+ * the result (qualification_status and reason code) on every save.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+
+// splash_leads columns a rule can test
+export const QUALIFICATION_FIELDS = [
+  'utility_company',
+  'state',
+  'zip_code',
+  'homeowner_status',
+  'credit_score',
+  'shading',
+  'existing_solar',
+  'hoa_restrictions'
+] as const;
+export type QualificationField = typeof QUALIFICATION_FIELDS[number];
+
+// contains_any / contains_none match when the answer includes one of the values
+export const QUALIFICATION_OPERATORS = ['in', 'not_in', 'contains_any', 'contains_none'] as const;
+export type QualificationOperator = typeof QUALIFICATION_OPERATORS[number];
+
+export const QUALIFICATION_OUTCOMES = ['disqualified', 'soft_fail'] as const;
+export type QualificationOutcome = typeof QUALIFICATION_OUTCOMES[number];
+
+export type QualificationResultStatus = 'qualified' | QualificationOutcome;
+
+export const QUALIFICATION_CODE_PATTERN = /^[a-z][a-z0-9_]{1,48}$/;
+
+export const QUALIFICATION_FIELD_LABELS: Record<QualificationField, string> = {
+  utility_company: 'Utility',
+  state: 'State',
+  zip_code: 'ZIP code',
+  homeowner_status: 'Homeowner',
+  credit_score: 'Credit range',
+  shading: 'Shading',
+  existing_solar: 'Existing solar',
+  hoa_restrictions: 'HOA restrictions'
+};
+
+export const QUALIFICATION_OPERATOR_LABELS: Record<QualificationOperator, string> = {
+  in: 'is one of',
+  not_in: 'is not one of',
+  contains_any: 'contains',
+  contains_none: 'does not contain'
+};
+
+export const QUALIFICATION_OUTCOME_LABELS: Record<QualificationOutcome, string> = {
+  disqualified: 'Disqualify',
+  soft_fail: 'Soft fail'
+};
+
+// Splash form fields that answer a qualification question
+const FORM_FIELD_MAP = {
+  utilityCompany: 'utility_company',
+  state: 'state',
+  zipCode: 'zip_code',
+  homeownerStatus: 'homeowner_status',
+  creditScore: 'credit_score',
+  shading: 'shading',
+  existingSolar: 'existing_solar',
+  hoaRestrictions: 'hoa_restrictions'
+} satisfies Record<string, QualificationField>;
+
+// Splash form data (camelCase fields); only the qualifying fields are read
+export type QualificationFormData = { [formField in keyof typeof FORM_FIELD_MAP]?: unknown };
+
+export type QualificationAnswers = Partial<Record<QualificationField, string | boolean | null>>;
+
+export interface QualificationRule {
+  id: string;
+  code: string;
+  field: QualificationField;
+  operator: QualificationOperator;
+  match_values: string[];
+  outcome: QualificationOutcome;
+  reason: string;
+  sort_order: number;
+  is_active: boolean;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface NewQualificationRule {
+  code: string;
+  field: QualificationField;
+  operator: QualificationOperator;
+  match_values: string[];
+  outcome: QualificationOutcome;
+  reason: string;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export interface QualificationFailure {
+  code: string;
+  outcome: QualificationOutcome;
+  reason: string;
+}
+
+export interface QualificationResult {
+  status: QualificationResultStatus;
+  // The deciding rule: the first disqualifying one, else the first soft fail
+  reasonCode: string | null;
+  reason: string | null;
+  failures: QualificationFailure[];
+}
+
+const QUALIFICATION_LEAD_SELECT = 'id, utility_company, state, zip_code, homeowner_status, credit_score, shading, existing_solar, hoa_restrictions';
+
+// Leads are re-checked in pages of this size when the rules change
+const REQUALIFY_BATCH_SIZE = 200;
+
+export function isQualificationField(value: unknown): value is QualificationField {
+  return typeof value === 'string' && (QUALIFICATION_FIELDS as readonly string[]).includes(value);
+}
+
+export function isQualificationOperator(value: unknown): value is QualificationOperator {
+  return typeof value === 'string' && (QUALIFICATION_OPERATORS as readonly string[]).includes(value);
+}
+
+export function isQualificationOutcome(value: unknown): value is QualificationOutcome {
+  return typeof value === 'string' && (QUALIFICATION_OUTCOMES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a splash form field answers a qualification question
+ */
+export function isQualifyingFormField(field: string): boolean {
+  return field in FORM_FIELD_MAP;
+}
+
+/**
+ * Pick the qualification answers out of splash form data (camelCase fields)
+ */
+export function toQualificationAnswers(formData: QualificationFormData): QualificationAnswers {
+  const values: Record<string, unknown> = formData;
+  const answers: QualificationAnswers = {};
+  for (const [formField, field] of Object.entries(FORM_FIELD_MAP)) {
+    const value = values[formField];
+    if (typeof value === 'string' || typeof value === 'boolean') {
+      answers[field] = value;
+    }
+  }
+  return answers;
+}
+
+// Answers are compared trimmed and lowercased; booleans as "true" / "false"
+function normalizeAnswer(value: string | boolean | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  const normalized = String(value).trim().toLowerCase();
+  return normalized || null;
+}
+
+function matchesRule(rule: QualificationRule, answer: string): boolean {
+  const values = rule.match_values.map(value => value.trim().toLowerCase()).filter(Boolean);
+
+  switch (rule.operator) {
+    case 'in':
+      return values.includes(answer);
+    case 'not_in':
+      return !values.includes(answer);
+    case 'contains_any':
+      return values.some(value => answer.includes(value));
+    case 'contains_none':
+      return !values.some(value => answer.includes(value));
+  }
+}
+
+/**
+ * Check answers against the active rules, in rule order. Unanswered
+ * questions never fail a rule.
+ */
+export function evaluateQualification(answers: QualificationAnswers, rules: QualificationRule[]): QualificationResult {
+  const failures: QualificationFailure[] = [];
+
+  for (const rule of [...rules].sort((a, b) => a.sort_order - b.sort_order)) {
+    if (!rule.is_active) continue;
+
+    const answer = normalizeAnswer(answers[rule.field]);
+    if (answer === null || !matchesRule(rule, answer)) continue;
+
+    failures.push({ code: rule.code, outcome: rule.outcome, reason: rule.reason });
+  }
+
+  const deciding = failures.find(failure => failure.outcome === 'disqualified') || failures[0];
+
+  return {
+    status: deciding ? deciding.outcome : 'qualified',
+    reasonCode: deciding?.code ?? null,
+    reason: deciding?.reason ?? null,
+    failures
+  };
+}
+
+/**
+ * Ask the server whether splash form answers qualify (browser only).
+ * Returns null if the check could not be made, so the form can carry on.
+ */
+export async function requestLeadQualification(
+  formData: Record<string, unknown>
+): Promise<Pick<QualificationResult, 'status' | 'reasonCode'> | null> {
+  try {
+    const response = await fetch('/api/lead-qualification', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ answers: toQualificationAnswers(formData) })
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error('Lead qualification check failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch qualification rules in evaluation order
+ */
+export async function fetchQualificationRules(client: SupabaseClient, activeOnly = false): Promise<QualificationRule[]> {
+  let query = client
+    .from('lead_qualification_rules')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch qualification rules: ${error.message}`);
+  }
+
+  return (data || []) as QualificationRule[];
+}
+
+/**
+ * Check answers against the current rules
+ */
+export async function qualifyAnswers(client: SupabaseClient, answers: QualificationAnswers): Promise<QualificationResult> {
+  const rules = await fetchQualificationRules(client, true);
+  return evaluateQualification(answers, rules);
+}
+
+/**
+ * Validate an untrusted rule (all fields, or only those present when
+ * partial), returning an error message or null
+ */
+export function validateQualificationRule(rule: Record<string, unknown>, partial = false): string | null {
+  const has = (key: string) => !partial || rule[key] !== undefined;
+
+  if (has('code') && (typeof rule.code !== 'string' || !QUALIFICATION_CODE_PATTERN.test(rule.code))) {
+    return 'code must be lowercase letters, numbers and underscores';
+  }
+  if (has('field') && !isQualificationField(rule.field)) {
+    return `field must be one of: ${QUALIFICATION_FIELDS.join(', ')}`;
+  }
+  if (has('operator') && !isQualificationOperator(rule.operator)) {
+    return `operator must be one of: ${QUALIFICATION_OPERATORS.join(', ')}`;
+  }
+  if (has('match_values') && (!Array.isArray(rule.match_values) || rule.match_values.length === 0 ||
+      !rule.match_values.every(value => typeof value === 'string' && value.trim()))) {
+    return 'match_values must be a non-empty list of answers';
+  }
+  if (has('outcome') && !isQualificationOutcome(rule.outcome)) {
+    return 'outcome must be disqualified or soft_fail';
+  }
+  if (has('reason') && (typeof rule.reason !== 'string' || !rule.reason.trim())) {
+    return 'reason is required';
+  }
+  if (rule.sort_order !== undefined && !Number.isInteger(rule.sort_order)) {
+    return 'sort_order must be a whole number';
+  }
+  if (rule.is_active !== undefined && typeof rule.is_active !== 'boolean') {
+    return 'is_active must be true or false';
+  }
+
+  return null;
+}
+
+/**
+ * Create a rule. Returns null if a rule with the code already exists.
+ */
+export async function createQualificationRule(
+  client: SupabaseClient,
+  rule: NewQualificationRule,
+  actor: CrmUser
+): Promise<QualificationRule | null> {
+  const { data, error } = await client
+    .from('lead_qualification_rules')
+    .insert({ ...rule, updated_by: actor.clerkUserId })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null;
+    throw new Error(`Failed to create qualification rule: ${error.message}`);
+  }
+
+  return data as QualificationRule;
+}
+
+/**
+ * Update a rule. Returns null if it does not exist.
+ */
+export async function updateQualificationRule(
+  client: SupabaseClient,
+  id: string,
+  update: Partial<Omit<NewQualificationRule, 'code'>>,
+  actor: CrmUser
+): Promise<QualificationRule | null> {
+  const { data, error } = await client
+    .from('lead_qualification_rules')
+    .update({ ...update, updated_by: actor.clerkUserId, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update qualification rule ${id}: ${error.message}`);
+  }
+
+  return data as QualificationRule | null;
+}
+
+/**
+ * Delete a rule. Returns false if it does not exist.
+ */
+export async function deleteQualificationRule(client: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('lead_qualification_rules')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete qualification rule ${id}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+async function saveLeadQualification(client: SupabaseClient, leadId: string, result: QualificationResult): Promise<void> {
+  const { error } = await client
+    .from('splash_leads')
+    .update({
+      qualification_status: result.status,
+      qualification_reason_code: result.reasonCode,
+      qualification_reason: result.reason
+    })
+    .eq('id', leadId);
+
+  if (error) {
+    throw new Error(`Failed to save qualification for lead ${leadId}: ${error.message}`);
+  }
+}
+
+/**
+ * Re-check one splash lead against the rules and store the result.
+ * Returns null if the lead does not exist.
+ */
+export async function requalifyLead(client: SupabaseClient, leadId: string): Promise<QualificationResult | null> {
+  const { data: lead, error } = await client
+    .from('splash_leads')
+    .select(QUALIFICATION_LEAD_SELECT)
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead ${leadId} for qualification: ${error.message}`);
+  }
+  if (!lead) return null;
+
+  const result = await qualifyAnswers(client, lead as QualificationAnswers);
+  await saveLeadQualification(client, leadId, result);
+
+  return result;
+}
+
+/**
+ * Re-check every splash lead (after the rules change).
+ * Returns the number of leads checked.
+ */
+export async function requalifyAllLeads(client: SupabaseClient): Promise<number> {
+  const rules = await fetchQualificationRules(client, true);
+  let checked = 0;
+
+  for (let offset = 0; ; offset += REQUALIFY_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('splash_leads')
+      .select(QUALIFICATION_LEAD_SELECT)
+      .order('id', { ascending: true })
+      .range(offset, offset + REQUALIFY_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch leads for qualification: ${error.message}`);
+    }
+
+    const leads = (data || []) as (QualificationAnswers & { id: string })[];
+    for (const lead of leads) {
+      await saveLeadQualification(client, lead.id, evaluateQualification(lead, rules));
+      checked++;
+    }
+
+    if (leads.length < REQUALIFY_BATCH_SIZE) break;
+  }
+
+  return checked;
+}
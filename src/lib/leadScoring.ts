@@ -0,0 +1,380 @@
+/**
+ * Lead Scoring
+ *
+ * App-layer scoring engine for splash leads. Each factor in
+ * lead_scoring_factors is worth up to its weight in points: the lead's
+ * answer is matched to a multiplier (0-1) from the factor's rules, either
+ * per answer (values) or per numeric band (bands), with fallbacks for
+ * unlisted answers (other) and unanswered questions (missing). The points of
+ * the active factors are scaled to a 0-100 score.
+ *
+ * The score and its per-factor breakdown are written to splash_leads
+ * (lead_score, lead_score_breakdown) whenever the lead is saved, a bill is
+ * uploaded for it, or a duplicate is merged into it. Editing the factors
+ * flags every lead stale, and the lead scoring job
+ * (/api/crm/lead-scoring/rescore) rescores them in batches. The CRM leads
+ * list sorts on the score by default.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+
+export const LEAD_SCORING_FACTORS = [
+  'average_monthly_bill',
+  'credit_score',
+  'homeowner_status',
+  'shading',
+  'roof_condition',
+  'roof_material',
+  'utility_company',
+  'timeline_preference',
+  'financing_preference',
+  'bill_uploaded'
+] as const;
+export type LeadScoringFactor = typeof LEAD_SCORING_FACTORS[number];
+
+// Factors scored by numeric band rather than per answer
+export const NUMERIC_SCORING_FACTORS: readonly LeadScoringFactor[] = ['average_monthly_bill'];
+
+export const MAX_FACTOR_WEIGHT = 100;
+
+export interface ScoringBand {
+  min: number;
+  value: number;
+}
+
+export interface ScoringRules {
+  // Multiplier per answer, matched case-insensitively
+  values?: Record<string, number>;
+  // Multiplier for numbers at or above min (the highest matching band wins)
+  bands?: ScoringBand[];
+  // Multiplier for an answer not listed in values or below every band
+  other?: number;
+  // Multiplier when the lead has no answer
+  missing?: number;
+}
+
+export interface ScoringFactor {
+  factor: LeadScoringFactor;
+  label: string;
+  weight: number;
+  rules: ScoringRules;
+  sort_order: number;
+  is_active: boolean;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface ScoreBreakdownItem {
+  factor: LeadScoringFactor;
+  label: string;
+  value: string | null;
+  points: number;
+  max: number;
+}
+
+export interface LeadScore {
+  score: number;
+  breakdown: ScoreBreakdownItem[];
+}
+
+// splash_leads answers the engine reads, plus whether a bill was uploaded
+export interface ScorableLead {
+  average_monthly_bill: number | null;
+  credit_score: string | null;
+  homeowner_status: string | null;
+  shading: string | null;
+  roof_condition: string | null;
+  roof_material: string | null;
+  utility_company: string | null;
+  timeline_preference: string | null;
+  financing_preference: string | null;
+  bill_uploaded: boolean;
+}
+
+const SCORABLE_LEAD_SELECT = 'id, average_monthly_bill, credit_score, homeowner_status, shading, roof_condition, roof_material, utility_company, timeline_preference, financing_preference';
+
+// Leads are rescored in pages of this size when the factors change, up to
+// RESCORE_RUN_LIMIT per run of the lead scoring job
+const RESCORE_BATCH_SIZE = 200;
+const RESCORE_RUN_LIMIT = 2000;
+
+export function isLeadScoringFactor(value: unknown): value is LeadScoringFactor {
+  return typeof value === 'string' && (LEAD_SCORING_FACTORS as readonly string[]).includes(value);
+}
+
+function isMultiplier(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+/**
+ * Validate untrusted scoring rules, returning an error message or null
+ */
+export function validateScoringRules(factor: LeadScoringFactor, rules: unknown): string | null {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return 'rules must be an object';
+  }
+
+  const { values, bands, other, missing } = rules as Record<string, unknown>;
+
+  if (NUMERIC_SCORING_FACTORS.includes(factor)) {
+    if (!Array.isArray(bands) || bands.length === 0) {
+      return `${factor} needs at least one band`;
+    }
+    for (const band of bands) {
+      if (!band || typeof band.min !== 'number' || !Number.isFinite(band.min) || !isMultiplier(band.value)) {
+        return 'Each band needs a numeric min and a value between 0 and 1';
+      }
+    }
+  } else {
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return `${factor} needs values for its answers`;
+    }
+    for (const [answer, value] of Object.entries(values)) {
+      if (!answer.trim() || !isMultiplier(value)) {
+        return 'Each answer needs a value between 0 and 1';
+      }
+    }
+  }
+
+  if (other !== undefined && !isMultiplier(other)) return 'other must be between 0 and 1';
+  if (missing !== undefined && !isMultiplier(missing)) return 'missing must be between 0 and 1';
+
+  return null;
+}
+
+/**
+ * The lead's answer for a factor, as shown in the breakdown
+ */
+function getFactorValue(lead: ScorableLead, factor: LeadScoringFactor): string | number | null {
+  if (factor === 'bill_uploaded') return lead.bill_uploaded ? 'yes' : 'no';
+
+  const value = lead[factor];
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  return value;
+}
+
+function getMultiplier(rules: ScoringRules, value: string | number | null): number {
+  if (value === null) return rules.missing ?? 0;
+
+  if (typeof value === 'number') {
+    const band = [...(rules.bands || [])]
+      .sort((a, b) => b.min - a.min)
+      .find(candidate => value >= candidate.min);
+    return band ? band.value : rules.other ?? 0;
+  }
+
+  const answer = value.toLowerCase();
+  for (const [key, multiplier] of Object.entries(rules.values || {})) {
+    if (key.toLowerCase() === answer) return multiplier;
+  }
+  return rules.other ?? 0;
+}
+
+/**
+ * Score a lead against the factors. Inactive and zero-weight factors are
+ * left out; with no factors left the score is 0.
+ */
+export function calculateLeadScore(lead: ScorableLead, factors: ScoringFactor[]): LeadScore {
+  const breakdown: ScoreBreakdownItem[] = [];
+
+  for (const factor of [...factors].sort((a, b) => a.sort_order - b.sort_order)) {
+    if (!factor.is_active || factor.weight <= 0) continue;
+
+    const value = getFactorValue(lead, factor.factor);
+    const multiplier = Math.min(Math.max(getMultiplier(factor.rules, value), 0), 1);
+
+    breakdown.push({
+      factor: factor.factor,
+      label: factor.label,
+      value: value === null ? null : String(value),
+      points: Math.round(factor.weight * multiplier * 10) / 10,
+      max: factor.weight
+    });
+  }
+
+  const max = breakdown.reduce((sum, item) => sum + item.max, 0);
+  const points = breakdown.reduce((sum, item) => sum + item.points, 0);
+
+  return {
+    score: max > 0 ? Math.round((points / max) * 100) : 0,
+    breakdown
+  };
+}
+
+/**
+ * Fetch all scoring factors in display order
+ */
+export async function fetchScoringFactors(client: SupabaseClient): Promise<ScoringFactor[]> {
+  const { data, error } = await client
+    .from('lead_scoring_factors')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch lead scoring factors: ${error.message}`);
+  }
+
+  return (data || []) as ScoringFactor[];
+}
+
+/**
+ * Update a factor's weight, rules or active flag. Returns null if the
+ * factor does not exist.
+ */
+export async function updateScoringFactor(
+  client: SupabaseClient,
+  factor: LeadScoringFactor,
+  update: { weight?: number; rules?: ScoringRules; is_active?: boolean },
+  actor: CrmUser
+): Promise<ScoringFactor | null> {
+  const { data, error } = await client
+    .from('lead_scoring_factors')
+    .update({ ...update, updated_by: actor.clerkUserId, updated_at: new Date().toISOString() })
+    .eq('factor', factor)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update lead scoring factor ${factor}: ${error.message}`);
+  }
+
+  return data as ScoringFactor | null;
+}
+
+// Lead IDs that have at least one uploaded bill
+async function fetchLeadsWithBills(client: SupabaseClient, leadIds: string[]): Promise<Set<string>> {
+  if (leadIds.length === 0) return new Set();
+
+  const { data, error } = await client
+    .from('bill_uploads')
+    .select('lead_id')
+    .in('lead_id', leadIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch bill uploads for scoring: ${error.message}`);
+  }
+
+  return new Set((data || []).map(row => row.lead_id as string));
+}
+
+async function saveLeadScore(client: SupabaseClient, leadId: string, result: LeadScore): Promise<void> {
+  const { error } = await client
+    .from('splash_leads')
+    .update({
+      lead_score: result.score,
+      lead_score_breakdown: result.breakdown,
+      lead_scored_at: new Date().toISOString()
+    })
+    .eq('id', leadId);
+
+  if (error) {
+    throw new Error(`Failed to save score for lead ${leadId}: ${error.message}`);
+  }
+}
+
+/**
+ * Recalculate and store the score of one splash lead. Returns null if the
+ * lead does not exist (contact form leads are not scored).
+ */
+export async function recalculateLeadScore(client: SupabaseClient, leadId: string): Promise<LeadScore | null> {
+  const { data: lead, error } = await client
+    .from('splash_leads')
+    .select(SCORABLE_LEAD_SELECT)
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead ${leadId} for scoring: ${error.message}`);
+  }
+  if (!lead) return null;
+
+  const [factors, leadsWithBills] = await Promise.all([
+    fetchScoringFactors(client),
+    fetchLeadsWithBills(client, [leadId])
+  ]);
+
+  const result = calculateLeadScore({ ...(lead as Omit<ScorableLead, 'bill_uploaded'>), bill_uploaded: leadsWithBills.has(leadId) }, factors);
+  await saveLeadScore(client, leadId, result);
+
+  return result;
+}
+
+/**
+ * Flag every splash lead for rescoring by the lead scoring job (after the
+ * factors change). Returns the number of leads waiting to be rescored.
+ */
+export async function markLeadScoresStale(client: SupabaseClient): Promise<number> {
+  const { error } = await client
+    .from('splash_leads')
+    .update({ lead_score_stale: true })
+    .eq('lead_score_stale', false);
+
+  if (error) {
+    throw new Error(`Failed to flag leads for rescoring: ${error.message}`);
+  }
+
+  const { count, error: countError } = await client
+    .from('splash_leads')
+    .select('id', { count: 'exact', head: true })
+    .eq('lead_score_stale', true);
+
+  if (countError) {
+    throw new Error(`Failed to count leads to rescore: ${countError.message}`);
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Rescore up to limit leads flagged for rescoring, a page at a time with one
+ * write per page. Returns the number of leads scored.
+ */
+export async function rescoreStaleLeads(client: SupabaseClient, limit = RESCORE_RUN_LIMIT): Promise<number> {
+  const scoredAt = new Date().toISOString();
+  const factors = await fetchScoringFactors(client);
+  let scored = 0;
+  let afterId: string | null = null;
+
+  while (scored < limit) {
+    const pageSize = Math.min(RESCORE_BATCH_SIZE, limit - scored);
+    let query = client
+      .from('splash_leads')
+      .select(SCORABLE_LEAD_SELECT)
+      .eq('lead_score_stale', true)
+      .order('id', { ascending: true })
+      .limit(pageSize);
+    if (afterId) query = query.gt('id', afterId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch leads for scoring: ${error.message}`);
+    }
+
+    const leads = (data || []) as (Omit<ScorableLead, 'bill_uploaded'> & { id: string })[];
+    if (leads.length === 0) break;
+
+    const leadsWithBills = await fetchLeadsWithBills(client, leads.map(lead => lead.id));
+    const scores = leads.map(lead => ({
+      id: lead.id,
+      ...calculateLeadScore({ ...lead, bill_uploaded: leadsWithBills.has(lead.id) }, factors)
+    }));
+
+    const { error: saveError } = await client.rpc('save_lead_scores', { p_scores: scores, p_scored_at: scoredAt });
+
+    if (saveError) {
+      throw new Error(`Failed to save lead scores: ${saveError.message}`);
+    }
+
+    scored += leads.length;
+    afterId = leads[leads.length - 1].id;
+    if (leads.length < pageSize) break;
+  }
+
+  return scored;
+}
@@ -0,0 +1,64 @@
+/**
+ * Splash Lead Session References
+ *
+ * After a splash form submit the browser keeps { leadId, sessionId } in
+ * sessionStorage so follow-up actions on the thank-you page (bill upload,
+ * appointment preference) can name the exact lead they belong to. Routes
+ * resolve the pair against splash_leads and refuse when it does not match,
+ * rather than guessing at the newest lead.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const LEAD_REFERENCE_STORAGE_KEY = 'quantumSolarLead';
+
+export const SESSION_ID_PATTERN = /^QSLID-\d+-[A-Z0-9]+$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface LeadReference {
+  leadId: string;
+  sessionId: string;
+}
+
+/**
+ * Validate an untrusted { leadId, sessionId } pair, or null if malformed
+ */
+export function parseLeadReference(leadId: unknown, sessionId: unknown): LeadReference | null {
+  if (typeof leadId !== 'string' || !UUID_PATTERN.test(leadId)) return null;
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) return null;
+  return { leadId, sessionId };
+}
+
+/**
+ * Read the lead reference stored by the splash form (browser only)
+ */
+export function getStoredLeadReference(): LeadReference | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(LEAD_REFERENCE_STORAGE_KEY) || 'null');
+    return stored ? parseLeadReference(stored.leadId, stored.sessionId) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the splash lead matching both the lead ID and its form session.
+ * Returns null when no lead matches.
+ */
+export async function resolveSessionLead(client: SupabaseClient, reference: LeadReference) {
+  const { data, error } = await client
+    .from('splash_leads')
+    .select('*')
+    .eq('id', reference.leadId)
+    .eq('session_id', reference.sessionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve lead ${reference.leadId}: ${error.message}`);
+  }
+
+  return data as (Record<string, unknown> & { id: string }) | null;
+}
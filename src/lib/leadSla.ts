@@ -0,0 +1,625 @@
+/**
+ * Lead SLA
+ *
+ * Speed-to-lead policies from lead_sla_policies, e.g. first touch within 5
+ * minutes during business hours. A lead's clock starts when it is created;
+ * when the policy only runs during business hours (Central time) minutes
+ * outside them do not count, so an evening lead is due shortly after the
+ * next opening. The first active policy by sort_order whose source matches
+ * the lead applies.
+ *
+ * The first touch comes from the activity log: the earliest outbound call,
+ * text or email a rep made to the lead (automated messages and failed
+ * sends do not count). A lead is:
+ * - met / missed: touched before / after it was due
+ * - on_track / at_risk / breached: untouched, with under AT_RISK_SHARE of
+ *   the target used, over it, or past due
+ *
+ * The escalation job re-alerts the owner of a breached lead still marked
+ * new, then the managers once manager_escalation_minutes more business
+ * minutes have passed (straight away when the lead has no owner). Alerts go
+ * out through alertRep (see src/lib/leadAssignment.ts) with the
+ * sla_breach_sms / sla_breach_email templates and are logged once per lead,
+ * policy and level in lead_sla_escalations.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import { APPOINTMENT_TIME_ZONE } from './appointments';
+import { alertRep, fetchRoutingReps, getRepName, type RoutingRep } from './leadAssignment';
+import { fetchCompletedLeadsSince, type Lead, type LeadSource } from './leads';
+
+export const SLA_STATUSES = ['met', 'missed', 'on_track', 'at_risk', 'breached'] as const;
+export type SlaStatus = typeof SLA_STATUSES[number];
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  met: 'Met',
+  missed: 'Missed',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  breached: 'Breached'
+};
+
+export const SLA_ESCALATION_LEVELS = ['owner', 'manager'] as const;
+export type SlaEscalationLevel = typeof SLA_ESCALATION_LEVELS[number];
+
+// ISO weekdays, 1 = Monday
+export const SLA_WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Mon', 2: 'Tue', 3: 'Wed', 4: 'Thu', 5: 'Fri', 6: 'Sat', 7: 'Sun'
+};
+
+// Share of the target after which an untouched lead is at risk
+export const AT_RISK_SHARE = 0.6;
+
+// Longest target and manager escalation delay, in minutes
+export const MAX_SLA_MINUTES = 24 * 60;
+
+const BUSINESS_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+// Activity types that count as a touch
+const TOUCH_TYPES = ['call', 'sms', 'email'];
+
+// Untouched leads older than this are no longer listed at risk or escalated
+const OPEN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Period the per-rep response times cover
+const REPORT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Calendar days searched for business hours before giving up
+const MAX_CALENDAR_DAYS = 370;
+
+const LEAD_ID_BATCH_SIZE = 200;
+
+const ESCALATION_TEMPLATES = { sms: 'sla_breach_sms', email: 'sla_breach_email' };
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  source: LeadSource | null;
+  target_minutes: number;
+  business_hours_only: boolean;
+  business_start: string;
+  business_end: string;
+  business_days: number[];
+  manager_escalation_minutes: number;
+  sort_order: number;
+  is_active: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewSlaPolicy = Omit<SlaPolicy, 'id' | 'updated_by' | 'created_at' | 'updated_at'>;
+
+export interface LeadSla {
+  policy_id: string;
+  status: SlaStatus;
+  due_at: string;
+  first_touch_at: string | null;
+  // Counted minutes until the first touch, or until now when untouched
+  elapsed_minutes: number;
+  target_minutes: number;
+}
+
+export interface SlaLeadSummary extends LeadSla {
+  lead_id: string;
+  name: string;
+  source: LeadSource;
+  owner_id: string | null;
+  owner_name: string | null;
+  created_at: string;
+}
+
+export interface SlaRepStats {
+  owner_id: string | null;
+  name: string;
+  leads: number;
+  touched: number;
+  average_response_minutes: number | null;
+  // Share of leads past their due time that were touched in time
+  met_rate: number | null;
+}
+
+export interface SlaReport {
+  since: string;
+  at_risk: SlaLeadSummary[];
+  reps: SlaRepStats[];
+}
+
+export interface SlaEscalationSummary {
+  breached: number;
+  ownerAlerts: number;
+  managerAlerts: number;
+  failed: number;
+}
+
+export function isSlaStatus(value: unknown): value is SlaStatus {
+  return typeof value === 'string' && (SLA_STATUSES as readonly string[]).includes(value);
+}
+
+function toMinutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Offset of Central time from UTC at the given time, in milliseconds
+ */
+function getZoneOffset(date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: APPOINTMENT_TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+
+  const zonedAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return zonedAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a Central time calendar day reaches the given minute of day
+ * (day may overflow; Date.UTC normalizes it)
+ */
+function zonedToUtc(year: number, month: number, day: number, minuteOfDay: number): Date {
+  const asUtc = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+  const guess = asUtc - getZoneOffset(new Date(asUtc));
+  return new Date(asUtc - getZoneOffset(new Date(guess)));
+}
+
+/**
+ * Business hour windows from the Central time day containing from onwards,
+ * in order
+ */
+function* businessWindows(policy: SlaPolicy, from: Date): Generator<[Date, Date]> {
+  const zoned = new Date(from.getTime() + getZoneOffset(from));
+  const open = toMinutesOfDay(policy.business_start);
+  const close = toMinutesOfDay(policy.business_end);
+
+  for (let offset = 0; offset < MAX_CALENDAR_DAYS; offset++) {
+    const day = new Date(Date.UTC(zoned.getUTCFullYear(), zoned.getUTCMonth(), zoned.getUTCDate() + offset));
+    const weekday = day.getUTCDay() || 7;
+    if (!policy.business_days.includes(weekday)) continue;
+
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+    yield [zonedToUtc(year, month, date, open), zonedToUtc(year, month, date, close)];
+  }
+}
+
+/**
+ * Minutes between two times that count toward the policy
+ */
+export function getBusinessMinutes(policy: SlaPolicy, start: Date, end: Date): number {
+  if (end <= start) return 0;
+  if (!policy.business_hours_only) return (end.getTime() - start.getTime()) / 60000;
+
+  let total = 0;
+  for (const [open, close] of businessWindows(policy, start)) {
+    if (open >= end) break;
+    total += Math.max(0, Math.min(close.getTime(), end.getTime()) - Math.max(open.getTime(), start.getTime()));
+  }
+
+  return total / 60000;
+}
+
+/**
+ * When a lead created at the given time is due its first touch
+ */
+export function getDueAt(policy: SlaPolicy, createdAt: Date): Date {
+  let remaining = policy.target_minutes * 60000;
+  if (!policy.business_hours_only) return new Date(createdAt.getTime() + remaining);
+
+  for (const [open, close] of businessWindows(policy, createdAt)) {
+    const start = Math.max(open.getTime(), createdAt.getTime());
+    if (start >= close.getTime()) continue;
+
+    if (remaining <= close.getTime() - start) return new Date(start + remaining);
+    remaining -= close.getTime() - start;
+  }
+
+  return new Date(createdAt.getTime() + policy.target_minutes * 60000);
+}
+
+/**
+ * The policy a lead falls under: the first active one (policies in
+ * sort_order) for its source or for all leads
+ */
+export function pickSlaPolicy(policies: SlaPolicy[], lead: Pick<Lead, 'source'>): SlaPolicy | null {
+  return policies.find(policy => policy.is_active && (!policy.source || policy.source === lead.source)) || null;
+}
+
+/**
+ * Where a lead stands against its policy
+ */
+export function evaluateLeadSla(
+  policy: SlaPolicy,
+  lead: Pick<Lead, 'created_at'>,
+  firstTouchAt: Date | null,
+  now = new Date()
+): LeadSla {
+  const createdAt = new Date(lead.created_at);
+  const dueAt = getDueAt(policy, createdAt);
+  const elapsed = getBusinessMinutes(policy, createdAt, firstTouchAt || now);
+
+  let status: SlaStatus;
+  if (firstTouchAt) {
+    status = firstTouchAt <= dueAt ? 'met' : 'missed';
+  } else if (now >= dueAt) {
+    status = 'breached';
+  } else {
+    status = elapsed >= policy.target_minutes * AT_RISK_SHARE ? 'at_risk' : 'on_track';
+  }
+
+  return {
+    policy_id: policy.id,
+    status,
+    due_at: dueAt.toISOString(),
+    first_touch_at: firstTouchAt ? firstTouchAt.toISOString() : null,
+    elapsed_minutes: Math.round(elapsed * 10) / 10,
+    target_minutes: policy.target_minutes
+  };
+}
+
+/**
+ * Fetch SLA policies in the order they are matched
+ */
+export async function fetchSlaPolicies(client: SupabaseClient, activeOnly = false): Promise<SlaPolicy[]> {
+  let query = client
+    .from('lead_sla_policies')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch SLA policies: ${error.message}`);
+  }
+
+  return (data || []) as SlaPolicy[];
+}
+
+/**
+ * Validate an untrusted policy (all fields, or only those present when
+ * partial), returning an error message or null
+ */
+export function validateSlaPolicy(policy: Record<string, unknown>, partial = false): string | null {
+  const has = (key: string) => !partial || policy[key] !== undefined;
+  const isMinutes = (value: unknown, min: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= MAX_SLA_MINUTES;
+
+  if (has('name') && (typeof policy.name !== 'string' || !policy.name.trim() || policy.name.trim().length > 100)) {
+    return 'name is required (at most 100 characters)';
+  }
+  if (policy.source !== undefined && policy.source !== null && policy.source !== 'splash' && policy.source !== 'contact') {
+    return 'source must be splash, contact or null for all leads';
+  }
+  if (has('target_minutes') && !isMinutes(policy.target_minutes, 1)) {
+    return `target_minutes must be a whole number from 1 to ${MAX_SLA_MINUTES}`;
+  }
+  if (policy.manager_escalation_minutes !== undefined && !isMinutes(policy.manager_escalation_minutes, 0)) {
+    return `manager_escalation_minutes must be a whole number from 0 to ${MAX_SLA_MINUTES}`;
+  }
+  if (policy.business_hours_only !== undefined && typeof policy.business_hours_only !== 'boolean') {
+    return 'business_hours_only must be true or false';
+  }
+  for (const key of ['business_start', 'business_end']) {
+    if (policy[key] !== undefined && (typeof policy[key] !== 'string' || !BUSINESS_TIME_PATTERN.test(policy[key] as string))) {
+      return `${key} must be a time such as 08:00`;
+    }
+  }
+  if (typeof policy.business_start === 'string' && typeof policy.business_end === 'string' &&
+      toMinutesOfDay(policy.business_start) >= toMinutesOfDay(policy.business_end)) {
+    return 'business_end must be after business_start';
+  }
+  if (policy.business_days !== undefined && (!Array.isArray(policy.business_days) || policy.business_days.length === 0 ||
+      !policy.business_days.every(day => Number.isInteger(day) && day >= 1 && day <= 7) ||
+      new Set(policy.business_days).size !== policy.business_days.length)) {
+    return 'business_days must be a non-empty list of weekdays from 1 (Monday) to 7 (Sunday)';
+  }
+  if (policy.sort_order !== undefined && !Number.isInteger(policy.sort_order)) {
+    return 'sort_order must be a whole number';
+  }
+  if (policy.is_active !== undefined && typeof policy.is_active !== 'boolean') {
+    return 'is_active must be true or false';
+  }
+
+  return null;
+}
+
+/**
+ * Create a policy
+ */
+export async function createSlaPolicy(
+  client: SupabaseClient,
+  policy: Partial<NewSlaPolicy> & Pick<NewSlaPolicy, 'name' | 'target_minutes'>,
+  actor: CrmUser
+): Promise<SlaPolicy> {
+  const { data, error } = await client
+    .from('lead_sla_policies')
+    .insert({ ...policy, updated_by: actor.clerkUserId })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create SLA policy: ${error.message}`);
+  }
+
+  return data as SlaPolicy;
+}
+
+/**
+ * Update a policy. Returns null if it does not exist.
+ */
+export async function updateSlaPolicy(
+  client: SupabaseClient,
+  id: string,
+  update: Partial<NewSlaPolicy>,
+  actor: CrmUser
+): Promise<SlaPolicy | null> {
+  const { data, error } = await client
+    .from('lead_sla_policies')
+    .update({ ...update, updated_by: actor.clerkUserId, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update SLA policy ${id}: ${error.message}`);
+  }
+
+  return data as SlaPolicy | null;
+}
+
+/**
+ * Delete a policy. Returns false if it does not exist.
+ */
+export async function deleteSlaPolicy(client: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('lead_sla_policies')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete SLA policy ${id}: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * First touch of each lead that has one
+ */
+async function fetchFirstTouches(client: SupabaseClient, leadIds: string[]): Promise<Map<string, Date>> {
+  const firstTouches = new Map<string, Date>();
+
+  for (let start = 0; start < leadIds.length; start += LEAD_ID_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('lead_activities')
+      .select('lead_id, delivery_status, created_at')
+      .in('lead_id', leadIds.slice(start, start + LEAD_ID_BATCH_SIZE))
+      .in('type', TOUCH_TYPES)
+      .eq('direction', 'outbound')
+      .not('actor_id', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch lead first touches: ${error.message}`);
+    }
+
+    for (const row of (data || []) as { lead_id: string; delivery_status: string | null; created_at: string }[]) {
+      if (row.delivery_status === 'failed' || firstTouches.has(row.lead_id)) continue;
+      firstTouches.set(row.lead_id, new Date(row.created_at));
+    }
+  }
+
+  return firstTouches;
+}
+
+/**
+ * Fetch CRM user names by Clerk user ID
+ */
+async function fetchOwnerNames(client: SupabaseClient, ownerIds: string[]): Promise<Map<string, string>> {
+  if (ownerIds.length === 0) return new Map();
+
+  const { data, error } = await client
+    .from('crm_users')
+    .select('clerk_user_id, name, email')
+    .in('clerk_user_id', ownerIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch lead owners: ${error.message}`);
+  }
+
+  return new Map(
+    ((data || []) as { clerk_user_id: string; name: string | null; email: string }[])
+      .map(user => [user.clerk_user_id, getRepName(user)])
+  );
+}
+
+/**
+ * Leads at risk or past their SLA that are still new and untouched (from
+ * the last day), and each owner's response times over the last 30 days
+ */
+export async function fetchSlaReport(client: SupabaseClient, now = new Date()): Promise<SlaReport> {
+  const since = new Date(now.getTime() - REPORT_WINDOW_MS);
+  const [policies, leads] = await Promise.all([
+    fetchSlaPolicies(client, true),
+    fetchCompletedLeadsSince(client, since)
+  ]);
+
+  const firstTouches = await fetchFirstTouches(client, leads.map(lead => lead.id));
+  const ownerNames = await fetchOwnerNames(client, [...new Set(leads.map(lead => lead.owner_id).filter((id): id is string => !!id))]);
+
+  const atRisk: SlaLeadSummary[] = [];
+  const stats = new Map<string | null, { leads: number; touched: number; responseMinutes: number; due: number; met: number }>();
+
+  for (const lead of leads) {
+    const policy = pickSlaPolicy(policies, lead);
+    if (!policy) continue;
+
+    const sla = evaluateLeadSla(policy, lead, firstTouches.get(lead.id) || null, now);
+
+    const ownerStats = stats.get(lead.owner_id) || { leads: 0, touched: 0, responseMinutes: 0, due: 0, met: 0 };
+    ownerStats.leads++;
+    if (sla.first_touch_at) {
+      ownerStats.touched++;
+      ownerStats.responseMinutes += sla.elapsed_minutes;
+    }
+    if (sla.status === 'met' || sla.status === 'missed' || sla.status === 'breached') {
+      ownerStats.due++;
+      if (sla.status === 'met') ownerStats.met++;
+    }
+    stats.set(lead.owner_id, ownerStats);
+
+    if ((sla.status === 'at_risk' || sla.status === 'breached') && lead.status === 'new' &&
+        now.getTime() - new Date(lead.created_at).getTime() < OPEN_WINDOW_MS) {
+      atRisk.push({
+        ...sla,
+        lead_id: lead.id,
+        name: lead.name,
+        source: lead.source,
+        owner_id: lead.owner_id,
+        owner_name: lead.owner_id ? ownerNames.get(lead.owner_id) || null : null,
+        created_at: lead.created_at
+      });
+    }
+  }
+
+  const reps: SlaRepStats[] = [...stats.entries()].map(([ownerId, ownerStats]) => ({
+    owner_id: ownerId,
+    name: ownerId ? ownerNames.get(ownerId) || 'Former user' : 'Unassigned',
+    leads: ownerStats.leads,
+    touched: ownerStats.touched,
+    average_response_minutes: ownerStats.touched > 0
+      ? Math.round((ownerStats.responseMinutes / ownerStats.touched) * 10) / 10
+      : null,
+    met_rate: ownerStats.due > 0 ? ownerStats.met / ownerStats.due : null
+  }));
+
+  reps.sort((a, b) => (a.average_response_minutes ?? Infinity) - (b.average_response_minutes ?? Infinity));
+  atRisk.sort((a, b) => a.due_at.localeCompare(b.due_at));
+
+  return { since: since.toISOString(), at_risk: atRisk, reps };
+}
+
+/**
+ * Log an escalation and alert its recipients. Returns null when the lead
+ * was already escalated at this level, otherwise whether anyone was alerted.
+ * Escalations no one was alerted for are released so the next run retries.
+ */
+async function escalateLead(
+  client: SupabaseClient,
+  lead: Lead,
+  policy: SlaPolicy,
+  level: SlaEscalationLevel,
+  recipients: RoutingRep[],
+  nextSteps: string
+): Promise<boolean | null> {
+  const { data, error } = await client
+    .from('lead_sla_escalations')
+    .insert({
+      lead_id: lead.id,
+      lead_source: lead.source,
+      policy_id: policy.id,
+      level,
+      notified_to: recipients.map(rep => rep.clerk_user_id)
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null;
+    throw new Error(`Failed to log SLA escalation: ${error.message}`);
+  }
+
+  const notifiedVia = new Set<string>();
+  for (const rep of recipients) {
+    const channels = await alertRep(client, rep, lead, ESCALATION_TEMPLATES, { NextSteps: nextSteps });
+    channels.forEach(channel => notifiedVia.add(channel));
+  }
+
+  const { error: logError } = notifiedVia.size > 0
+    ? await client.from('lead_sla_escalations').update({ notified_via: [...notifiedVia] }).eq('id', data.id)
+    : await client.from('lead_sla_escalations').delete().eq('id', data.id);
+
+  if (logError) {
+    console.error('Error updating SLA escalation:', logError);
+  }
+
+  return notifiedVia.size > 0;
+}
+
+/**
+ * Escalate new, untouched leads from the last day that are past their SLA:
+ * the owner first, then the managers (admins when there are none) once the
+ * policy's manager escalation delay has passed or straight away when the
+ * lead has no owner
+ */
+export async function runSlaEscalations(client: SupabaseClient, now = new Date()): Promise<SlaEscalationSummary> {
+  const summary: SlaEscalationSummary = { breached: 0, ownerAlerts: 0, managerAlerts: 0, failed: 0 };
+
+  const policies = await fetchSlaPolicies(client, true);
+  if (policies.length === 0) return summary;
+
+  const leads = (await fetchCompletedLeadsSince(client, new Date(now.getTime() - OPEN_WINDOW_MS)))
+    .filter(lead => lead.status === 'new');
+  if (leads.length === 0) return summary;
+
+  const [firstTouches, reps] = await Promise.all([
+    fetchFirstTouches(client, leads.map(lead => lead.id)),
+    fetchRoutingReps(client, now)
+  ]);
+
+  const managers = reps.filter(rep => rep.role === 'manager');
+  const escalateTo = managers.length > 0 ? managers : reps.filter(rep => rep.role === 'admin');
+
+  for (const lead of leads) {
+    const policy = pickSlaPolicy(policies, lead);
+    if (!policy) continue;
+
+    const sla = evaluateLeadSla(policy, lead, firstTouches.get(lead.id) || null, now);
+    if (sla.status !== 'breached') continue;
+    summary.breached++;
+
+    const waited = `It has waited ${Math.round(sla.elapsed_minutes)} minutes against a ${policy.target_minutes} minute first touch target.`;
+    const owner = lead.owner_id ? reps.find(rep => rep.clerk_user_id === lead.owner_id) : undefined;
+
+    try {
+      if (owner) {
+        const alerted = await escalateLead(client, lead, policy, 'owner', [owner], `Reach out now. ${waited}`);
+        if (alerted) summary.ownerAlerts++;
+        if (alerted === false) summary.failed++;
+      }
+
+      const overdue = getBusinessMinutes(policy, new Date(sla.due_at), now);
+      if ((owner && overdue < policy.manager_escalation_minutes) || escalateTo.length === 0) continue;
+
+      const ownership = owner ? `${getRepName(owner)} has not reached out.` : 'No rep owns this lead.';
+      const alerted = await escalateLead(client, lead, policy, 'manager', escalateTo, `${ownership} ${waited}`);
+      if (alerted) summary.managerAlerts++;
+      if (alerted === false) summary.failed++;
+    } catch (error) {
+      console.error(`Error escalating lead ${lead.id}:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,281 @@
+/**
+ * Lead Domain Module
+ *
+ * Normalized lead model shared by the CRM API routes and pages.
+ * Leads from every source (splash page, contact form) are read through the
+ * crm_leads view, which joins CRM status and ownership from leads_status.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyListQuery, buildListPage, type ListConfig, type ListPage, type ListParams } from './crmList';
+import type { ScoreBreakdownItem } from './leadScoring';
+
+export const LEAD_STATUSES = ['new', 'contacted', 'qualified', 'proposal', 'closed', 'lost'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export const LEAD_SOURCES = ['splash', 'contact'] as const;
+export type LeadSource = typeof LEAD_SOURCES[number];
+
+// soft_fail leads are accepted but flagged by a qualification rule (see src/lib/leadQualification.ts)
+export type QualificationStatus = 'qualified' | 'soft_fail' | 'disqualified' | 'pending' | 'incomplete';
+
+export interface LeadQualification {
+  status: QualificationStatus;
+  reason_code: string | null;
+  reason: string | null;
+  homeowner_status: string | null;
+  credit_score: string | null;
+  shading: string | null;
+  utility_company: string | null;
+}
+
+export interface Lead {
+  id: string;
+  source: LeadSource;
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  phone: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  location: string;
+  electric_bill: number | null;
+  status: LeadStatus;
+  owner_id: string | null;
+  score: number | null;
+  score_breakdown: ScoreBreakdownItem[] | null;
+  scored_at: string | null;
+  // Score to sort on: 0 when not yet scored, -1 for contact form leads
+  sort_score: number;
+  qualification: LeadQualification;
+  is_partial: boolean;
+  form_variant: string | null;
+  message: string | null;
+  created_at: string;
+  status_updated_at: string | null;
+}
+
+// Row shape returned by the crm_leads view
+interface LeadRow {
+  id: string;
+  source: LeadSource;
+  first_name: string | null;
+  last_name: string | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip_code: string | null;
+  utility_company: string | null;
+  electric_bill: number | null;
+  homeowner_status: string | null;
+  credit_score: string | null;
+  shading: string | null;
+  qualification_status: QualificationStatus;
+  status: string;
+  owner_id: string | null;
+  score: number | null;
+  score_breakdown: ScoreBreakdownItem[] | null;
+  scored_at: string | null;
+  sort_score: number;
+  qualification_reason_code: string | null;
+  qualification_reason: string | null;
+  is_partial: boolean | null;
+  form_variant: string | null;
+  message: string | null;
+  created_at: string;
+  status_updated_at: string | null;
+}
+
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return typeof value === 'string' && (LEAD_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Map a crm_leads row to the Lead model
+ */
+export function toLead(row: LeadRow): Lead {
+  const cityState = [row.city, row.state].filter(Boolean).join(', ');
+
+  return {
+    id: row.id,
+    source: row.source,
+    name: row.name || 'Unknown',
+    first_name: row.first_name,
+    last_name: row.last_name,
+    email: row.email || '',
+    phone: row.phone || '',
+    street_address: row.street_address,
+    city: row.city,
+    state: row.state,
+    zip_code: row.zip_code,
+    location: cityState || row.street_address || (row.source === 'contact' ? 'Contact Form' : 'Unknown'),
+    electric_bill: row.electric_bill,
+    status: isLeadStatus(row.status) ? row.status : 'new',
+    owner_id: row.owner_id,
+    score: row.score,
+    score_breakdown: row.score_breakdown,
+    scored_at: row.scored_at,
+    sort_score: row.sort_score,
+    qualification: {
+      status: row.qualification_status,
+      reason_code: row.qualification_reason_code,
+      reason: row.qualification_reason,
+      homeowner_status: row.homeowner_status,
+      credit_score: row.credit_score,
+      shading: row.shading,
+      utility_company: row.utility_company
+    },
+    is_partial: !!row.is_partial,
+    form_variant: row.form_variant,
+    message: row.message,
+    created_at: row.created_at,
+    status_updated_at: row.status_updated_at
+  };
+}
+
+// List configuration for GET /api/crm/leads (see src/lib/crmList.ts)
+export const LEAD_LIST_CONFIG: ListConfig = {
+  sortColumns: {
+    score: 'sort_score',
+    created_at: 'created_at',
+    name: 'name',
+    status: 'status'
+  },
+  // Hottest leads first
+  defaultSort: 'score',
+  filterColumns: {
+    status: 'status',
+    source: 'source',
+    assignedTo: 'owner_id'
+  },
+  searchColumns: ['name', 'email', 'phone', 'street_address', 'city', 'zip_code'],
+  phoneDigitsColumn: 'phone_digits',
+  dateColumn: 'created_at'
+};
+
+/**
+ * Fetch one page of leads matching the list parameters
+ */
+export async function fetchLeadPage(client: SupabaseClient, params: ListParams): Promise<ListPage<Lead>> {
+  // Total is only counted on the first page; later pages are narrowed by the cursor
+  const query = client
+    .from('crm_leads')
+    .select('*', params.cursor ? undefined : { count: 'exact' });
+
+  const { data, error, count } = await applyListQuery(query, params, LEAD_LIST_CONFIG);
+
+  if (error) {
+    throw new Error(`Failed to fetch leads: ${error.message}`);
+  }
+
+  const leads = ((data || []) as LeadRow[]).map(toLead);
+  return buildListPage(leads, params, LEAD_LIST_CONFIG, count ?? null);
+}
+
+/**
+ * Fetch a single lead by ID, or null if it does not exist
+ */
+export async function fetchLeadById(client: SupabaseClient, id: string): Promise<Lead | null> {
+  const { data, error } = await client
+    .from('crm_leads')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead ${id}: ${error.message}`);
+  }
+
+  return data ? toLead(data as LeadRow) : null;
+}
+
+/**
+ * Fetch completed, not disqualified leads created since the given time,
+ * newest first (at most limit)
+ */
+export async function fetchCompletedLeadsSince(client: SupabaseClient, since: Date, limit = 2000): Promise<Lead[]> {
+  const { data, error } = await client
+    .from('crm_leads')
+    .select('*')
+    .not('is_partial', 'is', true)
+    .neq('qualification_status', 'disqualified')
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch recent leads: ${error.message}`);
+  }
+
+  return ((data || []) as LeadRow[]).map(toLead);
+}
+
+/**
+ * Write CRM status (and optionally owner) for a lead to leads_status
+ */
+export async function updateLeadStatus(
+  client: SupabaseClient,
+  update: { id: string; source: LeadSource; status: LeadStatus; ownerId?: string | null; updatedBy: string }
+): Promise<void> {
+  const row: Record<string, unknown> = {
+    lead_id: update.id,
+    source: update.source,
+    status: update.status,
+    updated_at: new Date().toISOString(),
+    updated_by: update.updatedBy
+  };
+
+  if (update.ownerId !== undefined) {
+    row.owner_id = update.ownerId;
+  }
+
+  const { error } = await client
+    .from('leads_status')
+    .upsert(row);
+
+  if (error) {
+    throw new Error(`Failed to update lead status: ${error.message}`);
+  }
+}
+
+/**
+ * Find the most recent lead with the given phone number or email,
+ * or null if none matches. Used to attach outbound messages to a lead.
+ */
+export async function fetchLeadByContact(
+  client: SupabaseClient,
+  contact: { phone?: string | null; email?: string | null }
+): Promise<Lead | null> {
+  // Compare the last 10 digits so +1 prefixes and formatting don't matter
+  const phoneDigits = (contact.phone || '').replace(/\D/g, '').slice(-10);
+  const email = (contact.email || '').trim().toLowerCase();
+
+  const conditions: string[] = [];
+  if (phoneDigits.length === 10) conditions.push(`phone_digits.like."%${phoneDigits}"`);
+  if (email) conditions.push(`email.ilike."${email.replace(/[%*\\"]/g, '')}"`);
+
+  if (conditions.length === 0) return null;
+
+  const { data, error } = await client
+    .from('crm_leads')
+    .select('*')
+    .or(conditions.join(','))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch lead by contact: ${error.message}`);
+  }
+
+  return data ? toLead(data as LeadRow) : null;
+}
@@ -0,0 +1,493 @@
+/**
+ * Message Templates
+ *
+ * Editable SMS and email copy stored in message_templates, with every edit
+ * kept in message_template_versions. Senders resolve a template by key and
+ * render it with the values they know; copy is never hardcoded in routes.
+ *
+ * Templates use [Placeholder] variables. Each template has a context (lead,
+ * appointment, project, notification) listing the variables its senders
+ * supply, and a template may only use those. Variable types decide how a
+ * value is rendered: text values are HTML-escaped in emails, html values
+ * (prebuilt blocks such as lead details) are only allowed in email bodies.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client; the pure helpers are also used by CRM pages
+ * for live previews.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+
+export const TEMPLATE_CHANNELS = ['sms', 'email'] as const;
+export type TemplateChannel = typeof TEMPLATE_CHANNELS[number];
+
+export type TemplateVariableType = 'text' | 'phone' | 'date' | 'time' | 'datetime' | 'html';
+
+export interface TemplateVariableDefinition {
+  label: string;
+  type: TemplateVariableType;
+  example: string;
+}
+
+export const TEMPLATE_VARIABLE_NAMES = [
+  'Name', 'FullName', 'Phone', 'Email', 'Address', 'RepName', 'Date', 'Time', 'Stage', 'InstallDate',
+  'LeadId', 'SessionId', 'LastStep', 'Reason', 'Source', 'PreferredDate', 'PreferredTime', 'FileName',
+  'FileSize', 'NextSteps', 'Timestamp', 'LeadDetails', 'ConsentDetails', 'DriveLink'
+] as const;
+export type TemplateVariable = typeof TEMPLATE_VARIABLE_NAMES[number];
+
+export const TEMPLATE_VARIABLES: Record<TemplateVariable, TemplateVariableDefinition> = {
+  Name: { label: 'Customer first name', type: 'text', example: 'Jordan' },
+  FullName: { label: 'Customer full name', type: 'text', example: 'Jordan Smith' },
+  Phone: { label: 'Customer phone', type: 'phone', example: '(618) 555-0142' },
+  Email: { label: 'Customer email', type: 'text', example: 'jordan@example.com' },
+  Address: { label: 'Customer address', type: 'text', example: '412 Oak St, Belleville, IL 62220' },
+  RepName: { label: 'Sales rep name', type: 'text', example: 'Alex Rivera' },
+  Date: { label: 'Appointment date', type: 'date', example: 'Tuesday, March 3' },
+  Time: { label: 'Appointment time', type: 'time', example: '2:00 PM CST' },
+  Stage: { label: 'Project stage', type: 'text', example: 'Permit Approval' },
+  InstallDate: { label: 'Installation date', type: 'date', example: 'Monday, April 13' },
+  LeadId: { label: 'Lead ID', type: 'text', example: '7d3f9a2e-1c4b-4e8a-9f60-2b5d8c1e4a73' },
+  SessionId: { label: 'Form session ID', type: 'text', example: 'session_1760889600000_k2x9' },
+  LastStep: { label: 'Last form step reached', type: 'text', example: '3' },
+  Reason: { label: 'Disqualification reason', type: 'text', example: 'Does not own the home' },
+  Source: { label: 'Submission source', type: 'text', example: 'thank-you-page' },
+  PreferredDate: { label: 'Preferred appointment date', type: 'date', example: 'Thursday, March 5, 2026' },
+  PreferredTime: { label: 'Preferred appointment time', type: 'text', example: 'Morning (8:00 AM - 12:00 PM)' },
+  FileName: { label: 'Uploaded file name', type: 'text', example: 'ameren-bill-march.pdf' },
+  FileSize: { label: 'Uploaded file size', type: 'text', example: '1.24 MB' },
+  NextSteps: { label: 'Suggested next steps', type: 'text', example: 'Contact the customer within 24 hours.' },
+  Timestamp: { label: 'Time of the event', type: 'datetime', example: '3/3/2026, 2:15:00 PM' },
+  LeadDetails: {
+    label: 'Lead details block',
+    type: 'html',
+    example: '<p><strong>Name:</strong> Jordan Smith</p><p><strong>Phone:</strong> (618) 555-0142</p>'
+  },
+  ConsentDetails: {
+    label: 'TCPA consent block',
+    type: 'html',
+    example: '<p><strong>TCPA Consent:</strong> ✅ Yes</p>'
+  },
+  DriveLink: {
+    label: 'Google Drive link block',
+    type: 'html',
+    example: '<p><a href="https://drive.google.com/file/d/example/view">📁 View Bill in Google Drive</a></p>'
+  }
+};
+
+const CUSTOMER_VARIABLES: TemplateVariable[] = ['Name', 'FullName', 'Phone', 'Email', 'Address', 'RepName'];
+
+export const TEMPLATE_CONTEXTS = ['lead', 'appointment', 'project', 'notification'] as const;
+export type TemplateContext = typeof TEMPLATE_CONTEXTS[number];
+
+export const TEMPLATE_CONTEXT_DETAILS: Record<TemplateContext, { label: string; description: string; variables: TemplateVariable[] }> = {
+  lead: {
+    label: 'Lead',
+    description: 'Messages to a lead from the CRM',
+    variables: CUSTOMER_VARIABLES
+  },
+  appointment: {
+    label: 'Appointment',
+    description: 'Consultation confirmations and reminders',
+    variables: [...CUSTOMER_VARIABLES, 'Date', 'Time']
+  },
+  project: {
+    label: 'Project',
+    description: 'Project updates, stage changes and automation',
+    variables: [...CUSTOMER_VARIABLES, 'Stage', 'InstallDate']
+  },
+  notification: {
+    label: 'Team notification',
+    description: 'Emails and texts to the sales team about website leads',
+    variables: [
+      'FullName', 'Phone', 'Address', 'RepName', 'LeadId', 'SessionId', 'LastStep', 'Reason', 'Source', 'PreferredDate', 'PreferredTime',
+      'FileName', 'FileSize', 'NextSteps', 'Timestamp', 'LeadDetails', 'ConsentDetails', 'DriveLink'
+    ]
+  }
+};
+
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>;
+
+export interface MessageTemplate {
+  id: string;
+  key: string;
+  channel: TemplateChannel;
+  context: TemplateContext;
+  name: string;
+  description: string | null;
+  subject: string | null;
+  body: string;
+  version: number;
+  active: boolean;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  subject: string | null;
+  body: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface MessageTemplateInput {
+  key: string;
+  channel: TemplateChannel;
+  context: TemplateContext;
+  name: string;
+  description?: string | null;
+  subject?: string | null;
+  body: string;
+}
+
+export interface RenderedMessage {
+  subject: string | null;
+  body: string;
+}
+
+export const TEMPLATE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+
+// Twilio rejects message bodies longer than this
+export const MAX_SMS_LENGTH = 1600;
+
+const PLACEHOLDER_PATTERN = /\[([A-Za-z]\w*)\]/g;
+
+export function isTemplateChannel(value: unknown): value is TemplateChannel {
+  return typeof value === 'string' && (TEMPLATE_CHANNELS as readonly string[]).includes(value);
+}
+
+export function isTemplateContext(value: unknown): value is TemplateContext {
+  return typeof value === 'string' && (TEMPLATE_CONTEXTS as readonly string[]).includes(value);
+}
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Distinct placeholder names used in the text, in order of appearance
+ */
+export function extractPlaceholders(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+}
+
+/**
+ * Problems that keep a template from being saved: unknown placeholders,
+ * variables its context does not supply, html blocks outside email bodies,
+ * a missing email subject and SMS over Twilio's length limit
+ */
+export function validateTemplate(template: Pick<MessageTemplateInput, 'channel' | 'context' | 'subject' | 'body'>): string[] {
+  const errors: string[] = [];
+  const context = TEMPLATE_CONTEXT_DETAILS[template.context];
+
+  if (!template.body.trim()) {
+    errors.push('Message body is required');
+  }
+  if (template.channel === 'email' && !template.subject?.trim()) {
+    errors.push('Email templates need a subject');
+  }
+  if (template.channel === 'sms' && template.subject) {
+    errors.push('SMS templates cannot have a subject');
+  }
+  if (template.channel === 'sms' && template.body.length > MAX_SMS_LENGTH) {
+    errors.push(`SMS templates are limited to ${MAX_SMS_LENGTH} characters`);
+  }
+
+  const parts: [string, string | null | undefined][] = [['subject', template.subject], ['body', template.body]];
+  for (const [part, text] of parts) {
+    for (const name of extractPlaceholders(text)) {
+      if (!isTemplateVariable(name)) {
+        errors.push(`Unknown placeholder [${name}] in ${part}`);
+      } else if (!context.variables.includes(name)) {
+        errors.push(`[${name}] is not available for ${context.label.toLowerCase()} templates`);
+      } else if (TEMPLATE_VARIABLES[name].type === 'html' && (template.channel !== 'email' || part !== 'body')) {
+        errors.push(`[${name}] can only be used in email bodies`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Template values from a request body, keeping known variables with string values
+ */
+export function parseTemplateValues(input: unknown): TemplateValues {
+  if (!input || typeof input !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(input).filter(([name, value]) => isTemplateVariable(name) && typeof value === 'string')
+  ) as TemplateValues;
+}
+
+/**
+ * Escape a value for an email body, e.g. inside a prebuilt html block
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fillPlaceholders(text: string, values: TemplateValues, escape: boolean): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!isTemplateVariable(name)) return placeholder;
+    const value = values[name] ?? '';
+    return escape && TEMPLATE_VARIABLES[name].type !== 'html' ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Fill a template's placeholders. Missing values render empty; text values
+ * are escaped in email bodies.
+ */
+export function renderTemplate(
+  template: Pick<MessageTemplate, 'channel' | 'subject' | 'body'>,
+  values: TemplateValues
+): RenderedMessage {
+  return {
+    subject: template.subject ? fillPlaceholders(template.subject, values, false) : null,
+    body: fillPlaceholders(template.body, values, template.channel === 'email')
+  };
+}
+
+/**
+ * Render with each variable's example value, for previews in the CRM
+ */
+export function renderTemplatePreview(
+  template: Pick<MessageTemplate, 'channel' | 'subject' | 'body'>,
+  values: TemplateValues = {}
+): RenderedMessage {
+  const examples = Object.fromEntries(
+    TEMPLATE_VARIABLE_NAMES.map(name => [name, TEMPLATE_VARIABLES[name].example])
+  ) as TemplateValues;
+  return renderTemplate(template, { ...examples, ...values });
+}
+
+/**
+ * Fetch templates, optionally only one channel, ordered by name
+ */
+export async function fetchMessageTemplates(
+  client: SupabaseClient,
+  options: { channel?: TemplateChannel; context?: TemplateContext; includeInactive?: boolean } = {}
+): Promise<MessageTemplate[]> {
+  let query = client
+    .from('message_templates')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (options.channel) query = query.eq('channel', options.channel);
+  if (options.context) query = query.eq('context', options.context);
+  if (!options.includeInactive) query = query.eq('active', true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch message templates: ${error.message}`);
+  }
+
+  return (data || []) as MessageTemplate[];
+}
+
+/**
+ * Fetch a template by key, active or not, or null if none exists
+ */
+export async function fetchMessageTemplate(client: SupabaseClient, key: string): Promise<MessageTemplate | null> {
+  const { data, error } = await client
+    .from('message_templates')
+    .select('*')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch message template ${key}: ${error.message}`);
+  }
+
+  return data as MessageTemplate | null;
+}
+
+/**
+ * Version history of a template, newest first
+ */
+export async function fetchMessageTemplateVersions(
+  client: SupabaseClient,
+  templateId: string
+): Promise<MessageTemplateVersion[]> {
+  const { data, error } = await client
+    .from('message_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch message template versions: ${error.message}`);
+  }
+
+  return (data || []) as MessageTemplateVersion[];
+}
+
+/**
+ * Create a template with its first version. Returns null when the key is
+ * already taken. Callers validate the template first.
+ */
+export async function createMessageTemplate(
+  client: SupabaseClient,
+  input: MessageTemplateInput,
+  actor: CrmUser | null
+): Promise<MessageTemplate | null> {
+  const { data, error } = await client
+    .from('message_templates')
+    .insert({
+      key: input.key,
+      channel: input.channel,
+      context: input.context,
+      name: input.name,
+      description: input.description ?? null,
+      subject: input.channel === 'email' ? input.subject ?? null : null,
+      body: input.body,
+      created_by: actor?.clerkUserId ?? null,
+      updated_by: actor?.clerkUserId ?? null
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return null;
+    throw new Error(`Failed to create message template: ${error.message}`);
+  }
+
+  const template = data as MessageTemplate;
+  const { error: versionError } = await client
+    .from('message_template_versions')
+    .insert({
+      template_id: template.id,
+      version: template.version,
+      subject: template.subject,
+      body: template.body,
+      change_note: 'Created',
+      created_by: actor?.clerkUserId ?? null
+    });
+
+  if (versionError) {
+    throw new Error(`Failed to record message template version: ${versionError.message}`);
+  }
+
+  return template;
+}
+
+/**
+ * Save new copy as the next version. expectedVersion is the version the
+ * editor started from; returns null when someone saved in the meantime.
+ */
+export async function saveMessageTemplateVersion(
+  client: SupabaseClient,
+  key: string,
+  expectedVersion: number,
+  changes: { name: string; description: string | null; subject: string | null; body: string; changeNote: string | null },
+  actor: CrmUser | null
+): Promise<MessageTemplate | null> {
+  const { data, error } = await client.rpc('save_message_template_version', {
+    template_key: key,
+    expected_version: expectedVersion,
+    new_name: changes.name,
+    new_description: changes.description,
+    new_subject: changes.subject,
+    new_body: changes.body,
+    note: changes.changeNote,
+    editor: actor?.clerkUserId ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to save message template ${key}: ${error.message}`);
+  }
+
+  const rows = (data || []) as MessageTemplate[];
+  return rows[0] ?? null;
+}
+
+/**
+ * Turn a template on or off. Inactive templates are not sent.
+ */
+export async function setMessageTemplateActive(
+  client: SupabaseClient,
+  key: string,
+  active: boolean,
+  actor: CrmUser | null
+): Promise<MessageTemplate | null> {
+  const { data, error } = await client
+    .from('message_templates')
+    .update({ active, updated_by: actor?.clerkUserId ?? null, updated_at: new Date().toISOString() })
+    .eq('key', key)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update message template ${key}: ${error.message}`);
+  }
+
+  return data as MessageTemplate | null;
+}
+
+/**
+ * Resolve an active template by key and render it. Returns null when the
+ * template does not exist or is turned off, so the message is not sent.
+ */
+export async function renderMessageTemplate(
+  client: SupabaseClient,
+  key: string,
+  values: TemplateValues,
+  channel?: TemplateChannel
+): Promise<(RenderedMessage & { template: MessageTemplate }) | null> {
+  const template = await fetchMessageTemplate(client, key);
+  if (!template || !template.active || (channel && template.channel !== channel)) return null;
+
+  return { ...renderTemplate(template, values), template };
+}
+
+/**
+ * First name for [Name] from a full name
+ */
+export function getFirstName(fullName: string | null | undefined): string {
+  const trimmed = (fullName || '').trim();
+  return trimmed.split(/\s+/)[0] || trimmed;
+}
+
+/**
+ * Values for project templates from a projects row
+ */
+export function getProjectTemplateValues(
+  project: {
+    customer_name: string;
+    customer_phone?: string | null;
+    customer_email?: string | null;
+    address?: string | null;
+    scheduled_install_date?: string | null;
+  },
+  extras: { stage?: string | null; repName?: string | null } = {}
+): TemplateValues {
+  return {
+    Name: getFirstName(project.customer_name),
+    FullName: project.customer_name,
+    Phone: project.customer_phone ?? null,
+    Email: project.customer_email ?? null,
+    Address: project.address ?? null,
+    RepName: extras.repName ?? null,
+    Stage: extras.stage ?? null,
+    InstallDate: project.scheduled_install_date
+      ? new Date(`${project.scheduled_install_date}T12:00:00`).toLocaleDateString('en-US', {
+          weekday: 'long',
+          month: 'long',
+          day: 'numeric'
+        })
+      : null
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Project Pipelines
+ *
+ * Pipeline templates (residential solar, battery only, ground mount,
+ * commercial, ...) with their own ordered lifecycle stages, required
+ * documents and approval flags. projects.current_stage is a stage number
+ * within the project's pipeline, and the last stage is terminal. A stage
+ * that requires approval cannot be left until its required documents are
+ * uploaded (see src/lib/projectDocuments.ts).
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client; the pure helpers are also used by CRM pages.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface PipelineStage {
+  id: number;
+  stage_number: number;
+  name: string;
+  description: string | null;
+  typical_duration_days: number | null;
+  requires_approval: boolean;
+  required_documents: string[];
+  // Message template texted to the customer on entering the stage
+  auto_sms_template: string | null;
+}
+
+export interface Pipeline {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  active: boolean;
+  stages: PipelineStage[];
+}
+
+// Document type keys, as used in project_lifecycle_stages.required_documents
+export const DOCUMENT_TYPE_PATTERN = /^[a-z][a-z0-9_]{1,99}$/;
+
+// Labels for the document types the seeded pipelines require; pipelines can
+// declare other keys, which are labelled from the key
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  signed_contract: 'Signed contract',
+  structural_letter: 'Structural letter',
+  permit_approval: 'Permit approval',
+  foundation_inspection: 'Foundation inspection',
+  installation_complete: 'Installation completion',
+  inspection_report: 'Inspection report',
+  interconnection_agreement: 'Interconnection agreement',
+  pto_letter: 'PTO letter',
+  closeout_package: 'Closeout package',
+  site_survey: 'Site survey',
+  utility_bill: 'Utility bill',
+  other: 'Other'
+};
+
+export type StagePhase = 'planning' | 'permits' | 'installation' | 'inspection' | 'complete';
+
+// Row shapes returned by project_pipelines with embedded stages
+interface PipelineStageRow {
+  id: number;
+  sort_order: number;
+  stage_name: string;
+  stage_description: string | null;
+  typical_duration_days: number | null;
+  requires_approval: boolean | null;
+  required_documents: string[] | null;
+  auto_sms_template: string | null;
+}
+
+interface PipelineRow {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  active: boolean;
+  stages: PipelineStageRow[] | null;
+}
+
+const PIPELINE_SELECT = 'id, key, name, description, is_default, active, stages:project_lifecycle_stages(id, sort_order, stage_name, stage_description, typical_duration_days, requires_approval, required_documents, auto_sms_template)';
+
+/**
+ * Map a project_pipelines row to the Pipeline model, stages in order
+ */
+export function toPipeline(row: PipelineRow): Pipeline {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    description: row.description,
+    is_default: row.is_default,
+    active: row.active,
+    stages: (row.stages || [])
+      .map(stage => ({
+        id: stage.id,
+        stage_number: stage.sort_order,
+        name: stage.stage_name,
+        description: stage.stage_description,
+        typical_duration_days: stage.typical_duration_days,
+        requires_approval: !!stage.requires_approval,
+        required_documents: stage.required_documents || [],
+        auto_sms_template: stage.auto_sms_template
+      }))
+      .sort((a, b) => a.stage_number - b.stage_number)
+  };
+}
+
+export function getStageCount(pipeline: Pipeline): number {
+  return pipeline.stages.length;
+}
+
+/**
+ * The pipeline's last stage; reaching it completes the project
+ */
+export function getTerminalStage(pipeline: Pipeline): PipelineStage | null {
+  return pipeline.stages[pipeline.stages.length - 1] || null;
+}
+
+export function getStage(pipeline: Pipeline, stageNumber: number): PipelineStage | null {
+  return pipeline.stages.find(stage => stage.stage_number === stageNumber) || null;
+}
+
+export function isTerminalStage(pipeline: Pipeline, stageNumber: number): boolean {
+  return getTerminalStage(pipeline)?.stage_number === stageNumber;
+}
+
+/**
+ * Rough phase of a stage by its position in the pipeline, for badge colors
+ */
+export function getStagePhase(pipeline: Pipeline | null, stageNumber: number): StagePhase {
+  const count = pipeline ? getStageCount(pipeline) : 0;
+  if (count === 0) return 'planning';
+  if (stageNumber >= count) return 'complete';
+
+  const progress = stageNumber / count;
+  if (progress < 0.25) return 'planning';
+  if (progress < 0.5) return 'permits';
+  if (progress < 0.75) return 'installation';
+  return 'inspection';
+}
+
+export function getDocumentTypeLabel(documentType: string): string {
+  const label = DOCUMENT_TYPE_LABELS[documentType];
+  if (label) return label;
+
+  const words = documentType.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Required document types of approval stages from one stage number up to
+ * (not including) another that are not among the uploaded documents. Mirrors
+ * get_missing_stage_documents in the database.
+ */
+export function getMissingDocuments(
+  pipeline: Pipeline,
+  fromStage: number,
+  toStage: number,
+  documents: { document_type: string }[]
+): string[] {
+  const uploaded = new Set(documents.map(document => document.document_type));
+  const missing = new Set<string>();
+
+  for (const stage of pipeline.stages) {
+    if (!stage.requires_approval || stage.stage_number < fromStage || stage.stage_number >= toStage) continue;
+    for (const documentType of stage.required_documents) {
+      if (!uploaded.has(documentType)) missing.add(documentType);
+    }
+  }
+
+  return [...missing].sort();
+}
+
+/**
+ * Fetch all pipelines with their stages
+ */
+export async function fetchPipelines(client: SupabaseClient, options: { includeInactive?: boolean } = {}): Promise<Pipeline[]> {
+  let query = client
+    .from('project_pipelines')
+    .select(PIPELINE_SELECT)
+    .order('is_default', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (!options.includeInactive) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch pipelines: ${error.message}`);
+  }
+
+  return ((data || []) as PipelineRow[]).map(toPipeline);
+}
+
+/**
+ * Fetch a pipeline by ID, falling back to the default pipeline when no ID
+ * is given. Returns null if it does not exist.
+ */
+export async function fetchPipeline(client: SupabaseClient, id?: string | null): Promise<Pipeline | null> {
+  let query = client
+    .from('project_pipelines')
+    .select(PIPELINE_SELECT);
+
+  query = id ? query.eq('id', id) : query.eq('is_default', true);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch pipeline ${id || 'default'}: ${error.message}`);
+  }
+
+  return data ? toPipeline(data as PipelineRow) : null;
+}
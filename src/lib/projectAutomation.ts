@@ -0,0 +1,703 @@
+/**
+ * Project Automation
+ *
+ * App-layer engine for project_automation_rules. A rule belongs to a
+ * pipeline stage and is evaluated while a project sits in that stage:
+ * - time_elapsed: trigger_value days after the project entered the stage
+ * - document_uploaded: the project has a document of action_config.document_type
+ * - photo_submission_completed: the project has a completed photo submission
+ *   (of action_config.submission_type, when set)
+ * - manual_advance: a user, not an automation rule, moved the project into
+ *   the stage
+ *
+ * Actions are send_sms / send_email (action_config.template from the
+ * template library, see src/lib/messageTemplates.ts), advance_stage (to the
+ * next stage of the pipeline) and create_task (project_tasks).
+ *
+ * advance_stage waits while the stage's required documents are missing
+ * (see src/lib/projectDocuments.ts).
+ *
+ * Every run is logged in project_automation_runs and claimed before its
+ * action executes, so a rule fires at most once per stage visit however
+ * many workers evaluate it. Failed runs are retried on later passes.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Resend } from 'resend';
+import type { CrmUser } from './crmAuth';
+import { recordOutboundMessage } from './leadActivities';
+import type { LeadSource } from './leads';
+import { getProjectTemplateValues, renderMessageTemplate } from './messageTemplates';
+import { fetchPipeline, getMissingDocuments, getStage, type Pipeline, type PipelineStage } from './pipelines';
+import { fetchProjectDocuments } from './projectDocuments';
+import { deliverSms, type SmsMessage } from './smsQueue';
+
+export const AUTOMATION_TRIGGERS = ['time_elapsed', 'document_uploaded', 'photo_submission_completed', 'manual_advance'] as const;
+export type AutomationTrigger = typeof AUTOMATION_TRIGGERS[number];
+
+export const AUTOMATION_ACTIONS = ['send_sms', 'send_email', 'advance_stage', 'create_task'] as const;
+export type AutomationAction = typeof AUTOMATION_ACTIONS[number];
+
+export const AUTOMATION_RUN_STATUSES = ['running', 'succeeded', 'skipped', 'failed'] as const;
+export type AutomationRunStatus = typeof AUTOMATION_RUN_STATUSES[number];
+
+export const PROJECT_TASK_STATUSES = ['open', 'done'] as const;
+export type ProjectTaskStatus = typeof PROJECT_TASK_STATUSES[number];
+
+export interface AutomationActionConfig {
+  // send_sms / send_email
+  template?: string;
+  // document_uploaded trigger
+  document_type?: string;
+  // photo_submission_completed trigger
+  submission_type?: string;
+  // create_task: assign_to is project_manager, installer or a name
+  title?: string;
+  description?: string;
+  assign_to?: string;
+  due_in_days?: number;
+}
+
+export interface AutomationRule {
+  id: string;
+  stage_id: number;
+  trigger_condition: AutomationTrigger;
+  trigger_value: number | null;
+  action_type: AutomationAction;
+  action_config: AutomationActionConfig | null;
+  is_active: boolean;
+}
+
+export interface AutomationRun {
+  id: string;
+  rule_id: string;
+  project_id: string;
+  stage_history_id: string;
+  trigger_condition: AutomationTrigger;
+  action_type: AutomationAction;
+  status: AutomationRunStatus;
+  attempts: number;
+  max_attempts: number;
+  result: Record<string, unknown> | null;
+  last_error: string | null;
+  triggered_by: string;
+  created_at: string;
+  completed_at: string | null;
+  rule?: { action_config: AutomationActionConfig | null } | null;
+}
+
+export interface ProjectTask {
+  id: string;
+  project_id: string;
+  title: string;
+  description: string | null;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: ProjectTaskStatus;
+  automation_rule_id: string | null;
+  created_by: string | null;
+  completed_by: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewProjectTask {
+  projectId: string;
+  title: string;
+  description?: string | null;
+  assignedTo?: string | null;
+  dueDate?: string | null;
+  automationRuleId?: string | null;
+}
+
+// Project columns used by the engine and the templates it renders
+export interface AutomationProject {
+  id: string;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_email: string | null;
+  address: string | null;
+  scheduled_install_date: string | null;
+  current_stage: number;
+  pipeline_id: string | null;
+  lead_id: string | null;
+  lead_source: LeadSource | null;
+  assigned_project_manager: string | null;
+  assigned_installer: string | null;
+}
+
+export interface AutomationSummary {
+  projects: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface RunAutomationOptions {
+  // Evaluate one project (any status) instead of every active project
+  projectId?: string;
+  // Only evaluate rules with these triggers
+  triggers?: AutomationTrigger[];
+  // cron, or the Clerk user ID whose action triggered the run
+  triggeredBy?: string;
+  now?: Date;
+}
+
+// Open project_stage_history row for the project's current stage
+interface StageVisit {
+  id: string;
+  entered_at: string;
+  auto_advanced: boolean | null;
+}
+
+interface ActionOutcome {
+  status: 'succeeded' | 'skipped';
+  result: Record<string, unknown>;
+}
+
+const PROJECT_SELECT = 'id, customer_name, customer_phone, customer_email, address, scheduled_install_date, current_stage, pipeline_id, lead_id, lead_source, assigned_project_manager, assigned_installer';
+const RULE_SELECT = 'id, stage_id, trigger_condition, trigger_value, action_type, action_config, is_active';
+const RUN_SELECT = 'id, rule_id, project_id, stage_history_id, trigger_condition, action_type, status, attempts, max_attempts, result, last_error, triggered_by, created_at, completed_at';
+const RUN_WITH_RULE_SELECT = 'id, rule_id, project_id, stage_history_id, trigger_condition, action_type, status, attempts, max_attempts, result, last_error, triggered_by, created_at, completed_at, rule:project_automation_rules(action_config)';
+
+// A run with its rule embedded; without generated types PostgREST embeds
+// are typed as lists, though a run's rule comes back as one object
+type AutomationRunRow = Omit<AutomationRun, 'rule'> & {
+  rule: NonNullable<AutomationRun['rule']> | NonNullable<AutomationRun['rule']>[] | null;
+};
+
+// advanced_by for stage changes made by rules, as the old SQL automation used
+const AUTOMATION_ACTOR = 'system';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIQUE_VIOLATION = '23505';
+
+const resend = new Resend(process.env.RESEND_API_KEY || 'placeholder-resend-key');
+
+export function isAutomationTrigger(value: unknown): value is AutomationTrigger {
+  return typeof value === 'string' && (AUTOMATION_TRIGGERS as readonly string[]).includes(value);
+}
+
+export function isProjectTaskStatus(value: unknown): value is ProjectTaskStatus {
+  return typeof value === 'string' && (PROJECT_TASK_STATUSES as readonly string[]).includes(value);
+}
+
+function skipped(reason: string): ActionOutcome {
+  return { status: 'skipped', result: { reason } };
+}
+
+/**
+ * Text the customer the stage's auto_sms_template on entering it. Returns
+ * null when there is no phone, template or consent to text.
+ */
+export async function sendStageSms(
+  client: SupabaseClient,
+  project: Pick<AutomationProject, 'id' | 'customer_name' | 'customer_phone' | 'lead_id' | 'lead_source'> &
+    Partial<Pick<AutomationProject, 'customer_email' | 'address' | 'scheduled_install_date'>>,
+  stage: PipelineStage,
+  actor: CrmUser | null
+): Promise<SmsMessage | null> {
+  if (!project.customer_phone || !stage.auto_sms_template) return null;
+
+  const message = await renderMessageTemplate(client, stage.auto_sms_template, getProjectTemplateValues(project, {
+    stage: stage.name,
+    repName: actor?.name
+  }), 'sms');
+  if (!message) return null;
+
+  return deliverSms(client, {
+    to: project.customer_phone,
+    body: message.body,
+    messageType: 'stage_update',
+    projectId: project.id,
+    leadId: project.lead_id,
+    leadSource: project.lead_source,
+    actor
+  });
+}
+
+/**
+ * Create a task on a project; actor is null for tasks created by automation
+ */
+export async function createProjectTask(
+  client: SupabaseClient,
+  task: NewProjectTask,
+  actor: CrmUser | null
+): Promise<ProjectTask> {
+  const { data, error } = await client
+    .from('project_tasks')
+    .insert({
+      project_id: task.projectId,
+      title: task.title,
+      description: task.description ?? null,
+      assigned_to: task.assignedTo ?? null,
+      due_date: task.dueDate ?? null,
+      automation_rule_id: task.automationRuleId ?? null,
+      created_by: actor?.clerkUserId ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create project task: ${error.message}`);
+  }
+
+  return data as ProjectTask;
+}
+
+/**
+ * Mark a task done or reopen it. Returns null when the task does not exist.
+ */
+export async function setProjectTaskStatus(
+  client: SupabaseClient,
+  taskId: string,
+  status: ProjectTaskStatus,
+  actor: CrmUser
+): Promise<ProjectTask | null> {
+  const done = status === 'done';
+  const { data, error } = await client
+    .from('project_tasks')
+    .update({
+      status,
+      completed_by: done ? actor.clerkUserId : null,
+      completed_at: done ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', taskId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update project task: ${error.message}`);
+  }
+
+  return (data as ProjectTask | null) ?? null;
+}
+
+/**
+ * Fetch a project's tasks, open ones first by due date
+ */
+export async function fetchProjectTasks(client: SupabaseClient, projectId: string): Promise<ProjectTask[]> {
+  const { data, error } = await client
+    .from('project_tasks')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('status', { ascending: false })
+    .order('due_date', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch project tasks: ${error.message}`);
+  }
+
+  return (data || []) as ProjectTask[];
+}
+
+/**
+ * Fetch a project's automation log, newest first
+ */
+export async function fetchAutomationRuns(client: SupabaseClient, projectId: string, limit = 50): Promise<AutomationRun[]> {
+  const { data, error } = await client
+    .from('project_automation_runs')
+    .select(RUN_WITH_RULE_SELECT)
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch automation runs: ${error.message}`);
+  }
+
+  return ((data || []) as AutomationRunRow[]).map(({ rule, ...run }) => ({
+    ...run,
+    rule: Array.isArray(rule) ? rule[0] ?? null : rule
+  }));
+}
+
+async function fetchCurrentStageVisit(client: SupabaseClient, projectId: string, stageId: number): Promise<StageVisit | null> {
+  const { data, error } = await client
+    .from('project_stage_history')
+    .select('id, entered_at, auto_advanced')
+    .eq('project_id', projectId)
+    .eq('stage_id', stageId)
+    .is('completed_at', null)
+    .order('entered_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch stage history: ${error.message}`);
+  }
+
+  return (data as StageVisit | null) ?? null;
+}
+
+async function hasMatchingRow(
+  client: SupabaseClient,
+  table: 'project_documents' | 'photo_submissions',
+  filters: Record<string, string>
+): Promise<boolean> {
+  let query = client.from(table).select('id', { count: 'exact', head: true });
+  for (const [column, value] of Object.entries(filters)) {
+    query = query.eq(column, value);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to check ${table}: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+async function isTriggered(
+  client: SupabaseClient,
+  rule: AutomationRule,
+  project: AutomationProject,
+  visit: StageVisit,
+  now: Date
+): Promise<boolean> {
+  const config = rule.action_config || {};
+
+  switch (rule.trigger_condition) {
+    case 'time_elapsed':
+      return new Date(visit.entered_at).getTime() + (rule.trigger_value ?? 0) * DAY_MS <= now.getTime();
+    case 'manual_advance':
+      return !visit.auto_advanced;
+    case 'document_uploaded':
+      return hasMatchingRow(client, 'project_documents', {
+        project_id: project.id,
+        ...(config.document_type ? { document_type: config.document_type } : {})
+      });
+    case 'photo_submission_completed':
+      return hasMatchingRow(client, 'photo_submissions', {
+        project_id: project.id,
+        status: 'completed',
+        ...(config.submission_type ? { submission_type: config.submission_type } : {})
+      });
+    default:
+      return false;
+  }
+}
+
+/**
+ * Claim a rule's run for a stage visit. Returns null when it already ran,
+ * is running elsewhere, or has used up its retries.
+ */
+async function claimAutomationRun(
+  client: SupabaseClient,
+  rule: AutomationRule,
+  projectId: string,
+  visitId: string,
+  triggeredBy: string
+): Promise<AutomationRun | null> {
+  const { data, error } = await client
+    .from('project_automation_runs')
+    .insert({
+      rule_id: rule.id,
+      project_id: projectId,
+      stage_history_id: visitId,
+      trigger_condition: rule.trigger_condition,
+      action_type: rule.action_type,
+      triggered_by: triggeredBy
+    })
+    .select(RUN_SELECT)
+    .single();
+
+  if (!error) return data as AutomationRun;
+  if (error.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to claim automation run: ${error.message}`);
+  }
+
+  const { data: existing, error: existingError } = await client
+    .from('project_automation_runs')
+    .select(RUN_SELECT)
+    .eq('rule_id', rule.id)
+    .eq('stage_history_id', visitId)
+    .single();
+
+  if (existingError) {
+    throw new Error(`Failed to fetch automation run: ${existingError.message}`);
+  }
+
+  // Only failed runs are retried; a run stuck in running may have sent already
+  const run = existing as AutomationRun;
+  if (run.status !== 'failed' || run.attempts >= run.max_attempts) return null;
+
+  const { data: retried, error: retryError } = await client
+    .from('project_automation_runs')
+    .update({ status: 'running', attempts: run.attempts + 1, triggered_by: triggeredBy, completed_at: null })
+    .eq('id', run.id)
+    .eq('status', 'failed')
+    .eq('attempts', run.attempts)
+    .select(RUN_SELECT)
+    .maybeSingle();
+
+  if (retryError) {
+    throw new Error(`Failed to claim automation run: ${retryError.message}`);
+  }
+
+  return (retried as AutomationRun | null) ?? null;
+}
+
+async function finishAutomationRun(
+  client: SupabaseClient,
+  run: AutomationRun,
+  status: Exclude<AutomationRunStatus, 'running'>,
+  result: Record<string, unknown> | null,
+  lastError: string | null
+): Promise<void> {
+  const { error } = await client
+    .from('project_automation_runs')
+    .update({
+      status,
+      result,
+      last_error: lastError,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', run.id);
+
+  if (error) {
+    console.error('Error recording automation run result:', error);
+  }
+}
+
+async function executeAction(
+  client: SupabaseClient,
+  rule: AutomationRule,
+  project: AutomationProject,
+  pipeline: Pipeline,
+  stage: PipelineStage
+): Promise<ActionOutcome> {
+  const config = rule.action_config || {};
+  const values = getProjectTemplateValues(project, { stage: stage.name });
+
+  switch (rule.action_type) {
+    case 'send_sms': {
+      if (!config.template) throw new Error('send_sms rule has no template');
+      if (!project.customer_phone) return skipped('Project has no customer phone');
+
+      const message = await renderMessageTemplate(client, config.template, values, 'sms');
+      if (!message) throw new Error(`No active SMS template ${config.template}`);
+
+      const sms = await deliverSms(client, {
+        to: project.customer_phone,
+        body: message.body,
+        messageType: config.template,
+        projectId: project.id,
+        leadId: project.lead_id,
+        leadSource: project.lead_source
+      });
+      if (!sms) return skipped('Customer opted out of texts');
+
+      return {
+        status: 'succeeded',
+        result: { smsMessageId: sms.id, smsStatus: sms.status, templateVersion: message.template.version }
+      };
+    }
+
+    case 'send_email': {
+      if (!config.template) throw new Error('send_email rule has no template');
+      if (!project.customer_email) return skipped('Project has no customer email');
+      if (!process.env.RESEND_API_KEY) throw new Error('Missing Resend API key');
+
+      const message = await renderMessageTemplate(client, config.template, values, 'email');
+      if (!message) throw new Error(`No active email template ${config.template}`);
+
+      const subject = message.subject || message.template.name;
+      const { data, error } = await resend.emails.send({
+        from: 'Quantum Solar <info@quantumsolar.us>',
+        to: [project.customer_email],
+        subject,
+        html: message.body,
+        replyTo: 'info@quantumsolar.us'
+      });
+
+      if (error) {
+        throw new Error(`Failed to send email: ${error.message}`);
+      }
+
+      await recordOutboundMessage(client, {
+        type: 'email',
+        leadId: project.lead_id,
+        leadSource: project.lead_source,
+        subject,
+        recipient: project.customer_email,
+        externalId: data?.id ?? null,
+        deliveryStatus: 'sent',
+        metadata: { templateKey: config.template, templateVersion: message.template.version, automationRuleId: rule.id }
+      });
+
+      return {
+        status: 'succeeded',
+        result: { emailId: data?.id ?? null, templateVersion: message.template.version }
+      };
+    }
+
+    case 'advance_stage': {
+      const nextStage = getStage(pipeline, project.current_stage + 1);
+      if (!nextStage) return skipped('Project is already at the final stage');
+
+      const { error } = await client.rpc('advance_project_stage', {
+        project_uuid: project.id,
+        new_stage_id: nextStage.stage_number,
+        notes_text: 'Auto-advanced by automation rule',
+        advanced_by: AUTOMATION_ACTOR
+      });
+
+      if (error) {
+        throw new Error(`Failed to advance project stage: ${error.message}`);
+      }
+
+      // So manual_advance rules of the new stage do not fire
+      const { error: markError } = await client
+        .from('project_stage_history')
+        .update({ auto_advanced: true })
+        .eq('project_id', project.id)
+        .eq('stage_id', nextStage.id)
+        .is('completed_at', null);
+
+      if (markError) {
+        console.error('Error marking stage as auto-advanced:', markError);
+      }
+
+      try {
+        await sendStageSms(client, project, nextStage, null);
+      } catch (smsError) {
+        console.error('Error sending stage update SMS:', smsError);
+      }
+
+      return {
+        status: 'succeeded',
+        result: { fromStage: project.current_stage, toStage: nextStage.stage_number }
+      };
+    }
+
+    case 'create_task': {
+      if (!config.title) throw new Error('create_task rule has no title');
+
+      const assignedTo = config.assign_to === 'project_manager'
+        ? project.assigned_project_manager
+        : config.assign_to === 'installer'
+          ? project.assigned_installer
+          : config.assign_to || null;
+      const dueDate = config.due_in_days !== undefined
+        ? new Date(Date.now() + config.due_in_days * DAY_MS).toISOString().split('T')[0]
+        : null;
+
+      const task = await createProjectTask(client, {
+        projectId: project.id,
+        title: config.title,
+        description: config.description,
+        assignedTo,
+        dueDate,
+        automationRuleId: rule.id
+      }, null);
+
+      return { status: 'succeeded', result: { taskId: task.id, assignedTo } };
+    }
+
+    default:
+      throw new Error(`Unknown automation action ${rule.action_type}`);
+  }
+}
+
+/**
+ * Evaluate automation rules for active projects (or one project) and run
+ * the actions whose trigger is met. Advancing the stage ends the pass for
+ * that project; the new stage's rules are evaluated on the next pass.
+ */
+export async function runProjectAutomation(
+  client: SupabaseClient,
+  options: RunAutomationOptions = {}
+): Promise<AutomationSummary> {
+  const now = options.now || new Date();
+  const triggeredBy = options.triggeredBy || 'cron';
+
+  // A single project is evaluated whatever its status, so rules on the
+  // final stage still fire after advancing into it completes the project
+  let projectQuery = client.from('projects').select(PROJECT_SELECT);
+  projectQuery = options.projectId
+    ? projectQuery.eq('id', options.projectId)
+    : projectQuery.eq('overall_status', 'active');
+
+  const { data: projectRows, error: projectError } = await projectQuery;
+  if (projectError) {
+    throw new Error(`Failed to fetch projects for automation: ${projectError.message}`);
+  }
+
+  const { data: ruleRows, error: ruleError } = await client
+    .from('project_automation_rules')
+    .select(RULE_SELECT)
+    .eq('is_active', true);
+
+  if (ruleError) {
+    throw new Error(`Failed to fetch automation rules: ${ruleError.message}`);
+  }
+
+  // Messages and tasks for a stage go out before the project leaves it
+  const rulesByStage = new Map<number, AutomationRule[]>();
+  for (const rule of (ruleRows || []) as AutomationRule[]) {
+    if (options.triggers && !options.triggers.includes(rule.trigger_condition)) continue;
+    rulesByStage.set(rule.stage_id, [...(rulesByStage.get(rule.stage_id) || []), rule]);
+  }
+  for (const rules of rulesByStage.values()) {
+    rules.sort((a, b) => Number(a.action_type === 'advance_stage') - Number(b.action_type === 'advance_stage'));
+  }
+
+  const projects = (projectRows || []) as AutomationProject[];
+  const pipelines = new Map<string | null, Pipeline | null>();
+  const summary: AutomationSummary = { projects: projects.length, succeeded: 0, skipped: 0, failed: 0 };
+
+  for (const project of projects) {
+    try {
+      if (!pipelines.has(project.pipeline_id)) {
+        pipelines.set(project.pipeline_id, await fetchPipeline(client, project.pipeline_id));
+      }
+      const pipeline = pipelines.get(project.pipeline_id);
+      const stage = pipeline ? getStage(pipeline, project.current_stage) : null;
+      const rules = stage ? rulesByStage.get(stage.id) || [] : [];
+      if (!pipeline || !stage || rules.length === 0) continue;
+
+      const visit = await fetchCurrentStageVisit(client, project.id, stage.id);
+      if (!visit) continue;
+
+      for (const rule of rules) {
+        if (!(await isTriggered(client, rule, project, visit, now))) continue;
+
+        // Wait for the documents an approval stage requires rather than
+        // failing; the rule fires on a later pass once they are uploaded
+        if (rule.action_type === 'advance_stage' && getMissingDocuments(
+          pipeline,
+          project.current_stage,
+          project.current_stage + 1,
+          await fetchProjectDocuments(client, project.id)
+        ).length > 0) continue;
+
+        const run = await claimAutomationRun(client, rule, project.id, visit.id, triggeredBy);
+        if (!run) continue;
+
+        try {
+          const outcome = await executeAction(client, rule, project, pipeline, stage);
+          await finishAutomationRun(client, run, outcome.status, outcome.result, null);
+          summary[outcome.status]++;
+
+          if (rule.action_type === 'advance_stage' && outcome.status === 'succeeded') break;
+        } catch (error) {
+          console.error(`Automation rule ${rule.id} failed for project ${project.id}:`, error);
+          await finishAutomationRun(client, run, 'failed', null, error instanceof Error ? error.message : String(error));
+          summary.failed++;
+        }
+      }
+    } catch (error) {
+      console.error(`Error running automation for project ${project.id}:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,186 @@
+/**
+ * Project Documents
+ *
+ * Contracts, permits, interconnection agreements, PTO letters and other
+ * project paperwork in project_documents. Files are kept in the configured
+ * storage backend (see src/lib/fileStorage.ts) under a durable object key
+ * with a SHA-256 checksum and are only served through the CRM.
+ *
+ * Pipeline stages declare required document types; a stage that requires
+ * approval cannot be left until they are all uploaded. The database
+ * enforces this in advance_project_stage, and getMissingDocuments (see
+ * src/lib/pipelines.ts) lets callers explain it before trying.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import {
+  computeChecksum,
+  getConfiguredStorageBackend,
+  getStorageAdapter,
+  isStorageBackend,
+  type StorageBackend
+} from './fileStorage';
+
+export const PROJECT_DOCUMENT_BUCKET = 'project-documents';
+
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024; // 25MB
+
+export const ALLOWED_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export interface ProjectDocument {
+  id: string;
+  project_id: string;
+  document_type: string;
+  document_name: string;
+  file_type: string | null;
+  file_size: number | null;
+  storage_backend: StorageBackend | null;
+  object_key: string | null;
+  storage_external_id: string | null;
+  checksum_sha256: string | null;
+  notes: string | null;
+  stage_id: number | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+export interface NewProjectDocument {
+  projectId: string;
+  documentType: string;
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+  stageId: number | null;
+  notes?: string | null;
+}
+
+const DOCUMENT_SELECT = 'id, project_id, document_type, document_name, file_type, file_size, storage_backend, object_key, storage_external_id, checksum_sha256, notes, stage_id, uploaded_by, uploaded_at';
+
+export function getDocumentObjectKey(projectId: string, fileName: string): string {
+  return `projects/${projectId}/documents/${fileName}`;
+}
+
+/**
+ * Fetch a project's documents, newest first
+ */
+export async function fetchProjectDocuments(client: SupabaseClient, projectId: string): Promise<ProjectDocument[]> {
+  const { data, error } = await client
+    .from('project_documents')
+    .select(DOCUMENT_SELECT)
+    .eq('project_id', projectId)
+    .order('uploaded_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch project documents: ${error.message}`);
+  }
+
+  return (data || []) as ProjectDocument[];
+}
+
+/**
+ * Fetch a single project document
+ */
+export async function fetchProjectDocument(client: SupabaseClient, documentId: string): Promise<ProjectDocument | null> {
+  const { data, error } = await client
+    .from('project_documents')
+    .select(DOCUMENT_SELECT)
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project document ${documentId}: ${error.message}`);
+  }
+
+  return (data as ProjectDocument | null) ?? null;
+}
+
+/**
+ * Store a document's bytes in the configured backend and record it
+ */
+export async function createProjectDocument(
+  client: SupabaseClient,
+  document: NewProjectDocument,
+  actor: CrmUser
+): Promise<ProjectDocument> {
+  const extension = document.fileName.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'pdf';
+  const key = getDocumentObjectKey(document.projectId, `${document.documentType}_${Date.now()}.${extension}`);
+
+  const adapter = getStorageAdapter(getConfiguredStorageBackend(), client, PROJECT_DOCUMENT_BUCKET);
+  const stored = await adapter.put(key, document.body, document.contentType);
+
+  const { data, error } = await client
+    .from('project_documents')
+    .insert({
+      project_id: document.projectId,
+      document_type: document.documentType,
+      document_name: document.fileName,
+      file_type: document.contentType,
+      file_size: document.body.length,
+      storage_backend: stored.backend,
+      object_key: stored.key,
+      storage_external_id: stored.externalId,
+      checksum_sha256: computeChecksum(document.body),
+      notes: document.notes ?? null,
+      stage_id: document.stageId,
+      uploaded_by: actor.clerkUserId
+    })
+    .select(DOCUMENT_SELECT)
+    .single();
+
+  if (error) {
+    // Do not leave an unreferenced file behind
+    await adapter.remove(stored).catch(removeError => {
+      console.error(`Error removing orphaned document ${stored.key}:`, removeError);
+    });
+    throw new Error(`Failed to record project document: ${error.message}`);
+  }
+
+  return data as ProjectDocument;
+}
+
+/**
+ * Read a document's bytes back and verify them against the stored checksum
+ */
+export async function readProjectDocument(client: SupabaseClient, document: ProjectDocument): Promise<Buffer> {
+  if (!document.object_key || !isStorageBackend(document.storage_backend)) {
+    throw new Error(`Project document ${document.id} has no stored file`);
+  }
+
+  const adapter = getStorageAdapter(document.storage_backend, client, PROJECT_DOCUMENT_BUCKET);
+  const body = await adapter.get({ key: document.object_key, externalId: document.storage_external_id });
+
+  if (document.checksum_sha256 && computeChecksum(body) !== document.checksum_sha256) {
+    throw new Error(`Checksum mismatch for project document ${document.id}`);
+  }
+
+  return body;
+}
+
+/**
+ * Delete a document's record, then its file. A file that cannot be removed
+ * is logged and left behind rather than keeping a record of a deleted
+ * document.
+ */
+export async function deleteProjectDocument(client: SupabaseClient, document: ProjectDocument): Promise<void> {
+  const { error } = await client
+    .from('project_documents')
+    .delete()
+    .eq('id', document.id);
+
+  if (error) {
+    throw new Error(`Failed to delete project document ${document.id}: ${error.message}`);
+  }
+
+  if (document.object_key && isStorageBackend(document.storage_backend)) {
+    try {
+      await getStorageAdapter(document.storage_backend, client, PROJECT_DOCUMENT_BUCKET)
+        .remove({ key: document.object_key, externalId: document.storage_external_id });
+    } catch (removeError) {
+      console.error(`Error removing file for project document ${document.id}:`, removeError);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Project Photos
+ *
+ * A project's photo history in project_photos. Field photo submissions
+ * (POST /api/crm/photo-submission) add an entry for every uploaded photo,
+ * tagged with the lifecycle stage the project was in and the submission's
+ * GPS fix. Files live in the public project-photos storage bucket.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const PROJECT_PHOTO_BUCKET = 'project-photos';
+
+export const PHOTO_SUBMISSION_TYPES = ['site_survey', 'installation', 'inspection'] as const;
+export type PhotoSubmissionType = typeof PHOTO_SUBMISSION_TYPES[number];
+
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface ProjectPhoto {
+  id: string;
+  project_id: string;
+  photo_type: string;
+  file_path: string;
+  caption: string | null;
+  taken_by: string | null;
+  taken_at: string;
+  stage_id: number | null;
+  gps_latitude: number | null;
+  gps_longitude: number | null;
+  gps_accuracy_m: number | null;
+  submission_id: string | null;
+  photo_record_id: string | null;
+  url: string;
+}
+
+export interface NewProjectPhoto {
+  projectId: string;
+  photoType: PhotoSubmissionType;
+  filePath: string;
+  caption: string;
+  takenBy: string;
+  takenAt: string;
+  stageId: number | null;
+  location: PhotoLocation | null;
+  submissionId: string;
+  photoRecordId: string;
+}
+
+const PHOTO_SELECT = 'id, project_id, photo_type, file_path, caption, taken_by, taken_at, stage_id, gps_latitude, gps_longitude, gps_accuracy_m, submission_id, photo_record_id';
+
+export function isPhotoSubmissionType(value: unknown): value is PhotoSubmissionType {
+  return typeof value === 'string' && (PHOTO_SUBMISSION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * A GPS fix from the client, if it holds usable coordinates
+ */
+export function parsePhotoLocation(value: unknown): PhotoLocation | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { latitude, longitude, accuracy } = value as Record<string, unknown>;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+  return {
+    latitude,
+    longitude,
+    ...(typeof accuracy === 'number' && accuracy >= 0 && { accuracy })
+  };
+}
+
+/**
+ * Fetch a project's photos, newest first, with their public URLs
+ */
+export async function fetchProjectPhotos(client: SupabaseClient, projectId: string): Promise<ProjectPhoto[]> {
+  const { data, error } = await client
+    .from('project_photos')
+    .select(PHOTO_SELECT)
+    .eq('project_id', projectId)
+    .order('taken_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch project photos: ${error.message}`);
+  }
+
+  const bucket = client.storage.from(PROJECT_PHOTO_BUCKET);
+  return (data || []).map(photo => ({
+    ...photo,
+    url: bucket.getPublicUrl(photo.file_path).data.publicUrl
+  })) as ProjectPhoto[];
+}
+
+/**
+ * Add a submitted photo to the project's photo history
+ */
+export async function recordProjectPhoto(client: SupabaseClient, photo: NewProjectPhoto): Promise<void> {
+  const { error } = await client
+    .from('project_photos')
+    .insert({
+      project_id: photo.projectId,
+      photo_type: photo.photoType,
+      file_path: photo.filePath,
+      caption: photo.caption,
+      taken_by: photo.takenBy,
+      taken_at: photo.takenAt,
+      stage_id: photo.stageId,
+      gps_latitude: photo.location?.latitude ?? null,
+      gps_longitude: photo.location?.longitude ?? null,
+      gps_accuracy_m: photo.location?.accuracy ?? null,
+      submission_id: photo.submissionId,
+      photo_record_id: photo.photoRecordId
+    });
+
+  if (error) {
+    throw new Error(`Failed to record project photo: ${error.message}`);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window rate limiter for API routes, keyed by client IP, session or
+ * CRM user. Counters are kept in memory per server instance, which is enough
+ * to stop a single client from hammering an endpoint.
+ *
+ * Usage:
+ * ```ts
+ * const limited = rateLimit(`send:${getClientIp(request)}`, { limit: 10, windowMs: 60_000 });
+ * if (limited) return limited;
+ * ```
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export interface RateLimitOptions {
+  /** Maximum requests allowed per window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+interface RateLimitBucket {
+  count: number;
+  resetAt: number;
+}
+
+const buckets = new Map<string, RateLimitBucket>();
+
+// Drop expired buckets once the map grows, so long-running instances don't leak
+const MAX_BUCKETS = 10000;
+
+/**
+ * Count a request against the key's window.
+ * Returns a 429 response when the limit is exceeded, otherwise null.
+ */
+export function rateLimit(key: string, options: RateLimitOptions): NextResponse | null {
+  const now = Date.now();
+
+  if (buckets.size > MAX_BUCKETS) {
+    for (const [bucketKey, bucket] of buckets) {
+      if (bucket.resetAt <= now) buckets.delete(bucketKey);
+    }
+  }
+
+  const bucket = buckets.get(key);
+
+  if (!bucket || bucket.resetAt <= now) {
+    buckets.set(key, { count: 1, resetAt: now + options.windowMs });
+    return null;
+  }
+
+  bucket.count += 1;
+
+  if (bucket.count > options.limit) {
+    const retryAfter = Math.ceil((bucket.resetAt - now) / 1000);
+    return NextResponse.json(
+      { error: 'Too many requests', details: `Try again in ${retryAfter} seconds` },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Best-effort client IP from proxy headers
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) return forwardedFor.split(',')[0].trim();
+
+  return request.headers.get('x-real-ip') || 'unknown';
+}
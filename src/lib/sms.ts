@@ -0,0 +1,146 @@
+/**
+ * Twilio SMS
+ *
+ * Server-side Twilio Messages API client used by the SMS queue (see
+ * src/lib/smsQueue.ts) and webhook signature verification. Message copy
+ * lives in the template library (see src/lib/messageTemplates.ts).
+ *
+ * Configuration:
+ * - TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER
+ * - TWILIO_API_URL: Twilio API base URL; point at a local stand-in
+ *   (scripts/twilio-stand-in.mjs) in development
+ * - TWILIO_WEBHOOK_BASE_URL: public base URL Twilio calls back on; also used
+ *   to rebuild the signed URL behind proxies
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface SmsSendResult {
+  success: boolean;
+  sid?: string;
+  status?: string;
+  httpStatus?: number;
+  // Twilio error code for rejected requests (e.g. 21211 invalid number)
+  errorCode?: number;
+  error?: string;
+}
+
+export interface SmsSendOptions {
+  statusCallback?: string;
+}
+
+const DEFAULT_TWILIO_API_URL = 'https://api.twilio.com';
+
+export function isTwilioConfigured(): boolean {
+  return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER);
+}
+
+/**
+ * Format a phone number for Twilio (ensure it starts with +1 for US numbers)
+ */
+export function formatPhoneNumber(phone: string): string {
+  return phone.startsWith('+') ? phone : `+1${phone.replace(/\D/g, '')}`;
+}
+
+/**
+ * Absolute URL for a Twilio webhook route, or null when no public base URL
+ * is configured (Twilio cannot reach the app)
+ */
+export function getTwilioWebhookUrl(path: string): string | null {
+  const base = process.env.TWILIO_WEBHOOK_BASE_URL;
+  return base ? `${base.replace(/\/$/, '')}${path}` : null;
+}
+
+/**
+ * Whether a failed send is worth retrying: network errors, rate limits and
+ * Twilio server errors. Rejected requests (bad number, opted out) are final.
+ */
+export function isRetryableSmsFailure(result: SmsSendResult): boolean {
+  if (result.success) return false;
+  if (result.httpStatus === undefined) return result.error !== 'Twilio configuration missing';
+  return result.httpStatus === 429 || result.httpStatus >= 500;
+}
+
+/**
+ * Send an SMS through the Twilio Messages API. Never throws; failures are
+ * returned with the HTTP status when Twilio responded.
+ */
+export async function sendSms(to: string, body: string, options: SmsSendOptions = {}): Promise<SmsSendResult> {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const twilioNumber = process.env.TWILIO_PHONE_NUMBER;
+  const apiUrl = process.env.TWILIO_API_URL || DEFAULT_TWILIO_API_URL;
+
+  if (!accountSid || !authToken || !twilioNumber) {
+    return { success: false, error: 'Twilio configuration missing' };
+  }
+
+  const params = new URLSearchParams({
+    To: formatPhoneNumber(to),
+    From: twilioNumber,
+    Body: body
+  });
+  if (options.statusCallback) {
+    params.set('StatusCallback', options.statusCallback);
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Twilio API error:', response.status, error);
+      let errorCode: number | undefined;
+      try {
+        errorCode = JSON.parse(error).code;
+      } catch {
+        errorCode = undefined;
+      }
+      return { success: false, httpStatus: response.status, errorCode, error: 'Failed to send SMS' };
+    }
+
+    const data = await response.json();
+    return { success: true, sid: data.sid, status: data.status };
+  } catch (error) {
+    console.error('Error sending SMS:', error);
+    return { success: false, error: 'Send error' };
+  }
+}
+
+/**
+ * Verify the X-Twilio-Signature of a webhook: base64 HMAC-SHA1 of the full
+ * URL followed by the POST parameters sorted by name, keyed by the auth
+ * token. Fails closed when the auth token is not configured.
+ */
+export function verifyTwilioSignature(
+  signature: string | null,
+  url: string,
+  params: Record<string, string>
+): boolean {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken || !signature) return false;
+
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((data, key) => data + key + params[key], url);
+  const expected = Buffer.from(createHmac('sha1', authToken).update(payload).digest('base64'));
+  const provided = Buffer.from(signature);
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * The URL Twilio signed for a webhook request: the configured public base
+ * URL plus the request path, or the request URL itself
+ */
+export function getSignedWebhookUrl(requestUrl: string): string {
+  const url = new URL(requestUrl);
+  return getTwilioWebhookUrl(`${url.pathname}${url.search}`) || requestUrl;
+}
@@ -0,0 +1,325 @@
+/**
+ * SMS Conversations
+ *
+ * Two-way texting and SMS opt-out compliance. Every number we text or hear
+ * from has a thread in sms_conversations, matched to its lead and project by
+ * phone number. Inbound replies are stored in sms_messages next to outbound
+ * texts and on the lead's activity timeline.
+ *
+ * Keywords (whole message, case-insensitive):
+ * - STOP, STOPALL, UNSUBSCRIBE, CANCEL, END, QUIT, OPTOUT, REVOKE: opt out
+ * - START, UNSTOP, YES: opt back in
+ * - HELP, INFO: reply with contact details
+ *
+ * Opting out or in also updates splash_leads.sms_consent for leads with
+ * that phone number.
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchLeadByContact, type LeadSource } from './leads';
+import { recordLeadActivity } from './leadActivities';
+import { formatPhoneNumber } from './sms';
+import type { SmsMessage } from './smsQueue';
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+export interface SmsConversation {
+  id: string;
+  phone_number: string;
+  lead_id: string | null;
+  lead_source: LeadSource | null;
+  project_id: string | null;
+  opted_out: boolean;
+  opted_out_at: string | null;
+  opted_in_at: string | null;
+  last_keyword: string | null;
+  last_message_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InboundSms {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+}
+
+const KEYWORDS: Record<string, SmsKeyword> = {
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  CANCEL: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  OPTOUT: 'stop',
+  REVOKE: 'stop',
+  START: 'start',
+  UNSTOP: 'start',
+  YES: 'start',
+  HELP: 'help',
+  INFO: 'help'
+};
+
+export const SMS_KEYWORD_REPLIES: Record<SmsKeyword, string> = {
+  stop: "You have been unsubscribed from Quantum Solar texts and will not receive any more messages. Reply START to resubscribe.",
+  start: "You are resubscribed to Quantum Solar texts. Msg & data rates may apply. Reply HELP for help, STOP to unsubscribe.",
+  help: "Quantum Solar: reply to this text to reach our team, or email info@quantumsolar.us. Msg & data rates may apply. Reply STOP to unsubscribe."
+};
+
+// Unique violation on sms_conversations.phone_number / sms_messages.twilio_sid
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * The compliance keyword a message consists of, if any
+ */
+export function getSmsKeyword(body: string): SmsKeyword | null {
+  const word = body.trim().replace(/[.!]+$/, '').toUpperCase();
+  return KEYWORDS[word] ?? null;
+}
+
+/**
+ * Most recent project with the given phone number, or null
+ */
+async function fetchProjectIdByPhone(client: SupabaseClient, phone: string): Promise<string | null> {
+  const phoneDigits = phone.replace(/\D/g, '').slice(-10);
+  if (phoneDigits.length !== 10) return null;
+
+  const { data, error } = await client
+    .from('projects')
+    .select('id')
+    .like('customer_phone_digits', `%${phoneDigits}`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project by phone: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * The thread for a phone number, created on first contact and matched to a
+ * lead and project by phone. Known lead/project IDs fill in missing links.
+ */
+export async function getOrCreateConversation(
+  client: SupabaseClient,
+  phone: string,
+  links: { leadId?: string | null; leadSource?: LeadSource | null; projectId?: string | null } = {}
+): Promise<SmsConversation> {
+  const phoneNumber = formatPhoneNumber(phone);
+
+  const { data: existing, error: fetchError } = await client
+    .from('sms_conversations')
+    .select('*')
+    .eq('phone_number', phoneNumber)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch SMS conversation: ${fetchError.message}`);
+  }
+
+  if (existing) {
+    const conversation = existing as SmsConversation;
+    const missing: Record<string, unknown> = {};
+    if (!conversation.lead_id && links.leadId) {
+      missing.lead_id = links.leadId;
+      missing.lead_source = links.leadSource ?? null;
+    }
+    if (!conversation.project_id && links.projectId) missing.project_id = links.projectId;
+    if (Object.keys(missing).length === 0) return conversation;
+
+    const { data, error } = await client
+      .from('sms_conversations')
+      .update({ ...missing, updated_at: new Date().toISOString() })
+      .eq('id', conversation.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to link SMS conversation: ${error.message}`);
+    }
+    return data as SmsConversation;
+  }
+
+  let leadId = links.leadId ?? null;
+  let leadSource = links.leadSource ?? null;
+  if (!leadId) {
+    const lead = await fetchLeadByContact(client, { phone: phoneNumber });
+    leadId = lead?.id ?? null;
+    leadSource = lead?.source ?? null;
+  }
+
+  const { data, error } = await client
+    .from('sms_conversations')
+    .insert({
+      phone_number: phoneNumber,
+      lead_id: leadId,
+      lead_source: leadSource,
+      project_id: links.projectId ?? await fetchProjectIdByPhone(client, phoneNumber)
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // Created concurrently by another request
+    if (error.code === UNIQUE_VIOLATION) return getOrCreateConversation(client, phoneNumber, links);
+    throw new Error(`Failed to create SMS conversation: ${error.message}`);
+  }
+
+  return data as SmsConversation;
+}
+
+/**
+ * Opt a number out of or back into texts, and mirror it onto the
+ * sms_consent of splash leads with that number
+ */
+async function setSmsOptOut(
+  client: SupabaseClient,
+  conversation: SmsConversation,
+  optedOut: boolean,
+  keyword: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await client
+    .from('sms_conversations')
+    .update({
+      opted_out: optedOut,
+      ...(optedOut ? { opted_out_at: now } : { opted_in_at: now }),
+      last_keyword: keyword,
+      updated_at: now
+    })
+    .eq('id', conversation.id);
+
+  if (error) {
+    throw new Error(`Failed to update SMS opt-out: ${error.message}`);
+  }
+
+  const phoneDigits = conversation.phone_number.replace(/\D/g, '').slice(-10);
+  const { data: leads, error: leadsError } = await client
+    .from('crm_leads')
+    .select('id')
+    .eq('source', 'splash')
+    .like('phone_digits', `%${phoneDigits}`);
+
+  if (leadsError) {
+    console.error('Error finding leads for SMS consent update:', leadsError);
+    return;
+  }
+
+  const leadIds = (leads || []).map(lead => lead.id as string);
+  if (leadIds.length === 0) return;
+
+  const { error: consentError } = await client
+    .from('splash_leads')
+    .update({ sms_consent: !optedOut })
+    .in('id', leadIds);
+
+  if (consentError) {
+    console.error('Error updating lead SMS consent:', consentError);
+  }
+}
+
+/**
+ * Store an inbound SMS in its thread and on the lead's timeline, and apply
+ * STOP / START keywords. Returns the keyword reply to send, or null. A
+ * redelivered webhook (same MessageSid) is ignored.
+ */
+export async function handleInboundSms(
+  client: SupabaseClient,
+  inbound: InboundSms
+): Promise<{ message: SmsMessage | null; keyword: SmsKeyword | null; reply: string | null }> {
+  const conversation = await getOrCreateConversation(client, inbound.from);
+  const keyword = getSmsKeyword(inbound.body);
+  const now = new Date().toISOString();
+
+  const { data, error } = await client
+    .from('sms_messages')
+    .insert({
+      direction: 'inbound',
+      conversation_id: conversation.id,
+      from_number: conversation.phone_number,
+      to_number: inbound.to,
+      body: inbound.body,
+      message_type: keyword ? `keyword_${keyword}` : 'reply',
+      lead_id: conversation.lead_id,
+      lead_source: conversation.lead_source,
+      project_id: conversation.project_id,
+      status: 'received',
+      twilio_sid: inbound.sid,
+      next_attempt_at: now
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return { message: null, keyword: null, reply: null };
+    throw new Error(`Failed to store inbound SMS: ${error.message}`);
+  }
+
+  const message = data as SmsMessage;
+
+  await client
+    .from('sms_conversations')
+    .update({ last_message_at: now, updated_at: now })
+    .eq('id', conversation.id);
+
+  if (keyword === 'stop' || keyword === 'start') {
+    await setSmsOptOut(client, conversation, keyword === 'stop', inbound.body.trim().toUpperCase());
+  } else if (keyword === 'help') {
+    await client
+      .from('sms_conversations')
+      .update({ last_keyword: inbound.body.trim().toUpperCase() })
+      .eq('id', conversation.id);
+  }
+
+  if (conversation.lead_id) {
+    try {
+      const activity = await recordLeadActivity(client, {
+        leadId: conversation.lead_id,
+        leadSource: conversation.lead_source,
+        type: 'sms',
+        direction: 'inbound',
+        body: inbound.body,
+        recipient: conversation.phone_number,
+        externalId: inbound.sid,
+        metadata: { messageType: message.message_type, projectId: conversation.project_id }
+      });
+      await client.from('sms_messages').update({ lead_activity_id: activity.id }).eq('id', message.id);
+    } catch (activityError) {
+      console.error('Error recording inbound SMS activity:', activityError);
+    }
+  }
+
+  return { message, keyword, reply: keyword ? SMS_KEYWORD_REPLIES[keyword] : null };
+}
+
+/**
+ * Threads for a lead or a project, most recently active first
+ */
+export async function fetchSmsConversations(
+  client: SupabaseClient,
+  filter: { leadId?: string; projectId?: string }
+): Promise<SmsConversation[]> {
+  let query = client
+    .from('sms_conversations')
+    .select('*')
+    .order('last_message_at', { ascending: false, nullsFirst: false });
+
+  if (filter.leadId) query = query.eq('lead_id', filter.leadId);
+  if (filter.projectId) query = query.eq('project_id', filter.projectId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch SMS conversations: ${error.message}`);
+  }
+
+  return (data || []) as SmsConversation[];
+}
@@ -0,0 +1,420 @@
+/**
+ * SMS Queue
+ *
+ * Outbound SMS log and send queue stored in sms_messages. Messages are
+ * queued, recorded on the lead's activity timeline, and sent right away;
+ * sends that fail with a retryable error are retried with exponential
+ * backoff by the SMS queue job (/api/integrations/twilio/queue). Twilio
+ * status callbacks then record queued/sent/delivered/failed/undelivered.
+ * Messages are threaded by phone number, and numbers that have opted out
+ * (STOP) are refused (see src/lib/smsConversations.ts).
+ *
+ * Query helpers take the Supabase client as an argument so routes can pass
+ * their service-role client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CrmUser } from './crmAuth';
+import { recordOutboundMessage } from './leadActivities';
+import type { LeadSource } from './leads';
+import { formatPhoneNumber, getTwilioWebhookUrl, isRetryableSmsFailure, sendSms } from './sms';
+import { getOrCreateConversation } from './smsConversations';
+
+export const SMS_MESSAGE_STATUSES = ['pending', 'sending', 'queued', 'sent', 'delivered', 'failed', 'undelivered', 'received'] as const;
+export type SmsMessageStatus = typeof SMS_MESSAGE_STATUSES[number];
+
+export interface SmsMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  conversation_id: string | null;
+  from_number: string | null;
+  to_number: string;
+  body: string;
+  message_type: string;
+  lead_id: string | null;
+  lead_source: LeadSource | null;
+  project_id: string | null;
+  lead_activity_id: string | null;
+  status: SmsMessageStatus;
+  twilio_sid: string | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  error_code: string | null;
+  last_error: string | null;
+  created_by: string | null;
+  sent_at: string | null;
+  delivered_at: string | null;
+  failed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewSmsMessage {
+  to: string;
+  body: string;
+  messageType?: string;
+  leadId?: string | null;
+  leadSource?: LeadSource | null;
+  projectId?: string | null;
+  actor?: CrmUser | null;
+}
+
+export const SMS_STATUS_CALLBACK_PATH = '/api/integrations/twilio/status';
+
+// First retry after 30 seconds, doubling up to an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Messages claimed this long ago by a worker that never finished are retried
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// Callbacks can arrive out of order; a status never moves to a lower rank
+const STATUS_RANK: Record<SmsMessageStatus, number> = {
+  pending: 0,
+  sending: 1,
+  queued: 2,
+  sent: 3,
+  delivered: 4,
+  failed: 4,
+  undelivered: 4,
+  received: 4
+};
+
+// Twilio MessageStatus values mapped to the statuses recorded here
+const TWILIO_STATUS_MAP: Record<string, SmsMessageStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed'
+};
+
+/**
+ * Backoff before the next attempt after the given number of failed attempts
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export function toSmsMessageStatus(twilioStatus: string | null | undefined): SmsMessageStatus | null {
+  return twilioStatus ? TWILIO_STATUS_MAP[twilioStatus] ?? null : null;
+}
+
+/**
+ * Mirror a message's outcome onto its timeline entry. Never throws.
+ */
+async function updateActivityDelivery(
+  client: SupabaseClient,
+  message: SmsMessage,
+  deliveryStatus: 'sent' | 'failed'
+): Promise<void> {
+  if (!message.lead_activity_id) return;
+
+  const { error } = await client
+    .from('lead_activities')
+    .update({ delivery_status: deliveryStatus, external_id: message.twilio_sid })
+    .eq('id', message.lead_activity_id);
+
+  if (error) {
+    console.error('Error updating SMS activity delivery status:', error);
+  }
+}
+
+/**
+ * Queue an SMS and record it on the recipient lead's timeline. Returns null
+ * without queueing when the number has opted out.
+ */
+export async function queueSms(client: SupabaseClient, message: NewSmsMessage): Promise<SmsMessage | null> {
+  const toNumber = formatPhoneNumber(message.to);
+  const messageType = message.messageType || 'general';
+
+  const conversation = await getOrCreateConversation(client, toNumber, {
+    leadId: message.leadId,
+    leadSource: message.leadSource,
+    projectId: message.projectId
+  });
+  if (conversation.opted_out) return null;
+
+  const activity = await recordOutboundMessage(client, {
+    type: 'sms',
+    leadId: message.leadId,
+    leadSource: message.leadSource,
+    body: message.body,
+    recipient: toNumber,
+    deliveryStatus: null,
+    metadata: { messageType, ...(message.projectId ? { projectId: message.projectId } : {}) },
+    actor: message.actor
+  });
+
+  const { data, error } = await client
+    .from('sms_messages')
+    .insert({
+      conversation_id: conversation.id,
+      to_number: toNumber,
+      body: message.body,
+      message_type: messageType,
+      lead_id: activity?.lead_id ?? message.leadId ?? null,
+      lead_source: activity?.lead_source ?? message.leadSource ?? null,
+      project_id: message.projectId ?? null,
+      lead_activity_id: activity?.id ?? null,
+      created_by: message.actor?.clerkUserId ?? null
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue SMS: ${error.message}`);
+  }
+
+  await client
+    .from('sms_conversations')
+    .update({ last_message_at: data.created_at, updated_at: new Date().toISOString() })
+    .eq('id', conversation.id);
+
+  return data as SmsMessage;
+}
+
+/**
+ * Whether the number replied STOP. Checked again at send time since a
+ * retry or a released send may have been queued before the opt-out.
+ */
+async function isOptedOut(client: SupabaseClient, phoneNumber: string): Promise<boolean> {
+  const { data, error } = await client
+    .from('sms_conversations')
+    .select('opted_out')
+    .eq('phone_number', phoneNumber)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch SMS conversation: ${error.message}`);
+  }
+
+  return data?.opted_out === true;
+}
+
+/**
+ * Send a pending message through Twilio. The message is claimed first so
+ * concurrent workers never send it twice. Retryable failures go back to
+ * pending with backoff until max_attempts; others fail the message.
+ * Messages to numbers that have since opted out fail without a send.
+ */
+export async function sendQueuedSms(client: SupabaseClient, message: SmsMessage, now = new Date()): Promise<SmsMessage> {
+  if (await isOptedOut(client, message.to_number)) {
+    const { data: refused, error: refuseError } = await client
+      .from('sms_messages')
+      .update({
+        status: 'failed',
+        last_error: 'Number opted out of texts',
+        failed_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', message.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (refuseError) {
+      throw new Error(`Failed to record opt-out for SMS ${message.id}: ${refuseError.message}`);
+    }
+    if (!refused) return message;
+
+    await updateActivityDelivery(client, refused as SmsMessage, 'failed');
+    return refused as SmsMessage;
+  }
+
+  const { data: claimed, error: claimError } = await client
+    .from('sms_messages')
+    .update({ status: 'sending', attempts: message.attempts + 1, updated_at: now.toISOString() })
+    .eq('id', message.id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim SMS ${message.id}: ${claimError.message}`);
+  }
+  if (!claimed) return message;
+
+  const result = await sendSms(claimed.to_number, claimed.body, {
+    statusCallback: getTwilioWebhookUrl(SMS_STATUS_CALLBACK_PATH) ?? undefined
+  });
+  const attemptedAt = new Date().toISOString();
+
+  let update: Record<string, unknown>;
+  if (result.success) {
+    update = {
+      status: toSmsMessageStatus(result.status) ?? 'queued',
+      twilio_sid: result.sid ?? null,
+      sent_at: attemptedAt,
+      error_code: null,
+      last_error: null
+    };
+  } else {
+    const failure = {
+      error_code: result.errorCode ? String(result.errorCode) : null,
+      last_error: result.httpStatus ? `${result.error} (HTTP ${result.httpStatus})` : result.error ?? 'Unknown error'
+    };
+    update = isRetryableSmsFailure(result) && claimed.attempts < claimed.max_attempts
+      ? { ...failure, status: 'pending', next_attempt_at: new Date(Date.now() + getRetryDelay(claimed.attempts)).toISOString() }
+      : { ...failure, status: 'failed', failed_at: attemptedAt };
+  }
+
+  const { data, error } = await client
+    .from('sms_messages')
+    .update({ ...update, updated_at: attemptedAt })
+    .eq('id', message.id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record SMS ${message.id} result: ${error.message}`);
+  }
+
+  const updated = data as SmsMessage;
+  if (updated.status === 'failed') {
+    await updateActivityDelivery(client, updated, 'failed');
+  } else if (updated.status !== 'pending') {
+    await updateActivityDelivery(client, updated, 'sent');
+  }
+
+  return updated;
+}
+
+/**
+ * Queue an SMS and attempt it immediately. A retryable failure leaves it
+ * pending for the queue job, so callers only treat status failed as lost.
+ * Returns null when the number has opted out.
+ */
+export async function deliverSms(client: SupabaseClient, message: NewSmsMessage): Promise<SmsMessage | null> {
+  const queued = await queueSms(client, message);
+  return queued ? sendQueuedSms(client, queued) : null;
+}
+
+/**
+ * Send pending messages that are due, after returning messages stuck in
+ * sending (a worker died mid-send) to the queue
+ */
+export async function processSmsQueue(client: SupabaseClient, limit = 50, now = new Date()) {
+  const { error: releaseError } = await client
+    .from('sms_messages')
+    .update({ status: 'pending', updated_at: now.toISOString() })
+    .eq('status', 'sending')
+    .lt('updated_at', new Date(now.getTime() - STALE_SENDING_MS).toISOString());
+
+  if (releaseError) {
+    console.error('Error releasing stale SMS sends:', releaseError);
+  }
+
+  const { data, error } = await client
+    .from('sms_messages')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due SMS: ${error.message}`);
+  }
+
+  const due = (data || []) as SmsMessage[];
+  let sent = 0;
+  let retrying = 0;
+  let failed = 0;
+
+  for (const message of due) {
+    try {
+      const result = await sendQueuedSms(client, message, now);
+      if (result.status === 'pending') retrying++;
+      else if (result.status === 'failed') failed++;
+      else sent++;
+    } catch (sendError) {
+      console.error(`Error sending queued SMS ${message.id}:`, sendError);
+      failed++;
+    }
+  }
+
+  return { due: due.length, sent, retrying, failed };
+}
+
+/**
+ * Record a Twilio status callback. Returns false when the SID is unknown or
+ * the status is not one recorded here.
+ */
+export async function applySmsStatusCallback(
+  client: SupabaseClient,
+  sid: string,
+  twilioStatus: string,
+  errorCode: string | null
+): Promise<boolean> {
+  const status = toSmsMessageStatus(twilioStatus);
+  if (!status) return false;
+
+  const { data: message, error: fetchError } = await client
+    .from('sms_messages')
+    .select('*')
+    .eq('twilio_sid', sid)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch SMS ${sid}: ${fetchError.message}`);
+  }
+  if (!message) return false;
+
+  if (STATUS_RANK[status] <= STATUS_RANK[message.status as SmsMessageStatus]) return true;
+
+  const now = new Date().toISOString();
+  const { data, error } = await client
+    .from('sms_messages')
+    .update({
+      status,
+      ...(status === 'delivered' ? { delivered_at: now } : {}),
+      ...(status === 'failed' || status === 'undelivered' ? { failed_at: now, error_code: errorCode } : {}),
+      updated_at: now
+    })
+    .eq('id', message.id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update SMS ${sid} status: ${error.message}`);
+  }
+
+  if (status === 'failed' || status === 'undelivered') {
+    await updateActivityDelivery(client, data as SmsMessage, 'failed');
+  }
+
+  return true;
+}
+
+/**
+ * Fetch message history for a lead or a project, newest first
+ */
+export async function fetchSmsMessages(
+  client: SupabaseClient,
+  filter: { leadId?: string; projectId?: string },
+  limit = 100
+): Promise<SmsMessage[]> {
+  let query = client
+    .from('sms_messages')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (filter.leadId) query = query.eq('lead_id', filter.leadId);
+  if (filter.projectId) query = query.eq('project_id', filter.projectId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch SMS messages: ${error.message}`);
+  }
+
+  return (data || []) as SmsMessage[];
+}
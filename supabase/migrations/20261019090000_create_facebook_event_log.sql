@@ -0,0 +1,50 @@
+-- Facebook Event Log Migration
+-- Records every event relayed through /api/facebook-conversions and every
+-- browser pixel event that carries an event_id, so /api/facebook-dataset-quality
+-- can report match quality and pixel/server deduplication locally.
+
+-- Create facebook_event_log table
+CREATE TABLE IF NOT EXISTS facebook_event_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_id VARCHAR(100) NOT NULL,
+    event_name VARCHAR(100) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('pixel', 'server')),
+
+    -- Which customer information parameters were present (never the values)
+    has_email BOOLEAN DEFAULT FALSE,
+    has_phone BOOLEAN DEFAULT FALSE,
+    has_name BOOLEAN DEFAULT FALSE,
+    has_address BOOLEAN DEFAULT FALSE,
+    has_fbc BOOLEAN DEFAULT FALSE,
+    has_fbp BOOLEAN DEFAULT FALSE,
+
+    -- Relay outcome (server events only)
+    status VARCHAR(20) NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed', 'logged')),
+    http_status INTEGER,
+    error_message TEXT,
+    events_received INTEGER,
+    fbtrace_id VARCHAR(100),
+
+    source_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the quality report
+CREATE INDEX IF NOT EXISTS idx_facebook_event_log_created_at ON facebook_event_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_facebook_event_log_event_id ON facebook_event_log(event_id);
+CREATE INDEX IF NOT EXISTS idx_facebook_event_log_status ON facebook_event_log(status);
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE facebook_event_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to facebook_event_log"
+ON facebook_event_log FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE facebook_event_log IS 'Log of Facebook pixel and Conversions API events for local dataset quality reporting';
+COMMENT ON COLUMN facebook_event_log.event_id IS 'Deduplication ID shared between the browser pixel and the server event';
+COMMENT ON COLUMN facebook_event_log.source IS 'pixel for browser events, server for Conversions API relays';
+COMMENT ON COLUMN facebook_event_log.status IS 'sent or failed for server relays, logged for pixel events';
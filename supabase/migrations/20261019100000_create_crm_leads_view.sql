@@ -0,0 +1,99 @@
+-- CRM Leads Migration
+-- Creates the leads_status table written by PUT /api/crm/leads and a crm_leads
+-- view that normalizes splash_leads and contact_submissions into one lead shape,
+-- so the dashboard and lead detail page read status, owner, score and
+-- qualification from a single query.
+
+-- Create leads_status table (CRM state for leads from any source)
+CREATE TABLE IF NOT EXISTS leads_status (
+    lead_id UUID PRIMARY KEY,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('splash', 'contact')),
+    status VARCHAR(50) NOT NULL DEFAULT 'new'
+        CHECK (status IN ('new', 'contacted', 'qualified', 'proposal', 'closed', 'lost')),
+    owner_id VARCHAR(255), -- Clerk user ID of the rep who owns the lead
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_status_status ON leads_status(status);
+CREATE INDEX IF NOT EXISTS idx_leads_status_owner_id ON leads_status(owner_id);
+
+ALTER TABLE leads_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to leads_status"
+ON leads_status FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Unified lead view
+CREATE OR REPLACE VIEW crm_leads AS
+SELECT
+    sl.id,
+    'splash'::VARCHAR(20) AS source,
+    sl.first_name,
+    sl.last_name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', sl.first_name, sl.last_name)), ''), 'Unknown') AS name,
+    sl.email,
+    sl.phone,
+    sl.street_address,
+    sl.city,
+    sl.state,
+    sl.zip_code,
+    sl.utility_company,
+    sl.average_monthly_bill AS electric_bill,
+    sl.homeowner_status,
+    sl.credit_score,
+    sl.shading,
+    CASE
+        WHEN sl.is_partial THEN 'incomplete'
+        WHEN sl.homeowner_status = 'no' OR sl.credit_score = 'below650' OR sl.shading = 'heavy' THEN 'disqualified'
+        WHEN sl.homeowner_status = 'yes' AND sl.credit_score = '650+' AND sl.shading = 'none' THEN 'qualified'
+        ELSE 'pending'
+    END AS qualification_status,
+    COALESCE(ls.status, sl.status, 'new') AS status,
+    ls.owner_id,
+    sl.lead_score AS score,
+    sl.is_partial,
+    sl.form_variant,
+    NULL::TEXT AS message,
+    sl.created_at,
+    ls.updated_at AS status_updated_at
+FROM splash_leads sl
+LEFT JOIN leads_status ls ON ls.lead_id = sl.id
+
+UNION ALL
+
+SELECT
+    cs.id,
+    'contact'::VARCHAR(20) AS source,
+    NULL AS first_name,
+    NULL AS last_name,
+    COALESCE(NULLIF(TRIM(cs.name), ''), 'Unknown') AS name,
+    cs.email,
+    cs.phone,
+    cs.address AS street_address,
+    NULL AS city,
+    NULL AS state,
+    NULL AS zip_code,
+    NULL AS utility_company,
+    NULL::INTEGER AS electric_bill,
+    CASE WHEN cs.homeowner THEN 'yes' ELSE 'no' END AS homeowner_status,
+    NULL AS credit_score,
+    NULL AS shading,
+    CASE WHEN cs.homeowner THEN 'pending' ELSE 'disqualified' END AS qualification_status,
+    COALESCE(ls.status, CASE WHEN cs.status = 'contacted' THEN 'contacted' ELSE 'new' END) AS status,
+    ls.owner_id,
+    NULL::INTEGER AS score,
+    false AS is_partial,
+    NULL AS form_variant,
+    cs.message,
+    cs.created_at,
+    ls.updated_at AS status_updated_at
+FROM contact_submissions cs
+LEFT JOIN leads_status ls ON ls.lead_id = cs.id;
+
+-- Add helpful comments
+COMMENT ON TABLE leads_status IS 'CRM status and ownership for leads from splash_leads and contact_submissions';
+COMMENT ON VIEW crm_leads IS 'Normalized leads from all sources with CRM status joined from leads_status';
+COMMENT ON COLUMN leads_status.owner_id IS 'Clerk user ID of the sales rep who owns the lead';
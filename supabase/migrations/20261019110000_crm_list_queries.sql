@@ -0,0 +1,137 @@
+-- CRM List Queries Migration
+-- Supports server-side pagination, filtering, sorting and search on the CRM
+-- list endpoints:
+-- - phone_digits columns so phone search ignores formatting
+-- - candidate_status table and crm_candidates view (mirrors crm_leads)
+-- - indexes on the default sort and filter columns
+
+-- Leads: add digits-only phone for search
+CREATE OR REPLACE VIEW crm_leads AS
+SELECT
+    sl.id,
+    'splash'::VARCHAR(20) AS source,
+    sl.first_name,
+    sl.last_name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', sl.first_name, sl.last_name)), ''), 'Unknown') AS name,
+    sl.email,
+    sl.phone,
+    sl.street_address,
+    sl.city,
+    sl.state,
+    sl.zip_code,
+    sl.utility_company,
+    sl.average_monthly_bill AS electric_bill,
+    sl.homeowner_status,
+    sl.credit_score,
+    sl.shading,
+    CASE
+        WHEN sl.is_partial THEN 'incomplete'
+        WHEN sl.homeowner_status = 'no' OR sl.credit_score = 'below650' OR sl.shading = 'heavy' THEN 'disqualified'
+        WHEN sl.homeowner_status = 'yes' AND sl.credit_score = '650+' AND sl.shading = 'none' THEN 'qualified'
+        ELSE 'pending'
+    END AS qualification_status,
+    COALESCE(ls.status, sl.status, 'new') AS status,
+    ls.owner_id,
+    sl.lead_score AS score,
+    sl.is_partial,
+    sl.form_variant,
+    NULL::TEXT AS message,
+    sl.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(sl.phone, ''), '\D', '', 'g') AS phone_digits
+FROM splash_leads sl
+LEFT JOIN leads_status ls ON ls.lead_id = sl.id
+
+UNION ALL
+
+SELECT
+    cs.id,
+    'contact'::VARCHAR(20) AS source,
+    NULL AS first_name,
+    NULL AS last_name,
+    COALESCE(NULLIF(TRIM(cs.name), ''), 'Unknown') AS name,
+    cs.email,
+    cs.phone,
+    cs.address AS street_address,
+    NULL AS city,
+    NULL AS state,
+    NULL AS zip_code,
+    NULL AS utility_company,
+    NULL::INTEGER AS electric_bill,
+    CASE WHEN cs.homeowner THEN 'yes' ELSE 'no' END AS homeowner_status,
+    NULL AS credit_score,
+    NULL AS shading,
+    CASE WHEN cs.homeowner THEN 'pending' ELSE 'disqualified' END AS qualification_status,
+    COALESCE(ls.status, CASE WHEN cs.status = 'contacted' THEN 'contacted' ELSE 'new' END) AS status,
+    ls.owner_id,
+    NULL::INTEGER AS score,
+    false AS is_partial,
+    NULL AS form_variant,
+    cs.message,
+    cs.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(cs.phone, ''), '\D', '', 'g') AS phone_digits
+FROM contact_submissions cs
+LEFT JOIN leads_status ls ON ls.lead_id = cs.id;
+
+-- Projects: digits-only phone for search
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS customer_phone_digits TEXT
+    GENERATED ALWAYS AS (REGEXP_REPLACE(COALESCE(customer_phone, ''), '\D', '', 'g')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_customer_name ON projects(customer_name);
+CREATE INDEX IF NOT EXISTS idx_projects_assigned_project_manager ON projects(assigned_project_manager);
+CREATE INDEX IF NOT EXISTS idx_projects_assigned_installer ON projects(assigned_installer);
+
+-- Candidates: CRM status written by PUT /api/crm/candidates
+CREATE TABLE IF NOT EXISTS candidate_status (
+    candidate_id INTEGER PRIMARY KEY REFERENCES job_applications(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'applied'
+        CHECK (status IN ('applied', 'screening', 'interview', 'offer', 'hired', 'rejected')),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_by VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_status_status ON candidate_status(status);
+
+ALTER TABLE candidate_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to candidate_status"
+ON candidate_status FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_job_applications_created_at ON job_applications(created_at DESC, id DESC);
+
+-- Unified candidate view
+CREATE OR REPLACE VIEW crm_candidates AS
+SELECT
+    ja.id,
+    ja.first_name,
+    ja.last_name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', ja.first_name, ja.last_name)), ''), 'Unknown') AS name,
+    ja.email,
+    ja.phone,
+    REGEXP_REPLACE(COALESCE(ja.phone, ''), '\D', '', 'g') AS phone_digits,
+    ja.address,
+    ja.city,
+    ja.state,
+    ja.zip_code,
+    ja.job_id,
+    ja.job_title AS position,
+    COALESCE(
+        cs.status,
+        CASE WHEN ja.application_status IN ('applied', 'screening', 'interview', 'offer', 'hired', 'rejected')
+             THEN ja.application_status ELSE 'applied' END
+    ) AS status,
+    ja.created_at,
+    cs.updated_at AS status_updated_at
+FROM job_applications ja
+LEFT JOIN candidate_status cs ON cs.candidate_id = ja.id;
+
+-- Add helpful comments
+COMMENT ON TABLE candidate_status IS 'CRM pipeline status for job applications';
+COMMENT ON VIEW crm_candidates IS 'Job applications with CRM status joined from candidate_status';
+COMMENT ON COLUMN projects.customer_phone_digits IS 'Digits-only customer phone used by CRM search';
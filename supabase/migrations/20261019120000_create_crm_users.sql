@@ -0,0 +1,38 @@
+-- CRM Users Migration
+-- Stores CRM roles for Clerk users. Every /api/crm/* and /api/integrations/*
+-- handler resolves the signed-in Clerk user to a row here and checks the
+-- role's permissions (see src/lib/crmAccess.ts).
+--
+-- Users can be invited by email before they first sign in; the row is linked
+-- to their Clerk user ID on first access.
+
+CREATE TABLE IF NOT EXISTS crm_users (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_user_id VARCHAR(255) UNIQUE,
+    email VARCHAR(255) NOT NULL UNIQUE,
+    name VARCHAR(255),
+    role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'manager', 'sales', 'installer')),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_users_role ON crm_users(role);
+
+ALTER TABLE crm_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to crm_users"
+ON crm_users FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Seed the owner account as admin
+INSERT INTO crm_users (email, name, role)
+VALUES ('cesar@quantumsolar.us', 'Cesar Lugo', 'admin')
+ON CONFLICT (email) DO NOTHING;
+
+-- Add helpful comments
+COMMENT ON TABLE crm_users IS 'CRM role assignments for Clerk users';
+COMMENT ON COLUMN crm_users.clerk_user_id IS 'Clerk user ID, linked on first sign-in for users invited by email';
+COMMENT ON COLUMN crm_users.role IS 'admin: everything; manager: everything but settings; sales: leads; installer: assigned projects and photo submission';
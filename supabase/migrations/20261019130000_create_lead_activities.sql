@@ -0,0 +1,53 @@
+-- Lead Activities Migration
+-- Timeline of everything that happens to a lead: notes, logged calls, SMS
+-- sent through /api/integrations/twilio, emails sent through Resend, and CRM
+-- status changes. Shown on the CRM lead detail page.
+--
+-- lead_id refers to a row in crm_leads (splash_leads or contact_submissions),
+-- so there is no foreign key; lead_source records which table it came from.
+
+-- Create lead_activities table
+CREATE TABLE IF NOT EXISTS lead_activities (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    lead_id UUID NOT NULL,
+    lead_source VARCHAR(20) CHECK (lead_source IN ('splash', 'contact')),
+    type VARCHAR(20) NOT NULL CHECK (type IN ('note', 'call', 'sms', 'email', 'status_change')),
+    direction VARCHAR(10) CHECK (direction IN ('inbound', 'outbound')),
+
+    -- Content
+    subject VARCHAR(255),
+    body TEXT,
+    call_outcome VARCHAR(20) CHECK (call_outcome IN ('connected', 'voicemail', 'no_answer', 'busy', 'wrong_number')),
+    call_duration_seconds INTEGER,
+
+    -- Delivery details for SMS and email
+    recipient VARCHAR(255),
+    external_id VARCHAR(255),
+    delivery_status VARCHAR(20) CHECK (delivery_status IN ('sent', 'failed')),
+    metadata JSONB DEFAULT '{}'::jsonb,
+
+    -- Who acted (Clerk user ID and display name at the time)
+    actor_id VARCHAR(255),
+    actor_name VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the timeline and recent-contact checks
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_created ON lead_activities(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_activities_type ON lead_activities(type);
+CREATE INDEX IF NOT EXISTS idx_lead_activities_actor ON lead_activities(actor_id);
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE lead_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_activities"
+ON lead_activities FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE lead_activities IS 'Activity timeline for CRM leads: notes, calls, SMS, emails and status changes';
+COMMENT ON COLUMN lead_activities.lead_id IS 'ID of the lead in crm_leads (splash_leads.id or contact_submissions.id)';
+COMMENT ON COLUMN lead_activities.external_id IS 'Twilio message SID or Resend email ID';
+COMMENT ON COLUMN lead_activities.actor_id IS 'Clerk user ID of the CRM user who acted, null for system activity';
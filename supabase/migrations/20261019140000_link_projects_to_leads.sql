@@ -0,0 +1,14 @@
+-- Link Projects to Leads Migration
+-- Projects created by converting a CRM lead (POST /api/crm/convert-lead)
+-- point back at the source lead. The unique index makes conversion
+-- idempotent: a lead can only ever produce one project.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS lead_id UUID,
+ADD COLUMN IF NOT EXISTS lead_source VARCHAR(20) CHECK (lead_source IN ('splash', 'contact'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_lead_id ON projects(lead_id);
+
+-- Add helpful comments
+COMMENT ON COLUMN projects.lead_id IS 'Lead this project was converted from (splash_leads.id or contact_submissions.id)';
+COMMENT ON COLUMN projects.lead_source IS 'Table the source lead lives in: splash or contact';
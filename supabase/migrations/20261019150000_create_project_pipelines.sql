@@ -0,0 +1,285 @@
+-- Project Pipelines Migration
+-- Replaces the single hardcoded 12-stage lifecycle with pipeline templates.
+-- Each pipeline (residential solar, battery only, ground mount, commercial)
+-- has its own ordered stages with required documents, approval flags and
+-- customer SMS copy. project_lifecycle_stages rows now belong to a pipeline;
+-- sort_order is the stage number within it, and projects.current_stage is
+-- that stage number. The terminal stage is the pipeline's last stage.
+
+-- Create project_pipelines table
+CREATE TABLE IF NOT EXISTS project_pipelines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    key VARCHAR(50) NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one default pipeline
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_pipelines_default ON project_pipelines(is_default) WHERE is_default;
+
+INSERT INTO project_pipelines (key, name, description, is_default) VALUES
+('residential_solar', 'Residential Solar', 'Rooftop residential solar installation', TRUE),
+('battery_only', 'Battery Only', 'Battery storage added to a home without new panels', FALSE),
+('ground_mount', 'Ground Mount', 'Ground-mounted residential array with foundation and trenching', FALSE),
+('commercial', 'Commercial', 'Commercial solar installation with structural review and closeout', FALSE)
+ON CONFLICT (key) DO NOTHING;
+
+-- Stages belong to a pipeline
+ALTER TABLE project_lifecycle_stages
+ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES project_pipelines(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS required_documents TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS sms_message TEXT;
+
+-- Stage IDs were assigned by hand for the original 12 stages
+CREATE SEQUENCE IF NOT EXISTS project_lifecycle_stages_id_seq START WITH 100 OWNED BY project_lifecycle_stages.id;
+ALTER TABLE project_lifecycle_stages ALTER COLUMN id SET DEFAULT nextval('project_lifecycle_stages_id_seq');
+
+-- The original 12 stages become the residential pipeline
+UPDATE project_lifecycle_stages
+SET pipeline_id = (SELECT id FROM project_pipelines WHERE key = 'residential_solar')
+WHERE pipeline_id IS NULL;
+
+UPDATE project_lifecycle_stages SET sort_order = id WHERE sort_order IS NULL;
+
+ALTER TABLE project_lifecycle_stages ALTER COLUMN pipeline_id SET NOT NULL;
+ALTER TABLE project_lifecycle_stages ALTER COLUMN sort_order SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_lifecycle_stages_pipeline_order
+ON project_lifecycle_stages(pipeline_id, sort_order);
+
+-- Residential required documents and customer SMS copy (previously hardcoded in PUT /api/crm/projects)
+UPDATE project_lifecycle_stages AS s SET required_documents = v.docs, sms_message = v.message
+FROM (VALUES
+    (1, ARRAY['signed_contract'], NULL),
+    (2, ARRAY[]::TEXT[], 'Hi [Name]! Our team will be conducting your site survey and system design. We''ll contact you to schedule a convenient time.'),
+    (3, ARRAY[]::TEXT[], 'Great news [Name]! We''re submitting your solar permits to the local authorities. This typically takes 2-3 weeks.'),
+    (4, ARRAY['permit_approval'], 'Excellent! [Name], your permits have been approved. We''re now ordering your solar equipment.'),
+    (5, ARRAY[]::TEXT[], 'Hi [Name]! Your solar equipment has arrived. We''re now scheduling your installation.'),
+    (6, ARRAY[]::TEXT[], 'Exciting news [Name]! Your solar installation has been scheduled. We''ll call you to confirm the date.'),
+    (7, ARRAY[]::TEXT[], 'Installation day is here! [Name], our crew is on their way to begin your solar installation.'),
+    (8, ARRAY['installation_complete'], 'Fantastic! [Name], your solar system installation is complete. Next step: electrical inspection.'),
+    (9, ARRAY['inspection_report'], 'Great news [Name]! Your system passed inspection. We''re now submitting interconnection paperwork to your utility.'),
+    (10, ARRAY[]::TEXT[], 'Hi [Name]! Your utility interconnection is in process. Almost ready to start saving with solar!'),
+    (11, ARRAY[]::TEXT[], 'Exciting! [Name], your solar system is being commissioned and tested. Final step coming up!'),
+    (12, ARRAY['pto_letter'], '🎉 Congratulations [Name]! Your solar system is now officially online and generating clean energy savings!')
+) AS v(stage_number, docs, message)
+WHERE s.pipeline_id = (SELECT id FROM project_pipelines WHERE key = 'residential_solar')
+AND s.sort_order = v.stage_number;
+
+-- Battery only pipeline
+INSERT INTO project_lifecycle_stages (pipeline_id, sort_order, stage_name, stage_description, typical_duration_days, requires_approval, required_documents, auto_sms_template, sms_message)
+SELECT p.id, v.sort_order, v.stage_name, v.stage_description, v.days, v.approval, v.docs, v.template, v.message
+FROM project_pipelines p, (VALUES
+    (1, 'Notice to Proceed', 'Contract signed, project officially started', 1, TRUE, ARRAY['signed_contract'], 'project_started', NULL),
+    (2, 'Site Assessment', 'Electrical panel and battery location assessment', 5, FALSE, ARRAY[]::TEXT[], 'survey_scheduled', 'Hi [Name]! We''ll be assessing your electrical panel and battery location. We''ll contact you to schedule a time.'),
+    (3, 'Permit Application', 'Submitting permits to local authorities', 3, FALSE, ARRAY[]::TEXT[], 'permits_submitted', 'Great news [Name]! We''re submitting your battery permits to the local authorities.'),
+    (4, 'Permit Approval', 'Waiting for permit approval', 10, TRUE, ARRAY['permit_approval'], 'permits_approved', 'Excellent! [Name], your permits have been approved. We''re now ordering your battery.'),
+    (5, 'Equipment Procurement', 'Ordering and receiving the battery system', 10, FALSE, ARRAY[]::TEXT[], 'materials_ordered', 'Hi [Name]! Your battery has arrived. We''ll call you to schedule installation.'),
+    (6, 'Installation', 'Battery and gateway installed', 1, TRUE, ARRAY['installation_complete'], 'installation_complete', 'Fantastic! [Name], your battery installation is complete. Next step: inspection.'),
+    (7, 'Electrical Inspection', 'Local electrical inspection', 5, TRUE, ARRAY['inspection_report'], 'inspection_passed', 'Great news [Name]! Your battery system passed inspection.'),
+    (8, 'Commissioning & Activation', 'Battery configured and activated - project complete', 2, TRUE, ARRAY[]::TEXT[], 'project_complete', '🎉 Congratulations [Name]! Your battery is active and ready to keep your home powered!')
+) AS v(sort_order, stage_name, stage_description, days, approval, docs, template, message)
+WHERE p.key = 'battery_only'
+ON CONFLICT (pipeline_id, sort_order) DO NOTHING;
+
+-- Ground mount pipeline
+INSERT INTO project_lifecycle_stages (pipeline_id, sort_order, stage_name, stage_description, typical_duration_days, requires_approval, required_documents, auto_sms_template, sms_message)
+SELECT p.id, v.sort_order, v.stage_name, v.stage_description, v.days, v.approval, v.docs, v.template, v.message
+FROM project_pipelines p, (VALUES
+    (1, 'Notice to Proceed', 'Contract signed, project officially started', 1, TRUE, ARRAY['signed_contract'], 'project_started', NULL),
+    (2, 'Site Survey & Geotechnical', 'Site assessment and soil testing', 10, FALSE, ARRAY[]::TEXT[], 'survey_scheduled', 'Hi [Name]! Our team will be surveying your site and testing the soil for your ground mount. We''ll contact you to schedule.'),
+    (3, 'Engineering & Design', 'Array layout, foundation and trench design', 7, FALSE, ARRAY[]::TEXT[], NULL, 'Hi [Name]! Our engineers are designing your ground-mounted array.'),
+    (4, 'Permit Application', 'Submitting permits to local authorities', 3, FALSE, ARRAY[]::TEXT[], 'permits_submitted', 'Great news [Name]! We''re submitting your solar permits to the local authorities.'),
+    (5, 'Permit Approval', 'Waiting for permit approval', 14, TRUE, ARRAY['permit_approval'], 'permits_approved', 'Excellent! [Name], your permits have been approved. We''re now ordering your equipment.'),
+    (6, 'Material Procurement', 'Ordering racking, panels and equipment', 10, FALSE, ARRAY[]::TEXT[], 'materials_ordered', 'Hi [Name]! Your equipment is on the way. We''re now scheduling site work.'),
+    (7, 'Foundation & Trenching', 'Piers set and conduit trench dug', 5, TRUE, ARRAY['foundation_inspection'], NULL, 'Hi [Name]! Foundation and trenching work is underway at your property.'),
+    (8, 'Array Installation', 'Racking and panels installed', 3, TRUE, ARRAY['installation_complete'], 'installation_complete', 'Fantastic! [Name], your ground-mounted array is installed. Next step: electrical inspection.'),
+    (9, 'Electrical Inspection', 'Local electrical inspection', 5, TRUE, ARRAY['inspection_report'], 'inspection_passed', 'Great news [Name]! Your system passed inspection. We''re now submitting interconnection paperwork to your utility.'),
+    (10, 'Utility Interconnection', 'Utility company connection process', 10, FALSE, ARRAY[]::TEXT[], 'utility_submitted', 'Hi [Name]! Your utility interconnection is in process. Almost ready to start saving with solar!'),
+    (11, 'System Commissioning', 'Final system testing and activation', 2, FALSE, ARRAY[]::TEXT[], 'system_commissioned', 'Exciting! [Name], your solar system is being commissioned and tested. Final step coming up!'),
+    (12, 'Site Restoration', 'Trench backfill and site cleanup', 3, FALSE, ARRAY[]::TEXT[], NULL, 'Hi [Name]! We''re restoring your yard after the installation.'),
+    (13, 'PTO Approval', 'Permission to Operate - project complete', 7, TRUE, ARRAY['pto_letter'], 'project_complete', '🎉 Congratulations [Name]! Your solar system is now officially online and generating clean energy savings!')
+) AS v(sort_order, stage_name, stage_description, days, approval, docs, template, message)
+WHERE p.key = 'ground_mount'
+ON CONFLICT (pipeline_id, sort_order) DO NOTHING;
+
+-- Commercial pipeline
+INSERT INTO project_lifecycle_stages (pipeline_id, sort_order, stage_name, stage_description, typical_duration_days, requires_approval, required_documents, auto_sms_template, sms_message)
+SELECT p.id, v.sort_order, v.stage_name, v.stage_description, v.days, v.approval, v.docs, v.template, v.message
+FROM project_pipelines p, (VALUES
+    (1, 'Contract & Notice to Proceed', 'Contract executed, project officially started', 2, TRUE, ARRAY['signed_contract'], 'project_started', NULL),
+    (2, 'Site Assessment', 'Roof, electrical service and load assessment', 10, FALSE, ARRAY[]::TEXT[], 'survey_scheduled', NULL),
+    (3, 'Engineering & Structural Review', 'Stamped engineering and structural letter', 14, TRUE, ARRAY['structural_letter'], NULL, NULL),
+    (4, 'Permit Application', 'Submitting permits to local authorities', 5, FALSE, ARRAY[]::TEXT[], 'permits_submitted', NULL),
+    (5, 'Permit Approval', 'Waiting for permit approval', 21, TRUE, ARRAY['permit_approval'], 'permits_approved', NULL),
+    (6, 'Utility Application', 'Interconnection application and utility study', 30, TRUE, ARRAY['interconnection_agreement'], 'utility_submitted', NULL),
+    (7, 'Procurement', 'Ordering and receiving equipment', 21, FALSE, ARRAY[]::TEXT[], 'materials_ordered', NULL),
+    (8, 'Installation', 'System installed', 14, TRUE, ARRAY['installation_complete'], 'installation_complete', NULL),
+    (9, 'Inspection', 'Local electrical and building inspections', 7, TRUE, ARRAY['inspection_report'], 'inspection_passed', NULL),
+    (10, 'Commissioning', 'System testing and monitoring setup', 5, FALSE, ARRAY[]::TEXT[], 'system_commissioned', NULL),
+    (11, 'PTO Approval', 'Permission to Operate from the utility', 14, TRUE, ARRAY['pto_letter'], NULL, NULL),
+    (12, 'Project Closeout', 'As-builts, warranties and O&M handover - project complete', 7, TRUE, ARRAY['closeout_package'], 'project_complete', NULL)
+) AS v(sort_order, stage_name, stage_description, days, approval, docs, template, message)
+WHERE p.key = 'commercial'
+ON CONFLICT (pipeline_id, sort_order) DO NOTHING;
+
+-- Projects follow a pipeline; existing projects are residential
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES project_pipelines(id);
+
+UPDATE projects
+SET pipeline_id = (SELECT id FROM project_pipelines WHERE is_default)
+WHERE pipeline_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_pipeline_id ON projects(pipeline_id);
+
+-- New projects without a pipeline get the default one
+CREATE OR REPLACE FUNCTION set_project_default_pipeline()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.pipeline_id IS NULL THEN
+        SELECT id INTO NEW.pipeline_id FROM project_pipelines WHERE is_default;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_project_default_pipeline ON projects;
+CREATE TRIGGER set_project_default_pipeline
+BEFORE INSERT ON projects
+FOR EACH ROW EXECUTE FUNCTION set_project_default_pipeline();
+
+-- Stage ID for a stage number within a pipeline
+CREATE OR REPLACE FUNCTION get_pipeline_stage_id(pipeline_uuid UUID, stage_number INTEGER)
+RETURNS INTEGER AS $$
+    SELECT id FROM project_lifecycle_stages
+    WHERE pipeline_id = pipeline_uuid AND sort_order = stage_number;
+$$ LANGUAGE sql STABLE;
+
+-- Advance a project to a stage number within its pipeline.
+-- new_stage_id is the stage number (projects.current_stage), kept under its
+-- original name so existing callers keep working.
+CREATE OR REPLACE FUNCTION advance_project_stage(project_uuid UUID, new_stage_id INTEGER, notes_text TEXT DEFAULT NULL, advanced_by VARCHAR(255) DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_stage_number INTEGER;
+    project_pipeline_id UUID;
+    final_stage_number INTEGER;
+    current_stage_row_id INTEGER;
+    new_stage_row_id INTEGER;
+BEGIN
+    -- Get current stage and pipeline
+    SELECT current_stage, pipeline_id INTO current_stage_number, project_pipeline_id
+    FROM projects WHERE id = project_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project % not found', project_uuid;
+    END IF;
+
+    SELECT MAX(sort_order) INTO final_stage_number
+    FROM project_lifecycle_stages WHERE pipeline_id = project_pipeline_id;
+
+    -- Validate stage advancement
+    IF new_stage_id <= current_stage_number THEN
+        RAISE EXCEPTION 'Cannot advance to previous or same stage';
+    END IF;
+
+    IF new_stage_id > final_stage_number THEN
+        RAISE EXCEPTION 'Stage % is past the final stage (%) of this pipeline', new_stage_id, final_stage_number;
+    END IF;
+
+    current_stage_row_id := get_pipeline_stage_id(project_pipeline_id, current_stage_number);
+    new_stage_row_id := get_pipeline_stage_id(project_pipeline_id, new_stage_id);
+
+    -- Complete current stage in history
+    UPDATE project_stage_history
+    SET completed_at = CURRENT_TIMESTAMP,
+        duration_days = EXTRACT(DAY FROM (CURRENT_TIMESTAMP - entered_at)),
+        completed_by = advanced_by,
+        notes = COALESCE(notes_text, notes)
+    WHERE project_id = project_uuid AND stage_id = current_stage_row_id AND completed_at IS NULL;
+
+    -- Update project current stage
+    UPDATE projects
+    SET current_stage = new_stage_id, updated_at = CURRENT_TIMESTAMP
+    WHERE id = project_uuid;
+
+    -- Add new stage to history
+    INSERT INTO project_stage_history (project_id, stage_id, notes, completed_by)
+    VALUES (project_uuid, new_stage_row_id, notes_text, advanced_by);
+
+    -- Mark project as complete at the pipeline's final stage
+    IF new_stage_id = final_stage_number THEN
+        UPDATE projects SET overall_status = 'complete', actual_completion_date = CURRENT_DATE WHERE id = project_uuid;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Check for automated stage advancements, using each project's pipeline
+CREATE OR REPLACE FUNCTION process_project_automation()
+RETURNS void AS $$
+DECLARE
+    project_record RECORD;
+    rule_record RECORD;
+    stage_history_record RECORD;
+    current_stage_row_id INTEGER;
+    final_stage_number INTEGER;
+BEGIN
+    -- Loop through active projects
+    FOR project_record IN SELECT * FROM projects WHERE overall_status = 'active' LOOP
+
+        current_stage_row_id := get_pipeline_stage_id(project_record.pipeline_id, project_record.current_stage);
+
+        SELECT MAX(sort_order) INTO final_stage_number
+        FROM project_lifecycle_stages WHERE pipeline_id = project_record.pipeline_id;
+
+        -- Get current stage history
+        SELECT * INTO stage_history_record
+        FROM project_stage_history
+        WHERE project_id = project_record.id
+        AND stage_id = current_stage_row_id
+        AND completed_at IS NULL
+        ORDER BY entered_at DESC LIMIT 1;
+
+        -- Check automation rules for current stage
+        FOR rule_record IN
+            SELECT * FROM project_automation_rules
+            WHERE stage_id = current_stage_row_id
+            AND is_active = TRUE
+        LOOP
+            -- Time-based automation
+            IF rule_record.trigger_condition = 'time_elapsed' THEN
+                IF stage_history_record.entered_at + INTERVAL '1 day' * rule_record.trigger_value <= CURRENT_TIMESTAMP THEN
+                    IF rule_record.action_type = 'advance_stage' AND project_record.current_stage < final_stage_number THEN
+                        PERFORM advance_project_stage(project_record.id, project_record.current_stage + 1, 'Auto-advanced by system', 'system');
+                    END IF;
+                END IF;
+            END IF;
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE project_pipelines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to project_pipelines"
+ON project_pipelines FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE project_pipelines IS 'Project pipeline templates, each with its own ordered lifecycle stages';
+COMMENT ON COLUMN project_lifecycle_stages.pipeline_id IS 'Pipeline this stage belongs to';
+COMMENT ON COLUMN project_lifecycle_stages.sort_order IS 'Stage number within the pipeline; projects.current_stage refers to this';
+COMMENT ON COLUMN project_lifecycle_stages.required_documents IS 'Document types (project_documents.document_type) required for this stage';
+COMMENT ON COLUMN project_lifecycle_stages.sms_message IS 'Customer SMS sent on entering the stage; [Name] is replaced with the customer name';
+COMMENT ON COLUMN projects.pipeline_id IS 'Pipeline template the project follows';
+COMMENT ON COLUMN projects.current_stage IS 'Stage number within the project pipeline (project_lifecycle_stages.sort_order)';
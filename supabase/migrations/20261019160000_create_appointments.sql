@@ -0,0 +1,86 @@
+-- Appointments Migration
+-- Solar consultation appointments. Customers request a preferred date and
+-- time from the thank-you page (status requested); reps then schedule the
+-- exact time, assign a sales rep, confirm, and mark the visit completed or
+-- no-show. Shown on the CRM calendar.
+--
+-- Customers get an SMS when an appointment is confirmed and a reminder 24
+-- hours before a confirmed appointment starts (see src/lib/appointments.ts).
+--
+-- lead_id refers to a row in crm_leads (splash_leads or contact_submissions),
+-- so there is no foreign key; lead_source records which table it came from.
+
+-- Needed for the per-rep overlap constraint (UUID equality in a GiST index)
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Create appointments table
+CREATE TABLE IF NOT EXISTS appointments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    lead_id UUID,
+    lead_source VARCHAR(20) CHECK (lead_source IN ('splash', 'contact')),
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+    -- Customer details at booking time
+    customer_name VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(20),
+    customer_email VARCHAR(255),
+    address TEXT,
+
+    -- Customer's requested slot from the thank-you page
+    preferred_date DATE,
+    preferred_time VARCHAR(20),
+
+    -- Scheduled slot; null while only a preference has been requested
+    scheduled_start TIMESTAMPTZ,
+    scheduled_end TIMESTAMPTZ,
+    assigned_to UUID REFERENCES crm_users(id) ON DELETE SET NULL,
+
+    status VARCHAR(20) NOT NULL DEFAULT 'requested'
+        CHECK (status IN ('requested', 'confirmed', 'completed', 'no_show', 'cancelled')),
+    source VARCHAR(100) DEFAULT 'crm',
+    notes TEXT,
+    cancel_reason TEXT,
+
+    -- Customer notifications
+    confirmation_sent_at TIMESTAMPTZ,
+    reminder_sent_at TIMESTAMPTZ,
+
+    -- Audit (Clerk user IDs)
+    created_by VARCHAR(255),
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK (scheduled_end IS NULL OR scheduled_end > scheduled_start),
+
+    -- A rep cannot hold two open appointments at overlapping times
+    CONSTRAINT appointments_no_rep_overlap EXCLUDE USING gist (
+        assigned_to WITH =,
+        tstzrange(scheduled_start, scheduled_end) WITH &&
+    ) WHERE (status IN ('requested', 'confirmed') AND assigned_to IS NOT NULL AND scheduled_start IS NOT NULL)
+);
+
+-- Create indexes for the calendar, lead lookups and the reminder job
+CREATE INDEX IF NOT EXISTS idx_appointments_scheduled_start ON appointments(scheduled_start);
+CREATE INDEX IF NOT EXISTS idx_appointments_assigned_start ON appointments(assigned_to, scheduled_start);
+CREATE INDEX IF NOT EXISTS idx_appointments_lead ON appointments(lead_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_status ON appointments(status);
+CREATE INDEX IF NOT EXISTS idx_appointments_reminder_due ON appointments(scheduled_start)
+    WHERE reminder_sent_at IS NULL AND status = 'confirmed';
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to appointments"
+ON appointments FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE appointments IS 'Solar consultation appointments: customer requests, scheduling, rep assignment and outcomes';
+COMMENT ON COLUMN appointments.lead_id IS 'ID of the lead in crm_leads (splash_leads.id or contact_submissions.id)';
+COMMENT ON COLUMN appointments.preferred_time IS 'Requested time window: morning, afternoon, evening, weekend or flexible';
+COMMENT ON COLUMN appointments.assigned_to IS 'Sales rep (crm_users.id) running the consultation';
+COMMENT ON COLUMN appointments.reminder_sent_at IS 'When the 24h reminder SMS was sent; cleared when the appointment is rescheduled';
+COMMENT ON CONSTRAINT appointments_no_rep_overlap ON appointments IS 'Prevents double-booking a rep; the API checks first and reports the conflicting appointments';
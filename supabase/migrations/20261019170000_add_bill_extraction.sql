@@ -0,0 +1,43 @@
+-- Bill Extraction Migration
+-- Structured values read from uploaded electric bills (see
+-- src/lib/billUploads.ts). Text-based PDFs are read from their text layer,
+-- images through local OCR; the parsed values are shown on the CRM lead page
+-- so sales does not retype bills into proposals.
+--
+-- status moves from received to parsed, or needs_review when required values
+-- are missing or OCR confidence is low. Reviewed corrections set it to parsed.
+
+ALTER TABLE bill_uploads
+ADD COLUMN IF NOT EXISTS utility VARCHAR(50),
+ADD COLUMN IF NOT EXISTS account_number VARCHAR(50),
+ADD COLUMN IF NOT EXISTS service_address TEXT,
+ADD COLUMN IF NOT EXISTS billing_period_start DATE,
+ADD COLUMN IF NOT EXISTS billing_period_end DATE,
+ADD COLUMN IF NOT EXISTS kwh_used NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS total_charges NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS supply_rate NUMERIC(8, 5),
+ADD COLUMN IF NOT EXISTS delivery_charges NUMERIC(10, 2),
+ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20) CHECK (extraction_method IN ('pdf_text', 'ocr')),
+ADD COLUMN IF NOT EXISTS extraction_confidence NUMERIC(5, 2),
+ADD COLUMN IF NOT EXISTS parse_notes TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255),
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- Legacy processed / error values are kept for existing rows
+ALTER TABLE bill_uploads DROP CONSTRAINT IF EXISTS bill_uploads_status_check;
+ALTER TABLE bill_uploads
+ADD CONSTRAINT bill_uploads_status_check
+CHECK (status IN ('received', 'parsed', 'needs_review', 'processed', 'error'));
+
+CREATE INDEX IF NOT EXISTS idx_bill_uploads_lead_created ON bill_uploads(lead_id, created_at DESC);
+
+-- Add helpful comments
+COMMENT ON COLUMN bill_uploads.status IS 'received: awaiting extraction; parsed: values extracted or reviewed; needs_review: values missing or uncertain';
+COMMENT ON COLUMN bill_uploads.kwh_used IS 'Electricity used in the billing period (kWh)';
+COMMENT ON COLUMN bill_uploads.total_charges IS 'Total current charges for the billing period ($)';
+COMMENT ON COLUMN bill_uploads.supply_rate IS 'Electricity supply price ($/kWh)';
+COMMENT ON COLUMN bill_uploads.delivery_charges IS 'Total delivery service charges ($)';
+COMMENT ON COLUMN bill_uploads.extraction_method IS 'pdf_text: PDF text layer; ocr: Tesseract OCR of an image';
+COMMENT ON COLUMN bill_uploads.extraction_confidence IS 'Mean OCR word confidence (0-100), null for PDF text';
+COMMENT ON COLUMN bill_uploads.parse_notes IS 'Why the bill needs review';
+COMMENT ON COLUMN bill_uploads.reviewed_by IS 'Clerk user ID of the rep who reviewed or corrected the values';
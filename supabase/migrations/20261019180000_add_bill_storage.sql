@@ -0,0 +1,44 @@
+-- Bill Storage Migration
+-- Every bill upload is now kept in a storage backend (Supabase Storage,
+-- Google Drive or the local filesystem, see src/lib/fileStorage.ts) under a
+-- durable object key with a SHA-256 checksum, instead of relying on Google
+-- Drive alone. CRM users download bills through an authenticated endpoint.
+--
+-- drive_status tracks the Google Drive copy used by sales. Uploads left in
+-- google_failed are pushed to Drive by the hourly drive sync job.
+--
+-- Uploads from before this migration that failed Drive upload were never
+-- stored; they keep file_url 'local_storage_only' and have no object_key.
+
+ALTER TABLE bill_uploads
+ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(20) CHECK (storage_backend IN ('supabase', 'google_drive', 'local')),
+ADD COLUMN IF NOT EXISTS object_key TEXT,
+ADD COLUMN IF NOT EXISTS checksum_sha256 CHAR(64),
+ADD COLUMN IF NOT EXISTS drive_status VARCHAR(20) CHECK (drive_status IN ('google_integrated', 'google_failed', 'local_only')),
+ADD COLUMN IF NOT EXISTS drive_sync_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS drive_sync_error TEXT,
+ADD COLUMN IF NOT EXISTS drive_synced_at TIMESTAMPTZ;
+
+-- Backfill the Drive state recorded in processing_notes
+UPDATE bill_uploads
+SET drive_status = processing_notes
+WHERE drive_status IS NULL
+  AND processing_notes IN ('google_integrated', 'google_failed', 'local_only');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_uploads_object_key ON bill_uploads(storage_backend, object_key)
+WHERE object_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bill_uploads_drive_retry ON bill_uploads(created_at)
+WHERE drive_status = 'google_failed' AND object_key IS NOT NULL;
+
+-- Private bucket for the supabase backend; files are only served through the CRM
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('bill-uploads', 'bill-uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Add helpful comments
+COMMENT ON COLUMN bill_uploads.storage_backend IS 'Backend holding the primary copy: supabase, google_drive or local';
+COMMENT ON COLUMN bill_uploads.object_key IS 'Durable key of the file in storage_backend (bills/<lead_id>/<file_name>)';
+COMMENT ON COLUMN bill_uploads.checksum_sha256 IS 'SHA-256 of the uploaded bytes, verified on download';
+COMMENT ON COLUMN bill_uploads.drive_status IS 'google_integrated: copied to Google Drive; google_failed: awaiting drive sync retry; local_only: no Drive copy';
+COMMENT ON COLUMN bill_uploads.drive_sync_attempts IS 'Drive sync retries made; retries stop at MAX_DRIVE_SYNC_ATTEMPTS';
+COMMENT ON COLUMN bill_uploads.drive_sync_error IS 'Last Drive sync error';
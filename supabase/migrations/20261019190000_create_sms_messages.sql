@@ -0,0 +1,70 @@
+-- SMS Messages Migration
+-- Every outbound SMS is queued here before it is handed to Twilio (see
+-- src/lib/smsQueue.ts). Sends that fail with a network error, rate limit or
+-- Twilio server error are retried with exponential backoff by the SMS queue
+-- job; Twilio status callbacks then record delivery per message.
+--
+-- status: pending (waiting to be sent or retried) -> sending (claimed by a
+-- worker) -> queued / sent / delivered as reported by Twilio, or failed /
+-- undelivered.
+--
+-- lead_id refers to a row in crm_leads (splash_leads or contact_submissions),
+-- so there is no foreign key; lead_source records which table it came from.
+
+-- Create sms_messages table
+CREATE TABLE IF NOT EXISTS sms_messages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+    -- Message
+    to_number VARCHAR(20) NOT NULL,
+    body TEXT NOT NULL,
+    message_type VARCHAR(50) NOT NULL DEFAULT 'general',
+
+    -- What it is about
+    lead_id UUID,
+    lead_source VARCHAR(20) CHECK (lead_source IN ('splash', 'contact')),
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+    lead_activity_id UUID REFERENCES lead_activities(id) ON DELETE SET NULL,
+
+    -- Delivery
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'queued', 'sent', 'delivered', 'failed', 'undelivered')),
+    twilio_sid VARCHAR(64) UNIQUE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    error_code VARCHAR(20),
+    last_error TEXT,
+
+    -- Who sent it (Clerk user ID), null for system messages
+    created_by VARCHAR(255),
+    sent_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    failed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the queue and message history
+CREATE INDEX IF NOT EXISTS idx_sms_messages_due ON sms_messages(next_attempt_at)
+WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sms_messages_sending ON sms_messages(updated_at)
+WHERE status = 'sending';
+CREATE INDEX IF NOT EXISTS idx_sms_messages_lead ON sms_messages(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_messages_project ON sms_messages(project_id, created_at DESC);
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to sms_messages"
+ON sms_messages FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE sms_messages IS 'Outbound SMS queue and delivery log';
+COMMENT ON COLUMN sms_messages.status IS 'pending/sending: in the send queue; queued/sent/delivered/failed/undelivered: Twilio status';
+COMMENT ON COLUMN sms_messages.next_attempt_at IS 'When a pending message is next sent; pushed back exponentially after retryable failures';
+COMMENT ON COLUMN sms_messages.error_code IS 'Twilio error code from the API or status callback';
+COMMENT ON COLUMN sms_messages.lead_activity_id IS 'Timeline entry for the message; its delivery_status follows the message';
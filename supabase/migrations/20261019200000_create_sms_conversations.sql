@@ -0,0 +1,64 @@
+-- SMS Conversations Migration
+-- Two-way texting. Replies from homeowners arrive on the inbound Twilio
+-- webhook (/api/integrations/twilio/inbound) and are stored in sms_messages
+-- alongside outbound texts, threaded by phone number in sms_conversations
+-- (see src/lib/smsConversations.ts).
+--
+-- sms_conversations also holds the opt-out state of each number. STOP and
+-- its synonyms opt a number out, START / UNSTOP opt it back in; every
+-- outbound send path refuses numbers that have opted out. The keyword also
+-- updates splash_leads.sms_consent for leads with that phone number.
+--
+-- lead_id refers to a row in crm_leads (splash_leads or contact_submissions),
+-- so there is no foreign key; lead_source records which table it came from.
+
+-- Create sms_conversations table
+CREATE TABLE IF NOT EXISTS sms_conversations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    phone_number VARCHAR(20) NOT NULL UNIQUE, -- E.164
+    lead_id UUID,
+    lead_source VARCHAR(20) CHECK (lead_source IN ('splash', 'contact')),
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+    -- Opt-out state from STOP / START keywords
+    opted_out BOOLEAN NOT NULL DEFAULT false,
+    opted_out_at TIMESTAMPTZ,
+    opted_in_at TIMESTAMPTZ,
+    last_keyword VARCHAR(20),
+
+    last_message_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_lead ON sms_conversations(lead_id);
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_project ON sms_conversations(project_id);
+CREATE INDEX IF NOT EXISTS idx_sms_conversations_last_message ON sms_conversations(last_message_at DESC);
+
+-- Thread messages and store inbound replies next to outbound texts
+ALTER TABLE sms_messages
+ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'outbound' CHECK (direction IN ('inbound', 'outbound')),
+ADD COLUMN IF NOT EXISTS from_number VARCHAR(20),
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES sms_conversations(id) ON DELETE SET NULL;
+
+ALTER TABLE sms_messages DROP CONSTRAINT IF EXISTS sms_messages_status_check;
+ALTER TABLE sms_messages
+ADD CONSTRAINT sms_messages_status_check
+CHECK (status IN ('pending', 'sending', 'queued', 'sent', 'delivered', 'failed', 'undelivered', 'received'));
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_conversation ON sms_messages(conversation_id, created_at DESC);
+
+-- Enable RLS - only the service role writes and reads this table
+ALTER TABLE sms_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to sms_conversations"
+ON sms_conversations FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE sms_conversations IS 'SMS threads by phone number, with the number''s opt-out state';
+COMMENT ON COLUMN sms_conversations.opted_out IS 'True after STOP; outbound SMS to this number are refused until START / UNSTOP';
+COMMENT ON COLUMN sms_conversations.last_keyword IS 'Last compliance keyword received (STOP, START, HELP, ...)';
+COMMENT ON COLUMN sms_messages.direction IS 'outbound: sent by us; inbound: reply received from the customer (status received)';
@@ -0,0 +1,321 @@
+-- Message Templates Migration
+-- SMS and email copy moves out of code and JSON into an editable template
+-- library (see src/lib/messageTemplates.ts). Senders resolve templates by
+-- key: appointment texts, the project welcome text, stage update texts,
+-- automation rule texts, CRM compose and the sales team notification emails.
+--
+-- Every saved edit bumps message_templates.version and keeps the previous
+-- copy in message_template_versions. Templates use [Placeholder] variables;
+-- the context column decides which variables a template may use.
+--
+-- Stage texts were stored per stage in project_lifecycle_stages.sms_message.
+-- They become templates and the stage's auto_sms_template names the
+-- template sent on entering it.
+
+-- Create message_templates table
+CREATE TABLE IF NOT EXISTS message_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    key VARCHAR(50) NOT NULL UNIQUE,
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('sms', 'email')),
+    context VARCHAR(20) NOT NULL CHECK (context IN ('lead', 'appointment', 'project', 'notification')),
+    name VARCHAR(150) NOT NULL,
+    description TEXT,
+    subject TEXT,
+    body TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255), -- Clerk user ID
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (channel = 'email' OR subject IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_templates_channel ON message_templates(channel, active);
+
+-- Create message_template_versions table
+CREATE TABLE IF NOT EXISTS message_template_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template_id UUID NOT NULL REFERENCES message_templates(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    subject TEXT,
+    body TEXT NOT NULL,
+    change_note TEXT,
+    created_by VARCHAR(255), -- Clerk user ID
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (template_id, version)
+);
+
+-- Save an edit as the next version. Nothing is saved (no row returned) when
+-- the template is no longer at expected_version, so concurrent edits do not
+-- overwrite each other.
+CREATE OR REPLACE FUNCTION save_message_template_version(
+    template_key VARCHAR(50),
+    expected_version INTEGER,
+    new_name VARCHAR(150),
+    new_description TEXT,
+    new_subject TEXT,
+    new_body TEXT,
+    note TEXT DEFAULT NULL,
+    editor VARCHAR(255) DEFAULT NULL
+)
+RETURNS SETOF message_templates AS $$
+DECLARE
+    saved message_templates;
+BEGIN
+    UPDATE message_templates
+    SET name = new_name,
+        description = new_description,
+        subject = new_subject,
+        body = new_body,
+        version = version + 1,
+        updated_by = editor,
+        updated_at = NOW()
+    WHERE key = template_key
+    AND version = expected_version
+    RETURNING * INTO saved;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO message_template_versions (template_id, version, subject, body, change_note, created_by)
+    VALUES (saved.id, saved.version, saved.subject, saved.body, note, editor);
+
+    RETURN NEXT saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Customer texts previously in src/lib/sms.ts, POST /api/crm/projects and project_automation_rules.action_config
+INSERT INTO message_templates (key, channel, context, name, description, body) VALUES
+('appointment_confirmation', 'sms', 'appointment', 'Appointment confirmation', 'Sent when a consultation is confirmed',
+ 'Hi [Name]! Your solar consultation with Quantum Solar is confirmed for [Date] at [Time]. Reply to this text if you need to reschedule. - Quantum Solar'),
+('appointment_reminder', 'sms', 'appointment', 'Appointment reminder', 'Sent the day before a confirmed consultation',
+ 'Hi [Name]! This is a reminder about your solar consultation appointment tomorrow at [Time]. We''re excited to help you save money with solar! - Quantum Solar'),
+('follow_up', 'sms', 'lead', 'Lead follow-up', 'Follow-up text for a new lead',
+ 'Hi [Name]! Thanks for your interest in solar. We''d love to answer any questions and provide your custom solar proposal. When''s a good time to chat? - Quantum Solar'),
+('welcome_new_lead', 'sms', 'lead', 'New lead welcome', 'First text to a new lead',
+ 'Thanks for your interest in solar, [Name]! We''ll have a solar expert contact you within 24 hours with your custom proposal. - Quantum Solar'),
+('installation_update', 'sms', 'project', 'Installation scheduled', 'Installation date for the customer',
+ 'Hi [Name]! Great news - your solar installation is scheduled for [InstallDate]. Any questions? - Quantum Solar'),
+('project_complete', 'sms', 'project', 'System active', 'Sent when the system is turned on',
+ 'Congratulations [Name]! Your solar system is now active and generating clean energy. You should see savings on your next bill! - Quantum Solar'),
+('project_started', 'sms', 'project', 'Project welcome', 'Sent when a project is created',
+ 'Welcome to Quantum Solar, [FullName]! Your solar project has officially started. We''ll keep you updated throughout the process. - Quantum Solar'),
+('permit_followup', 'sms', 'project', 'Permit follow-up', 'Automation: permit application still in progress',
+ 'Hi [Name]! Your permit application is in progress. We''ll notify you once approved! - Quantum Solar'),
+('installation_reminder', 'sms', 'project', 'Installation reminder', 'Automation: installation coming up',
+ 'Hi [Name]! Your installation is coming up! We''ll contact you 24 hours before to confirm. - Quantum Solar'),
+('inspection_scheduled', 'sms', 'project', 'Inspection scheduling', 'Automation: installation complete, inspection next',
+ 'Hi [Name]! Your installation is complete and we''re scheduling your electrical inspection. We''ll be in touch with the date. - Quantum Solar'),
+('project_celebration', 'sms', 'project', 'Project celebration', 'Automation: permission to operate received',
+ '🎉 Congratulations [Name]! Your solar system is now producing clean energy and saving you money! - Quantum Solar')
+ON CONFLICT (key) DO NOTHING;
+
+-- Email to a lead from the CRM composer
+INSERT INTO message_templates (key, channel, context, name, description, subject, body) VALUES
+('follow_up_email', 'email', 'lead', 'Lead follow-up email', 'Follow-up email for a new lead',
+ 'Your custom solar proposal from Quantum Solar',
+ $tpl$<div style="font-family: Arial, sans-serif; padding: 20px;">
+  <p>Hi [Name],</p>
+  <p>Thanks for your interest in solar! We'd love to answer any questions and walk you through your custom solar proposal.</p>
+  <p>Reply to this email or call us to pick a time that works for you.</p>
+  <p>[RepName]<br>Quantum Solar</p>
+</div>$tpl$)
+ON CONFLICT (key) DO NOTHING;
+
+-- Sales team notifications previously built inline in the Resend routes
+INSERT INTO message_templates (key, channel, context, name, description, subject, body) VALUES
+('new_lead_notification', 'email', 'notification', 'New lead notification', 'Splash page form completed',
+ '🔥 New Lead - Ameren Illinois: [FullName]',
+ $tpl$<h2>🔥 New Ameren Illinois Splash Page Lead</h2>
+<hr>
+[LeadDetails]
+<hr>
+<p><small>Lead ID: [LeadId]</small></p>
+<p><small>Session ID: [SessionId]</small></p>
+<p><small>Timestamp: [Timestamp]</small></p>$tpl$),
+('abandoned_lead_notification', 'email', 'notification', 'Abandoned lead notification', 'Splash page form left unfinished',
+ '⚠️ Abandoned Lead - Ameren Illinois: [FullName]',
+ $tpl$<h2>⚠️ Abandoned Ameren Illinois Splash Page Lead</h2>
+<p><strong>Last Step Reached:</strong> [LastStep]</p>
+<hr>
+[LeadDetails]
+<hr>
+<p><small>Lead ID: [LeadId]</small></p>
+<p><small>Session ID: [SessionId]</small></p>
+<p><small>Timestamp: [Timestamp]</small></p>$tpl$),
+('disqualified_lead_notification', 'email', 'notification', 'Disqualified lead notification', 'Lead disqualified during the splash page form',
+ '❌ Disqualified Lead - Ameren Illinois: [FullName]',
+ $tpl$<h2>❌ Disqualified Ameren Illinois Splash Page Lead</h2>
+<p><strong>⚠️ Status:</strong> Lead disqualified during form completion</p>
+<p><strong>🚫 Reason:</strong> [Reason]</p>
+<hr>
+<h3>Lead Information:</h3>
+[LeadDetails]
+[ConsentDetails]
+<hr>
+<div style="background-color: #fee; border: 1px solid #fcc; padding: 15px; border-radius: 5px; margin: 10px 0;">
+  <h4 style="color: #c33; margin: 0 0 10px 0;">⚠️ Follow-up Opportunity</h4>
+  <p style="margin: 0; color: #666;">
+    While this lead didn&apos;t qualify for the current Ameren Illinois promotion, they may be eligible for:
+  </p>
+  <ul style="margin: 10px 0; color: #666;">
+    <li>Alternative financing programs</li>
+    <li>Future promotions when circumstances change</li>
+    <li>Referral opportunities</li>
+    <li>Educational content about solar benefits</li>
+  </ul>
+  <p style="margin: 0; color: #666; font-style: italic;">
+    Consider adding to nurture campaign if consent was provided.
+  </p>
+</div>
+<hr>
+<p><small>Database ID: [LeadId]</small></p>
+<p><small>Timestamp: [Timestamp]</small></p>$tpl$),
+('appointment_preferences_notification', 'email', 'notification', 'Appointment preferences notification', 'Lead picked appointment preferences on the thank you page',
+ 'New Appointment Preferences Confirmed - Ameren Illinois Campaign',
+ $tpl$<div style="font-family: Arial, sans-serif; padding: 20px; background-color: #f8f9fa;">
+  <h2 style="color: #333; border-bottom: 3px solid #007bff; padding-bottom: 10px;">📅 New Appointment Preference Confirmation</h2>
+
+  [LeadDetails]
+
+  <div style="background-color: #fff; padding: 25px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #007bff;">
+    <h3 style="color: #007bff; margin-top: 0; margin-bottom: 15px;">📅 Appointment Preferences</h3>
+    <div style="background-color: #f8f9fa; padding: 20px; border-radius: 8px;">
+      <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 15px;">
+        <div>
+          <div style="background-color: #e3f2fd; padding: 15px; border-radius: 8px; text-align: center;">
+            <h4 style="margin: 0 0 10px 0; color: #1976d2;">📅 Preferred Date</h4>
+            <p style="margin: 0; font-size: 16px; font-weight: bold; color: #333;">[PreferredDate]</p>
+          </div>
+        </div>
+        <div>
+          <div style="background-color: #e8f5e8; padding: 15px; border-radius: 8px; text-align: center;">
+            <h4 style="margin: 0 0 10px 0; color: #388e3c;">🕐 Preferred Time</h4>
+            <p style="margin: 0; font-size: 16px; font-weight: bold; color: #333;">[PreferredTime]</p>
+          </div>
+        </div>
+      </div>
+    </div>
+    <p><strong>📍 Source:</strong> [Source]</p>
+    <p><strong>⏰ Confirmed At:</strong> [Timestamp]</p>
+  </div>
+
+  <div style="background-color: #e7f3ff; padding: 20px; border-radius: 8px; border-left: 4px solid #007bff;">
+    <p style="margin: 0; color: #004085;"><strong>🚀 Action Required:</strong> [NextSteps]</p>
+  </div>
+
+  <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+
+  <p style="color: #999; font-size: 12px; text-align: center; margin-top: 30px;">
+    Sent from your Quantum Solar website • Appointment Confirmation System<br>
+    Lead ID: [LeadId] • Confirmed: [Timestamp]
+  </p>
+</div>$tpl$),
+('bill_upload_notification', 'email', 'notification', 'Bill upload notification', 'Lead uploaded an electric bill',
+ 'New Electric Bill Upload - Ameren Illinois Campaign',
+ $tpl$<div style="font-family: Arial, sans-serif; padding: 20px; background-color: #f8f9fa;">
+  <h2 style="color: #333; border-bottom: 3px solid #ff0000; padding-bottom: 10px;">🔥 New Lead & Bill Upload - Ameren Illinois</h2>
+
+  [LeadDetails]
+
+  <div style="background-color: #fff; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #ff0000;">
+    <h3 style="color: #ff0000; margin-top: 0; margin-bottom: 15px;">📄 Bill Upload Details</h3>
+    <p><strong>📄 File Name:</strong> [FileName]</p>
+    <p><strong>📊 File Size:</strong> [FileSize]</p>
+    <p><strong>🎯 Source:</strong> [Source]</p>
+    <p><strong>⏰ Upload Time:</strong> [Timestamp]</p>
+  </div>
+
+  [DriveLink]
+
+  <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+
+  <div style="background-color: #e7f3ff; padding: 15px; border-radius: 8px; border-left: 4px solid #007bff;">
+    <p style="margin: 0; color: #004085;"><strong>🚀 Next Steps:</strong> [NextSteps]</p>
+  </div>
+
+  <p style="color: #999; font-size: 12px; text-align: center; margin-top: 30px;">
+    Sent from your Quantum Solar website • Ameren Illinois Campaign<br>
+    Lead ID: [LeadId] • Bill Upload: [Timestamp]
+  </p>
+</div>$tpl$)
+ON CONFLICT (key) DO NOTHING;
+
+-- Stage texts become templates named after their pipeline and stage
+INSERT INTO message_templates (key, channel, context, name, description, body)
+SELECT
+    LEFT(p.key || '_' || COALESCE(s.auto_sms_template, 'stage_' || s.sort_order), 50),
+    'sms',
+    'project',
+    p.name || ': ' || s.stage_name,
+    'Sent when a project enters this stage',
+    s.sms_message
+FROM project_lifecycle_stages s
+JOIN project_pipelines p ON p.id = s.pipeline_id
+WHERE s.sms_message IS NOT NULL
+ON CONFLICT (key) DO NOTHING;
+
+-- A stage's auto_sms_template is now the template sent on entering it
+UPDATE project_lifecycle_stages AS s
+SET auto_sms_template = CASE
+    WHEN s.sms_message IS NULL THEN NULL
+    ELSE LEFT(p.key || '_' || COALESCE(s.auto_sms_template, 'stage_' || s.sort_order), 50)
+END
+FROM project_pipelines p
+WHERE p.id = s.pipeline_id;
+
+ALTER TABLE project_lifecycle_stages DROP COLUMN IF EXISTS sms_message;
+
+ALTER TABLE project_lifecycle_stages
+DROP CONSTRAINT IF EXISTS project_lifecycle_stages_auto_sms_template_fkey;
+
+ALTER TABLE project_lifecycle_stages
+ADD CONSTRAINT project_lifecycle_stages_auto_sms_template_fkey
+FOREIGN KEY (auto_sms_template) REFERENCES message_templates(key);
+
+-- Automation rules name their template; the copy lives in message_templates
+DO $$
+BEGIN
+    IF to_regclass('project_automation_rules') IS NOT NULL THEN
+        UPDATE project_automation_rules
+        SET action_config = action_config - 'message'
+        WHERE action_config ? 'message';
+    END IF;
+END;
+$$;
+
+-- Installation date for [InstallDate] in project texts
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS scheduled_install_date DATE;
+
+-- Every template starts with its current copy as version 1
+INSERT INTO message_template_versions (template_id, version, subject, body, change_note)
+SELECT id, version, subject, body, 'Initial version'
+FROM message_templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Enable RLS - only the service role writes and reads these tables
+ALTER TABLE message_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to message_templates"
+ON message_templates FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to message_template_versions"
+ON message_template_versions FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE message_templates IS 'Editable SMS and email templates, resolved by key by every sender';
+COMMENT ON COLUMN message_templates.context IS 'Which [Placeholder] variables the template may use: lead, appointment, project or notification';
+COMMENT ON COLUMN message_templates.version IS 'Current version; each saved edit adds a row to message_template_versions';
+COMMENT ON COLUMN message_templates.active IS 'Inactive templates are not sent';
+COMMENT ON TABLE message_template_versions IS 'Every saved version of each message template';
+COMMENT ON COLUMN projects.scheduled_install_date IS 'Scheduled installation day, shown to the customer as [InstallDate]';
+COMMENT ON COLUMN project_lifecycle_stages.auto_sms_template IS 'Message template (message_templates.key) texted to the customer on entering the stage';
@@ -0,0 +1,112 @@
+-- Project Automation Migration
+-- project_automation_rules are executed by the app-layer automation engine
+-- (see src/lib/projectAutomation.ts) instead of process_project_automation(),
+-- which only handled time_elapsed + advance_stage. The engine runs from the
+-- project automation cron job and right after manual stage advances, photo
+-- submissions and document uploads.
+--
+-- Every rule fires at most once per stage visit: a run is claimed by
+-- inserting into project_automation_runs, which is unique per rule and
+-- project_stage_history row. Failed runs are retried on later passes up to
+-- max_attempts; runs left in 'running' by a crashed worker are not retried,
+-- so a customer is never texted twice.
+
+-- Only triggers and actions the engine understands
+ALTER TABLE project_automation_rules
+ADD CONSTRAINT project_automation_rules_trigger_check
+CHECK (trigger_condition IN ('time_elapsed', 'document_uploaded', 'photo_submission_completed', 'manual_advance'));
+
+ALTER TABLE project_automation_rules
+ADD CONSTRAINT project_automation_rules_action_check
+CHECK (action_type IN ('send_sms', 'send_email', 'advance_stage', 'create_task'));
+
+ALTER TABLE project_automation_rules
+ADD CONSTRAINT project_automation_rules_time_elapsed_check
+CHECK (trigger_condition <> 'time_elapsed' OR trigger_value >= 0);
+
+-- Stage entries made by the engine, so manual_advance rules can tell them apart
+COMMENT ON COLUMN project_stage_history.auto_advanced IS 'True when an advance_stage automation rule moved the project into this stage';
+
+-- Create project_tasks table (create_task action)
+CREATE TABLE IF NOT EXISTS project_tasks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    assigned_to VARCHAR(255),
+    due_date DATE,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+    automation_rule_id UUID REFERENCES project_automation_rules(id) ON DELETE SET NULL,
+
+    -- Clerk user IDs, null for tasks created by automation
+    created_by VARCHAR(255),
+    completed_by VARCHAR(255),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create project_automation_runs table
+CREATE TABLE IF NOT EXISTS project_automation_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    rule_id UUID NOT NULL REFERENCES project_automation_rules(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    stage_history_id UUID NOT NULL REFERENCES project_stage_history(id) ON DELETE CASCADE,
+    trigger_condition VARCHAR(100) NOT NULL,
+    action_type VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'succeeded', 'skipped', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    result JSONB,
+    last_error TEXT,
+    -- cron, or the Clerk user ID whose action triggered the run
+    triggered_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    CONSTRAINT project_automation_runs_once UNIQUE (rule_id, stage_history_id)
+);
+
+-- Create indexes for the project page and retries
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project ON project_tasks(project_id, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_project_automation_runs_project ON project_automation_runs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_project_automation_rules_stage ON project_automation_rules(stage_id) WHERE is_active = TRUE;
+
+-- Example create_task rule: chase permits that have been pending for two weeks
+INSERT INTO project_automation_rules (stage_id, trigger_condition, trigger_value, action_type, action_config)
+SELECT s.id, 'time_elapsed', 14, 'create_task',
+       '{"title": "Follow up on permit application", "description": "Permit application has been pending for 14 days. Call the permitting office for a status update.", "assign_to": "project_manager", "due_in_days": 2}'::JSONB
+FROM project_lifecycle_stages s
+JOIN project_pipelines p ON p.id = s.pipeline_id
+WHERE p.key = 'residential_solar' AND s.stage_name = 'Permit Application'
+AND NOT EXISTS (
+    SELECT 1 FROM project_automation_rules r
+    WHERE r.stage_id = s.id AND r.action_type = 'create_task'
+);
+
+-- Replaced by the automation engine; running both would advance projects twice
+DROP FUNCTION IF EXISTS process_project_automation();
+
+-- Enable RLS - only the service role writes and reads these tables
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_automation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to project_tasks"
+ON project_tasks FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to project_automation_runs"
+ON project_automation_runs FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE project_tasks IS 'Follow-up tasks on a project, created by users or by create_task automation rules';
+COMMENT ON TABLE project_automation_runs IS 'Automation log: one row per rule per stage visit';
+COMMENT ON COLUMN project_automation_runs.stage_history_id IS 'Stage visit the run belongs to; a rule fires again only if the project re-enters the stage';
+COMMENT ON COLUMN project_automation_runs.status IS 'running: claimed by a worker; succeeded/skipped: done; failed: retried until max_attempts';
+COMMENT ON COLUMN project_automation_runs.result IS 'What the action did, e.g. the SMS message ID, new stage number or task ID';
+COMMENT ON COLUMN project_automation_rules.action_config IS 'send_sms/send_email: template; document_uploaded: document_type; photo_submission_completed: submission_type; create_task: title, description, assign_to, due_in_days';
@@ -0,0 +1,135 @@
+-- Project Documents Migration
+-- Contracts, permits, interconnection agreements, PTO letters and other
+-- project paperwork are uploaded from the project page and kept in a storage
+-- backend (see src/lib/fileStorage.ts) under a durable object key with a
+-- SHA-256 checksum. CRM users download them through an authenticated
+-- endpoint (see src/lib/projectDocuments.ts).
+--
+-- Stages that require approval cannot be left until every document type in
+-- their required_documents has been uploaded for the project.
+-- advance_project_stage enforces this for the current stage and any
+-- approval stage being skipped over.
+
+ALTER TABLE project_documents
+ADD COLUMN IF NOT EXISTS file_type VARCHAR(100),
+ADD COLUMN IF NOT EXISTS file_size BIGINT,
+ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(20) CHECK (storage_backend IN ('supabase', 'google_drive', 'local')),
+ADD COLUMN IF NOT EXISTS object_key TEXT,
+ADD COLUMN IF NOT EXISTS storage_external_id TEXT,
+ADD COLUMN IF NOT EXISTS checksum_sha256 CHAR(64),
+ADD COLUMN IF NOT EXISTS notes TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_documents_object_key ON project_documents(storage_backend, object_key)
+WHERE object_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_documents_type ON project_documents(project_id, document_type);
+
+-- Private bucket for the supabase backend; files are only served through the CRM
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-documents', 'project-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Required document types of approval stages from one stage number up to
+-- (not including) another that the project does not have yet
+CREATE OR REPLACE FUNCTION get_missing_stage_documents(project_uuid UUID, from_stage INTEGER, to_stage INTEGER)
+RETURNS TEXT[] AS $$
+    SELECT COALESCE(ARRAY_AGG(DISTINCT required.document_type ORDER BY required.document_type), '{}')
+    FROM projects p
+    JOIN project_lifecycle_stages s ON s.pipeline_id = p.pipeline_id
+    CROSS JOIN LATERAL UNNEST(s.required_documents) AS required(document_type)
+    WHERE p.id = project_uuid
+    AND s.requires_approval
+    AND s.sort_order >= from_stage
+    AND s.sort_order < to_stage
+    AND NOT EXISTS (
+        SELECT 1 FROM project_documents d
+        WHERE d.project_id = project_uuid
+        AND d.document_type = required.document_type
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Advance a project to a stage number within its pipeline, refusing to leave
+-- approval stages whose required documents are missing
+CREATE OR REPLACE FUNCTION advance_project_stage(project_uuid UUID, new_stage_id INTEGER, notes_text TEXT DEFAULT NULL, advanced_by VARCHAR(255) DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+    current_stage_number INTEGER;
+    project_pipeline_id UUID;
+    final_stage_number INTEGER;
+    current_stage_row_id INTEGER;
+    new_stage_row_id INTEGER;
+    missing_documents TEXT[];
+BEGIN
+    -- Get current stage and pipeline; the lock serializes concurrent advances
+    SELECT current_stage, pipeline_id INTO current_stage_number, project_pipeline_id
+    FROM projects WHERE id = project_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project % not found', project_uuid;
+    END IF;
+
+    SELECT MAX(sort_order) INTO final_stage_number
+    FROM project_lifecycle_stages WHERE pipeline_id = project_pipeline_id;
+
+    -- Validate stage advancement
+    IF new_stage_id <= current_stage_number THEN
+        RAISE EXCEPTION 'Cannot advance to previous or same stage';
+    END IF;
+
+    IF new_stage_id > final_stage_number THEN
+        RAISE EXCEPTION 'Stage % is past the final stage (%) of this pipeline', new_stage_id, final_stage_number;
+    END IF;
+
+    missing_documents := get_missing_stage_documents(project_uuid, current_stage_number, new_stage_id);
+    IF CARDINALITY(missing_documents) > 0 THEN
+        RAISE EXCEPTION 'Missing required documents: %', ARRAY_TO_STRING(missing_documents, ', ')
+        USING HINT = 'Upload the required documents before advancing';
+    END IF;
+
+    current_stage_row_id := get_pipeline_stage_id(project_pipeline_id, current_stage_number);
+    new_stage_row_id := get_pipeline_stage_id(project_pipeline_id, new_stage_id);
+
+    -- Complete current stage in history
+    UPDATE project_stage_history
+    SET completed_at = CURRENT_TIMESTAMP,
+        duration_days = EXTRACT(DAY FROM (CURRENT_TIMESTAMP - entered_at)),
+        completed_by = advanced_by,
+        notes = COALESCE(notes_text, notes)
+    WHERE project_id = project_uuid AND stage_id = current_stage_row_id AND completed_at IS NULL;
+
+    -- Update project current stage
+    UPDATE projects
+    SET current_stage = new_stage_id, updated_at = CURRENT_TIMESTAMP
+    WHERE id = project_uuid;
+
+    -- Add new stage to history
+    INSERT INTO project_stage_history (project_id, stage_id, notes, completed_by)
+    VALUES (project_uuid, new_stage_row_id, notes_text, advanced_by);
+
+    -- Mark project as complete at the pipeline's final stage
+    IF new_stage_id = final_stage_number THEN
+        UPDATE projects SET overall_status = 'complete', actual_completion_date = CURRENT_DATE WHERE id = project_uuid;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role reads and writes documents; the CRM API checks access
+CREATE POLICY "Service role has full access to project_documents"
+ON project_documents FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON COLUMN project_documents.document_type IS 'Document type key, matched against project_lifecycle_stages.required_documents';
+COMMENT ON COLUMN project_documents.document_name IS 'Original file name as uploaded';
+COMMENT ON COLUMN project_documents.file_path IS 'Legacy path; documents uploaded from the CRM use storage_backend and object_key';
+COMMENT ON COLUMN project_documents.stage_id IS 'Stage the project was in when the document was uploaded';
+COMMENT ON COLUMN project_documents.uploaded_by IS 'Clerk user ID of the uploader';
+COMMENT ON COLUMN project_documents.storage_backend IS 'Backend holding the file: supabase, google_drive or local';
+COMMENT ON COLUMN project_documents.object_key IS 'Durable key of the file in storage_backend (projects/<project_id>/documents/<file_name>)';
+COMMENT ON COLUMN project_documents.storage_external_id IS 'Provider file ID where the provider does not address files by key (Google Drive)';
+COMMENT ON COLUMN project_documents.checksum_sha256 IS 'SHA-256 of the uploaded bytes, verified on download';
+COMMENT ON FUNCTION get_missing_stage_documents IS 'Required document types of approval stages in [from_stage, to_stage) not yet uploaded for the project';
@@ -0,0 +1,164 @@
+-- Link Photo Submissions to Projects Migration
+-- Field photo submissions used to store whatever project reference the
+-- technician typed. They now point at a real project, and every uploaded
+-- photo is added to the project's photo history (project_photos) tagged with
+-- the lifecycle stage the project was in, plus the submission's GPS fix
+-- (see src/lib/projectPhotos.ts).
+--
+-- References that do not match a project are kept in legacy_project_ref.
+
+-- Both depend on the TEXT project_id columns; recreated below
+DROP VIEW IF EXISTS photo_submission_summary;
+DROP FUNCTION IF EXISTS get_project_photos(TEXT);
+
+ALTER TABLE photo_submissions
+ADD COLUMN IF NOT EXISTS legacy_project_ref TEXT;
+
+UPDATE photo_submissions ps
+SET legacy_project_ref = ps.project_id, project_id = NULL
+WHERE ps.project_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM projects p WHERE p.id::TEXT = LOWER(ps.project_id));
+
+UPDATE photo_records pr
+SET project_id = NULL
+WHERE pr.project_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM projects p WHERE p.id::TEXT = LOWER(pr.project_id));
+
+ALTER TABLE photo_submissions
+ALTER COLUMN project_id TYPE UUID USING project_id::UUID,
+ADD CONSTRAINT photo_submissions_project_id_fkey FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL;
+
+ALTER TABLE photo_records
+ALTER COLUMN project_id TYPE UUID USING project_id::UUID,
+ADD CONSTRAINT photo_records_project_id_fkey FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE SET NULL;
+
+-- Project photo history entries created from field submissions
+ALTER TABLE project_photos
+ADD COLUMN IF NOT EXISTS submission_id UUID REFERENCES photo_submissions(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS photo_record_id UUID REFERENCES photo_records(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS gps_accuracy_m DECIMAL(10, 2);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_photos_photo_record_id ON project_photos(photo_record_id)
+WHERE photo_record_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_photos_stage ON project_photos(project_id, stage_id);
+
+-- Backfill existing submission photos, tagged with the stage the project
+-- had entered when they were taken
+INSERT INTO project_photos (
+    project_id, photo_type, file_path, caption, taken_by, taken_at, stage_id,
+    gps_latitude, gps_longitude, gps_accuracy_m, submission_id, photo_record_id
+)
+SELECT
+    pr.project_id,
+    ps.submission_type,
+    pr.file_path,
+    pr.original_name,
+    ps.technician_name,
+    ps.submission_timestamp,
+    (
+        SELECT h.stage_id FROM project_stage_history h
+        WHERE h.project_id = pr.project_id AND h.entered_at <= ps.submission_timestamp
+        ORDER BY h.entered_at DESC
+        LIMIT 1
+    ),
+    CASE WHEN JSONB_TYPEOF(ps.location_data->'latitude') = 'number' THEN (ps.location_data->>'latitude')::DECIMAL(10, 8) END,
+    CASE WHEN JSONB_TYPEOF(ps.location_data->'longitude') = 'number' THEN (ps.location_data->>'longitude')::DECIMAL(11, 8) END,
+    CASE WHEN JSONB_TYPEOF(ps.location_data->'accuracy') = 'number' THEN (ps.location_data->>'accuracy')::DECIMAL(10, 2) END,
+    ps.id,
+    pr.id
+FROM photo_records pr
+JOIN photo_submissions ps ON ps.id = pr.submission_id
+WHERE pr.project_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Recreate the submission summary with the typed project_id
+CREATE OR REPLACE VIEW photo_submission_summary AS
+SELECT
+    ps.id,
+    ps.project_id,
+    ps.submission_type,
+    ps.technician_name,
+    ps.notes,
+    ps.weather_conditions,
+    ps.completion_percentage,
+    ps.submission_timestamp,
+    ps.location_data,
+    ps.status,
+    ps.created_at,
+    ps.processed_at,
+    COUNT(pr.id) as actual_photo_count,
+    ps.photo_count as reported_photo_count,
+    ARRAY_AGG(
+        JSON_BUILD_OBJECT(
+            'id', pr.id,
+            'file_name', pr.file_name,
+            'original_name', pr.original_name,
+            'file_size', pr.file_size,
+            'public_url', pr.public_url,
+            'upload_order', pr.upload_order
+        ) ORDER BY pr.upload_order
+    ) FILTER (WHERE pr.id IS NOT NULL) as photos
+FROM photo_submissions ps
+LEFT JOIN photo_records pr ON ps.id = pr.submission_id
+GROUP BY ps.id, ps.project_id, ps.submission_type, ps.technician_name,
+         ps.notes, ps.weather_conditions, ps.completion_percentage,
+         ps.submission_timestamp, ps.location_data, ps.status,
+         ps.created_at, ps.processed_at, ps.photo_count;
+
+GRANT SELECT ON photo_submission_summary TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_project_photos(project_id_param UUID)
+RETURNS TABLE (
+    submission_id UUID,
+    submission_type TEXT,
+    technician_name TEXT,
+    submission_date TIMESTAMPTZ,
+    photo_count BIGINT,
+    photos JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        pss.id,
+        pss.submission_type,
+        pss.technician_name,
+        pss.created_at,
+        COUNT(pr.id)::BIGINT,
+        JSONB_AGG(
+            JSONB_BUILD_OBJECT(
+                'id', pr.id,
+                'file_name', pr.file_name,
+                'original_name', pr.original_name,
+                'public_url', pr.public_url,
+                'file_size', pr.file_size,
+                'upload_order', pr.upload_order
+            ) ORDER BY pr.upload_order
+        ) FILTER (WHERE pr.id IS NOT NULL)
+    FROM photo_submissions pss
+    LEFT JOIN photo_records pr ON pss.id = pr.submission_id
+    WHERE pss.project_id = project_id_param
+    GROUP BY pss.id, pss.submission_type, pss.technician_name, pss.created_at
+    ORDER BY pss.created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_project_photos TO authenticated;
+
+-- Only the service role reads and writes photo history; the CRM API checks access
+CREATE POLICY "Service role has full access to project_photos"
+ON project_photos FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON COLUMN photo_submissions.project_id IS 'Project the photos were taken for';
+COMMENT ON COLUMN photo_submissions.legacy_project_ref IS 'Free-text project reference from before submissions were linked to projects';
+COMMENT ON COLUMN photo_records.project_id IS 'Project the photo belongs to, denormalized from photo_submissions';
+COMMENT ON COLUMN project_photos.photo_type IS 'Submission type for field photos: site_survey, installation or inspection';
+COMMENT ON COLUMN project_photos.file_path IS 'Path of the photo in the project-photos storage bucket';
+COMMENT ON COLUMN project_photos.stage_id IS 'Lifecycle stage (project_lifecycle_stages.id) the project was in when the photo was taken';
+COMMENT ON COLUMN project_photos.submission_id IS 'Field photo submission the photo came from';
+COMMENT ON COLUMN project_photos.photo_record_id IS 'Photo record the entry was created from; unique so a photo is only added once';
+COMMENT ON COLUMN project_photos.gps_accuracy_m IS 'Accuracy of the GPS fix in meters';
+COMMENT ON FUNCTION get_project_photos IS 'Retrieves all photos for a specific project organized by submission';
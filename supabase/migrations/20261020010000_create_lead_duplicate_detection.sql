@@ -0,0 +1,474 @@
+-- Lead Duplicate Detection Migration
+-- Replaces running supabase/cleanup_duplicate_leads.sql by hand with a CRM
+-- "Possible duplicates" queue (see src/lib/leadDuplicates.ts).
+--
+-- Splash leads, contact form submissions and chatbot conversations are
+-- compared on normalized phone (last 10 digits), email (lowercase, without
+-- +tags) and street address (lowercase, common abbreviations), with
+-- trigram similarity for near-identical addresses and names. Matching pairs
+-- land in lead_duplicate_candidates. Triggers flag new and edited records as
+-- they are written, whichever path inserts them.
+--
+-- merge_crm_leads keeps one lead, applies the field values picked in the
+-- CRM, moves the duplicate's activity, messages, appointments, bills and
+-- project link over, and records the merge on the kept lead's timeline.
+-- Splash into splash merges go through merge_duplicate_leads. Chatbot
+-- conversations are never deleted; they are linked to the lead instead.
+--
+-- Record IDs are TEXT because chatbot_conversations uses integer IDs.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Last 10 digits of a US phone number, or null if it has too few
+CREATE OR REPLACE FUNCTION normalize_lead_phone(phone TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN LENGTH(digits) = 11 AND LEFT(digits, 1) = '1' THEN SUBSTRING(digits FROM 2)
+        WHEN LENGTH(digits) = 10 THEN digits
+    END
+    FROM (SELECT REGEXP_REPLACE(COALESCE(phone, ''), '\D', '', 'g') AS digits) d;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Lowercased email without a +tag
+CREATE OR REPLACE FUNCTION normalize_lead_email(email TEXT)
+RETURNS TEXT AS $$
+    SELECT NULLIF(REGEXP_REPLACE(LOWER(TRIM(COALESCE(email, ''))), '\+[^@]*@', '@'), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Street line (text before the first comma), lowercased, without
+-- punctuation and with common words abbreviated
+CREATE OR REPLACE FUNCTION normalize_lead_address(address TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    normalized TEXT;
+    abbreviation TEXT[];
+BEGIN
+    normalized := LOWER(SPLIT_PART(COALESCE(address, ''), ',', 1));
+    normalized := REGEXP_REPLACE(normalized, '[^a-z0-9 ]', ' ', 'g');
+
+    FOREACH abbreviation SLICE 1 IN ARRAY ARRAY[
+        ['street', 'st'], ['avenue', 'ave'], ['road', 'rd'], ['drive', 'dr'],
+        ['lane', 'ln'], ['court', 'ct'], ['boulevard', 'blvd'], ['place', 'pl'],
+        ['circle', 'cir'], ['parkway', 'pkwy'], ['highway', 'hwy'], ['terrace', 'ter'],
+        ['north', 'n'], ['south', 's'], ['east', 'e'], ['west', 'w'],
+        ['apartment', 'apt'], ['suite', 'ste']
+    ] LOOP
+        normalized := REGEXP_REPLACE(normalized, '\m' || abbreviation[1] || '\M', abbreviation[2], 'g');
+    END LOOP;
+
+    RETURN NULLIF(TRIM(REGEXP_REPLACE(normalized, '\s+', ' ', 'g')), '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Chatbot conversations merged into a CRM lead
+ALTER TABLE chatbot_conversations
+ADD COLUMN IF NOT EXISTS merged_lead_id UUID,
+ADD COLUMN IF NOT EXISTS merged_lead_source VARCHAR(20) CHECK (merged_lead_source IN ('splash', 'contact'));
+
+-- Match keys, so trigger lookups use indexes
+CREATE INDEX IF NOT EXISTS idx_splash_leads_phone_key ON splash_leads(normalize_lead_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_splash_leads_email_key ON splash_leads(normalize_lead_email(email));
+CREATE INDEX IF NOT EXISTS idx_splash_leads_address_key ON splash_leads USING GIN (normalize_lead_address(street_address) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_phone_key ON contact_submissions(normalize_lead_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_email_key ON contact_submissions(normalize_lead_email(email));
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_address_key ON contact_submissions USING GIN (normalize_lead_address(address) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_chatbot_conversations_phone_key ON chatbot_conversations(normalize_lead_phone(phone));
+CREATE INDEX IF NOT EXISTS idx_chatbot_conversations_email_key ON chatbot_conversations(normalize_lead_email(email));
+
+-- Every record duplicate detection looks at, with its match keys
+CREATE OR REPLACE VIEW lead_duplicate_records AS
+SELECT
+    sl.id::TEXT AS id,
+    'splash'::VARCHAR(20) AS source,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', sl.first_name, sl.last_name)), ''), 'Unknown') AS name,
+    sl.email,
+    sl.phone,
+    NULLIF(CONCAT_WS(', ', sl.street_address, sl.city, NULLIF(CONCAT_WS(' ', sl.state, sl.zip_code), '')), '') AS address,
+    normalize_lead_phone(sl.phone) AS phone_key,
+    normalize_lead_email(sl.email) AS email_key,
+    normalize_lead_address(sl.street_address) AS address_key,
+    sl.created_at
+FROM splash_leads sl
+
+UNION ALL
+
+SELECT
+    cs.id::TEXT AS id,
+    'contact'::VARCHAR(20) AS source,
+    COALESCE(NULLIF(TRIM(cs.name), ''), 'Unknown') AS name,
+    cs.email,
+    cs.phone,
+    cs.address,
+    normalize_lead_phone(cs.phone) AS phone_key,
+    normalize_lead_email(cs.email) AS email_key,
+    normalize_lead_address(cs.address) AS address_key,
+    cs.created_at
+FROM contact_submissions cs
+
+UNION ALL
+
+SELECT
+    cc.id::TEXT AS id,
+    'chatbot'::VARCHAR(20) AS source,
+    COALESCE(NULLIF(TRIM(cc.name), ''), 'Unknown') AS name,
+    cc.email,
+    cc.phone,
+    NULL AS address,
+    normalize_lead_phone(cc.phone) AS phone_key,
+    normalize_lead_email(cc.email) AS email_key,
+    NULL AS address_key,
+    cc.created_at
+FROM chatbot_conversations cc
+WHERE cc.merged_lead_id IS NULL;
+
+-- Create lead_duplicate_candidates table
+CREATE TABLE IF NOT EXISTS lead_duplicate_candidates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- The record that was written when the match was found, and the record it matched
+    lead_id TEXT NOT NULL,
+    lead_source VARCHAR(20) NOT NULL CHECK (lead_source IN ('splash', 'contact', 'chatbot')),
+    match_id TEXT NOT NULL,
+    match_source VARCHAR(20) NOT NULL CHECK (match_source IN ('splash', 'contact', 'chatbot')),
+    pair_key TEXT GENERATED ALWAYS AS (
+        LEAST(lead_source || ':' || lead_id, match_source || ':' || match_id) || '|' ||
+        GREATEST(lead_source || ':' || lead_id, match_source || ':' || match_id)
+    ) STORED UNIQUE,
+    score INTEGER NOT NULL,
+    match_reasons TEXT[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'merged', 'dismissed')),
+    detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    resolved_by VARCHAR(255),
+    CHECK (lead_source <> 'chatbot' OR match_source <> 'chatbot')
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_candidates_status ON lead_duplicate_candidates(status, score DESC, detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_candidates_lead ON lead_duplicate_candidates(lead_source, lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_duplicate_candidates_match ON lead_duplicate_candidates(match_source, match_id);
+
+-- Compare one record against all others and flag the likely duplicates.
+-- Returns the number of pairs flagged. Dismissed and merged pairs are left alone.
+CREATE OR REPLACE FUNCTION detect_lead_duplicates(p_source VARCHAR(20), p_lead_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    lead_record RECORD;
+    candidate RECORD;
+    match_score INTEGER;
+    reasons TEXT[];
+    flagged INTEGER := 0;
+BEGIN
+    SELECT * INTO lead_record FROM lead_duplicate_records WHERE source = p_source AND id = p_lead_id;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    FOR candidate IN
+        SELECT r.*
+        FROM lead_duplicate_records r
+        WHERE NOT (r.source = p_source AND r.id = p_lead_id)
+        AND NOT (r.source = 'chatbot' AND p_source = 'chatbot')
+        AND (
+            r.phone_key = lead_record.phone_key
+            OR r.email_key = lead_record.email_key
+            OR r.address_key % lead_record.address_key
+        )
+    LOOP
+        match_score := 0;
+        reasons := ARRAY[]::TEXT[];
+
+        IF candidate.phone_key = lead_record.phone_key THEN
+            match_score := match_score + 50;
+            reasons := ARRAY_APPEND(reasons, 'phone');
+        END IF;
+
+        IF candidate.email_key = lead_record.email_key THEN
+            match_score := match_score + 40;
+            reasons := ARRAY_APPEND(reasons, 'email');
+        END IF;
+
+        IF candidate.address_key = lead_record.address_key THEN
+            match_score := match_score + 30;
+            reasons := ARRAY_APPEND(reasons, 'address');
+        ELSIF SPLIT_PART(candidate.address_key, ' ', 1) = SPLIT_PART(lead_record.address_key, ' ', 1)
+            AND SIMILARITY(candidate.address_key, lead_record.address_key) >= 0.6 THEN
+            -- Same house number, nearly the same street
+            match_score := match_score + 20;
+            reasons := ARRAY_APPEND(reasons, 'similar_address');
+        END IF;
+
+        IF candidate.name <> 'Unknown' AND lead_record.name <> 'Unknown'
+            AND SIMILARITY(LOWER(candidate.name), LOWER(lead_record.name)) >= 0.5 THEN
+            match_score := match_score + 10;
+            reasons := ARRAY_APPEND(reasons, 'name');
+        END IF;
+
+        -- A similar address alone is not enough; it needs a similar name too
+        IF match_score >= 30 THEN
+            INSERT INTO lead_duplicate_candidates (lead_id, lead_source, match_id, match_source, score, match_reasons)
+            VALUES (p_lead_id, p_source, candidate.id, candidate.source, match_score, reasons)
+            ON CONFLICT (pair_key) DO UPDATE
+            SET score = EXCLUDED.score, match_reasons = EXCLUDED.match_reasons, detected_at = NOW()
+            WHERE lead_duplicate_candidates.status = 'open';
+
+            flagged := flagged + 1;
+        END IF;
+    END LOOP;
+
+    RETURN flagged;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger function; the record's source is the trigger argument
+CREATE OR REPLACE FUNCTION flag_duplicate_leads()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM detect_lead_duplicates(TG_ARGV[0], NEW.id::TEXT);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS flag_duplicate_splash_leads_insert ON splash_leads;
+CREATE TRIGGER flag_duplicate_splash_leads_insert
+    AFTER INSERT ON splash_leads
+    FOR EACH ROW EXECUTE FUNCTION flag_duplicate_leads('splash');
+
+DROP TRIGGER IF EXISTS flag_duplicate_splash_leads_update ON splash_leads;
+CREATE TRIGGER flag_duplicate_splash_leads_update
+    AFTER UPDATE ON splash_leads
+    FOR EACH ROW
+    WHEN (OLD.phone IS DISTINCT FROM NEW.phone OR OLD.email IS DISTINCT FROM NEW.email
+        OR OLD.street_address IS DISTINCT FROM NEW.street_address)
+    EXECUTE FUNCTION flag_duplicate_leads('splash');
+
+DROP TRIGGER IF EXISTS flag_duplicate_contact_submissions_insert ON contact_submissions;
+CREATE TRIGGER flag_duplicate_contact_submissions_insert
+    AFTER INSERT ON contact_submissions
+    FOR EACH ROW EXECUTE FUNCTION flag_duplicate_leads('contact');
+
+DROP TRIGGER IF EXISTS flag_duplicate_contact_submissions_update ON contact_submissions;
+CREATE TRIGGER flag_duplicate_contact_submissions_update
+    AFTER UPDATE ON contact_submissions
+    FOR EACH ROW
+    WHEN (OLD.phone IS DISTINCT FROM NEW.phone OR OLD.email IS DISTINCT FROM NEW.email
+        OR OLD.address IS DISTINCT FROM NEW.address)
+    EXECUTE FUNCTION flag_duplicate_leads('contact');
+
+DROP TRIGGER IF EXISTS flag_duplicate_chatbot_conversations_insert ON chatbot_conversations;
+CREATE TRIGGER flag_duplicate_chatbot_conversations_insert
+    AFTER INSERT ON chatbot_conversations
+    FOR EACH ROW EXECUTE FUNCTION flag_duplicate_leads('chatbot');
+
+-- Contact details arrive in lead_data over the conversation
+DROP TRIGGER IF EXISTS flag_duplicate_chatbot_conversations_update ON chatbot_conversations;
+CREATE TRIGGER flag_duplicate_chatbot_conversations_update
+    AFTER UPDATE ON chatbot_conversations
+    FOR EACH ROW
+    WHEN (NEW.merged_lead_id IS NULL AND (OLD.phone IS DISTINCT FROM NEW.phone OR OLD.email IS DISTINCT FROM NEW.email))
+    EXECUTE FUNCTION flag_duplicate_leads('chatbot');
+
+-- Merge the other record of a candidate pair into the kept lead. p_fields
+-- holds the picked values for name, email, phone and street_address; empty
+-- values never overwrite. Raises 'Cannot merge: ...' for refusals.
+CREATE OR REPLACE FUNCTION merge_crm_leads(
+    p_candidate_id UUID,
+    p_primary_source VARCHAR(20),
+    p_primary_id UUID,
+    p_fields JSONB,
+    p_merged_by VARCHAR(255),
+    p_merged_by_name VARCHAR(255) DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+    pair RECORD;
+    duplicate_source VARCHAR(20);
+    duplicate_id TEXT;
+    duplicate_snapshot JSONB;
+    picked_name TEXT := NULLIF(TRIM(p_fields->>'name'), '');
+    picked_email TEXT := NULLIF(TRIM(p_fields->>'email'), '');
+    picked_phone TEXT := NULLIF(TRIM(p_fields->>'phone'), '');
+    picked_address TEXT := NULLIF(TRIM(p_fields->>'street_address'), '');
+BEGIN
+    SELECT * INTO pair FROM lead_duplicate_candidates WHERE id = p_candidate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duplicate candidate % not found', p_candidate_id;
+    END IF;
+
+    IF pair.status <> 'open' THEN
+        RAISE EXCEPTION 'Cannot merge: this pair is already %', pair.status;
+    END IF;
+
+    IF p_primary_source NOT IN ('splash', 'contact') THEN
+        RAISE EXCEPTION 'Cannot merge: only a splash or contact lead can be kept';
+    END IF;
+
+    IF pair.lead_source = p_primary_source AND pair.lead_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.match_source;
+        duplicate_id := pair.match_id;
+    ELSIF pair.match_source = p_primary_source AND pair.match_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.lead_source;
+        duplicate_id := pair.lead_id;
+    ELSE
+        RAISE EXCEPTION 'Cannot merge: the kept lead is not part of this pair';
+    END IF;
+
+    -- Snapshot of the duplicate for the kept lead's timeline
+    IF duplicate_source = 'splash' THEN
+        SELECT TO_JSONB(sl) INTO duplicate_snapshot FROM splash_leads sl WHERE sl.id = duplicate_id::UUID;
+    ELSIF duplicate_source = 'contact' THEN
+        SELECT TO_JSONB(cs) INTO duplicate_snapshot FROM contact_submissions cs WHERE cs.id = duplicate_id::UUID;
+    ELSE
+        SELECT TO_JSONB(cc) - 'conversation_history' INTO duplicate_snapshot
+        FROM chatbot_conversations cc WHERE cc.id = duplicate_id::INTEGER AND cc.merged_lead_id IS NULL;
+    END IF;
+
+    IF duplicate_snapshot IS NULL THEN
+        RAISE EXCEPTION 'Cannot merge: the duplicate no longer exists';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM lead_duplicate_records WHERE source = p_primary_source AND id = p_primary_id::TEXT) THEN
+        RAISE EXCEPTION 'Cannot merge: the kept lead no longer exists';
+    END IF;
+
+    IF duplicate_source <> 'chatbot'
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = p_primary_id)
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = duplicate_id::UUID) THEN
+        RAISE EXCEPTION 'Cannot merge: both leads have been converted to projects';
+    END IF;
+
+    -- Apply the picked values to the kept lead
+    IF p_primary_source = 'splash' THEN
+        UPDATE splash_leads
+        SET first_name = COALESCE(SPLIT_PART(picked_name, ' ', 1), first_name),
+            -- A one-word name keeps the current surname
+            last_name = COALESCE(NULLIF(REGEXP_REPLACE(picked_name, '^\S+\s*', ''), ''), last_name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            street_address = COALESCE(picked_address, street_address)
+        WHERE id = p_primary_id;
+    ELSE
+        UPDATE contact_submissions
+        SET name = COALESCE(picked_name, name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            address = COALESCE(picked_address, address)
+        WHERE id = p_primary_id;
+    END IF;
+
+    IF duplicate_source = 'chatbot' THEN
+        UPDATE chatbot_conversations
+        SET merged_lead_id = p_primary_id, merged_lead_source = p_primary_source
+        WHERE id = duplicate_id::INTEGER;
+    ELSE
+        -- Move the duplicate's history over to the kept lead
+        UPDATE lead_activities SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE appointments SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_messages SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_conversations SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE bill_uploads SET lead_id = p_primary_id WHERE lead_id = duplicate_id::UUID;
+        UPDATE projects SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+
+        -- Keep the kept lead's CRM status and owner, or take the duplicate's
+        IF EXISTS (SELECT 1 FROM leads_status WHERE lead_id = p_primary_id) THEN
+            DELETE FROM leads_status WHERE lead_id = duplicate_id::UUID;
+        ELSE
+            UPDATE leads_status SET lead_id = p_primary_id, source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        END IF;
+
+        IF duplicate_source = 'splash' AND p_primary_source = 'splash' THEN
+            -- Fills the kept lead's empty fields and deletes the duplicate
+            PERFORM merge_duplicate_leads(p_primary_id, ARRAY[duplicate_id::UUID]);
+        ELSIF duplicate_source = 'splash' THEN
+            DELETE FROM splash_leads WHERE id = duplicate_id::UUID;
+        ELSE
+            DELETE FROM contact_submissions WHERE id = duplicate_id::UUID;
+        END IF;
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, lead_source, type, subject, body, metadata, actor_id, actor_name)
+    VALUES (
+        p_primary_id,
+        p_primary_source,
+        'note',
+        'Merged duplicate lead',
+        FORMAT('Merged duplicate %s record %s into this lead', duplicate_source, duplicate_id),
+        JSONB_BUILD_OBJECT(
+            'merged_from', JSONB_BUILD_OBJECT('id', duplicate_id, 'source', duplicate_source),
+            'fields', p_fields,
+            'snapshot', duplicate_snapshot
+        ),
+        p_merged_by,
+        p_merged_by_name
+    );
+
+    UPDATE lead_duplicate_candidates
+    SET status = 'merged', resolved_at = NOW(), resolved_by = p_merged_by
+    WHERE id = p_candidate_id;
+
+    -- Other open pairs of the duplicate are found again against the kept lead
+    DELETE FROM lead_duplicate_candidates
+    WHERE status = 'open'
+    AND ((lead_source = duplicate_source AND lead_id = duplicate_id)
+        OR (match_source = duplicate_source AND match_id = duplicate_id));
+
+    PERFORM detect_lead_duplicates(p_primary_source, p_primary_id::TEXT);
+
+    RETURN p_primary_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue rows with both records side by side
+CREATE OR REPLACE VIEW crm_lead_duplicates AS
+SELECT
+    c.id,
+    c.score,
+    c.match_reasons,
+    c.status,
+    c.detected_at,
+    c.resolved_at,
+    c.resolved_by,
+    c.lead_id,
+    c.lead_source,
+    l.name AS lead_name,
+    l.email AS lead_email,
+    l.phone AS lead_phone,
+    l.address AS lead_address,
+    l.created_at AS lead_created_at,
+    c.match_id,
+    c.match_source,
+    m.name AS match_name,
+    m.email AS match_email,
+    m.phone AS match_phone,
+    m.address AS match_address,
+    m.created_at AS match_created_at
+FROM lead_duplicate_candidates c
+JOIN lead_duplicate_records l ON l.source = c.lead_source AND l.id = c.lead_id
+JOIN lead_duplicate_records m ON m.source = c.match_source AND m.id = c.match_id;
+
+-- Flag duplicates among existing records
+SELECT detect_lead_duplicates(source, id) FROM lead_duplicate_records;
+
+-- Enable RLS - only the service role reads and writes this table
+ALTER TABLE lead_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_duplicate_candidates"
+ON lead_duplicate_candidates FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+GRANT EXECUTE ON FUNCTION merge_crm_leads TO service_role;
+
+-- Add helpful comments
+COMMENT ON TABLE lead_duplicate_candidates IS 'Pairs of lead records that are likely the same person, reviewed in the CRM duplicates queue';
+COMMENT ON COLUMN lead_duplicate_candidates.lead_id IS 'ID of the record that was written when the match was found (TEXT: chatbot IDs are integers)';
+COMMENT ON COLUMN lead_duplicate_candidates.match_id IS 'ID of the existing record it matched';
+COMMENT ON COLUMN lead_duplicate_candidates.pair_key IS 'Order-independent key of the pair, so each pair is flagged once';
+COMMENT ON COLUMN lead_duplicate_candidates.score IS 'Match strength: phone 50, email 40, address 30, similar address 20, similar name 10';
+COMMENT ON COLUMN lead_duplicate_candidates.match_reasons IS 'Keys that matched: phone, email, address, similar_address, name';
+COMMENT ON COLUMN lead_duplicate_candidates.resolved_by IS 'Clerk user ID of the CRM user who merged or dismissed the pair';
+COMMENT ON COLUMN chatbot_conversations.merged_lead_id IS 'CRM lead this conversation was merged into from the duplicates queue';
+COMMENT ON VIEW lead_duplicate_records IS 'Splash leads, contact submissions and unmerged chatbot conversations with normalized match keys';
+COMMENT ON VIEW crm_lead_duplicates IS 'Duplicate candidates with both records side by side';
+COMMENT ON FUNCTION detect_lead_duplicates IS 'Flags likely duplicates of one record; run by triggers on every lead source';
+COMMENT ON FUNCTION merge_crm_leads IS 'Merges the other record of a duplicate pair into the kept lead, keeping its activity history';
@@ -0,0 +1,293 @@
+-- Lead Scoring Migration
+-- splash_leads.lead_score is calculated by the app-layer scoring engine (see
+-- src/lib/leadScoring.ts) from the factors configured in
+-- lead_scoring_factors, and recalculated whenever the lead, its bill uploads
+-- or the factors change. The per-factor points behind each score are kept in
+-- splash_leads.lead_score_breakdown so the CRM can explain it.
+--
+-- When the factors change every lead is flagged lead_score_stale in one
+-- statement, and the lead scoring job rescores the flagged leads in batches,
+-- writing each batch with save_lead_scores.
+--
+-- upsert_splash_lead no longer scores leads itself, and crm_leads gains the
+-- breakdown and a non-null sort_score so the leads list can sort by score.
+
+-- Create lead_scoring_factors table
+CREATE TABLE IF NOT EXISTS lead_scoring_factors (
+    factor VARCHAR(50) PRIMARY KEY CHECK (factor IN (
+        'average_monthly_bill', 'credit_score', 'shading', 'roof_condition', 'roof_material',
+        'homeowner_status', 'utility_company', 'timeline_preference', 'financing_preference', 'bill_uploaded'
+    )),
+    label VARCHAR(100) NOT NULL,
+    weight INTEGER NOT NULL DEFAULT 0 CHECK (weight >= 0 AND weight <= 100),
+    rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    updated_by VARCHAR(255), -- Clerk user ID
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Default factors; weights add up to 100. Multipliers (0-1) are applied to
+-- the weight; answers the forms don't collect yet score as neutral.
+INSERT INTO lead_scoring_factors (factor, label, weight, rules, sort_order) VALUES
+    ('average_monthly_bill', 'Average monthly bill', 20,
+     '{"bands": [{"min": 250, "value": 1}, {"min": 175, "value": 0.85}, {"min": 125, "value": 0.65}, {"min": 75, "value": 0.35}, {"min": 0, "value": 0.1}], "missing": 0.3}', 1),
+    ('credit_score', 'Credit range', 15,
+     '{"values": {"650+": 1, "above-650": 1, "600-650": 0.5, "between-600-and-650": 0.5, "below650": 0.2, "below-600": 0}, "other": 0.3, "missing": 0}', 2),
+    ('homeowner_status', 'Homeowner', 15,
+     '{"values": {"yes": 1, "no": 0}, "other": 0, "missing": 0}', 3),
+    ('shading', 'Shading', 10,
+     '{"values": {"none": 1, "no-shading": 1, "light-shading": 0.7, "heavy": 0.1, "heavy-shading": 0.1}, "other": 0.5, "missing": 0.3}', 4),
+    ('roof_condition', 'Roof condition', 8,
+     '{"values": {"excellent": 1, "good": 1, "fair": 0.6, "poor": 0.2, "needs_replacement": 0.1}, "other": 0.5, "missing": 0.5}', 5),
+    ('roof_material', 'Roof material', 4,
+     '{"values": {"asphalt_shingle": 1, "metal": 1, "tile": 0.6, "flat": 0.6, "slate": 0.3, "wood_shake": 0.2}, "other": 0.5, "missing": 0.5}', 6),
+    ('utility_company', 'Utility', 8,
+     '{"values": {"ameren illinois": 1, "ameren": 1, "comed": 0.8}, "other": 0.3, "missing": 0.3}', 7),
+    ('timeline_preference', 'Timeline', 8,
+     '{"values": {"asap": 1, "1-3_months": 0.8, "3-6_months": 0.5, "6-12_months": 0.3, "just_researching": 0.1}, "other": 0.5, "missing": 0.5}', 8),
+    ('financing_preference', 'Financing preference', 4,
+     '{"values": {"cash": 1, "loan": 0.9, "lease": 0.6, "ppa": 0.6, "unsure": 0.5}, "other": 0.5, "missing": 0.5}', 9),
+    ('bill_uploaded', 'Bill uploaded', 8,
+     '{"values": {"yes": 1, "no": 0}, "missing": 0}', 10)
+ON CONFLICT (factor) DO NOTHING;
+
+-- Score breakdown on splash_leads
+ALTER TABLE splash_leads
+ADD COLUMN IF NOT EXISTS lead_score_breakdown JSONB,
+ADD COLUMN IF NOT EXISTS lead_scored_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS lead_score_stale BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_splash_leads_lead_score ON splash_leads(lead_score DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_splash_leads_lead_score_stale ON splash_leads(id) WHERE lead_score_stale;
+
+-- Write a batch of scores ([{id, score, breakdown}]) in one statement. The
+-- leads stay stale if the factors changed after p_scored_at (when the batch
+-- read them), so the next run scores them again. Returns the leads updated.
+CREATE OR REPLACE FUNCTION save_lead_scores(p_scores JSONB, p_scored_at TIMESTAMPTZ)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    saved INTEGER;
+BEGIN
+    UPDATE splash_leads sl
+    SET
+        lead_score = s.score,
+        lead_score_breakdown = s.breakdown,
+        lead_scored_at = NOW(),
+        lead_score_stale = EXISTS (SELECT 1 FROM lead_scoring_factors WHERE updated_at > p_scored_at)
+    FROM jsonb_to_recordset(p_scores) AS s(id UUID, score INTEGER, breakdown JSONB)
+    WHERE sl.id = s.id;
+
+    GET DIAGNOSTICS saved = ROW_COUNT;
+    RETURN saved;
+END;
+$$;
+
+-- Scores are written by the scoring engine; stop computing them here
+CREATE OR REPLACE FUNCTION upsert_splash_lead(
+    p_session_id VARCHAR(100),
+    p_first_name VARCHAR(100),
+    p_last_name VARCHAR(100),
+    p_phone VARCHAR(20),
+    p_email VARCHAR(255),
+    p_street_address VARCHAR(500),
+    p_city VARCHAR(100),
+    p_state VARCHAR(50),
+    p_zip_code VARCHAR(10),
+    p_utility_company VARCHAR(200),
+    p_homeowner_status VARCHAR(10),
+    p_credit_score VARCHAR(20),
+    p_shading VARCHAR(20),
+    p_average_monthly_bill INTEGER DEFAULT NULL,
+    p_preferred_contact_time VARCHAR(50) DEFAULT NULL,
+    p_form_variant VARCHAR(50) DEFAULT 'standard',
+    p_is_partial BOOLEAN DEFAULT false,
+    p_current_step INTEGER DEFAULT NULL,
+    p_completed_at TIMESTAMPTZ DEFAULT NULL,
+    p_tcpa_consent BOOLEAN DEFAULT false,
+    p_sms_consent BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    lead_id UUID;
+BEGIN
+    -- Attempt to update existing record
+    UPDATE splash_leads
+    SET
+        first_name = COALESCE(p_first_name, first_name),
+        last_name = COALESCE(p_last_name, last_name),
+        phone = COALESCE(p_phone, phone),
+        email = COALESCE(p_email, email),
+        street_address = COALESCE(p_street_address, street_address),
+        city = COALESCE(p_city, city),
+        state = COALESCE(p_state, state),
+        zip_code = COALESCE(p_zip_code, zip_code),
+        utility_company = COALESCE(p_utility_company, utility_company),
+        homeowner_status = COALESCE(p_homeowner_status, homeowner_status),
+        credit_score = COALESCE(p_credit_score, credit_score),
+        shading = COALESCE(p_shading, shading),
+        average_monthly_bill = COALESCE(p_average_monthly_bill, average_monthly_bill),
+        preferred_contact_time = COALESCE(p_preferred_contact_time, preferred_contact_time),
+        form_variant = COALESCE(p_form_variant, form_variant),
+        is_partial = p_is_partial,
+        current_step = GREATEST(COALESCE(current_step, 0), COALESCE(p_current_step, 0)),
+        completed_at = COALESCE(p_completed_at, completed_at),
+        tcpa_consent = COALESCE(p_tcpa_consent, tcpa_consent),
+        sms_consent = COALESCE(p_sms_consent, sms_consent),
+        consent_timestamp = CASE
+            WHEN (p_tcpa_consent = true OR p_sms_consent = true) AND consent_timestamp IS NULL
+            THEN NOW()
+            ELSE consent_timestamp
+        END,
+        -- Update qualification status
+        qualification_status = CASE
+            WHEN p_is_partial = false THEN
+                CASE
+                    WHEN p_homeowner_status = 'no' THEN 'disqualified_homeowner'
+                    WHEN p_credit_score IN ('below-600', 'below600') THEN 'disqualified_credit'
+                    WHEN p_shading = 'heavy-shading' THEN 'qualified_conditional'
+                    WHEN p_homeowner_status = 'yes' AND p_credit_score IN ('above-650', '650+')
+                         AND p_shading IN ('no-shading', 'light-shading') THEN 'qualified'
+                    ELSE 'qualified_conditional'
+                END
+            ELSE 'pending'
+        END
+    WHERE session_id = p_session_id
+    RETURNING id INTO lead_id;
+
+    -- If no existing record, insert new one
+    IF NOT FOUND THEN
+        INSERT INTO splash_leads (
+            session_id, first_name, last_name, phone, email,
+            street_address, city, state, zip_code, utility_company,
+            homeowner_status, credit_score, shading, average_monthly_bill,
+            preferred_contact_time, form_variant, is_partial, current_step,
+            completed_at, tcpa_consent, sms_consent, consent_timestamp,
+            form_type, source, created_at,
+            qualification_status
+        )
+        VALUES (
+            p_session_id, p_first_name, p_last_name, p_phone, p_email,
+            p_street_address, p_city, p_state, p_zip_code, p_utility_company,
+            p_homeowner_status, p_credit_score, p_shading, p_average_monthly_bill,
+            p_preferred_contact_time, p_form_variant, p_is_partial, p_current_step,
+            p_completed_at, p_tcpa_consent, p_sms_consent,
+            CASE WHEN (p_tcpa_consent = true OR p_sms_consent = true) THEN NOW() ELSE NULL END,
+            'ameren_illinois_competitor', 'splash_page', NOW(),
+            -- Set initial qualification status
+            CASE
+                WHEN p_is_partial = false THEN
+                    CASE
+                        WHEN p_homeowner_status = 'no' THEN 'disqualified_homeowner'
+                        WHEN p_credit_score IN ('below-600', 'below600') THEN 'disqualified_credit'
+                        WHEN p_shading = 'heavy-shading' THEN 'qualified_conditional'
+                        WHEN p_homeowner_status = 'yes' AND p_credit_score IN ('above-650', '650+')
+                             AND p_shading IN ('no-shading', 'light-shading') THEN 'qualified'
+                        ELSE 'qualified_conditional'
+                    END
+                ELSE 'pending'
+            END
+        )
+        RETURNING id INTO lead_id;
+    END IF;
+
+    RETURN lead_id;
+END;
+$$;
+
+-- Leads view: score breakdown, and a non-null score to sort on
+-- (contact form leads are not scored and sort last)
+CREATE OR REPLACE VIEW crm_leads AS
+SELECT
+    sl.id,
+    'splash'::VARCHAR(20) AS source,
+    sl.first_name,
+    sl.last_name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', sl.first_name, sl.last_name)), ''), 'Unknown') AS name,
+    sl.email,
+    sl.phone,
+    sl.street_address,
+    sl.city,
+    sl.state,
+    sl.zip_code,
+    sl.utility_company,
+    sl.average_monthly_bill AS electric_bill,
+    sl.homeowner_status,
+    sl.credit_score,
+    sl.shading,
+    CASE
+        WHEN sl.is_partial THEN 'incomplete'
+        WHEN sl.homeowner_status = 'no' OR sl.credit_score = 'below650' OR sl.shading = 'heavy' THEN 'disqualified'
+        WHEN sl.homeowner_status = 'yes' AND sl.credit_score = '650+' AND sl.shading = 'none' THEN 'qualified'
+        ELSE 'pending'
+    END AS qualification_status,
+    COALESCE(ls.status, sl.status, 'new') AS status,
+    ls.owner_id,
+    sl.lead_score AS score,
+    sl.is_partial,
+    sl.form_variant,
+    NULL::TEXT AS message,
+    sl.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(sl.phone, ''), '\D', '', 'g') AS phone_digits,
+    sl.lead_score_breakdown AS score_breakdown,
+    sl.lead_scored_at AS scored_at,
+    COALESCE(sl.lead_score, 0) AS sort_score
+FROM splash_leads sl
+LEFT JOIN leads_status ls ON ls.lead_id = sl.id
+
+UNION ALL
+
+SELECT
+    cs.id,
+    'contact'::VARCHAR(20) AS source,
+    NULL AS first_name,
+    NULL AS last_name,
+    COALESCE(NULLIF(TRIM(cs.name), ''), 'Unknown') AS name,
+    cs.email,
+    cs.phone,
+    cs.address AS street_address,
+    NULL AS city,
+    NULL AS state,
+    NULL AS zip_code,
+    NULL AS utility_company,
+    NULL::INTEGER AS electric_bill,
+    CASE WHEN cs.homeowner THEN 'yes' ELSE 'no' END AS homeowner_status,
+    NULL AS credit_score,
+    NULL AS shading,
+    CASE WHEN cs.homeowner THEN 'pending' ELSE 'disqualified' END AS qualification_status,
+    COALESCE(ls.status, CASE WHEN cs.status = 'contacted' THEN 'contacted' ELSE 'new' END) AS status,
+    ls.owner_id,
+    NULL::INTEGER AS score,
+    false AS is_partial,
+    NULL AS form_variant,
+    cs.message,
+    cs.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(cs.phone, ''), '\D', '', 'g') AS phone_digits,
+    NULL::JSONB AS score_breakdown,
+    NULL::TIMESTAMPTZ AS scored_at,
+    -1 AS sort_score
+FROM contact_submissions cs
+LEFT JOIN leads_status ls ON ls.lead_id = cs.id;
+
+-- Enable RLS
+ALTER TABLE lead_scoring_factors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_scoring_factors"
+ON lead_scoring_factors FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE lead_scoring_factors IS 'Weighted factors the lead scoring engine combines into splash_leads.lead_score';
+COMMENT ON COLUMN lead_scoring_factors.weight IS 'Points the factor is worth; scores are scaled to 0-100 over the active factors';
+COMMENT ON COLUMN lead_scoring_factors.rules IS 'Multipliers (0-1) per answer (values) or numeric band (bands), plus other and missing';
+COMMENT ON COLUMN splash_leads.lead_score_breakdown IS 'Points per scoring factor behind lead_score';
+COMMENT ON COLUMN splash_leads.lead_scored_at IS 'When lead_score was last calculated';
+COMMENT ON COLUMN splash_leads.lead_score_stale IS 'Factors changed since lead_score was calculated; cleared by the lead scoring job';
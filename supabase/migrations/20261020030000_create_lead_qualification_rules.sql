@@ -0,0 +1,275 @@
+-- Lead Qualification Rules Migration
+-- Qualification for the splash funnel moves out of the two form components
+-- and upsert_splash_lead into a shared rule set evaluated on the server (see
+-- src/lib/leadQualification.ts). Rules can be edited from the CRM without a
+-- deploy.
+--
+-- A rule tests one answer and either disqualifies the lead or soft-fails it
+-- (accepted, but flagged for sales). splash_leads.qualification_status
+-- becomes qualified, disqualified or soft_fail with the deciding rule's
+-- reason code, written by the app on every save.
+
+-- Create lead_qualification_rules table
+CREATE TABLE IF NOT EXISTS lead_qualification_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(50) NOT NULL UNIQUE,
+    field VARCHAR(50) NOT NULL CHECK (field IN (
+        'utility_company', 'state', 'zip_code', 'homeowner_status',
+        'credit_score', 'shading', 'existing_solar', 'hoa_restrictions'
+    )),
+    operator VARCHAR(20) NOT NULL CHECK (operator IN ('in', 'not_in', 'contains_any', 'contains_none')),
+    match_values TEXT[] NOT NULL CHECK (cardinality(match_values) > 0),
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('disqualified', 'soft_fail')),
+    reason TEXT NOT NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    updated_by VARCHAR(255), -- Clerk user ID
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_qualification_rules_order ON lead_qualification_rules(sort_order) WHERE is_active;
+
+-- Default rules. Answers are compared trimmed and lowercased; booleans as
+-- 'true' / 'false'.
+INSERT INTO lead_qualification_rules (code, field, operator, match_values, outcome, reason, sort_order) VALUES
+    ('outside_territory', 'utility_company', 'contains_none', ARRAY['ameren'], 'disqualified', 'Utility is outside the Ameren Illinois territory', 1),
+    ('outside_state', 'state', 'not_in', ARRAY['il', 'illinois'], 'disqualified', 'Home is outside Illinois', 2),
+    ('not_homeowner', 'homeowner_status', 'in', ARRAY['no'], 'disqualified', 'Not a homeowner', 3),
+    ('low_credit', 'credit_score', 'in', ARRAY['below650', 'below-600', 'below600'], 'soft_fail', 'Credit score below 650', 4),
+    ('heavy_shading', 'shading', 'in', ARRAY['heavy', 'heavy-shading'], 'soft_fail', 'Heavy shading on the roof', 5),
+    ('existing_solar', 'existing_solar', 'in', ARRAY['true'], 'soft_fail', 'Home already has solar', 6),
+    ('hoa_restrictions', 'hoa_restrictions', 'in', ARRAY['true'], 'soft_fail', 'HOA restricts solar installations', 7)
+ON CONFLICT (code) DO NOTHING;
+
+-- Deciding rule on splash_leads
+ALTER TABLE splash_leads
+ADD COLUMN IF NOT EXISTS qualification_reason_code VARCHAR(50),
+ADD COLUMN IF NOT EXISTS qualification_reason TEXT;
+
+-- Re-check existing leads with the default rules above (disqualifying rules
+-- decide first)
+UPDATE splash_leads
+SET qualification_reason_code = CASE
+    WHEN NULLIF(TRIM(utility_company), '') IS NOT NULL AND LOWER(utility_company) NOT LIKE '%ameren%' THEN 'outside_territory'
+    WHEN NULLIF(TRIM(state), '') IS NOT NULL AND LOWER(TRIM(state)) NOT IN ('il', 'illinois') THEN 'outside_state'
+    WHEN LOWER(TRIM(homeowner_status)) = 'no' THEN 'not_homeowner'
+    WHEN LOWER(TRIM(credit_score)) IN ('below650', 'below-600', 'below600') THEN 'low_credit'
+    WHEN LOWER(TRIM(shading)) IN ('heavy', 'heavy-shading') THEN 'heavy_shading'
+    WHEN existing_solar THEN 'existing_solar'
+    WHEN hoa_restrictions THEN 'hoa_restrictions'
+END;
+
+UPDATE splash_leads sl
+SET qualification_status = COALESCE(r.outcome, 'qualified'),
+    qualification_reason = r.reason
+FROM splash_leads target
+LEFT JOIN lead_qualification_rules r ON r.code = target.qualification_reason_code
+WHERE target.id = sl.id;
+
+-- Qualification is written by the app; stop computing it here. A partial
+-- save arriving after the final submit (a beacon or a step save in flight)
+-- no longer reopens the lead.
+CREATE OR REPLACE FUNCTION upsert_splash_lead(
+    p_session_id VARCHAR(100),
+    p_first_name VARCHAR(100),
+    p_last_name VARCHAR(100),
+    p_phone VARCHAR(20),
+    p_email VARCHAR(255),
+    p_street_address VARCHAR(500),
+    p_city VARCHAR(100),
+    p_state VARCHAR(50),
+    p_zip_code VARCHAR(10),
+    p_utility_company VARCHAR(200),
+    p_homeowner_status VARCHAR(10),
+    p_credit_score VARCHAR(20),
+    p_shading VARCHAR(20),
+    p_average_monthly_bill INTEGER DEFAULT NULL,
+    p_preferred_contact_time VARCHAR(50) DEFAULT NULL,
+    p_form_variant VARCHAR(50) DEFAULT 'standard',
+    p_is_partial BOOLEAN DEFAULT false,
+    p_current_step INTEGER DEFAULT NULL,
+    p_completed_at TIMESTAMPTZ DEFAULT NULL,
+    p_tcpa_consent BOOLEAN DEFAULT false,
+    p_sms_consent BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    lead_id UUID;
+BEGIN
+    -- Attempt to update existing record
+    UPDATE splash_leads
+    SET
+        first_name = COALESCE(p_first_name, first_name),
+        last_name = COALESCE(p_last_name, last_name),
+        phone = COALESCE(p_phone, phone),
+        email = COALESCE(p_email, email),
+        street_address = COALESCE(p_street_address, street_address),
+        city = COALESCE(p_city, city),
+        state = COALESCE(p_state, state),
+        zip_code = COALESCE(p_zip_code, zip_code),
+        utility_company = COALESCE(p_utility_company, utility_company),
+        homeowner_status = COALESCE(p_homeowner_status, homeowner_status),
+        credit_score = COALESCE(p_credit_score, credit_score),
+        shading = COALESCE(p_shading, shading),
+        average_monthly_bill = COALESCE(p_average_monthly_bill, average_monthly_bill),
+        preferred_contact_time = COALESCE(p_preferred_contact_time, preferred_contact_time),
+        form_variant = COALESCE(p_form_variant, form_variant),
+        -- A completed lead stays completed when a late partial save lands
+        is_partial = splash_leads.is_partial AND p_is_partial,
+        current_step = GREATEST(COALESCE(current_step, 0), COALESCE(p_current_step, 0)),
+        completed_at = COALESCE(p_completed_at, completed_at),
+        tcpa_consent = COALESCE(p_tcpa_consent, tcpa_consent),
+        sms_consent = COALESCE(p_sms_consent, sms_consent),
+        consent_timestamp = CASE
+            WHEN (p_tcpa_consent = true OR p_sms_consent = true) AND consent_timestamp IS NULL
+            THEN NOW()
+            ELSE consent_timestamp
+        END
+    WHERE session_id = p_session_id
+    RETURNING id INTO lead_id;
+
+    -- If no existing record, insert new one
+    IF NOT FOUND THEN
+        INSERT INTO splash_leads (
+            session_id, first_name, last_name, phone, email,
+            street_address, city, state, zip_code, utility_company,
+            homeowner_status, credit_score, shading, average_monthly_bill,
+            preferred_contact_time, form_variant, is_partial, current_step,
+            completed_at, tcpa_consent, sms_consent, consent_timestamp,
+            form_type, source, created_at
+        )
+        VALUES (
+            p_session_id, p_first_name, p_last_name, p_phone, p_email,
+            p_street_address, p_city, p_state, p_zip_code, p_utility_company,
+            p_homeowner_status, p_credit_score, p_shading, p_average_monthly_bill,
+            p_preferred_contact_time, p_form_variant, p_is_partial, p_current_step,
+            p_completed_at, p_tcpa_consent, p_sms_consent,
+            CASE WHEN (p_tcpa_consent = true OR p_sms_consent = true) THEN NOW() ELSE NULL END,
+            'ameren_illinois_competitor', 'splash_page', NOW()
+        )
+        RETURNING id INTO lead_id;
+    END IF;
+
+    RETURN lead_id;
+END;
+$$;
+
+-- Analytics: soft fails replace the old conditional status
+CREATE OR REPLACE VIEW splash_leads_analytics AS
+SELECT
+    DATE(created_at) as date,
+    form_type,
+    form_variant,
+    COUNT(DISTINCT COALESCE(session_id, id::text)) as unique_sessions,
+    COUNT(*) as total_records,
+    COUNT(*) FILTER (WHERE is_partial = false) as completed_submissions,
+    COUNT(*) FILTER (WHERE is_partial = true) as partial_submissions,
+    COUNT(*) FILTER (WHERE qualification_status = 'qualified') as qualified_leads,
+    COUNT(*) FILTER (WHERE qualification_status = 'soft_fail') as conditional_leads,
+    COUNT(*) FILTER (WHERE qualification_status = 'disqualified') as disqualified_leads,
+    AVG(lead_score) FILTER (WHERE lead_score > 0) as avg_lead_score,
+    COUNT(*) FILTER (WHERE tcpa_consent = true) as tcpa_consented_leads,
+    COUNT(*) FILTER (WHERE sms_consent = true) as sms_consented_leads,
+    AVG(average_monthly_bill) FILTER (WHERE average_monthly_bill IS NOT NULL) as avg_monthly_bill
+FROM splash_leads
+GROUP BY DATE(created_at), form_type, form_variant
+ORDER BY date DESC, form_type, form_variant;
+
+-- Leads view: stored qualification with its reason code
+CREATE OR REPLACE VIEW crm_leads AS
+SELECT
+    sl.id,
+    'splash'::VARCHAR(20) AS source,
+    sl.first_name,
+    sl.last_name,
+    COALESCE(NULLIF(TRIM(CONCAT_WS(' ', sl.first_name, sl.last_name)), ''), 'Unknown') AS name,
+    sl.email,
+    sl.phone,
+    sl.street_address,
+    sl.city,
+    sl.state,
+    sl.zip_code,
+    sl.utility_company,
+    sl.average_monthly_bill AS electric_bill,
+    sl.homeowner_status,
+    sl.credit_score,
+    sl.shading,
+    CASE
+        WHEN sl.qualification_status = 'disqualified' THEN 'disqualified'
+        WHEN sl.is_partial THEN 'incomplete'
+        WHEN sl.qualification_status IN ('qualified', 'soft_fail') THEN sl.qualification_status
+        ELSE 'pending'
+    END AS qualification_status,
+    COALESCE(ls.status, sl.status, 'new') AS status,
+    ls.owner_id,
+    sl.lead_score AS score,
+    sl.is_partial,
+    sl.form_variant,
+    NULL::TEXT AS message,
+    sl.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(sl.phone, ''), '\D', '', 'g') AS phone_digits,
+    sl.lead_score_breakdown AS score_breakdown,
+    sl.lead_scored_at AS scored_at,
+    COALESCE(sl.lead_score, 0) AS sort_score,
+    sl.qualification_reason_code,
+    sl.qualification_reason
+FROM splash_leads sl
+LEFT JOIN leads_status ls ON ls.lead_id = sl.id
+
+UNION ALL
+
+SELECT
+    cs.id,
+    'contact'::VARCHAR(20) AS source,
+    NULL AS first_name,
+    NULL AS last_name,
+    COALESCE(NULLIF(TRIM(cs.name), ''), 'Unknown') AS name,
+    cs.email,
+    cs.phone,
+    cs.address AS street_address,
+    NULL AS city,
+    NULL AS state,
+    NULL AS zip_code,
+    NULL AS utility_company,
+    NULL::INTEGER AS electric_bill,
+    CASE WHEN cs.homeowner THEN 'yes' ELSE 'no' END AS homeowner_status,
+    NULL AS credit_score,
+    NULL AS shading,
+    CASE WHEN cs.homeowner THEN 'pending' ELSE 'disqualified' END AS qualification_status,
+    COALESCE(ls.status, CASE WHEN cs.status = 'contacted' THEN 'contacted' ELSE 'new' END) AS status,
+    ls.owner_id,
+    NULL::INTEGER AS score,
+    false AS is_partial,
+    NULL AS form_variant,
+    cs.message,
+    cs.created_at,
+    ls.updated_at AS status_updated_at,
+    REGEXP_REPLACE(COALESCE(cs.phone, ''), '\D', '', 'g') AS phone_digits,
+    NULL::JSONB AS score_breakdown,
+    NULL::TIMESTAMPTZ AS scored_at,
+    -1 AS sort_score,
+    CASE WHEN cs.homeowner THEN NULL ELSE 'not_homeowner' END AS qualification_reason_code,
+    CASE WHEN cs.homeowner THEN NULL ELSE 'Not a homeowner' END AS qualification_reason
+FROM contact_submissions cs
+LEFT JOIN leads_status ls ON ls.lead_id = cs.id;
+
+-- Enable RLS
+ALTER TABLE lead_qualification_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_qualification_rules"
+ON lead_qualification_rules FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE lead_qualification_rules IS 'Splash funnel qualification rules, evaluated on the server by src/lib/leadQualification.ts';
+COMMENT ON COLUMN lead_qualification_rules.code IS 'Reason code stored on leads the rule fails';
+COMMENT ON COLUMN lead_qualification_rules.outcome IS 'disqualified ends the funnel; soft_fail accepts the lead but flags it';
+COMMENT ON COLUMN splash_leads.qualification_status IS 'qualified, disqualified or soft_fail from the qualification rules';
+COMMENT ON COLUMN splash_leads.qualification_reason_code IS 'Code of the rule that decided qualification_status';
+COMMENT ON COLUMN splash_leads.qualification_reason IS 'Reason of the rule that decided qualification_status';
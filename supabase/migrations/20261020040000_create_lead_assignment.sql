@@ -0,0 +1,324 @@
+-- Lead Assignment Migration
+-- Routes new leads to sales reps (see src/lib/leadAssignment.ts) instead of
+-- leaving leads_status.owner_id empty until someone picks the lead up.
+--
+-- lead_routing_settings holds the strategy: round robin, weighted (by each
+-- rep's share of today's leads) or territory (by ZIP code or utility, with
+-- round robin among the rest when no territory matches). lead_routing_reps
+-- holds each rep's availability, weight, caps, territory and alert
+-- preferences; active sales users without a row take leads with the
+-- defaults. Every assignment, automatic or from the CRM, is logged in
+-- lead_assignments, which also drives the daily caps.
+--
+-- merge_crm_leads is redefined so a merged duplicate's assignments move to
+-- the kept lead.
+
+-- Routing settings (a single row)
+CREATE TABLE IF NOT EXISTS lead_routing_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    strategy VARCHAR(20) NOT NULL DEFAULT 'round_robin'
+        CHECK (strategy IN ('round_robin', 'weighted', 'territory')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by VARCHAR(255),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO lead_routing_settings (id) VALUES (TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+-- Per-rep routing
+CREATE TABLE IF NOT EXISTS lead_routing_reps (
+    crm_user_id UUID PRIMARY KEY REFERENCES crm_users(id) ON DELETE CASCADE,
+    is_available BOOLEAN NOT NULL DEFAULT TRUE,
+    weight INTEGER NOT NULL DEFAULT 1 CHECK (weight BETWEEN 1 AND 100),
+    daily_cap INTEGER CHECK (daily_cap IS NULL OR daily_cap >= 0),
+    open_lead_cap INTEGER CHECK (open_lead_cap IS NULL OR open_lead_cap >= 0),
+    zip_codes TEXT[] NOT NULL DEFAULT '{}',
+    utilities TEXT[] NOT NULL DEFAULT '{}',
+    phone VARCHAR(20),
+    notify_sms BOOLEAN NOT NULL DEFAULT TRUE,
+    notify_email BOOLEAN NOT NULL DEFAULT TRUE,
+    last_assigned_at TIMESTAMPTZ,
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Assignment log
+CREATE TABLE IF NOT EXISTS lead_assignments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    lead_id UUID NOT NULL,
+    lead_source VARCHAR(20) NOT NULL CHECK (lead_source IN ('splash', 'contact')),
+    owner_id VARCHAR(255), -- Clerk user ID of the new owner; null when unassigned
+    previous_owner_id VARCHAR(255),
+    method VARCHAR(20) NOT NULL CHECK (method IN ('round_robin', 'weighted', 'territory', 'manual')),
+    assigned_by VARCHAR(255), -- Clerk user ID, or null for automatic routing
+    notified_via TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_lead_id ON lead_assignments(lead_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_owner_id ON lead_assignments(owner_id, created_at DESC);
+
+-- When the current owner got the lead
+ALTER TABLE leads_status ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+
+-- Assignments go on the lead timeline
+ALTER TABLE lead_activities DROP CONSTRAINT IF EXISTS lead_activities_type_check;
+ALTER TABLE lead_activities ADD CONSTRAINT lead_activities_type_check
+    CHECK (type IN ('note', 'call', 'sms', 'email', 'status_change', 'assignment'));
+
+-- Open leads per owner, and leads assigned to them since p_since (daily caps)
+CREATE OR REPLACE FUNCTION lead_routing_load(p_since TIMESTAMPTZ)
+RETURNS TABLE (owner_id VARCHAR(255), open_leads BIGINT, assigned_since BIGINT) AS $$
+    SELECT
+        owners.owner_id,
+        (SELECT COUNT(*) FROM leads_status ls
+         WHERE ls.owner_id = owners.owner_id AND ls.status NOT IN ('closed', 'lost')) AS open_leads,
+        (SELECT COUNT(*) FROM lead_assignments la
+         WHERE la.owner_id = owners.owner_id AND la.created_at >= p_since) AS assigned_since
+    FROM (
+        SELECT owner_id FROM leads_status WHERE owner_id IS NOT NULL
+        UNION
+        SELECT owner_id FROM lead_assignments WHERE owner_id IS NOT NULL AND created_at >= p_since
+    ) owners;
+$$ LANGUAGE sql STABLE;
+
+-- Set a lead's owner without touching its status. With p_only_unowned the
+-- owner is only written while the lead has none, so concurrent routing of
+-- the same lead assigns it once. Returns whether the owner was written.
+CREATE OR REPLACE FUNCTION set_lead_owner(
+    p_lead_id UUID,
+    p_source VARCHAR(20),
+    p_owner_id VARCHAR(255),
+    p_updated_by VARCHAR(255),
+    p_only_unowned BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    written BOOLEAN;
+BEGIN
+    INSERT INTO leads_status (lead_id, source, owner_id, assigned_at, updated_at, updated_by)
+    VALUES (p_lead_id, p_source, p_owner_id, CASE WHEN p_owner_id IS NULL THEN NULL ELSE NOW() END, NOW(), p_updated_by)
+    ON CONFLICT (lead_id) DO UPDATE
+    SET owner_id = EXCLUDED.owner_id,
+        assigned_at = EXCLUDED.assigned_at,
+        updated_at = EXCLUDED.updated_at,
+        updated_by = EXCLUDED.updated_by
+    WHERE NOT p_only_unowned OR leads_status.owner_id IS NULL
+    RETURNING TRUE INTO written;
+
+    RETURN COALESCE(written, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rep alert templates
+INSERT INTO message_templates (key, channel, context, name, description, body) VALUES
+('lead_assigned_sms', 'sms', 'notification', 'Lead assigned text', 'Texted to a rep when a lead is assigned to them',
+ 'Quantum Solar: new lead assigned to you - [FullName], [Phone], [Address]. Lead ID [LeadId]')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO message_templates (key, channel, context, name, description, subject, body) VALUES
+('lead_assigned_email', 'email', 'notification', 'Lead assigned email', 'Emailed to a rep when a lead is assigned to them',
+ '📥 Lead assigned to you: [FullName]',
+ $tpl$<h2>📥 New Lead Assigned to You</h2>
+<p>Hi [RepName], this lead is now yours. Reach out as soon as you can.</p>
+<hr>
+[LeadDetails]
+<hr>
+<p><small>Lead ID: [LeadId]</small></p>
+<p><small>Timestamp: [Timestamp]</small></p>$tpl$)
+ON CONFLICT (key) DO NOTHING;
+
+-- The templates start with their copy as version 1
+INSERT INTO message_template_versions (template_id, version, subject, body, change_note)
+SELECT id, version, subject, body, 'Initial version'
+FROM message_templates
+WHERE key IN ('lead_assigned_sms', 'lead_assigned_email')
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Merging a duplicate lead also moves its assignment history to the kept
+-- lead (otherwise as in 20261020010000_create_lead_duplicate_detection.sql)
+CREATE OR REPLACE FUNCTION merge_crm_leads(
+    p_candidate_id UUID,
+    p_primary_source VARCHAR(20),
+    p_primary_id UUID,
+    p_fields JSONB,
+    p_merged_by VARCHAR(255),
+    p_merged_by_name VARCHAR(255) DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+    pair RECORD;
+    duplicate_source VARCHAR(20);
+    duplicate_id TEXT;
+    duplicate_snapshot JSONB;
+    picked_name TEXT := NULLIF(TRIM(p_fields->>'name'), '');
+    picked_email TEXT := NULLIF(TRIM(p_fields->>'email'), '');
+    picked_phone TEXT := NULLIF(TRIM(p_fields->>'phone'), '');
+    picked_address TEXT := NULLIF(TRIM(p_fields->>'street_address'), '');
+BEGIN
+    SELECT * INTO pair FROM lead_duplicate_candidates WHERE id = p_candidate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duplicate candidate % not found', p_candidate_id;
+    END IF;
+
+    IF pair.status <> 'open' THEN
+        RAISE EXCEPTION 'Cannot merge: this pair is already %', pair.status;
+    END IF;
+
+    IF p_primary_source NOT IN ('splash', 'contact') THEN
+        RAISE EXCEPTION 'Cannot merge: only a splash or contact lead can be kept';
+    END IF;
+
+    IF pair.lead_source = p_primary_source AND pair.lead_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.match_source;
+        duplicate_id := pair.match_id;
+    ELSIF pair.match_source = p_primary_source AND pair.match_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.lead_source;
+        duplicate_id := pair.lead_id;
+    ELSE
+        RAISE EXCEPTION 'Cannot merge: the kept lead is not part of this pair';
+    END IF;
+
+    -- Snapshot of the duplicate for the kept lead's timeline
+    IF duplicate_source = 'splash' THEN
+        SELECT TO_JSONB(sl) INTO duplicate_snapshot FROM splash_leads sl WHERE sl.id = duplicate_id::UUID;
+    ELSIF duplicate_source = 'contact' THEN
+        SELECT TO_JSONB(cs) INTO duplicate_snapshot FROM contact_submissions cs WHERE cs.id = duplicate_id::UUID;
+    ELSE
+        SELECT TO_JSONB(cc) - 'conversation_history' INTO duplicate_snapshot
+        FROM chatbot_conversations cc WHERE cc.id = duplicate_id::INTEGER AND cc.merged_lead_id IS NULL;
+    END IF;
+
+    IF duplicate_snapshot IS NULL THEN
+        RAISE EXCEPTION 'Cannot merge: the duplicate no longer exists';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM lead_duplicate_records WHERE source = p_primary_source AND id = p_primary_id::TEXT) THEN
+        RAISE EXCEPTION 'Cannot merge: the kept lead no longer exists';
+    END IF;
+
+    IF duplicate_source <> 'chatbot'
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = p_primary_id)
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = duplicate_id::UUID) THEN
+        RAISE EXCEPTION 'Cannot merge: both leads have been converted to projects';
+    END IF;
+
+    -- Apply the picked values to the kept lead
+    IF p_primary_source = 'splash' THEN
+        UPDATE splash_leads
+        SET first_name = COALESCE(SPLIT_PART(picked_name, ' ', 1), first_name),
+            -- A one-word name keeps the current surname
+            last_name = COALESCE(NULLIF(REGEXP_REPLACE(picked_name, '^\S+\s*', ''), ''), last_name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            street_address = COALESCE(picked_address, street_address)
+        WHERE id = p_primary_id;
+    ELSE
+        UPDATE contact_submissions
+        SET name = COALESCE(picked_name, name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            address = COALESCE(picked_address, address)
+        WHERE id = p_primary_id;
+    END IF;
+
+    IF duplicate_source = 'chatbot' THEN
+        UPDATE chatbot_conversations
+        SET merged_lead_id = p_primary_id, merged_lead_source = p_primary_source
+        WHERE id = duplicate_id::INTEGER;
+    ELSE
+        -- Move the duplicate's history over to the kept lead
+        UPDATE lead_activities SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE appointments SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_messages SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_conversations SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE bill_uploads SET lead_id = p_primary_id WHERE lead_id = duplicate_id::UUID;
+        UPDATE projects SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE lead_assignments SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+
+        -- Keep the kept lead's CRM status and owner, or take the duplicate's
+        IF EXISTS (SELECT 1 FROM leads_status WHERE lead_id = p_primary_id) THEN
+            DELETE FROM leads_status WHERE lead_id = duplicate_id::UUID;
+        ELSE
+            UPDATE leads_status SET lead_id = p_primary_id, source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        END IF;
+
+        IF duplicate_source = 'splash' AND p_primary_source = 'splash' THEN
+            -- Fills the kept lead's empty fields and deletes the duplicate
+            PERFORM merge_duplicate_leads(p_primary_id, ARRAY[duplicate_id::UUID]);
+        ELSIF duplicate_source = 'splash' THEN
+            DELETE FROM splash_leads WHERE id = duplicate_id::UUID;
+        ELSE
+            DELETE FROM contact_submissions WHERE id = duplicate_id::UUID;
+        END IF;
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, lead_source, type, subject, body, metadata, actor_id, actor_name)
+    VALUES (
+        p_primary_id,
+        p_primary_source,
+        'note',
+        'Merged duplicate lead',
+        FORMAT('Merged duplicate %s record %s into this lead', duplicate_source, duplicate_id),
+        JSONB_BUILD_OBJECT(
+            'merged_from', JSONB_BUILD_OBJECT('id', duplicate_id, 'source', duplicate_source),
+            'fields', p_fields,
+            'snapshot', duplicate_snapshot
+        ),
+        p_merged_by,
+        p_merged_by_name
+    );
+
+    UPDATE lead_duplicate_candidates
+    SET status = 'merged', resolved_at = NOW(), resolved_by = p_merged_by
+    WHERE id = p_candidate_id;
+
+    -- Other open pairs of the duplicate are found again against the kept lead
+    DELETE FROM lead_duplicate_candidates
+    WHERE status = 'open'
+    AND ((lead_source = duplicate_source AND lead_id = duplicate_id)
+        OR (match_source = duplicate_source AND match_id = duplicate_id));
+
+    PERFORM detect_lead_duplicates(p_primary_source, p_primary_id::TEXT);
+
+    RETURN p_primary_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE lead_routing_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_routing_reps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_routing_settings"
+ON lead_routing_settings FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to lead_routing_reps"
+ON lead_routing_reps FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to lead_assignments"
+ON lead_assignments FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE lead_routing_settings IS 'Lead routing strategy, applied by src/lib/leadAssignment.ts';
+COMMENT ON COLUMN lead_routing_settings.strategy IS 'round_robin: longest waiting rep; weighted: lowest share of today''s leads for the rep''s weight; territory: ZIP / utility match, then round robin';
+COMMENT ON TABLE lead_routing_reps IS 'Per-rep routing; active sales users without a row take leads with the defaults';
+COMMENT ON COLUMN lead_routing_reps.daily_cap IS 'Most leads assigned per day (Central time); null for no cap';
+COMMENT ON COLUMN lead_routing_reps.open_lead_cap IS 'Most leads owned that are not closed or lost; null for no cap';
+COMMENT ON COLUMN lead_routing_reps.zip_codes IS 'Territory ZIP codes or ZIP prefixes (e.g. 622)';
+COMMENT ON COLUMN lead_routing_reps.utilities IS 'Territory utilities, matched case-insensitively against the lead''s utility';
+COMMENT ON COLUMN lead_routing_reps.phone IS 'Mobile number for new lead texts';
+COMMENT ON TABLE lead_assignments IS 'Every lead assignment, automatic or from the CRM';
+COMMENT ON COLUMN lead_assignments.notified_via IS 'Channels (sms, email) the new owner was alerted on';
+COMMENT ON COLUMN leads_status.assigned_at IS 'When the current owner was assigned the lead';
@@ -0,0 +1,266 @@
+-- Lead SLA Migration
+-- Speed-to-lead policies (see src/lib/leadSla.ts): how soon a new lead must
+-- get its first touch, counted in business minutes when the policy only
+-- runs during business hours (Central time). The first touch is the
+-- earliest outbound call, text or email a rep logs in lead_activities, so
+-- nothing new is recorded to meet an SLA.
+--
+-- When a lead is still untouched past its target, the escalation job
+-- re-alerts the owner, then the managers once manager_escalation_minutes
+-- more have passed (straight away when the lead has no owner). Every alert
+-- is logged once per lead, policy and level in lead_sla_escalations.
+--
+-- merge_crm_leads is redefined so a merged duplicate's escalations move to
+-- the kept lead, without logging a level twice.
+
+-- Policies, first active match by sort_order wins
+CREATE TABLE IF NOT EXISTS lead_sla_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    source VARCHAR(20) CHECK (source IS NULL OR source IN ('splash', 'contact')),
+    target_minutes INTEGER NOT NULL CHECK (target_minutes > 0),
+    business_hours_only BOOLEAN NOT NULL DEFAULT TRUE,
+    business_start TIME NOT NULL DEFAULT '08:00',
+    business_end TIME NOT NULL DEFAULT '19:00',
+    business_days INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5,6}',
+    manager_escalation_minutes INTEGER NOT NULL DEFAULT 10 CHECK (manager_escalation_minutes >= 0),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (business_start < business_end),
+    CHECK (business_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7])
+);
+
+INSERT INTO lead_sla_policies (name, target_minutes) VALUES ('First touch', 5);
+
+-- Escalation log
+CREATE TABLE IF NOT EXISTS lead_sla_escalations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    lead_id UUID NOT NULL,
+    lead_source VARCHAR(20) NOT NULL CHECK (lead_source IN ('splash', 'contact')),
+    policy_id UUID NOT NULL REFERENCES lead_sla_policies(id) ON DELETE CASCADE,
+    level VARCHAR(20) NOT NULL CHECK (level IN ('owner', 'manager')),
+    notified_to TEXT[] NOT NULL DEFAULT '{}', -- Clerk user IDs
+    notified_via TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (lead_id, policy_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_sla_escalations_created_at ON lead_sla_escalations(created_at DESC);
+
+-- First touches are looked up by lead and type
+CREATE INDEX IF NOT EXISTS idx_lead_activities_lead_type ON lead_activities(lead_id, type, created_at);
+
+-- Escalation templates
+INSERT INTO message_templates (key, channel, context, name, description, body) VALUES
+('sla_breach_sms', 'sms', 'notification', 'Speed-to-lead breach text', 'Texted to the owner, then managers, when a new lead misses its first touch SLA',
+ 'Quantum Solar: [FullName] ([Phone]) has not been contacted yet. [NextSteps] Lead ID [LeadId]')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO message_templates (key, channel, context, name, description, subject, body) VALUES
+('sla_breach_email', 'email', 'notification', 'Speed-to-lead breach email', 'Emailed to the owner, then managers, when a new lead misses its first touch SLA',
+ '⏰ Lead waiting for first touch: [FullName]',
+ $tpl$<h2>⏰ Lead Waiting for First Touch</h2>
+<p>Hi [RepName], [FullName] has not been called, texted or emailed yet.</p>
+<p>[NextSteps]</p>
+<hr>
+[LeadDetails]
+<hr>
+<p><small>Lead ID: [LeadId]</small></p>
+<p><small>Timestamp: [Timestamp]</small></p>$tpl$)
+ON CONFLICT (key) DO NOTHING;
+
+-- The templates start with their copy as version 1
+INSERT INTO message_template_versions (template_id, version, subject, body, change_note)
+SELECT id, version, subject, body, 'Initial version'
+FROM message_templates
+WHERE key IN ('sla_breach_sms', 'sla_breach_email')
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- Merging a duplicate lead also moves its SLA escalations to the kept lead
+-- (otherwise as in 20261020040000_create_lead_assignment.sql)
+CREATE OR REPLACE FUNCTION merge_crm_leads(
+    p_candidate_id UUID,
+    p_primary_source VARCHAR(20),
+    p_primary_id UUID,
+    p_fields JSONB,
+    p_merged_by VARCHAR(255),
+    p_merged_by_name VARCHAR(255) DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+    pair RECORD;
+    duplicate_source VARCHAR(20);
+    duplicate_id TEXT;
+    duplicate_snapshot JSONB;
+    picked_name TEXT := NULLIF(TRIM(p_fields->>'name'), '');
+    picked_email TEXT := NULLIF(TRIM(p_fields->>'email'), '');
+    picked_phone TEXT := NULLIF(TRIM(p_fields->>'phone'), '');
+    picked_address TEXT := NULLIF(TRIM(p_fields->>'street_address'), '');
+BEGIN
+    SELECT * INTO pair FROM lead_duplicate_candidates WHERE id = p_candidate_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duplicate candidate % not found', p_candidate_id;
+    END IF;
+
+    IF pair.status <> 'open' THEN
+        RAISE EXCEPTION 'Cannot merge: this pair is already %', pair.status;
+    END IF;
+
+    IF p_primary_source NOT IN ('splash', 'contact') THEN
+        RAISE EXCEPTION 'Cannot merge: only a splash or contact lead can be kept';
+    END IF;
+
+    IF pair.lead_source = p_primary_source AND pair.lead_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.match_source;
+        duplicate_id := pair.match_id;
+    ELSIF pair.match_source = p_primary_source AND pair.match_id = p_primary_id::TEXT THEN
+        duplicate_source := pair.lead_source;
+        duplicate_id := pair.lead_id;
+    ELSE
+        RAISE EXCEPTION 'Cannot merge: the kept lead is not part of this pair';
+    END IF;
+
+    -- Snapshot of the duplicate for the kept lead's timeline
+    IF duplicate_source = 'splash' THEN
+        SELECT TO_JSONB(sl) INTO duplicate_snapshot FROM splash_leads sl WHERE sl.id = duplicate_id::UUID;
+    ELSIF duplicate_source = 'contact' THEN
+        SELECT TO_JSONB(cs) INTO duplicate_snapshot FROM contact_submissions cs WHERE cs.id = duplicate_id::UUID;
+    ELSE
+        SELECT TO_JSONB(cc) - 'conversation_history' INTO duplicate_snapshot
+        FROM chatbot_conversations cc WHERE cc.id = duplicate_id::INTEGER AND cc.merged_lead_id IS NULL;
+    END IF;
+
+    IF duplicate_snapshot IS NULL THEN
+        RAISE EXCEPTION 'Cannot merge: the duplicate no longer exists';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM lead_duplicate_records WHERE source = p_primary_source AND id = p_primary_id::TEXT) THEN
+        RAISE EXCEPTION 'Cannot merge: the kept lead no longer exists';
+    END IF;
+
+    IF duplicate_source <> 'chatbot'
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = p_primary_id)
+        AND EXISTS (SELECT 1 FROM projects WHERE lead_id = duplicate_id::UUID) THEN
+        RAISE EXCEPTION 'Cannot merge: both leads have been converted to projects';
+    END IF;
+
+    -- Apply the picked values to the kept lead
+    IF p_primary_source = 'splash' THEN
+        UPDATE splash_leads
+        SET first_name = COALESCE(SPLIT_PART(picked_name, ' ', 1), first_name),
+            -- A one-word name keeps the current surname
+            last_name = COALESCE(NULLIF(REGEXP_REPLACE(picked_name, '^\S+\s*', ''), ''), last_name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            street_address = COALESCE(picked_address, street_address)
+        WHERE id = p_primary_id;
+    ELSE
+        UPDATE contact_submissions
+        SET name = COALESCE(picked_name, name),
+            email = COALESCE(picked_email, email),
+            phone = COALESCE(picked_phone, phone),
+            address = COALESCE(picked_address, address)
+        WHERE id = p_primary_id;
+    END IF;
+
+    IF duplicate_source = 'chatbot' THEN
+        UPDATE chatbot_conversations
+        SET merged_lead_id = p_primary_id, merged_lead_source = p_primary_source
+        WHERE id = duplicate_id::INTEGER;
+    ELSE
+        -- Move the duplicate's history over to the kept lead
+        UPDATE lead_activities SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE appointments SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_messages SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE sms_conversations SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE bill_uploads SET lead_id = p_primary_id WHERE lead_id = duplicate_id::UUID;
+        UPDATE projects SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        UPDATE lead_assignments SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+
+        -- Escalations are logged once per lead, policy and level; the kept
+        -- lead's own escalations win over the duplicate's
+        DELETE FROM lead_sla_escalations d
+        WHERE d.lead_id = duplicate_id::UUID
+        AND EXISTS (
+            SELECT 1 FROM lead_sla_escalations k
+            WHERE k.lead_id = p_primary_id AND k.policy_id = d.policy_id AND k.level = d.level
+        );
+        UPDATE lead_sla_escalations SET lead_id = p_primary_id, lead_source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+
+        -- Keep the kept lead's CRM status and owner, or take the duplicate's
+        IF EXISTS (SELECT 1 FROM leads_status WHERE lead_id = p_primary_id) THEN
+            DELETE FROM leads_status WHERE lead_id = duplicate_id::UUID;
+        ELSE
+            UPDATE leads_status SET lead_id = p_primary_id, source = p_primary_source WHERE lead_id = duplicate_id::UUID;
+        END IF;
+
+        IF duplicate_source = 'splash' AND p_primary_source = 'splash' THEN
+            -- Fills the kept lead's empty fields and deletes the duplicate
+            PERFORM merge_duplicate_leads(p_primary_id, ARRAY[duplicate_id::UUID]);
+        ELSIF duplicate_source = 'splash' THEN
+            DELETE FROM splash_leads WHERE id = duplicate_id::UUID;
+        ELSE
+            DELETE FROM contact_submissions WHERE id = duplicate_id::UUID;
+        END IF;
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, lead_source, type, subject, body, metadata, actor_id, actor_name)
+    VALUES (
+        p_primary_id,
+        p_primary_source,
+        'note',
+        'Merged duplicate lead',
+        FORMAT('Merged duplicate %s record %s into this lead', duplicate_source, duplicate_id),
+        JSONB_BUILD_OBJECT(
+            'merged_from', JSONB_BUILD_OBJECT('id', duplicate_id, 'source', duplicate_source),
+            'fields', p_fields,
+            'snapshot', duplicate_snapshot
+        ),
+        p_merged_by,
+        p_merged_by_name
+    );
+
+    UPDATE lead_duplicate_candidates
+    SET status = 'merged', resolved_at = NOW(), resolved_by = p_merged_by
+    WHERE id = p_candidate_id;
+
+    -- Other open pairs of the duplicate are found again against the kept lead
+    DELETE FROM lead_duplicate_candidates
+    WHERE status = 'open'
+    AND ((lead_source = duplicate_source AND lead_id = duplicate_id)
+        OR (match_source = duplicate_source AND match_id = duplicate_id));
+
+    PERFORM detect_lead_duplicates(p_primary_source, p_primary_id::TEXT);
+
+    RETURN p_primary_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enable RLS
+ALTER TABLE lead_sla_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lead_sla_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to lead_sla_policies"
+ON lead_sla_policies FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to lead_sla_escalations"
+ON lead_sla_escalations FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Add helpful comments
+COMMENT ON TABLE lead_sla_policies IS 'Speed-to-lead policies, applied by src/lib/leadSla.ts';
+COMMENT ON COLUMN lead_sla_policies.source IS 'Lead source the policy applies to; null for all leads';
+COMMENT ON COLUMN lead_sla_policies.target_minutes IS 'Minutes from lead creation to first outbound call, text or email';
+COMMENT ON COLUMN lead_sla_policies.business_hours_only IS 'Count only minutes within business hours (Central time)';
+COMMENT ON COLUMN lead_sla_policies.business_days IS 'ISO weekdays counted as business days (1 = Monday, 7 = Sunday)';
+COMMENT ON COLUMN lead_sla_policies.manager_escalation_minutes IS 'Minutes past the target before managers are alerted';
+COMMENT ON TABLE lead_sla_escalations IS 'Alerts sent for leads past their SLA, at most one per lead, policy and level';
+COMMENT ON COLUMN lead_sla_escalations.notified_via IS 'Channels (sms, email) at least one recipient was alerted on';
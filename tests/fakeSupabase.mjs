@@ -0,0 +1,155 @@
+/**
+ * In-memory Supabase Client
+ *
+ * Just enough of the supabase-js query builder (select, insert, update,
+ * eq/lt/lte/in filters, order, limit, single/maybeSingle) for lib helpers
+ * to run against plain arrays of rows in tests.
+ */
+
+// Column defaults the database fills in
+const TABLE_DEFAULTS = {
+  sms_messages: () => ({
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 5,
+    next_attempt_at: new Date().toISOString(),
+    twilio_sid: null,
+    error_code: null,
+    last_error: null,
+    sent_at: null,
+    delivered_at: null,
+    failed_at: null
+  })
+};
+
+class FakeQuery {
+  constructor(db, table) {
+    this.db = db;
+    this.table = table;
+    this.operation = 'select';
+    this.values = null;
+    this.filters = [];
+    this.ordering = null;
+    this.maxRows = null;
+    this.mode = 'many';
+  }
+
+  select() {
+    return this;
+  }
+
+  insert(values) {
+    this.operation = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values) {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  eq(column, value) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  lt(column, value) {
+    this.filters.push(row => row[column] < value);
+    return this;
+  }
+
+  lte(column, value) {
+    this.filters.push(row => row[column] <= value);
+    return this;
+  }
+
+  in(column, values) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  order(column, { ascending = true } = {}) {
+    this.ordering = { column, ascending };
+    return this;
+  }
+
+  limit(count) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then(onFulfilled, onRejected) {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  execute() {
+    const rows = this.db.table(this.table);
+    let data;
+
+    if (this.operation === 'insert') {
+      const now = new Date().toISOString();
+      data = [this.values].flat().map(values => {
+        const row = {
+          id: this.db.nextId(this.table),
+          created_at: now,
+          updated_at: now,
+          ...TABLE_DEFAULTS[this.table]?.(),
+          ...values
+        };
+        rows.push(row);
+        return row;
+      });
+    } else {
+      data = rows.filter(row => this.filters.every(filter => filter(row)));
+      if (this.operation === 'update') {
+        data.forEach(row => Object.assign(row, this.values));
+      }
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      data = [...data].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    if (this.maxRows !== null) data = data.slice(0, this.maxRows);
+    data = data.map(row => ({ ...row }));
+
+    if (this.mode === 'many') return { data, error: null };
+    if (data.length > 1 || (this.mode === 'single' && data.length === 0)) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected one ${this.table} row, got ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+export function createFakeSupabase(seed = {}) {
+  const tables = Object.fromEntries(Object.entries(seed).map(([name, rows]) => [name, rows.map(row => ({ ...row }))]));
+  const counters = {};
+
+  const db = {
+    table(name) {
+      tables[name] ??= [];
+      return tables[name];
+    },
+    nextId(name) {
+      counters[name] = (counters[name] || 0) + 1;
+      return `${name}-${counters[name]}`;
+    },
+    from(name) {
+      return new FakeQuery(db, name);
+    }
+  };
+
+  return db;
+}
@@ -0,0 +1,8 @@
+/**
+ * Registers the TypeScript loader (./ts-loader.mjs) so tests can import
+ * src/lib modules directly: node --import ./tests/register-ts.mjs --test
+ */
+
+import { register } from 'node:module';
+
+register('./ts-loader.mjs', import.meta.url);
@@ -0,0 +1,291 @@
+/**
+ * SMS Queue Tests
+ *
+ * Runs the SMS queue (src/lib/smsQueue.ts) against the Twilio stand-in
+ * (scripts/twilio-stand-in.mjs) and an in-memory Supabase client: sends,
+ * retries with backoff, final failures, opt-outs and the signed status
+ * callbacks the stand-in posts back, handled as the status route does.
+ */
+
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { createFakeSupabase } from './fakeSupabase.mjs';
+
+const { verifyTwilioSignature } = await import('../src/lib/sms.ts');
+const {
+  SMS_STATUS_CALLBACK_PATH,
+  applySmsStatusCallback,
+  deliverSms,
+  getRetryDelay,
+  processSmsQueue,
+  queueSms,
+  sendQueuedSms
+} = await import('../src/lib/smsQueue.ts');
+
+const ACCOUNT_SID = 'ACtest';
+const AUTH_TOKEN = 'test-token';
+
+// The stand-in's test numbers: delivered, 503 (retried), 400 (rejected)
+// and accepted then undelivered
+const DELIVERED = '+15125550100';
+const UNAVAILABLE = '+15125550500';
+const INVALID = '+15125550400';
+const UNDELIVERED = '+15125550600';
+
+let db;
+let appServer;
+let standIn;
+let standInUrl;
+
+async function listen(server) {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return server.address().port;
+}
+
+async function freePort() {
+  const server = createServer();
+  const port = await listen(server);
+  server.close();
+  await once(server, 'close');
+  return port;
+}
+
+// Stands in for /api/integrations/twilio/status
+function handleStatusCallback(appUrl) {
+  return (req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const params = Object.fromEntries(new URLSearchParams(body));
+      if (req.url !== SMS_STATUS_CALLBACK_PATH || !verifyTwilioSignature(req.headers['x-twilio-signature'] ?? null, `${appUrl}${req.url}`, params)) {
+        res.writeHead(403).end();
+        return;
+      }
+
+      await applySmsStatusCallback(db, params.MessageSid, params.MessageStatus, params.ErrorCode || null);
+      res.writeHead(204).end();
+    });
+  };
+}
+
+async function waitFor(check, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+async function fetchStandInMessages() {
+  const response = await fetch(`${standInUrl}/messages`);
+  return (await response.json()).messages;
+}
+
+function findRow(table, id) {
+  return db.table(table).find(row => row.id === id);
+}
+
+function conversation(phone) {
+  return {
+    id: `conversation-${phone}`,
+    phone_number: phone,
+    lead_id: 'lead-1',
+    lead_source: 'splash',
+    project_id: null,
+    opted_out: false
+  };
+}
+
+function leadMessage(to) {
+  return { to, body: 'Your solar consultation is confirmed', leadId: 'lead-1', leadSource: 'splash' };
+}
+
+before(async () => {
+  appServer = createServer();
+  const appPort = await listen(appServer);
+  const appUrl = `http://127.0.0.1:${appPort}`;
+  appServer.on('request', handleStatusCallback(appUrl));
+
+  const standInPort = await freePort();
+  standInUrl = `http://127.0.0.1:${standInPort}`;
+
+  Object.assign(process.env, {
+    TWILIO_ACCOUNT_SID: ACCOUNT_SID,
+    TWILIO_AUTH_TOKEN: AUTH_TOKEN,
+    TWILIO_PHONE_NUMBER: '+15125559999',
+    TWILIO_API_URL: standInUrl,
+    TWILIO_WEBHOOK_BASE_URL: appUrl
+  });
+
+  standIn = spawn(process.execPath, ['scripts/twilio-stand-in.mjs'], {
+    env: { ...process.env, TWILIO_STAND_IN_PORT: String(standInPort) },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+
+  let output = '';
+  standIn.stdout.setEncoding('utf8');
+  await new Promise((resolve, reject) => {
+    standIn.stdout.on('data', chunk => {
+      output += chunk;
+      if (output.includes('listening')) resolve();
+    });
+    standIn.once('exit', code => reject(new Error(`Twilio stand-in exited with code ${code}`)));
+  });
+});
+
+after(async () => {
+  standIn?.kill();
+  appServer?.closeAllConnections();
+  appServer?.close();
+});
+
+beforeEach(() => {
+  db = createFakeSupabase({
+    sms_conversations: [DELIVERED, UNAVAILABLE, INVALID, UNDELIVERED].map(conversation)
+  });
+});
+
+describe('sending', () => {
+  test('sends a queued message and records delivery from the status callbacks', async () => {
+    const sms = await deliverSms(db, leadMessage(DELIVERED));
+
+    assert.equal(sms.status, 'queued');
+    assert.equal(sms.attempts, 1);
+    assert.match(sms.twilio_sid, /^SM/);
+    assert.ok(sms.sent_at);
+
+    const activity = findRow('lead_activities', sms.lead_activity_id);
+    assert.equal(activity.type, 'sms');
+    assert.equal(activity.delivery_status, 'sent');
+    assert.equal(activity.external_id, sms.twilio_sid);
+
+    const sent = (await fetchStandInMessages()).find(message => message.sid === sms.twilio_sid);
+    assert.equal(sent.to, DELIVERED);
+    assert.equal(sent.body, 'Your solar consultation is confirmed');
+
+    await waitFor(() => findRow('sms_messages', sms.id).status === 'delivered');
+    assert.ok(findRow('sms_messages', sms.id).delivered_at);
+  });
+
+  test('fails rejected numbers without retrying', async () => {
+    const sms = await deliverSms(db, leadMessage(INVALID));
+
+    assert.equal(sms.status, 'failed');
+    assert.equal(sms.attempts, 1);
+    assert.equal(sms.error_code, '21211');
+    assert.match(sms.last_error, /HTTP 400/);
+    assert.ok(sms.failed_at);
+    assert.equal(findRow('lead_activities', sms.lead_activity_id).delivery_status, 'failed');
+  });
+
+  test('does not queue messages to numbers that have opted out', async () => {
+    findRow('sms_conversations', `conversation-${DELIVERED}`).opted_out = true;
+
+    assert.equal(await queueSms(db, leadMessage(DELIVERED)), null);
+    assert.equal(db.table('sms_messages').length, 0);
+  });
+
+  test('fails queued messages to numbers that opted out before the send', async () => {
+    const queued = await queueSms(db, leadMessage(DELIVERED));
+    findRow('sms_conversations', `conversation-${DELIVERED}`).opted_out = true;
+    const sentBefore = (await fetchStandInMessages()).length;
+
+    const sms = await sendQueuedSms(db, queued);
+
+    assert.equal(sms.status, 'failed');
+    assert.equal(sms.attempts, 0);
+    assert.equal(sms.last_error, 'Number opted out of texts');
+    assert.equal((await fetchStandInMessages()).length, sentBefore);
+    assert.equal(findRow('lead_activities', sms.lead_activity_id).delivery_status, 'failed');
+  });
+});
+
+describe('retries', () => {
+  test('backs off exponentially up to an hour', () => {
+    assert.equal(getRetryDelay(1), 30 * 1000);
+    assert.equal(getRetryDelay(2), 60 * 1000);
+    assert.equal(getRetryDelay(3), 120 * 1000);
+    assert.equal(getRetryDelay(20), 60 * 60 * 1000);
+  });
+
+  test('retries server errors with backoff until max_attempts, then fails', async () => {
+    const sms = await deliverSms(db, leadMessage(UNAVAILABLE));
+
+    assert.equal(sms.status, 'pending');
+    assert.equal(sms.attempts, 1);
+    assert.equal(sms.error_code, '20503');
+    assert.match(sms.last_error, /HTTP 503/);
+    const firstDelay = Date.parse(sms.next_attempt_at) - Date.parse(sms.updated_at);
+    assert.ok(Math.abs(firstDelay - getRetryDelay(1)) < 1000, `first retry in ${firstDelay}ms`);
+
+    // Nothing is due until the backoff has passed
+    assert.deepEqual(await processSmsQueue(db), { due: 0, sent: 0, retrying: 0, failed: 0 });
+
+    for (let attempt = 2; attempt < sms.max_attempts; attempt++) {
+      const later = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      assert.deepEqual(await processSmsQueue(db, 50, later), { due: 1, sent: 0, retrying: 1, failed: 0 });
+
+      const row = findRow('sms_messages', sms.id);
+      assert.equal(row.attempts, attempt);
+      const delay = Date.parse(row.next_attempt_at) - Date.parse(row.updated_at);
+      assert.ok(Math.abs(delay - getRetryDelay(attempt)) < 1000, `retry ${attempt} in ${delay}ms`);
+    }
+
+    const later = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    assert.deepEqual(await processSmsQueue(db, 50, later), { due: 1, sent: 0, retrying: 0, failed: 1 });
+
+    const row = findRow('sms_messages', sms.id);
+    assert.equal(row.status, 'failed');
+    assert.equal(row.attempts, sms.max_attempts);
+    assert.ok(row.failed_at);
+    assert.equal(findRow('lead_activities', sms.lead_activity_id).delivery_status, 'failed');
+  });
+
+  test('sends messages left in sending by a worker that died', async () => {
+    const queued = await queueSms(db, leadMessage(DELIVERED));
+    Object.assign(findRow('sms_messages', queued.id), {
+      status: 'sending',
+      attempts: 1,
+      updated_at: new Date(Date.now() - 15 * 60 * 1000).toISOString()
+    });
+
+    assert.deepEqual(await processSmsQueue(db), { due: 1, sent: 1, retrying: 0, failed: 0 });
+
+    const row = findRow('sms_messages', queued.id);
+    assert.equal(row.status, 'queued');
+    assert.equal(row.attempts, 2);
+  });
+});
+
+describe('status callbacks', () => {
+  test('records undelivered messages and their error code', async () => {
+    const sms = await deliverSms(db, leadMessage(UNDELIVERED));
+    assert.equal(sms.status, 'queued');
+
+    await waitFor(() => findRow('sms_messages', sms.id).status === 'undelivered');
+
+    const row = findRow('sms_messages', sms.id);
+    assert.equal(row.error_code, '30003');
+    assert.ok(row.failed_at);
+    assert.equal(findRow('lead_activities', sms.lead_activity_id).delivery_status, 'failed');
+  });
+
+  test('never moves a message back to an earlier status', async () => {
+    const sms = await deliverSms(db, leadMessage(DELIVERED));
+    await waitFor(() => findRow('sms_messages', sms.id).status === 'delivered');
+
+    assert.equal(await applySmsStatusCallback(db, sms.twilio_sid, 'sent', null), true);
+    assert.equal(findRow('sms_messages', sms.id).status, 'delivered');
+  });
+
+  test('ignores unknown messages and statuses', async () => {
+    assert.equal(await applySmsStatusCallback(db, 'SMunknown', 'delivered', null), false);
+
+    const sms = await deliverSms(db, leadMessage(DELIVERED));
+    assert.equal(await applySmsStatusCallback(db, sms.twilio_sid, 'receiving', null), false);
+  });
+});
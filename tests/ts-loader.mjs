@@ -0,0 +1,40 @@
+/**
+ * TypeScript Test Loader
+ *
+ * Node module hooks that transpile src .ts files with the TypeScript
+ * compiler (types are stripped, nothing is type-checked; run tsc for that)
+ * and resolve the extensionless and @/ imports the app uses.
+ */
+
+import { readFile } from 'node:fs/promises';
+import ts from 'typescript';
+
+const srcUrl = new URL('../src/', import.meta.url);
+
+export async function resolve(specifier, context, nextResolve) {
+  if (specifier.startsWith('@/')) {
+    return resolve(new URL(specifier.slice(2), srcUrl).href, context, nextResolve);
+  }
+
+  const isTsImport = context.parentURL?.endsWith('.ts') && (specifier.startsWith('.') || specifier.startsWith('file:'));
+  if (isTsImport && !/\.[cm]?[jt]s$/.test(specifier)) {
+    return nextResolve(`${specifier}.ts`, context);
+  }
+
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith('.ts')) return nextLoad(url, context);
+
+  const source = await readFile(new URL(url), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: url,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022
+    }
+  });
+
+  return { format: 'module', source: outputText, shortCircuit: true };
+}